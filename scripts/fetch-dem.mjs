@@ -0,0 +1,76 @@
+/**
+ * Download SRTM elevation tiles for terrain analysis into public/dem
+ * Run with: node scripts/fetch-dem.mjs [TILE...]   (e.g. N49E019)
+ *
+ * Tiles come from the public AWS Terrain Tiles dataset (skadi layout,
+ * gzipped 1-arc-second .hgt, no account needed). By default they are
+ * thinned to 3 arc seconds (1201×1201, ~2.9 MB per tile) so the app stays
+ * light offline; pass --full to keep 1 arc second (3601×3601, ~25 MB).
+ *
+ * Env: DEM_SOURCE_URL (default https://s3.amazonaws.com/elevation-tiles-prod/skadi)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const demDir = path.join(__dirname, '..', 'public', 'dem');
+const sourceUrl = (process.env.DEM_SOURCE_URL ?? 'https://s3.amazonaws.com/elevation-tiles-prod/skadi').replace(/\/$/, '');
+
+// Cells covering the built-in regions: Beskidy and western Tatry (N49E019),
+// eastern Tatry (N49E020), Karkonosze (N50E015)
+const DEFAULT_TILES = ['N49E019', 'N49E020', 'N50E015'];
+
+const args = process.argv.slice(2);
+const full = args.includes('--full');
+const tiles = args.filter((arg) => !arg.startsWith('--'));
+
+/**
+ * Keep every third sample of a 3601×3601 tile (1" → 3")
+ */
+function thin(buffer) {
+  const size = Math.round(Math.sqrt(buffer.length / 2));
+  if (size !== 3601) return buffer;
+
+  const out = Buffer.alloc(1201 * 1201 * 2);
+  for (let row = 0; row < 1201; row++) {
+    for (let col = 0; col < 1201; col++) {
+      buffer.copy(out, (row * 1201 + col) * 2, (row * 3 * size + col * 3) * 2, (row * 3 * size + col * 3) * 2 + 2);
+    }
+  }
+  return out;
+}
+
+async function fetchTile(name) {
+  const url = `${sourceUrl}/${name.slice(0, 3)}/${name}.hgt.gz`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url}: HTTP ${response.status}`);
+  }
+
+  const hgt = zlib.gunzipSync(Buffer.from(await response.arrayBuffer()));
+  const data = full ? hgt : thin(hgt);
+  fs.writeFileSync(path.join(demDir, `${name}.hgt`), data);
+  console.log(`${name}.hgt  ${(data.length / 1e6).toFixed(1)} MB`);
+}
+
+fs.mkdirSync(demDir, { recursive: true });
+
+let failed = false;
+for (const name of (tiles.length > 0 ? tiles : DEFAULT_TILES).map((t) => t.toUpperCase())) {
+  if (!/^[NS]\d{2}[EW]\d{3}$/.test(name)) {
+    console.error(`Invalid tile name: ${name}`);
+    failed = true;
+    continue;
+  }
+  try {
+    await fetchTile(name);
+  } catch (error) {
+    console.error(`Failed to fetch ${name}:`, error.message);
+    failed = true;
+  }
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,108 @@
+/**
+ * Local push service for testing the send-push function
+ * Run with: node scripts/mock-push-endpoint.mjs
+ *
+ * Prints a subscription to hand to send-push (test mode), then decrypts and
+ * prints every message it receives. Paths under /gone/ answer 410 like an
+ * expired subscription.
+ *
+ * Env: PORT (default 8787), PUSH_HOST (host the function reaches this
+ * server at; use host.docker.internal for the local Supabase stack)
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+
+const port = Number(process.env.PORT ?? 8787);
+const host = process.env.PUSH_HOST ?? 'localhost';
+
+// "Browser" keys of the mock subscription
+const ecdh = crypto.createECDH('prime256v1');
+const uaPublic = ecdh.generateKeys();
+const authSecret = crypto.randomBytes(16);
+
+const b64url = (buffer) => Buffer.from(buffer).toString('base64url');
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+/**
+ * Decrypt an aes128gcm body (RFC 8291)
+ */
+function decrypt(body) {
+  const salt = body.subarray(0, 16);
+  const idLength = body[20];
+  const asPublic = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const ecdhSecret = ecdh.computeSecret(asPublic);
+  const prkKey = hmac(authSecret, ecdhSecret);
+  const ikm = hmac(prkKey, Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic, Buffer.from([1])]));
+  const prk = hmac(salt, ikm);
+  const cek = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0\x01')).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0\x01')).subarray(0, 12);
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', cek, nonce);
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+  // Strip the padding delimiter of the last record
+  return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString('utf8');
+}
+
+/**
+ * Check the VAPID JWT signature against the key sent along with it
+ */
+function verifyVapid(header) {
+  const match = /^vapid t=([^,]+),\s*k=(.+)$/.exec(header ?? '');
+  if (!match) return 'missing';
+
+  const [token, publicKey] = [match[1], match[2]];
+  const [encodedHeader, encodedClaims, signature] = token.split('.');
+  const raw = Buffer.from(publicKey, 'base64url');
+  const key = crypto.createPublicKey({
+    key: { kty: 'EC', crv: 'P-256', x: b64url(raw.subarray(1, 33)), y: b64url(raw.subarray(33, 65)) },
+    format: 'jwk',
+  });
+  const valid = crypto.verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedClaims}`),
+    { key, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url')
+  );
+  const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8'));
+  return valid ? `valid (sub ${claims.sub})` : 'INVALID';
+}
+
+const server = http.createServer((req, res) => {
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    if (req.url.startsWith('/gone/')) {
+      console.log(`${req.url}: 410 Gone`);
+      res.writeHead(410).end();
+      return;
+    }
+
+    try {
+      const vapid = verifyVapid(req.headers.authorization);
+      const payload = decrypt(Buffer.concat(chunks));
+      console.log(`${req.url}: VAPID ${vapid}, TTL ${req.headers.ttl}, urgency ${req.headers.urgency}`);
+      console.log(payload);
+      res.writeHead(vapid.startsWith('valid') ? 201 : 403).end();
+    } catch (error) {
+      console.error(`${req.url}: cannot decrypt - ${error.message}`);
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(port, () => {
+  const subscription = {
+    endpoint: `http://${host}:${port}/push/mock`,
+    keys: { p256dh: b64url(uaPublic), auth: b64url(authSecret) },
+  };
+  console.log('Mock push endpoint listening. Subscription:');
+  console.log(JSON.stringify(subscription));
+});
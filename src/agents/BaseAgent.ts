@@ -2,12 +2,18 @@
  * Base Agent Interface and Abstract Class
  *
  * All agents in SkitourScout extend this base class to ensure
- * consistent behavior, logging, and error handling.
+ * consistent behavior, logging, error handling and response caching.
  *
  * @module agents/BaseAgent
  */
 
-import type { AgentResult, AgentInfo, AgentStatus } from '@/types';
+import type { AgentResult, AgentInfo, AgentStatus, CircuitBreakerInfo } from '@/types';
+import {
+  getCachedResponse,
+  setCachedResponse,
+  clearAgentCache,
+  type CachedResponse,
+} from '@/services/agentCache';
 
 /**
  * Configuration options for agent initialization
@@ -21,12 +27,34 @@ export interface AgentConfig {
   description: string;
   /** Whether agent is enabled */
   enabled?: boolean;
-  /** Cache TTL in milliseconds */
+  /** Cache TTL in milliseconds (0 disables caching) */
   cacheTtl?: number;
+  /** How long after the TTL stale data is still served while it is refreshed in the background (ms) */
+  staleWhileRevalidate?: number;
+  /** Retry, timeout and circuit breaker policy (defaults to a single attempt) */
+  resilience?: ResiliencePolicy;
   /** Custom configuration */
   options?: Record<string, unknown>;
 }
 
+/**
+ * How an agent copes with a flaky upstream
+ */
+export interface ResiliencePolicy {
+  /** Additional attempts after a failure */
+  retries?: number;
+  /** Delay before the first retry, doubled on each further one (ms) */
+  backoffBase?: number;
+  /** Upper bound of a single backoff delay (ms) */
+  backoffMax?: number;
+  /** Abort an attempt that takes longer than this (ms, 0 = no limit) */
+  attemptTimeout?: number;
+  /** Consecutive failed runs that open the circuit breaker (0 = no breaker) */
+  breakerThreshold?: number;
+  /** How long an open breaker skips calls before trying again (ms) */
+  breakerCooldown?: number;
+}
+
 /**
  * Agent execution context
  */
@@ -41,6 +69,52 @@ export interface AgentContext {
   metadata?: Record<string, unknown>;
 }
 
+/** Cached responses of all agent instances, on top of IndexedDB */
+const memoryCache = new Map<string, CachedResponse>();
+
+/** Runs in progress, so identical concurrent requests share one fetch */
+const inflight = new Map<string, Promise<AgentResult<unknown>>>();
+
+/** Breaker state per agent id, shared by all instances calling the same upstream */
+const breakers = new Map<string, CircuitBreakerInfo>();
+
+/**
+ * Wait for a delay, rejecting early when the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * JSON with sorted object keys, so equal inputs give equal cache keys
+ */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+}
+
 /**
  * Abstract base class for all agents
  *
@@ -78,6 +152,7 @@ export abstract class BaseAgent<TInput = void, TOutput = unknown> {
       status: this.status,
       lastRun: this.lastRun,
       lastError: this.lastError,
+      circuit: this.hasBreaker() ? this.breakerState() : undefined,
     };
   }
 
@@ -110,7 +185,9 @@ export abstract class BaseAgent<TInput = void, TOutput = unknown> {
   ): Promise<TOutput>;
 
   /**
-   * Run the agent with error handling and timing
+   * Run the agent, serving results from the cache while they are within
+   * cacheTtl. Stale results within staleWhileRevalidate are returned at
+   * once and refreshed in the background.
    */
   async run(input: TInput, context: AgentContext): Promise<AgentResult<TOutput>> {
     if (!this.isEnabled()) {
@@ -123,16 +200,257 @@ export abstract class BaseAgent<TInput = void, TOutput = unknown> {
       };
     }
 
+    const ttl = this.config.cacheTtl ?? 0;
+    if (ttl <= 0) {
+      return this.runUncached(input, context);
+    }
+
+    const key = this.cacheKey(input, context);
+    const pending = inflight.get(key);
+    if (pending) {
+      return pending as Promise<AgentResult<TOutput>>;
+    }
+
+    const cached = await this.readCache(key);
+    if (cached) {
+      const age = Date.now() - cached.storedAt;
+      if (age < ttl) {
+        return this.cachedResult(cached, age, false);
+      }
+      if (age < ttl + (this.config.staleWhileRevalidate ?? 0)) {
+        // Not tied to the caller's signal - the refresh outlives this run
+        void this.fetchAndCache(key, input, { ...context, signal: undefined });
+        return this.cachedResult(cached, age, true);
+      }
+    }
+
+    const result = await this.fetchAndCache(key, input, context);
+    if (!result.success && cached && !context.signal?.aborted) {
+      // Upstream failing - older data beats none
+      this.warn('Serving cached data after failure:', result.error);
+      return { ...this.cachedResult(cached, Date.now() - cached.storedAt, true), error: result.error };
+    }
+    return result;
+  }
+
+  /**
+   * Remove cached responses of one agent, or of all agents
+   */
+  static async clearCache(agentId?: string): Promise<void> {
+    for (const [key, entry] of memoryCache) {
+      if (!agentId || entry.agentId === agentId) {
+        memoryCache.delete(key);
+      }
+    }
+    try {
+      await clearAgentCache(agentId);
+    } catch {
+      // IndexedDB not available
+    }
+  }
+
+  /**
+   * Cache key: agent id, input, agent options and the context fields that
+   * change results
+   */
+  private cacheKey(input: TInput, context: AgentContext): string {
+    return `${this.config.id}:${stableStringify({
+      input,
+      options: this.config.options,
+      region: context.region,
+      llmEnabled: context.llmEnabled,
+    })}`;
+  }
+
+  private async readCache(key: string): Promise<CachedResponse<TOutput> | null> {
+    const memory = memoryCache.get(key);
+    if (memory) {
+      return memory as CachedResponse<TOutput>;
+    }
+
+    try {
+      const stored = await getCachedResponse<TOutput>(key);
+      if (stored) {
+        memoryCache.set(key, stored);
+      }
+      return stored;
+    } catch {
+      // IndexedDB not available - memory cache only
+      return null;
+    }
+  }
+
+  private cachedResult(
+    cached: CachedResponse<TOutput>,
+    age: number,
+    stale: boolean
+  ): AgentResult<TOutput> {
+    return {
+      success: true,
+      data: cached.data,
+      duration: 0,
+      timestamp: new Date().toISOString(),
+      agentId: this.config.id,
+      fromCache: true,
+      cacheAge: age,
+      stale,
+    };
+  }
+
+  /**
+   * Execute once per key and cache successful, non-empty results
+   * (a null report usually means the source was down)
+   */
+  private fetchAndCache(
+    key: string,
+    input: TInput,
+    context: AgentContext
+  ): Promise<AgentResult<TOutput>> {
+    const pending = inflight.get(key);
+    if (pending) {
+      return pending as Promise<AgentResult<TOutput>>;
+    }
+
+    const promise = this.runUncached(input, context)
+      .then((result) => {
+        if (result.success && result.data !== null && result.data !== undefined) {
+          const entry: CachedResponse<TOutput> = {
+            key,
+            agentId: this.config.id,
+            data: result.data,
+            storedAt: Date.now(),
+          };
+          memoryCache.set(key, entry);
+          setCachedResponse(entry).catch((error) => {
+            this.warn('Could not persist cached response:', error);
+          });
+        }
+        return { ...result, fromCache: false, cacheAge: 0 };
+      })
+      .finally(() => {
+        inflight.delete(key);
+      });
+
+    inflight.set(key, promise);
+    return promise;
+  }
+
+  private hasBreaker(): boolean {
+    return (this.config.resilience?.breakerThreshold ?? 0) > 0;
+  }
+
+  /**
+   * Breaker state of this agent; an open breaker past its cooldown is half-open
+   */
+  private breakerState(): CircuitBreakerInfo {
+    const breaker = breakers.get(this.config.id) ?? { state: 'closed', failures: 0 };
+    if (breaker.state === 'open' && breaker.retryAt && Date.now() >= new Date(breaker.retryAt).getTime()) {
+      return { ...breaker, state: 'half_open' };
+    }
+    return breaker;
+  }
+
+  private recordSuccess(): void {
+    if (this.hasBreaker()) {
+      breakers.set(this.config.id, { state: 'closed', failures: 0 });
+    }
+  }
+
+  private recordFailure(error: string): void {
+    if (!this.hasBreaker()) return;
+
+    const { breakerThreshold = 0, breakerCooldown = 60 * 1000 } = this.config.resilience ?? {};
+    const breaker = this.breakerState();
+    const failures = breaker.failures + 1;
+
+    // A failed trial call reopens the breaker at once
+    if (breaker.state === 'half_open' || failures >= breakerThreshold) {
+      const now = Date.now();
+      breakers.set(this.config.id, {
+        state: 'open',
+        failures,
+        openedAt: new Date(now).toISOString(),
+        retryAt: new Date(now + breakerCooldown).toISOString(),
+        lastError: error,
+      });
+      this.warn(`Circuit opened after ${failures} failures, retrying in ${Math.round(breakerCooldown / 1000)}s`);
+    } else {
+      breakers.set(this.config.id, { ...breaker, failures });
+    }
+  }
+
+  /**
+   * Execute with the retry policy: each attempt gets its own timeout,
+   * failures are retried after an exponential backoff with full jitter.
+   * Cancellation by the caller is never retried.
+   */
+  private async executeWithRetry(input: TInput, context: AgentContext): Promise<TOutput> {
+    const {
+      retries = 0,
+      backoffBase = 500,
+      backoffMax = 8000,
+      attemptTimeout = 0,
+    } = this.config.resilience ?? {};
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      context.signal?.addEventListener('abort', abort, { once: true });
+      const timer = attemptTimeout > 0 ? setTimeout(abort, attemptTimeout) : undefined;
+
+      try {
+        if (context.signal?.aborted) abort();
+        return await this.executeInternal(input, { ...context, signal: controller.signal });
+      } catch (error) {
+        if (context.signal?.aborted) throw error;
+
+        const timedOut = controller.signal.aborted;
+        const message = timedOut
+          ? `Timed out after ${attemptTimeout / 1000}s`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+        if (attempt >= retries) {
+          throw timedOut ? new Error(message) : error;
+        }
+
+        const delay = Math.random() * Math.min(backoffMax, backoffBase * 2 ** attempt);
+        this.warn(`Attempt ${attempt + 1}/${retries + 1} failed (${message}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay, context.signal);
+      } finally {
+        clearTimeout(timer);
+        context.signal?.removeEventListener('abort', abort);
+      }
+    }
+  }
+
+  /**
+   * Run the agent with error handling, retries and timing
+   */
+  private async runUncached(input: TInput, context: AgentContext): Promise<AgentResult<TOutput>> {
     const startTime = Date.now();
+
+    const breaker = this.breakerState();
+    if (breaker.state === 'open') {
+      return {
+        success: false,
+        error: `${this.config.name} paused after repeated failures until ${breaker.retryAt}`,
+        duration: 0,
+        timestamp: new Date().toISOString(),
+        agentId: this.config.id,
+      };
+    }
+
     this.status = 'running';
     this.lastError = undefined;
 
     try {
-      const data = await this.executeInternal(input, context);
+      const data = await this.executeWithRetry(input, context);
       const duration = Date.now() - startTime;
 
       this.status = 'idle';
       this.lastRun = new Date().toISOString();
+      this.recordSuccess();
 
       return {
         success: true,
@@ -148,6 +466,9 @@ export abstract class BaseAgent<TInput = void, TOutput = unknown> {
       this.status = 'error';
       this.lastError = errorMessage;
       this.lastRun = new Date().toISOString();
+      if (!context.signal?.aborted) {
+        this.recordFailure(errorMessage);
+      }
 
       console.error(`[${this.config.id}] Error:`, errorMessage);
 
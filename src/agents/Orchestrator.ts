@@ -10,12 +10,42 @@
 import { BaseAgent, type AgentContext } from './BaseAgent';
 import { WeatherAgent, type WeatherInput } from './WeatherAgent';
 import { SafetyAgent, type SafetyInput } from './SafetyAgent';
+import {
+  ScoringEngine,
+  resolveWeights,
+  atesDecision,
+  calculateMunter,
+  ATES_LABELS,
+  type ScoringProfileId,
+} from '@/scoring';
+import {
+  planTimeWindow,
+  describeTimeWindow,
+  findNearestElevationWeather,
+  buildForecastWeather,
+  avalancheForDate,
+} from '@/planning';
+import { TerrainAnalyzer } from '@/terrain';
+import { selectBulletin } from '@/utils/avalancheBulletins';
+import { findNearestSnowpack } from '@/utils/snowpack';
+import { loadedRouteAspects } from '@/utils/windLoading';
+import { fetchSnowpackHistory } from '@/services/snowpackService';
 import type {
   WeatherData,
   AvalancheReport,
   EvaluatedRoute,
   Route,
   AgentResult,
+  AgentInfo,
+  HourlyForecastPoint,
+  TourWindow,
+  ElevationWeather,
+  RouteForecastDay,
+  TerrainProfile,
+  AtesDecision,
+  MunterGroup,
+  MunterResult,
+  SnowpackHistory,
 } from '@/types';
 
 /**
@@ -28,6 +58,10 @@ export interface OrchestratorInput {
   fetchAvalanche?: boolean;
   /** Routes to evaluate */
   routes?: Route[];
+  /** User scoring profile used to weight route scores */
+  scoringProfile?: ScoringProfileId;
+  /** Touring party for Munter group reduction */
+  group?: MunterGroup;
 }
 
 /**
@@ -40,33 +74,85 @@ export interface OrchestratorOutput {
   avalanche?: AvalancheReport | null;
   /** Evaluated routes if provided */
   routes?: EvaluatedRoute[];
+  /** Hourly forecast for the primary location (used for tour windows) */
+  hourly?: HourlyForecastPoint[];
+  /** Multi-day snowpack history per elevation pair */
+  snowpack?: SnowpackHistory[];
   /** Execution summary */
   summary: {
     /** Total execution time */
     totalDuration: number;
     /** Individual agent timings */
     agentTimings: Record<string, number>;
+    /** Age (ms) of results served from cache, by agent */
+    cacheAges: Record<string, number>;
     /** Any errors that occurred */
     errors: string[];
+    /** Sub-agent state, including open circuit breakers */
+    agents: AgentInfo[];
   };
 }
 
+/**
+ * Input for scoring routes over the upcoming forecast days
+ */
+export interface ForecastEvaluationInput {
+  /** Routes to evaluate */
+  routes: Route[];
+  /** Elevation pairs with daily forecast */
+  elevationWeather: ElevationWeather[];
+  /** Current weather (snow base and humidity are carried over) */
+  weather?: WeatherData;
+  /** Current avalanche bulletin (used while still valid) */
+  avalanche?: AvalancheReport | null;
+  /** User scoring profile */
+  scoringProfile?: ScoringProfileId;
+  /** Touring party for Munter group reduction */
+  group?: MunterGroup;
+  /** Hourly forecast for tour time windows */
+  hourly?: HourlyForecastPoint[];
+  /** Altitude the hourly forecast applies to */
+  forecastAltitude?: number;
+}
+
+/**
+ * Conditions and options for evaluating a single route
+ */
+interface RouteEvaluationOptions {
+  weather?: WeatherData;
+  avalanche?: AvalancheReport;
+  scoringProfile?: ScoringProfileId;
+  group?: MunterGroup;
+  hourly?: HourlyForecastPoint[];
+  forecastAltitude?: number;
+  /** Forecast date (YYYY-MM-DD); unset = current conditions */
+  date?: string;
+  /** Snowpack histories; the one nearest each route is used */
+  snowpack?: SnowpackHistory[];
+}
+
 /**
  * Orchestrator - coordinates all agents
  */
 export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutput> {
   private weatherAgent: WeatherAgent;
   private safetyAgent: SafetyAgent;
+  private scoringEngine: ScoringEngine;
+  private terrainAnalyzer: TerrainAnalyzer;
 
   constructor() {
     super({
       id: 'orchestrator',
       name: 'Orchestrator',
       description: 'Coordinates all agents and aggregates results',
+      // Sub-agents cache their own results; route scores depend on them
+      cacheTtl: 0,
     });
 
     this.weatherAgent = new WeatherAgent();
     this.safetyAgent = new SafetyAgent();
+    this.scoringEngine = new ScoringEngine();
+    this.terrainAnalyzer = new TerrainAnalyzer();
   }
 
   /**
@@ -79,6 +165,7 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
     const startTime = Date.now();
     const errors: string[] = [];
     const agentTimings: Record<string, number> = {};
+    const cacheAges: Record<string, number> = {};
 
     this.log('Starting orchestrated data fetch');
 
@@ -86,6 +173,8 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
     const tasks: Promise<void>[] = [];
     let weatherResult: AgentResult<WeatherData> | undefined;
     let avalancheResult: AgentResult<AvalancheReport | null> | undefined;
+    let hourly: HourlyForecastPoint[] | undefined;
+    let snowpack: SnowpackHistory[] | undefined;
 
     // Weather task
     if (input.location) {
@@ -93,6 +182,9 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
         this.weatherAgent.run(input.location, context).then((result) => {
           weatherResult = result;
           agentTimings['weather'] = result.duration;
+          if (result.fromCache) {
+            cacheAges['weather'] = result.cacheAge ?? 0;
+          }
           if (!result.success && result.error) {
             errors.push(`Weather: ${result.error}`);
           }
@@ -100,6 +192,56 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
       );
     }
 
+    // Hourly forecast task (optional - only needed for tour time windows)
+    if (input.location && input.routes && input.routes.length > 0) {
+      const hourlyStart = Date.now();
+      tasks.push(
+        this.weatherAgent
+          .fetchHourlyForecast(input.location, context.signal, WeatherAgent.FORECAST_DAYS)
+          .then((points) => {
+            hourly = points;
+          })
+          .catch((error) => {
+            this.warn('Hourly forecast unavailable:', error);
+          })
+          .finally(() => {
+            agentTimings['hourly'] = Date.now() - hourlyStart;
+          })
+      );
+    }
+
+    // Terrain task (optional - DEM tiles may not be available for every region)
+    if (input.routes && input.routes.length > 0) {
+      const terrainStart = Date.now();
+      tasks.push(
+        this.terrainAnalyzer
+          .analyzeRoutes(input.routes)
+          .catch((error) => {
+            this.warn('Terrain analysis unavailable:', error);
+          })
+          .finally(() => {
+            agentTimings['terrain'] = Date.now() - terrainStart;
+          })
+      );
+    }
+
+    // Snowpack history task (optional - scoring falls back to the current snapshot)
+    if (input.routes && input.routes.length > 0) {
+      const snowpackStart = Date.now();
+      tasks.push(
+        fetchSnowpackHistory(context.region, context.signal)
+          .then((histories) => {
+            snowpack = histories;
+          })
+          .catch((error) => {
+            this.warn('Snowpack history unavailable:', error);
+          })
+          .finally(() => {
+            agentTimings['snowpack'] = Date.now() - snowpackStart;
+          })
+      );
+    }
+
     // Avalanche task
     if (input.fetchAvalanche !== false) {
       const safetyInput: SafetyInput = { region: context.region };
@@ -107,6 +249,9 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
         this.safetyAgent.run(safetyInput, context).then((result) => {
           avalancheResult = result;
           agentTimings['avalanche'] = result.duration;
+          if (result.fromCache) {
+            cacheAges['avalanche'] = result.cacheAge ?? 0;
+          }
           if (!result.success && result.error) {
             errors.push(`Avalanche: ${result.error}`);
           }
@@ -121,11 +266,15 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
     let evaluatedRoutes: EvaluatedRoute[] | undefined;
     if (input.routes && input.routes.length > 0) {
       const evalStart = Date.now();
-      evaluatedRoutes = this.evaluateRoutes(
-        input.routes,
-        weatherResult?.data,
-        avalancheResult?.data ?? undefined
-      );
+      evaluatedRoutes = this.evaluateRoutes(input.routes, {
+        weather: weatherResult?.data,
+        avalanche: avalancheResult?.data ?? undefined,
+        scoringProfile: input.scoringProfile,
+        group: input.group,
+        hourly,
+        forecastAltitude: input.location?.altitude,
+        snowpack,
+      });
       agentTimings['routeEvaluation'] = Date.now() - evalStart;
     }
 
@@ -136,178 +285,96 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
       weather: weatherResult?.data,
       avalanche: avalancheResult?.data,
       routes: evaluatedRoutes,
+      hourly,
+      snowpack,
       summary: {
         totalDuration,
         agentTimings,
+        cacheAges,
         errors,
+        agents: this.getAgents().map((agent) => agent.getInfo()),
       },
     };
   }
 
+  /**
+   * Evaluate routes for each forecast day, today's daily forecast included
+   * (live conditions stay with run()). Each route uses the nearest elevation pair.
+   */
+  evaluateForecastDays(input: ForecastEvaluationInput): RouteForecastDay[] {
+    const dates = input.elevationWeather.find((pair) => pair.forecast)?.forecast
+      ?.map((day) => day.date) ?? [];
+
+    return dates.map((date) => {
+      const avalanche = avalancheForDate(input.avalanche ?? undefined, date);
+      const routes = input.routes.map((route) => {
+        const pair = findNearestElevationWeather(route, input.elevationWeather);
+        const weather = pair ? buildForecastWeather(pair, date, input.weather) : undefined;
+
+        return this.evaluateRoute(route, {
+          weather,
+          avalanche,
+          scoringProfile: input.scoringProfile,
+          group: input.group,
+          hourly: input.hourly,
+          forecastAltitude: input.forecastAltitude,
+          date,
+        });
+      });
+
+      return { date, routes };
+    });
+  }
+
   /**
    * Evaluate routes based on current conditions
    */
   private evaluateRoutes(
     routes: Route[],
-    weather?: WeatherData,
-    avalanche?: AvalancheReport
+    options: RouteEvaluationOptions
   ): EvaluatedRoute[] {
-    return routes.map((route) => {
-      const scores = this.calculateScores(route, weather, avalanche);
-      const overallScore = Math.round(
-        (scores.weather + scores.avalanche + scores.snowConditions) / 3
-      );
-
-      const riskFactors = this.identifyRiskFactors(route, weather, avalanche);
-      const recommendation = this.generateRecommendation(route, overallScore, riskFactors, weather, avalanche);
-
-      return {
-        ...route,
-        conditionScore: overallScore,
-        scoreBreakdown: {
-          ...scores,
-          crowding: 0, // No longer tracked
-        },
-        recommendation,
-        riskFactors,
-        optimalTime: this.suggestOptimalTime(route, weather, avalanche),
-        evaluatedAt: new Date().toISOString(),
-      };
-    });
+    return routes.map((route) => this.evaluateRoute(route, options));
   }
 
   /**
-   * Calculate individual scores for a route
-   * Scores vary based on route characteristics and current conditions
+   * Score a single route and attach risks, recommendation and time window
    */
-  private calculateScores(
-    route: Route,
-    weather?: WeatherData,
-    avalanche?: AvalancheReport
-  ): { weather: number; avalanche: number; snowConditions: number } {
-    // Weather score (0-100) - considers route-specific factors
-    let weatherScore = 50; // Base score when no data
-    if (weather) {
-      weatherScore = 50; // Start neutral
-
-      // Condition impact
-      if (weather.condition === 'clear') weatherScore += 25;
-      else if (weather.condition === 'partly_cloudy') weatherScore += 15;
-      else if (weather.condition === 'cloudy') weatherScore += 5;
-      else if (weather.condition === 'snow') weatherScore -= 5; // Light snow can be ok
-      else if (weather.condition === 'heavy_snow') weatherScore -= 20;
-      else if (weather.condition === 'fog') weatherScore -= 25;
-      else if (weather.condition === 'rain') weatherScore -= 30;
-
-      // Wind - more impactful at higher altitudes
-      const altitudeFactor = Math.min(1.5, route.summit.altitude / 1500);
-      if (weather.windSpeed < 10) weatherScore += 15;
-      else if (weather.windSpeed < 20) weatherScore += 10;
-      else if (weather.windSpeed < 30) weatherScore -= 5 * altitudeFactor;
-      else if (weather.windSpeed < 40) weatherScore -= 15 * altitudeFactor;
-      else weatherScore -= 25 * altitudeFactor;
-
-      // Visibility
-      if (weather.visibility >= 15) weatherScore += 10;
-      else if (weather.visibility >= 10) weatherScore += 5;
-      else if (weather.visibility < 5) weatherScore -= 10;
-      else if (weather.visibility < 2) weatherScore -= 20;
-
-      // Temperature consideration for comfort
-      // Very cold (<-15°C) or warm (>5°C) is less ideal
-      if (weather.temperature >= -10 && weather.temperature <= 0) {
-        weatherScore += 5; // Ideal skiing temps
-      } else if (weather.temperature < -15) {
-        weatherScore -= 10; // Very cold
-      } else if (weather.temperature > 5) {
-        weatherScore -= 10; // Warm/wet conditions
-      }
-
-      // Freezing level vs route altitude (affects snow quality)
-      if (weather.freezingLevel < route.summit.altitude) {
-        weatherScore += 5; // Summit is frozen - good
-      } else if (weather.freezingLevel > route.summit.altitude + 200) {
-        weatherScore -= 10; // Warm at summit - wet snow risk
-      }
-    }
-    weatherScore = Math.max(0, Math.min(100, weatherScore));
-
-    // Avalanche/Safety score (0-100)
-    let avalancheScore = 70; // Assume moderate when no data (Beskidy)
-    if (avalanche) {
-      // Base score decreases with danger level
-      avalancheScore = Math.max(0, 100 - (avalanche.level - 1) * 20);
-
-      // Check if route aspects match problem aspects
-      const hasProblematicAspect = route.aspects.some((aspect) =>
-        avalanche.problemAspects.includes(aspect)
-      );
-      if (hasProblematicAspect) {
-        avalancheScore -= 15;
-      }
-
-      // Check altitude
-      if (
-        route.summit.altitude >= avalanche.altitudeRange.from &&
-        route.summit.altitude <= avalanche.altitudeRange.to
-      ) {
-        avalancheScore -= 10;
-      }
-
-      // Steeper routes are riskier
-      if (route.difficulty === 'expert') avalancheScore -= 10;
-      else if (route.difficulty === 'difficult') avalancheScore -= 5;
-    }
-    avalancheScore = Math.max(0, Math.min(100, avalancheScore));
-
-    // Snow conditions score - route-specific based on aspect and altitude
-    let snowScore = 50; // Unknown when no data
-    if (weather) {
-      // Base varies by aspect - north-facing holds snow better
-      const northFacing = route.aspects.some(a => ['N', 'NE', 'NW'].includes(a));
-      const southFacing = route.aspects.some(a => ['S', 'SE', 'SW'].includes(a));
-
-      if (northFacing) {
-        snowScore = 65; // North holds powder/quality snow longer
-      } else if (southFacing) {
-        snowScore = 55; // South gets more sun, variable conditions
-      } else {
-        snowScore = 60; // East/West - moderate
-      }
-
-      // Fresh snow is great (but not too much)
-      if (weather.freshSnow24h > 0 && weather.freshSnow24h < 15) {
-        snowScore += 20; // Perfect fresh snow
-      } else if (weather.freshSnow24h >= 15 && weather.freshSnow24h < 30) {
-        snowScore += 10; // Good but settling needed
-      } else if (weather.freshSnow24h >= 30) {
-        snowScore += 5; // Lots of snow - avalanche concern
-      }
-
-      // Snow base depth
-      if (weather.snowBase >= 100) snowScore += 10;
-      else if (weather.snowBase >= 50) snowScore += 5;
-      else if (weather.snowBase < 30) snowScore -= 15; // Not enough base
-
-      // Temperature affects snow quality
-      if (weather.temperature < -5) {
-        snowScore += 5; // Cold = preserved snow
-      } else if (weather.temperature > 3) {
-        // Warm temps - bad for north, ok for south (corn potential)
-        if (northFacing) snowScore -= 10;
-        else if (southFacing) snowScore += 5; // Corn snow potential
-      }
-
-      // Higher altitude = generally better snow
-      if (route.summit.altitude > 1500) snowScore += 5;
-      else if (route.summit.altitude < 1000) snowScore -= 5;
-    }
-    snowScore = Math.max(0, Math.min(100, snowScore));
+  private evaluateRoute(route: Route, options: RouteEvaluationOptions): EvaluatedRoute {
+    const { weather, scoringProfile, group, hourly, forecastAltitude, date } = options;
+    // Bulletin for the route's side of the border (TOPR, SLP or both)
+    const avalanche = selectBulletin(route, options.avalanche);
+
+    const terrain = this.terrainAnalyzer.getProfile(route);
+    const snowpack = options.snowpack ? findNearestSnowpack(route.summit, options.snowpack) : undefined;
+    const decision = avalanche ? atesDecision(avalanche.level, route.ates) : undefined;
+    const munter = avalanche ? calculateMunter({ route, avalanche, terrain, group }) : undefined;
+
+    const { overall: overallScore, breakdown } = this.scoringEngine.scoreRoute(
+      route,
+      { weather, avalanche, terrain, snowpack },
+      resolveWeights(route.region, scoringProfile)
+    );
+
+    const riskFactors = this.identifyRiskFactors(route, weather, avalanche, terrain, munter, snowpack);
+    const recommendation = this.generateRecommendation(route, overallScore, riskFactors, weather, avalanche, decision);
+    const timeWindow = hourly
+      ? planTimeWindow({ route, hourly, forecastAltitude, avalanche, date }) ?? undefined
+      : undefined;
 
     return {
-      weather: weatherScore,
-      avalanche: avalancheScore,
-      snowConditions: snowScore,
+      ...route,
+      conditionScore: overallScore,
+      scoreBreakdown: breakdown,
+      recommendation,
+      riskFactors,
+      optimalTime: this.suggestOptimalTime(route, weather, avalanche, timeWindow),
+      timeWindow,
+      terrain,
+      atesDecision: decision,
+      munter,
+      avalancheSource: avalanche?.source,
+      forecastDate: date,
+      evaluatedAt: new Date().toISOString(),
     };
   }
 
@@ -317,25 +384,68 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
   private identifyRiskFactors(
     route: Route,
     weather?: WeatherData,
-    avalanche?: AvalancheReport
+    avalanche?: AvalancheReport,
+    terrain?: TerrainProfile,
+    munter?: MunterResult,
+    snowpack?: SnowpackHistory
   ): string[] {
     const risks: string[] = [];
 
     if (!avalanche) {
       risks.push('Brak danych lawinowych - sprawdź warunki lokalne');
     } else {
+      if (avalanche.confidence?.sourceType === 'calculated') {
+        risks.push('Zagrożenie lawinowe szacowane z pogody - brak oficjalnego komunikatu');
+      }
       if (avalanche.level >= 3) {
         risks.push(`Stopień zagrożenia lawinowego: ${avalanche.level}`);
       }
-      const hasProblematicAspect = route.aspects.some((a) =>
-        avalanche.problemAspects.includes(a)
-      );
-      if (hasProblematicAspect) {
+      const decision = atesDecision(avalanche.level, route.ates);
+      if (decision === 'no-go') {
+        risks.push(`Teren ${ATES_LABELS[route.ates].toLowerCase()} (ATES) niezalecany przy stopniu ${avalanche.level}`);
+      } else if (decision === 'careful') {
+        risks.push(`Teren ${ATES_LABELS[route.ates].toLowerCase()} (ATES) - zwiększona ostrożność`);
+      }
+      if (munter && !munter.acceptable) {
+        risks.push(`Ryzyko resztkowe ${munter.residualRisk} > 1 (metoda redukcyjna)`);
+      }
+      if (terrain) {
+        // Steepest stretch on a problem aspect, from the DEM
+        const critical = terrain.segments
+          .filter((segment) => avalanche.problemAspects.includes(segment.aspect))
+          .sort((a, b) => b.maxSlope - a.maxSlope)[0];
+        if (critical) {
+          risks.push(`Stok ${critical.maxSlope}° (${critical.aspect}) na problematycznej ekspozycji`);
+        }
+      } else if (route.aspects.some((a) => avalanche.problemAspects.includes(a))) {
         risks.push('Trasa przecina problematyczne ekspozycje');
       }
       avalanche.problems.forEach((problem) => risks.push(problem));
     }
 
+    // Lee slopes loaded by the last 48h of wind
+    const loaded = snowpack?.windLoading
+      ? loadedRouteAspects(route, snowpack.windLoading, terrain)
+      : [];
+    if (loaded.length > 0) {
+      const strength = snowpack?.windLoading?.severity === 'strong' ? 'Silnie nawiane' : 'Nawiane';
+      risks.push(`${strength} stoki zawietrzne na trasie (${loaded.join(', ')}) - ryzyko desek śnieżnych`);
+    }
+
+    // Wind slab and rain crust from the snowpack history
+    for (const indicator of snowpack?.indicators ?? []) {
+      if (indicator.type === 'wind_slab') {
+        // Already reported from the recent wind loading
+        if (loaded.length > 0) continue;
+        const aspects = terrain ? terrain.steepAspects : route.aspects;
+        if (aspects.some((aspect) => indicator.aspects?.includes(aspect))) {
+          risks.push(indicator.label);
+        }
+      } else if (indicator.type === 'rain_crust') {
+        risks.push(indicator.label);
+      }
+    }
+
     if (!weather) {
       risks.push('Brak danych pogodowych');
     } else {
@@ -361,13 +471,19 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
     score: number,
     riskFactors: string[],
     weather?: WeatherData,
-    avalanche?: AvalancheReport
+    avalanche?: AvalancheReport,
+    decision?: AtesDecision
   ): string {
     // If no real data, emphasize uncertainty
     if (!weather && !avalanche) {
       return `Niewystarczające dane dla ${route.name}. Sprawdź warunki lokalne przed wyjściem.`;
     }
 
+    // The decision matrix overrides the score: good weather does not make complex terrain safe
+    if (decision === 'no-go') {
+      return `Trasa niezalecana przy stopniu zagrożenia ${avalanche!.level} (ATES: ${ATES_LABELS[route.ates].toLowerCase()}). Wybierz prostszy teren.`;
+    }
+
     if (score >= 80) {
       return `Warunki wyglądają korzystnie dla ${route.name}.`;
     } else if (score >= 60) {
@@ -385,8 +501,14 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
   private suggestOptimalTime(
     route: Route,
     weather?: WeatherData,
-    avalanche?: AvalancheReport
+    avalanche?: AvalancheReport,
+    timeWindow?: TourWindow
   ): string {
+    // Concrete times from the hourly forecast when available
+    if (timeWindow) {
+      return describeTimeWindow(timeWindow);
+    }
+
     if (!weather && !avalanche) {
       return 'Sprawdź warunki lokalne';
     }
@@ -407,6 +529,13 @@ export class Orchestrator extends BaseAgent<OrchestratorInput, OrchestratorOutpu
     return 'Standardowa pora startu odpowiednia';
   }
 
+  /**
+   * Get the route scoring engine (e.g. to register custom rules)
+   */
+  getScoringEngine(): ScoringEngine {
+    return this.scoringEngine;
+  }
+
   /**
    * Get all registered agents
    */
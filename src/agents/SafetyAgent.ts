@@ -1,15 +1,28 @@
 /**
  * Safety Agent
  *
- * Fetches avalanche reports from TOPR (Tatrzańskie Ochotnicze Pogotowie Ratunkowe).
- * Parses real data from lawiny.topr.pl.
+ * Fetches avalanche reports from TOPR (Tatrzańskie Ochotnicze Pogotowie Ratunkowe)
+ * for the Polish side of the Tatra, from the Slovak Avalanche Prevention
+ * Center (SLP, laviny.sk) for the Slovak side, and from the Czech mountain
+ * service (HS Krkonoše, laviny.cz) for Karkonosze. Beskidy get an unofficial
+ * estimate calculated from weather history.
  *
  * @module agents/SafetyAgent
  */
 
 import { BaseAgent, type AgentContext } from './BaseAgent';
-import type { AvalancheReport, AvalancheLevel, Aspect } from '@/types';
+import type {
+  AvalancheReport,
+  AvalancheLevel,
+  Aspect,
+  BulletinHistoryEntry,
+  BulletinProvider,
+} from '@/types';
 import { getEdgeFunctionUrl, isSupabaseConfigured } from '@/lib/supabase';
+import { fetchBulletinHistory } from '@/services/bulletinArchive';
+import { mergeBulletins } from '@/utils/avalancheBulletins';
+import { estimateHazard } from '@/utils/hazardEstimate';
+import { WeatherAgent } from './WeatherAgent';
 
 /**
  * Safety agent input parameters
@@ -59,6 +72,63 @@ interface TOPRHistoryEntry {
   lev: number;
 }
 
+/**
+ * CAAML v6 bulletin (EAWS format, published by SLP and HS)
+ */
+interface CAAMLBulletin {
+  publicationTime?: string;
+  validTime?: { startTime: string; endTime: string };
+  regions?: { regionID: string; name?: string }[];
+  dangerRatings?: {
+    mainValue: 'low' | 'moderate' | 'considerable' | 'high' | 'very_high' | 'no_snow' | 'no_rating';
+    elevation?: { lowerBound?: string; upperBound?: string };
+    aspects?: string[];
+  }[];
+  avalancheProblems?: {
+    problemType: string;
+    elevation?: { lowerBound?: string; upperBound?: string };
+    aspects?: string[];
+  }[];
+  tendency?: { tendencyType?: 'increasing' | 'steady' | 'decreasing' }[];
+}
+
+/**
+ * CAAML bulletin feed relayed by an edge function
+ */
+interface CAAMLFeed {
+  provider: BulletinProvider;
+  /** Edge function name */
+  proxy: string;
+  /** Service name shown as the report source */
+  name: string;
+  reportUrl: string;
+  /** Bulletin regions to use (matched against region names) */
+  regionPattern: RegExp;
+  /** Used when the bulletin gives no elevation bounds */
+  defaultAltitude: { from: number; to: number };
+}
+
+const CAAML_FEEDS: Record<'slp' | 'hs', CAAMLFeed> = {
+  // Západné, Vysoké and Belianske Tatry
+  slp: {
+    provider: 'slp',
+    proxy: 'slp-proxy',
+    name: 'SLP',
+    reportUrl: 'https://www.laviny.sk/',
+    regionPattern: /tatry/i,
+    defaultAltitude: { from: 1600, to: 2650 },
+  },
+  // Krkonoše (the Polish side has no bulletin of its own)
+  hs: {
+    provider: 'hs',
+    proxy: 'krkonose-proxy',
+    name: 'HS Krkonoše',
+    reportUrl: 'https://www.laviny.cz/',
+    regionPattern: /krkono/i,
+    defaultAltitude: { from: 1200, to: 1603 },
+  },
+};
+
 /**
  * Safety Agent for avalanche risk assessment
  */
@@ -67,14 +137,26 @@ export class SafetyAgent extends BaseAgent<SafetyInput, AvalancheReport | null>
     super({
       id: 'safety',
       name: 'Safety Agent',
-      description: 'Fetches avalanche danger levels from TOPR',
+      description: 'Fetches avalanche danger levels from TOPR, SLP and HS Krkonoše',
       cacheTtl: 60 * 60 * 1000, // 1 hour
+      // Bulletins are issued once or twice a day
+      staleWhileRevalidate: 60 * 60 * 1000,
+      // The TOPR page is slow and occasionally times out
+      resilience: {
+        retries: 2,
+        backoffBase: 2000,
+        attemptTimeout: 20 * 1000,
+        breakerThreshold: 3,
+        breakerCooldown: 10 * 60 * 1000,
+      },
     });
   }
 
   /**
    * Fetch avalanche report
-   * TOPR only covers Tatry - Beskidy has no official avalanche service
+   * Tatry gets TOPR and SLP merged (per-service bulletins are kept for
+   * per-route selection), Karkonosze the Czech HS bulletin. Beskidy have
+   * no official avalanche service, so an estimate is calculated instead
    */
   protected async executeInternal(
     input: SafetyInput,
@@ -84,23 +166,70 @@ export class SafetyAgent extends BaseAgent<SafetyInput, AvalancheReport | null>
 
     const isTatry = input.region.toLowerCase().includes('tatry');
     const isBeskidy = input.region.toLowerCase().includes('beskid');
+    const isKarkonosze = input.region.toLowerCase().includes('karkonosze');
 
-    // Beskidy has no official avalanche bulletin service
+    // Beskidy has no official avalanche bulletin service - estimate from weather
     if (isBeskidy) {
-      this.log('No official avalanche service for Beskidy region');
-      return null;
+      try {
+        const report = await this.estimateBeskidyHazard(input.region, context.signal);
+        if (report) {
+          this.log(`Calculated Beskidy estimate: level ${report.level}`);
+        }
+        return report;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw error;
+        }
+        this.warn('Failed to calculate Beskidy hazard estimate:', error);
+        return null;
+      }
     }
 
-    // TOPR covers Tatry region
+    // TOPR covers the Polish side, SLP the Slovak side
     if (isTatry) {
+      const failures: unknown[] = [];
+      const [topr, slp] = await Promise.all([
+        this.fetchTOPRReport(context.signal).catch((error) => {
+          this.warn('Failed to fetch TOPR data:', error);
+          failures.push(error);
+          return null;
+        }),
+        this.fetchCAAMLReport(CAAML_FEEDS.slp, context.signal).catch((error) => {
+          this.warn('Failed to fetch SLP data:', error);
+          failures.push(error);
+          return null;
+        }),
+      ]);
+
+      // Both services down: fail so the run is retried or served from cache
+      if (failures.length === 2) {
+        throw failures[0];
+      }
+
+      if (topr) {
+        this.log(`Got TOPR report: level ${topr.level}, valid until ${topr.validUntil}`);
+      }
+      if (slp) {
+        this.log(`Got SLP report: level ${slp.level}, valid until ${slp.validUntil}`);
+      }
+
+      const reports = [topr, slp].filter((r): r is AvalancheReport => r !== null);
+      if (reports.length > 0) {
+        return mergeBulletins(reports);
+      }
+    }
+
+    // Czech mountain service covers all of Krkonoše
+    if (isKarkonosze) {
       try {
-        const report = await this.fetchTOPRReport(context.signal);
+        const report = await this.fetchCAAMLReport(CAAML_FEEDS.hs, context.signal);
         if (report) {
-          this.log(`Got TOPR report: level ${report.level}, valid until ${report.validUntil}`);
+          this.log(`Got HS Krkonoše report: level ${report.level}, valid until ${report.validUntil}`);
           return report;
         }
       } catch (error) {
-        this.warn('Failed to fetch TOPR data:', error);
+        this.warn('Failed to fetch HS Krkonoše data:', error);
+        throw error;
       }
     }
 
@@ -108,7 +237,24 @@ export class SafetyAgent extends BaseAgent<SafetyInput, AvalancheReport | null>
   }
 
   /**
-   * Fetch and parse TOPR avalanche bulletin
+   * Unofficial estimate from the last 72h at the region's highest summit
+   */
+  private async estimateBeskidyHazard(
+    region: string,
+    signal?: AbortSignal
+  ): Promise<AvalancheReport | null> {
+    const summit = WeatherAgent.getElevationPairs(region)
+      .map((pair) => pair.summit)
+      .reduce((a, b) => ((b.altitude ?? 0) > (a.altitude ?? 0) ? b : a));
+
+    const history = await new WeatherAgent().fetchWeatherHistory(summit, 72, signal);
+    return estimateHazard(history, summit.altitude ?? 1500);
+  }
+
+  /**
+   * Fetch and parse TOPR avalanche bulletin, with the last week of the
+   * archive for the trend
+   * Throws when the page is unreachable; null when it cannot be parsed
    */
   private async fetchTOPRReport(signal?: AbortSignal): Promise<AvalancheReport | null> {
     // Use Edge Function in production, local proxy in development
@@ -119,30 +265,25 @@ export class SafetyAgent extends BaseAgent<SafetyInput, AvalancheReport | null>
       url = '/api/proxy/topr/';
     }
 
-    try {
-      const response = await fetch(url, {
-        signal,
-      });
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
+    const [response, archive] = await Promise.all([
+      fetch(url, { signal }),
+      fetchBulletinHistory({ provider: 'topr', from: weekAgo }),
+    ]);
 
-      const html = await response.text();
-      return this.parseTOPRHtml(html);
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw error;
-      }
-      this.warn('TOPR fetch error:', error);
-      return null;
+    if (!response.ok) {
+      throw new Error(`TOPR: HTTP ${response.status}`);
     }
+
+    const html = await response.text();
+    return this.parseTOPRHtml(html, archive);
   }
 
   /**
    * Parse TOPR HTML page to extract avalanche data
    */
-  private parseTOPRHtml(html: string): AvalancheReport | null {
+  private parseTOPRHtml(html: string, archive: BulletinHistoryEntry[] = []): AvalancheReport | null {
     try {
       // Extract the oLawReport JSON object from the page
       // Look for both "var oLawReport" and "const oLawReport"
@@ -163,8 +304,8 @@ export class SafetyAgent extends BaseAgent<SafetyInput, AvalancheReport | null>
       const issuedAt = reportData.iat || new Date().toISOString();
       const validUntil = reportData.exp || this.getDefaultExpiry();
 
-      // Determine trend from mst.tnd: -1 = decreasing, 0 = stable, 1 = increasing
-      const trend = this.parseTrend(reportData.mst?.tnd, reportData.history);
+      // Determine trend from the archive, then mst.tnd, then the page history
+      const trend = this.parseTrend(reportData, level, archive);
 
       // Extract problem aspects from AM/PM data
       const aspects = this.extractAspects(reportData);
@@ -190,6 +331,7 @@ export class SafetyAgent extends BaseAgent<SafetyInput, AvalancheReport | null>
         source: `TOPR - ${levelName}`,
         reportUrl: 'https://lawiny.topr.pl/',
         issuedAt: this.parsePolishDate(issuedAt),
+        provider: 'topr',
       };
     } catch (error) {
       this.warn('Failed to parse TOPR JSON:', error);
@@ -198,18 +340,130 @@ export class SafetyAgent extends BaseAgent<SafetyInput, AvalancheReport | null>
   }
 
   /**
-   * Parse trend from TOPR tnd value
+   * Fetch and parse a CAAML bulletin feed (SLP, HS Krkonoše)
+   * Throws when the feed is unreachable; null when it has no bulletin or
+   * no proxy is configured
+   */
+  private async fetchCAAMLReport(feed: CAAMLFeed, signal?: AbortSignal): Promise<AvalancheReport | null> {
+    // The feeds are only reachable through the edge function proxies
+    const url = isSupabaseConfigured() ? getEdgeFunctionUrl(feed.proxy) : null;
+    if (!url) {
+      this.log(`${feed.name} proxy not configured, skipping`);
+      return null;
+    }
+
+    const response = await fetch(url, { signal });
+
+    if (!response.ok) {
+      throw new Error(`${feed.name}: HTTP ${response.status}`);
+    }
+
+    const data = (await response.json()) as { bulletins?: CAAMLBulletin[] };
+    if (!data.bulletins || data.bulletins.length === 0) {
+      this.warn(`${feed.name} feed contains no bulletins`);
+      return null;
+    }
+    return this.parseCAAML(data.bulletins, feed);
+  }
+
+  /**
+   * Map CAAML bulletins to a report, preferring the feed's regions
+   */
+  private parseCAAML(bulletins: CAAMLBulletin[], feed: CAAMLFeed): AvalancheReport | null {
+    const matchesFeed = (r: { regionID: string; name?: string }) =>
+      feed.regionPattern.test(r.name ?? r.regionID);
+    const bulletin = bulletins.find((b) => b.regions?.some(matchesFeed)) ?? bulletins[0];
+
+    const levelValues: Record<string, AvalancheLevel> = {
+      low: 1,
+      moderate: 2,
+      considerable: 3,
+      high: 4,
+      very_high: 5,
+    };
+    const ratings = (bulletin.dangerRatings ?? []).filter((r) => levelValues[r.mainValue]);
+    if (ratings.length === 0) {
+      return null;
+    }
+
+    const worst = ratings.reduce((a, b) => (levelValues[b.mainValue] > levelValues[a.mainValue] ? b : a));
+    const level = levelValues[worst.mainValue];
+
+    const problemNames: Record<string, string> = {
+      new_snow: 'Świeży śnieg',
+      wind_slab: 'Śnieg nawiewany',
+      persistent_weak_layers: 'Słabe warstwy',
+      wet_snow: 'Mokry śnieg',
+      gliding_snow: 'Śnieg ślizgowy',
+      favourable_situation: 'Brak wyraźnego problemu lawinowego',
+    };
+    const avalancheProblems = bulletin.avalancheProblems ?? [];
+    const problems = avalancheProblems
+      .map((p) => problemNames[p.problemType])
+      .filter((name): name is string => !!name);
+
+    const validAspects: Aspect[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+    const aspects = [...new Set(avalancheProblems.flatMap((p) => p.aspects ?? []))]
+      .filter((a): a is Aspect => validAspects.includes(a as Aspect));
+
+    // Elevation bounds are meters or "treeline"
+    const bounds = avalancheProblems.map((p) => p.elevation).concat(worst.elevation);
+    const lowerBounds = bounds
+      .map((e) => parseInt(e?.lowerBound ?? '', 10))
+      .filter((n) => !Number.isNaN(n));
+    const upperBounds = bounds
+      .map((e) => parseInt(e?.upperBound ?? '', 10))
+      .filter((n) => !Number.isNaN(n));
+
+    const tendency = bulletin.tendency?.[0]?.tendencyType;
+    const region = bulletin.regions?.find(matchesFeed)?.name;
+
+    return {
+      level,
+      trend: tendency === 'increasing' ? 'increasing' : tendency === 'decreasing' ? 'decreasing' : 'stable',
+      problemAspects: aspects.length > 0 ? aspects : ['N', 'NE', 'NW'],
+      altitudeRange: {
+        from: lowerBounds.length > 0 ? Math.min(...lowerBounds) : feed.defaultAltitude.from,
+        to: upperBounds.length > 0 ? Math.max(...upperBounds) : feed.defaultAltitude.to,
+      },
+      problems: problems.length > 0 ? problems : [`Sprawdź szczegóły w komunikacie ${feed.name}`],
+      validUntil: bulletin.validTime?.endTime
+        ? new Date(bulletin.validTime.endTime).toISOString()
+        : this.getDefaultExpiry(),
+      issuedAt: bulletin.publicationTime ? new Date(bulletin.publicationTime).toISOString() : undefined,
+      source: region ? `${feed.name} - ${region}` : feed.name,
+      reportUrl: feed.reportUrl,
+      provider: feed.provider,
+    };
+  }
+
+  /**
+   * Trend of the danger level. The archive wins: today's level is compared
+   * with the last archived day before this bulletin. Without earlier
+   * archived days the TOPR tnd value is used, then the page's own history
    */
-  private parseTrend(tnd?: number, history?: TOPRHistoryEntry[]): 'increasing' | 'stable' | 'decreasing' {
-    // Use tnd if available: -1 = decreasing, 0 = stable, 1 = increasing
+  private parseTrend(
+    report: TOPRReport,
+    level: AvalancheLevel,
+    archive: BulletinHistoryEntry[]
+  ): 'increasing' | 'stable' | 'decreasing' {
+    // Archived days before this bulletin, then today's level
+    const bulletinDate = report.exp?.slice(0, 10) ?? '';
+    const archived = archive.filter((entry) => entry.date < bulletinDate);
+    if (archived.length > 0) {
+      return this.calculateTrend([...archived.map((entry) => entry.level), level]);
+    }
+
+    // TOPR tendency: -1 = decreasing, 0 = stable, 1 = increasing
+    const tnd = report.mst?.tnd;
     if (tnd !== undefined) {
       if (tnd > 0) return 'increasing';
       if (tnd < 0) return 'decreasing';
       return 'stable';
     }
 
-    // Fallback to calculating from history
-    return this.calculateTrend(history);
+    // Fallback to calculating from the embedded history
+    return this.calculateTrend(report.history?.map((entry) => entry.lev));
   }
 
   /**
@@ -238,6 +492,7 @@ export class SafetyAgent extends BaseAgent<SafetyInput, AvalancheReport | null>
         validUntil,
         source: 'TOPR (lawiny.topr.pl)',
         reportUrl: 'https://lawiny.topr.pl/',
+        provider: 'topr',
       };
     } catch {
       return null;
@@ -245,19 +500,16 @@ export class SafetyAgent extends BaseAgent<SafetyInput, AvalancheReport | null>
   }
 
   /**
-   * Calculate trend from history data
+   * Calculate trend from daily levels, oldest first
    */
-  private calculateTrend(history?: TOPRHistoryEntry[]): 'increasing' | 'stable' | 'decreasing' {
-    if (!history || history.length < 2) {
+  private calculateTrend(levels?: number[]): 'increasing' | 'stable' | 'decreasing' {
+    if (!levels || levels.length < 2) {
       return 'stable';
     }
 
     // Compare recent levels
-    const recent = history.slice(-3);
-    if (recent.length < 2) return 'stable';
-
-    const lastLevel = recent[recent.length - 1].lev;
-    const prevLevel = recent[recent.length - 2].lev;
+    const lastLevel = levels[levels.length - 1];
+    const prevLevel = levels[levels.length - 2];
 
     if (lastLevel > prevLevel) return 'increasing';
     if (lastLevel < prevLevel) return 'decreasing';
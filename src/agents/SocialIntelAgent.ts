@@ -88,6 +88,7 @@ export class SocialIntelAgent extends BaseAgent<SocialIntelInput, WithConfidence
       name: 'Social Intel Agent',
       description: 'Parses unstructured web reports into structured condition data using LLM',
       cacheTtl: 30 * 60 * 1000, // 30 minutes
+      staleWhileRevalidate: 60 * 60 * 1000,
     });
   }
 
@@ -2,77 +2,37 @@
  * Weather Agent
  *
  * Fetches and processes weather data for ski touring conditions.
- * Uses Open-Meteo API (free, no API key required) for weather data.
+ * Data comes from a pluggable WeatherProvider (Open-Meteo by default,
+ * see src/weather); the agent builds elevation pairs and forecasts on top.
  *
  * @module agents/WeatherAgent
  */
 
 import { BaseAgent, type AgentContext } from './BaseAgent';
-import type { WeatherData, WeatherCondition, ElevationWeather, ElevationWeatherPoint, DailyForecastPoint, ElevationForecast } from '@/types';
+import type {
+  WeatherData,
+  ElevationWeather,
+  ElevationWeatherPoint,
+  ElevationForecast,
+  HourlyForecastPoint,
+  WeatherHistoryPoint,
+  EnsembleDay,
+} from '@/types';
+import { apiConfidence } from '@/types/confidence';
+import { forecastConfidence } from '@/utils/ensemble';
+import {
+  getDefaultWeatherProvider,
+  requireCapability,
+  type WeatherPoint,
+  type WeatherProvider,
+} from '@/weather';
 
 /**
  * Weather agent input parameters
  */
-export interface WeatherInput {
-  /** Latitude of location */
-  latitude: number;
-  /** Longitude of location */
-  longitude: number;
-  /** Altitude in meters (for accurate data) */
-  altitude?: number;
-}
-
-/**
- * Open-Meteo API response structure
- */
-interface OpenMeteoResponse {
-  current: {
-    temperature_2m: number;
-    apparent_temperature: number;
-    weather_code: number;
-    wind_speed_10m: number;
-    wind_direction_10m: number;
-    relative_humidity_2m: number;
-    visibility: number;
-    snowfall: number;
-    snow_depth: number;
-  };
-  daily: {
-    snowfall_sum: number[];
-  };
-  hourly?: {
-    freezing_level_height: number[];
-  };
-}
-
-/**
- * Map Open-Meteo weather codes to our condition types
- */
-function mapWeatherCode(code: number): WeatherCondition {
-  // WMO Weather interpretation codes
-  // https://open-meteo.com/en/docs
-  if (code === 0) return 'clear';
-  if (code <= 3) return 'partly_cloudy';
-  if (code <= 48) return 'fog';
-  if (code <= 55) return 'rain';
-  if (code <= 65) return 'rain';
-  if (code <= 67) return 'rain';
-  if (code <= 75) return 'snow';
-  if (code <= 77) return 'snow';
-  if (code <= 82) return 'rain';
-  if (code <= 86) return 'heavy_snow';
-  if (code >= 95) return 'rain'; // Thunderstorm
-  return 'cloudy';
-}
-
-/**
- * Map wind direction degrees to compass direction
- */
-function mapWindDirection(degrees: number): string {
-  const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
-                      'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
-  const index = Math.round(degrees / 22.5) % 16;
-  return directions[index];
+export interface WeatherInput extends WeatherPoint {
+  /** Also fetch the model ensemble and rate confidence by its spread */
+  ensemble?: boolean;
 }
 
 /**
@@ -88,19 +48,36 @@ function mapWindDirection(degrees: number): string {
  * ```
  */
 export class WeatherAgent extends BaseAgent<WeatherInput, WeatherData> {
-  private static readonly API_BASE = 'https://api.open-meteo.com/v1/forecast';
+  /** Number of forecast days fetched and scored for elevation pairs (from today) */
+  static readonly FORECAST_DAYS = 7;
+  /** Days covered by the model ensemble (ICON-D2 runs 48h ahead) */
+  static readonly ENSEMBLE_DAYS = 3;
+
+  private readonly provider: WeatherProvider;
 
-  constructor() {
+  constructor(provider: WeatherProvider = getDefaultWeatherProvider()) {
     super({
       id: 'weather',
       name: 'Weather Agent',
       description: 'Fetches real-time weather data for ski touring conditions',
       cacheTtl: 30 * 60 * 1000, // 30 minutes
+      staleWhileRevalidate: 30 * 60 * 1000,
+      // Weather APIs have short hiccups; stop hammering them during longer outages
+      resilience: {
+        retries: 2,
+        backoffBase: 1000,
+        attemptTimeout: 15 * 1000,
+        breakerThreshold: 3,
+        breakerCooldown: 5 * 60 * 1000,
+      },
+      // Results differ per provider
+      options: { provider: provider.id },
     });
+    this.provider = provider;
   }
 
   /**
-   * Fetch weather data from Open-Meteo API
+   * Current weather from the provider, with the model ensemble when requested
    */
   protected async executeInternal(
     input: WeatherInput,
@@ -113,39 +90,23 @@ export class WeatherAgent extends BaseAgent<WeatherInput, WeatherData> {
       throw new Error('Request aborted');
     }
 
-    const params = new URLSearchParams({
-      latitude: input.latitude.toString(),
-      longitude: input.longitude.toString(),
-      current: [
-        'temperature_2m',
-        'apparent_temperature',
-        'weather_code',
-        'wind_speed_10m',
-        'wind_direction_10m',
-        'relative_humidity_2m',
-        'visibility',
-        'snowfall',
-        'snow_depth',
-      ].join(','),
-      daily: 'snowfall_sum',
-      hourly: 'freezing_level_height',
-      timezone: 'auto',
-      forecast_days: '1',
-    });
-
-    const url = `${WeatherAgent.API_BASE}?${params}`;
-
     try {
-      const response = await fetch(url, {
-        signal: context.signal,
-      });
-
-      if (!response.ok) {
-        throw new Error(`Weather API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data: OpenMeteoResponse = await response.json();
-      return this.transformResponse(data, input);
+      const [data, ensemble] = await Promise.all([
+        // Altitude lets providers correct temperatures and pick a matching station
+        this.provider.fetchCurrent(
+          { latitude: input.latitude, longitude: input.longitude, altitude: input.altitude },
+          context.signal
+        ),
+        input.ensemble ? this.fetchEnsembleOrEmpty(input, context.signal) : [],
+      ]);
+
+      return ensemble[0]
+        ? {
+            ...data,
+            ensemble: ensemble[0],
+            confidence: forecastConfidence(data.confidence ?? apiConfidence(data.source), ensemble[0]),
+          }
+        : data;
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error('Weather fetch aborted');
@@ -154,36 +115,6 @@ export class WeatherAgent extends BaseAgent<WeatherInput, WeatherData> {
     }
   }
 
-  /**
-   * Transform API response to our WeatherData format
-   */
-  private transformResponse(response: OpenMeteoResponse, _input: WeatherInput): WeatherData {
-    const current = response.current;
-
-    // Get freezing level from hourly data (current hour)
-    const freezingLevel = response.hourly?.freezing_level_height?.[
-      new Date().getHours()
-    ] ?? 2500;
-
-    // Calculate fresh snow (sum of last 24h)
-    const freshSnow24h = response.daily?.snowfall_sum?.[0] ?? 0;
-
-    return {
-      temperature: Math.round(current.temperature_2m),
-      feelsLike: Math.round(current.apparent_temperature),
-      condition: mapWeatherCode(current.weather_code),
-      windSpeed: Math.round(current.wind_speed_10m),
-      windDirection: mapWindDirection(current.wind_direction_10m),
-      humidity: current.relative_humidity_2m,
-      visibility: Math.round((current.visibility || 10000) / 1000), // Convert to km
-      freshSnow24h: Math.round(freshSnow24h * 10) / 10, // cm
-      snowBase: Math.round((current.snow_depth || 0) * 100), // Convert m to cm
-      freezingLevel: Math.round(freezingLevel),
-      timestamp: new Date().toISOString(),
-      source: 'Open-Meteo',
-    };
-  }
-
   /**
    * Get weather locations by region
    */
@@ -210,6 +141,11 @@ export class WeatherAgent extends BaseAgent<WeatherInput, WeatherData> {
         'Romanka': { latitude: 49.5583, longitude: 19.3556, altitude: 1366 },
         'Hala Miziowa': { latitude: 49.5617, longitude: 19.3417, altitude: 1330 },
       },
+      'Karkonosze': {
+        'Śnieżka': { latitude: 50.7360, longitude: 15.7397, altitude: 1603 },
+        'Szrenica': { latitude: 50.7930, longitude: 15.5130, altitude: 1362 },
+        'Karpacz': { latitude: 50.7670, longitude: 15.7430, altitude: 880 },
+      },
     };
     return locations[region] || locations['Beskid Śląski'];
   }
@@ -273,109 +209,131 @@ export class WeatherAgent extends BaseAgent<WeatherInput, WeatherData> {
           summit: { latitude: 49.2186, longitude: 20.0047, altitude: 2301 },
         },
       ],
+      'Karkonosze': [
+        {
+          name: 'Karpacz → Śnieżka',
+          valley: { latitude: 50.7670, longitude: 15.7430, altitude: 880 },
+          summit: { latitude: 50.7360, longitude: 15.7397, altitude: 1603 },
+        },
+        {
+          name: 'Szklarska Poręba → Szrenica',
+          valley: { latitude: 50.8270, longitude: 15.5210, altitude: 680 },
+          summit: { latitude: 50.7930, longitude: 15.5130, altitude: 1362 },
+        },
+      ],
     };
     return pairs[region] || pairs['Beskid Śląski'];
   }
 
+
   /**
-   * Fetch daily forecast for a single point (tomorrow)
+   * Fetch hourly forecast for a point (used by the tour time-window planner)
+   * Temperature is altitude-corrected when input.altitude is set.
    */
-  private async fetchPointForecast(
+  async fetchHourlyForecast(
     input: WeatherInput,
-    signal?: AbortSignal
-  ): Promise<DailyForecastPoint> {
-    const params = new URLSearchParams({
-      latitude: input.latitude.toString(),
-      longitude: input.longitude.toString(),
-      daily: [
-        'temperature_2m_max',
-        'temperature_2m_min',
-        'weather_code',
-        'wind_speed_10m_max',
-        'snowfall_sum',
-      ].join(','),
-      timezone: 'auto',
-      forecast_days: '2',
-    });
-
-    if (input.altitude) {
-      params.set('elevation', input.altitude.toString());
-    }
+    signal?: AbortSignal,
+    forecastDays: number = 2
+  ): Promise<HourlyForecastPoint[]> {
+    return requireCapability(this.provider, 'fetchHourlyForecast')(input, forecastDays, signal);
+  }
 
-    const url = `${WeatherAgent.API_BASE}?${params}`;
-    const response = await fetch(url, { signal });
+  /**
+   * Fetch the summit forecast of every ensemble model and summarize it per
+   * day (index 0 = today). Days with fewer than two models are left out.
+   */
+  async fetchEnsemble(input: WeatherInput, signal?: AbortSignal): Promise<EnsembleDay[]> {
+    return requireCapability(this.provider, 'fetchEnsemble')(input, WeatherAgent.ENSEMBLE_DAYS, signal);
+  }
 
-    if (!response.ok) {
-      throw new Error(`Weather API error: ${response.status}`);
+  /**
+   * Ensemble that never fails the main request
+   */
+  private async fetchEnsembleOrEmpty(input: WeatherInput, signal?: AbortSignal): Promise<EnsembleDay[]> {
+    if (!this.provider.fetchEnsemble) return [];
+    try {
+      return await this.fetchEnsemble(input, signal);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw error;
+      }
+      this.warn('Failed to fetch model ensemble:', error);
+      return [];
     }
+  }
 
-    const data = await response.json();
-    // Index 1 = tomorrow
-    const daily = data.daily;
-
-    return {
-      tempMax: Math.round(daily.temperature_2m_max[1]),
-      tempMin: Math.round(daily.temperature_2m_min[1]),
-      condition: mapWeatherCode(daily.weather_code[1]),
-      windSpeed: Math.round(daily.wind_speed_10m_max[1]),
-      snowfall: Math.round((daily.snowfall_sum[1] || 0) * 10) / 10,
-    };
+  /**
+   * Fetch the past hours of weather for a point (UTC, oldest first)
+   * Used for hazard estimates where no avalanche bulletin exists.
+   */
+  async fetchWeatherHistory(
+    input: WeatherInput,
+    hours: number = 72,
+    signal?: AbortSignal
+  ): Promise<WeatherHistoryPoint[]> {
+    return requireCapability(this.provider, 'fetchHistory')(input, hours, signal);
   }
 
   /**
-   * Fetch weather for a single point (internal helper)
+   * Weather for a single point of an elevation pair (altitude-corrected)
    */
   private async fetchPointWeather(
     input: WeatherInput,
     name: string,
     signal?: AbortSignal
-  ): Promise<ElevationWeatherPoint> {
-    const params = new URLSearchParams({
-      latitude: input.latitude.toString(),
-      longitude: input.longitude.toString(),
-      current: [
-        'temperature_2m',
-        'apparent_temperature',
-        'weather_code',
-        'wind_speed_10m',
-        'wind_direction_10m',
-      ].join(','),
-      timezone: 'auto',
-    });
-
-    // Add elevation to get altitude-corrected temperature
-    if (input.altitude) {
-      params.set('elevation', input.altitude.toString());
-    }
-
-    const url = `${WeatherAgent.API_BASE}?${params}`;
-    const response = await fetch(url, { signal });
-
-    if (!response.ok) {
-      throw new Error(`Weather API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const current = data.current;
+  ): Promise<{ point: ElevationWeatherPoint; data: WeatherData }> {
+    const data = await this.provider.fetchCurrent(input, signal);
 
     return {
-      name,
-      altitude: input.altitude || 0,
-      temperature: Math.round(current.temperature_2m),
-      feelsLike: Math.round(current.apparent_temperature),
-      windSpeed: Math.round(current.wind_speed_10m),
-      windDirection: mapWindDirection(current.wind_direction_10m),
-      condition: mapWeatherCode(current.weather_code),
+      point: {
+        name,
+        latitude: input.latitude,
+        longitude: input.longitude,
+        altitude: input.altitude || 0,
+        temperature: data.temperature,
+        feelsLike: data.feelsLike,
+        windSpeed: data.windSpeed,
+        windDirection: data.windDirection,
+        condition: data.condition,
+      },
+      data,
     };
   }
 
+  /**
+   * Daily forecast for both points of a pair, undefined when unavailable
+   */
+  private async fetchPairForecast(
+    pair: { valley: WeatherInput; summit: WeatherInput },
+    signal?: AbortSignal
+  ): Promise<ElevationForecast[] | undefined> {
+    if (!this.provider.fetchDailyForecast) return undefined;
+
+    const fetchDaily = requireCapability(this.provider, 'fetchDailyForecast');
+    const [valleyForecast, summitForecast] = await Promise.all([
+      fetchDaily(pair.valley, WeatherAgent.FORECAST_DAYS, signal),
+      fetchDaily(pair.summit, WeatherAgent.FORECAST_DAYS, signal),
+    ]);
+
+    return summitForecast.dates
+      .map((date, i) => ({
+        valley: valleyForecast.days[i],
+        summit: summitForecast.days[i],
+        freezingLevel: Math.round(summitForecast.freezingLevels[i] ?? 1500),
+        date,
+      }))
+      .filter((day) => day.valley && day.summit);
+  }
+
   /**
    * Fetch multi-elevation weather for a region
-   * Returns weather at valley and summit for each main peak
+   * Returns weather at valley and summit for each main peak, with the
+   * summit model ensemble when options.ensemble is set
    */
   async fetchElevationWeather(
     region: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options: { ensemble?: boolean } = {}
   ): Promise<ElevationWeather[]> {
     const pairs = WeatherAgent.getElevationPairs(region);
     const results: ElevationWeather[] = [];
@@ -397,65 +355,35 @@ export class WeatherAgent extends BaseAgent<WeatherInput, WeatherData> {
           continue;
         }
 
-        const valley = valleyResult.value;
-        const summit = summitResult.value;
-
-        // Fetch freezing level, snow, and tomorrow's forecast
-        let freezingLevel = 1500;
-        let freshSnow24h = 0;
-        let tomorrowFreezingLevel = 1500;
-        let tomorrow: ElevationForecast | undefined;
+        const valley = valleyResult.value.point;
+        const summit = summitResult.value.point;
+        const summitData = summitResult.value.data;
+        const valleyData = valleyResult.value.data;
 
+        // Fetch the daily forecast for both points
+        let forecast: ElevationForecast[] | undefined;
         try {
-          const summitParams = new URLSearchParams({
-            latitude: pair.summit.latitude.toString(),
-            longitude: pair.summit.longitude.toString(),
-            hourly: 'freezing_level_height',
-            daily: 'snowfall_sum,freezing_level_height_max',
-            timezone: 'auto',
-            forecast_days: '2',
-          });
-
-          const extraResponse = await fetch(`${WeatherAgent.API_BASE}?${summitParams}`, { signal });
-          if (extraResponse.ok) {
-            const extraData = await extraResponse.json();
-            freezingLevel = extraData.hourly?.freezing_level_height?.[new Date().getHours()] ?? 1500;
-            freshSnow24h = extraData.daily?.snowfall_sum?.[0] ?? 0;
-            tomorrowFreezingLevel = extraData.daily?.freezing_level_height_max?.[1] ?? 1500;
-          }
+          forecast = await this.fetchPairForecast(pair, signal);
         } catch {
-          // Use defaults - this is optional data
+          // Forecast is optional
         }
 
-        // Fetch tomorrow's forecast for both points
-        try {
-          const [valleyForecast, summitForecast] = await Promise.all([
-            this.fetchPointForecast(pair.valley, signal),
-            this.fetchPointForecast(pair.summit, signal),
-          ]);
-
-          const tomorrowDate = new Date();
-          tomorrowDate.setDate(tomorrowDate.getDate() + 1);
-
-          tomorrow = {
-            valley: valleyForecast,
-            summit: summitForecast,
-            freezingLevel: Math.round(tomorrowFreezingLevel),
-            date: tomorrowDate.toISOString().split('T')[0],
-          };
-        } catch {
-          // Tomorrow's forecast is optional
-        }
+        const ensemble = options.ensemble
+          ? await this.fetchEnsembleOrEmpty(pair.summit, signal)
+          : undefined;
 
         results.push({
           valley,
           summit,
           tempDifference: summit.temperature - valley.temperature,
-          freezingLevel: Math.round(freezingLevel),
-          freshSnow24h: Math.round(freshSnow24h * 10) / 10,
+          freezingLevel: summitData.freezingLevel,
+          freshSnow24h: summitData.freshSnow24h,
           timestamp: new Date().toISOString(),
-          source: 'Open-Meteo',
-          tomorrow,
+          source: summitData.source,
+          tomorrow: forecast?.[1],
+          forecast,
+          ensemble: ensemble && ensemble.length > 0 ? ensemble : undefined,
+          hydro: valleyData.hydro,
         });
 
         this.log(`${pair.name}: ${valley.temperature}°C → ${summit.temperature}°C`);
@@ -72,6 +72,7 @@ export class WebSearchAgent extends BaseAgent<WebSearchInput, WithConfidence<Con
       name: 'Web Search Agent',
       description: 'Searches for recent ski touring condition reports online',
       cacheTtl: 30 * 60 * 1000, // 30 minutes
+      staleWhileRevalidate: 60 * 60 * 1000,
     });
   }
 
@@ -30,4 +30,5 @@ export {
   Orchestrator,
   type OrchestratorInput,
   type OrchestratorOutput,
+  type ForecastEvaluationInput,
 } from './Orchestrator';
@@ -6,15 +6,25 @@
  */
 
 import { AlertTriangle, TrendingUp, TrendingDown, Minus, ExternalLink } from 'lucide-react';
-import type { AvalancheReport, AvalancheLevel } from '@/types';
+import type { AvalancheReport, AvalancheLevel, EvaluatedRoute, MunterGroup, WindLoading } from '@/types';
 import { SafetyAgent } from '@/agents';
 import { t } from '@/lib/translations';
+import { MUNTER_DANGER_POTENTIAL, munterGroupFactor } from '@/scoring';
+import { ConfidenceBadge } from './ConfidenceBadge';
+import { BulletinTimeline } from './BulletinTimeline';
+import { WindLoadingRose } from './WindLoadingRose';
 
 interface AvalancheIndicatorProps {
   report: AvalancheReport | null;
   loading?: boolean;
   /** Region for showing relevant links */
   region?: string;
+  /** Evaluated routes for the Munter residual risk summary */
+  routes?: EvaluatedRoute[];
+  /** Touring party used for the group reduction factor */
+  group?: MunterGroup;
+  /** Recent lee-slope loading, drawn next to the problem aspects */
+  windLoading?: WindLoading;
 }
 
 const levelLabels: Record<AvalancheLevel, string> = {
@@ -33,7 +43,13 @@ const levelColors: Record<AvalancheLevel, string> = {
   5: 'bg-avalanche-5 text-white',
 };
 
-export function AvalancheIndicator({ report, loading, region }: AvalancheIndicatorProps) {
+// Official bulletin services linked when their data could not be loaded
+const bulletinServices = [
+  { pattern: /tatry/i, url: 'https://lawiny.topr.pl/', label: t.avalanche.toprLink, host: 'lawiny.topr.pl' },
+  { pattern: /karkonosze/i, url: 'https://www.laviny.cz/', label: t.avalanche.hsLink, host: 'laviny.cz' },
+];
+
+export function AvalancheIndicator({ report, loading, region, routes = [], group, windLoading }: AvalancheIndicatorProps) {
   if (loading) {
     return (
       <div className="bg-mountain-dark rounded-lg p-4 animate-pulse">
@@ -45,14 +61,15 @@ export function AvalancheIndicator({ report, loading, region }: AvalancheIndicat
   const isBeskidy = region?.toLowerCase().includes('beskid');
   const isTatry = region?.toLowerCase().includes('tatry');
 
-  // Beskidy has no official avalanche service - show minimal note
-  if (isBeskidy) {
-    return null; // Don't show anything for Beskidy - handled in MobileDashboard
+  // Beskidy has no official avalanche service - only the calculated estimate is shown
+  if (isBeskidy && !report) {
+    return null;
   }
 
   if (!report) {
-    // Tatry - show link to TOPR if data couldn't be loaded
-    if (isTatry) {
+    // Regions with a bulletin service - link to it if data couldn't be loaded
+    const service = region ? bulletinServices.find((s) => s.pattern.test(region)) : undefined;
+    if (service) {
       return (
         <div className="bg-mountain-dark rounded-lg p-4">
           <div className="flex items-center gap-2 text-yellow-400 mb-3">
@@ -63,14 +80,14 @@ export function AvalancheIndicator({ report, loading, region }: AvalancheIndicat
             {t.avalanche.checkTopr}
           </p>
           <a
-            href="https://lawiny.topr.pl/"
+            href={service.url}
             target="_blank"
             rel="noopener noreferrer"
             className="flex items-center justify-between p-2 bg-gray-800 rounded-lg hover:bg-gray-700 transition-colors"
           >
             <div>
-              <div className="text-sm text-white">{t.avalanche.toprLink}</div>
-              <div className="text-xs text-gray-500">lawiny.topr.pl</div>
+              <div className="text-sm text-white">{service.label}</div>
+              <div className="text-xs text-gray-500">{service.host}</div>
             </div>
             <ExternalLink size={14} className="text-gray-500" />
           </a>
@@ -103,6 +120,9 @@ export function AvalancheIndicator({ report, loading, region }: AvalancheIndicat
   };
 
   const recommendations = SafetyAgent.getRecommendations(report.level);
+  const munterRoutes = routes
+    .filter((route) => route.munter)
+    .sort((a, b) => a.munter!.residualRisk - b.munter!.residualRisk);
 
   return (
     <div className="bg-mountain-dark rounded-lg overflow-hidden">
@@ -123,21 +143,52 @@ export function AvalancheIndicator({ report, loading, region }: AvalancheIndicat
         </div>
       </div>
 
+      {/* Unofficial estimate (Beskidy) */}
+      {report.confidence?.sourceType === 'calculated' && (
+        <div className="px-4 pt-3 flex items-start gap-2">
+          <ConfidenceBadge confidence={report.confidence} compact />
+          <p className="text-xs text-yellow-400">{t.avalanche.estimateNote}</p>
+        </div>
+      )}
+
       {/* Details */}
       <div className="p-4 space-y-3">
-        {/* Problem aspects */}
-        <div>
-          <div className="text-xs text-gray-400 mb-1">{t.avalanche.problemAspects}</div>
-          <div className="flex gap-1">
-            {report.problemAspects.map((aspect) => (
-              <span
-                key={aspect}
-                className="px-2 py-0.5 bg-red-900/30 text-red-400 rounded text-xs font-medium"
-              >
-                {aspect}
-              </span>
-            ))}
+        {/* Problem aspects, with the wind-loaded aspects alongside */}
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-xs text-gray-400 mb-1">{t.avalanche.problemAspects}</div>
+            <div className="flex flex-wrap gap-1">
+              {report.problemAspects.map((aspect) => (
+                <span
+                  key={aspect}
+                  className="px-2 py-0.5 bg-red-900/30 text-red-400 rounded text-xs font-medium"
+                >
+                  {aspect}
+                </span>
+              ))}
+            </div>
+            {windLoading && windLoading.loadedAspects.length > 0 && (
+              <>
+                <div className="text-xs text-gray-400 mt-2 mb-1">{t.avalanche.windLoading.loaded}</div>
+                <div className="flex flex-wrap gap-1">
+                  {windLoading.loadedAspects.map((aspect) => (
+                    <span
+                      key={aspect}
+                      className="px-2 py-0.5 bg-orange-900/30 text-orange-400 rounded text-xs font-medium"
+                    >
+                      {aspect}
+                    </span>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
+          {windLoading && (
+            <div>
+              <div className="text-xs text-gray-400 mb-1 text-center">{t.avalanche.windLoading.title}</div>
+              <WindLoadingRose windLoading={windLoading} problemAspects={report.problemAspects} />
+            </div>
+          )}
         </div>
 
         {/* Altitude range */}
@@ -173,6 +224,52 @@ export function AvalancheIndicator({ report, loading, region }: AvalancheIndicat
           </div>
         )}
 
+        {/* Per-service bulletins (TOPR north side, SLP south side) */}
+        {report.bulletins && report.bulletins.length > 1 && (
+          <div>
+            <div className="text-xs text-gray-400 mb-1">{t.avalanche.bulletins}</div>
+            <div className="space-y-1">
+              {report.bulletins.map((bulletin) => (
+                <div key={bulletin.source} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-300">{bulletin.source}</span>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${levelColors[bulletin.level]}`}>
+                    {bulletin.level}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Season history from the TOPR archive */}
+        {isTatry && <BulletinTimeline provider="topr" />}
+
+        {/* Munter reduction method */}
+        <div className="pt-2 border-t border-gray-700">
+          <div className="text-xs text-gray-400 mb-1">{t.avalanche.munter.title}</div>
+          <div className="text-sm text-white">
+            {t.avalanche.munter.dangerPotential}: {MUNTER_DANGER_POTENTIAL[report.level]}
+          </div>
+          {group && (
+            <div className="text-xs text-gray-500">
+              {munterGroupFactor(group).label}: ×{munterGroupFactor(group).value}
+            </div>
+          )}
+          {munterRoutes.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {munterRoutes.slice(0, 5).map((route) => (
+                <div key={route.id} className="flex justify-between text-xs">
+                  <span className="text-gray-300 truncate mr-2">{route.name}</span>
+                  <span className={route.munter!.acceptable ? 'text-green-400' : 'text-red-400'}>
+                    {route.munter!.residualRisk}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="mt-1 text-[11px] text-gray-600">{t.avalanche.munter.hint}</div>
+        </div>
+
         {/* Source and validity */}
         <div className="pt-2 text-xs text-gray-500 space-y-1">
           <div className="flex justify-between">
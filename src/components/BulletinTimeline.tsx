@@ -0,0 +1,112 @@
+/**
+ * Bulletin Timeline Component
+ *
+ * Season timeline of archived danger levels, one bar per day.
+ * Days missing from the archive are shown as gaps.
+ */
+
+import { useEffect, useState } from 'react';
+import type { AvalancheLevel, BulletinHistoryEntry, BulletinProvider } from '@/types';
+import { fetchBulletinHistory, seasonStart } from '@/services/bulletinArchive';
+import { t } from '@/lib/translations';
+
+// Module-level cache to avoid re-fetching on view switches
+const historyCache: Partial<Record<BulletinProvider, { data: BulletinHistoryEntry[]; timestamp: number }>> = {};
+const CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const barColors: Record<AvalancheLevel, string> = {
+  1: 'bg-avalanche-1',
+  2: 'bg-avalanche-2',
+  3: 'bg-avalanche-3',
+  4: 'bg-avalanche-4',
+  5: 'bg-avalanche-5',
+};
+
+interface BulletinTimelineProps {
+  provider?: BulletinProvider;
+}
+
+/**
+ * Every day from the first entry to today (YYYY-MM-DD)
+ */
+function seasonDays(from: string): string[] {
+  const days: string[] = [];
+  const end = new Date().toISOString().slice(0, 10);
+  for (let time = new Date(`${from}T00:00:00Z`).getTime(); ; time += DAY_MS) {
+    const day = new Date(time).toISOString().slice(0, 10);
+    if (day > end) break;
+    days.push(day);
+  }
+  return days;
+}
+
+export function BulletinTimeline({ provider = 'topr' }: BulletinTimelineProps) {
+  const [history, setHistory] = useState<BulletinHistoryEntry[]>(historyCache[provider]?.data ?? []);
+
+  useEffect(() => {
+    const cached = historyCache[provider];
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      setHistory(cached.data);
+      return;
+    }
+
+    let cancelled = false;
+    fetchBulletinHistory({ provider, from: seasonStart() }).then((data) => {
+      historyCache[provider] = { data, timestamp: Date.now() };
+      if (!cancelled) setHistory(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [provider]);
+
+  // Nothing archived yet this season
+  if (history.length === 0) return null;
+
+  const byDate = new Map(history.map((entry) => [entry.date, entry]));
+  const days = seasonDays(history[0].date);
+  const counts = ([1, 2, 3, 4, 5] as AvalancheLevel[]).map(
+    (level) => history.filter((entry) => entry.level === level).length
+  );
+
+  return (
+    <div className="pt-2 border-t border-gray-700">
+      <div className="text-xs text-gray-400 mb-1">{t.avalanche.timeline.title}</div>
+      <div className="flex items-end gap-px h-10">
+        {days.map((day) => {
+          const entry = byDate.get(day);
+          const date = new Date(`${day}T12:00:00`).toLocaleDateString('pl-PL', { day: 'numeric', month: 'short' });
+          return entry ? (
+            <div
+              key={day}
+              className={`flex-1 min-w-[2px] rounded-sm ${barColors[entry.level]}`}
+              style={{ height: `${entry.level * 20}%` }}
+              title={`${date}: ${entry.level}${entry.problems.length > 0 ? ` - ${entry.problems.join(', ')}` : ''}`}
+            />
+          ) : (
+            <div
+              key={day}
+              className="flex-1 min-w-[2px] h-[4%] bg-gray-700"
+              title={`${date}: ${t.avalanche.timeline.noBulletin}`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-[11px] text-gray-600 mt-1">
+        <span>{new Date(`${days[0]}T12:00:00`).toLocaleDateString('pl-PL', { day: 'numeric', month: 'short' })}</span>
+        <span>{t.avalanche.timeline.today}</span>
+      </div>
+      <div className="flex gap-2 mt-1 text-[11px] text-gray-500">
+        {counts.map((count, i) =>
+          count > 0 ? (
+            <span key={i}>
+              {i + 1}: {count} {t.avalanche.timeline.days}
+            </span>
+          ) : null
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { useState, useEffect } from 'react';
 import { RefreshCw, Settings as SettingsIcon, Mountain, ChevronDown } from 'lucide-react';
 import { useAppStore } from '@/stores';
 import { WeatherAgent } from '@/agents';
+import { strongestWindLoading } from '@/utils/windLoading';
 import { AvalancheIndicator } from './AvalancheIndicator';
 import { WeatherCard } from './WeatherCard';
 import { RouteCard } from './RouteCard';
@@ -26,6 +27,7 @@ export function Dashboard() {
     weather,
     avalancheReport,
     routes,
+    snowpack,
     webReports,
     searchingWeb,
     searchStatus,
@@ -196,12 +198,15 @@ export function Dashboard() {
       <main className="flex-1 overflow-y-auto">
         {activeTab === 'overview' && (
           <div className="p-4 space-y-4">
-            {/* Avalanche indicator - only for Tatry (TOPR coverage) */}
-            {config.region.toLowerCase().includes('tatry') && (
+            {/* Avalanche indicator - regions with a bulletin (TOPR/SLP, HS Krkonoše) or a Beskidy estimate */}
+            {['tatry', 'karkonosze', 'beskid'].some((r) => config.region.toLowerCase().includes(r)) && (
               <AvalancheIndicator
                 report={avalancheReport}
                 loading={loading.avalanche}
                 region={config.region}
+                routes={routes}
+                group={config.group}
+                windLoading={strongestWindLoading(snowpack)}
               />
             )}
 
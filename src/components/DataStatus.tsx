@@ -0,0 +1,83 @@
+/**
+ * Data Status Component
+ *
+ * Explains why weather or avalanche data may be stale: a source paused by
+ * its circuit breaker, a failed last fetch, or data served from cache.
+ */
+
+import { AlertTriangle, Clock } from 'lucide-react';
+import type { DataStatus as DataStatusInfo } from '@/stores/useAppStore';
+import { t } from '@/lib/translations';
+
+interface DataStatusProps {
+  status: DataStatusInfo | null;
+}
+
+/** Cached data younger than this is not worth mentioning (ms) */
+const CACHE_NOTICE_AGE = 30 * 60 * 1000;
+
+/** Agents shown, with the key of their result in cacheAges */
+const sources = [
+  { agentId: 'weather', cacheKey: 'weather', label: t.dataStatus.weather },
+  { agentId: 'safety', cacheKey: 'avalanche', label: t.dataStatus.avalanche },
+];
+
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' });
+}
+
+export function DataStatus({ status }: DataStatusProps) {
+  if (!status) return null;
+
+  const notices = sources.flatMap((source) => {
+    const agent = status.agents.find((a) => a.id === source.agentId);
+    const cacheAge = status.cacheAges[source.cacheKey];
+    const circuit = agent?.circuit;
+
+    let reason: string | null = null;
+    let detail: string | undefined;
+    if (circuit?.state === 'open') {
+      reason = t.dataStatus.paused.replace('{time}', circuit.retryAt ? formatTime(circuit.retryAt) : '?');
+      detail = circuit.lastError;
+    } else if (circuit?.state === 'half_open') {
+      reason = t.dataStatus.retrying;
+    } else if (agent?.lastError) {
+      reason = t.dataStatus.failed;
+      detail = agent.lastError;
+    }
+
+    const cached =
+      cacheAge !== undefined && (reason !== null || cacheAge >= CACHE_NOTICE_AGE)
+        ? t.dataStatus.cached.replace('{age}', formatAge(cacheAge))
+        : null;
+
+    if (!reason && !cached) return [];
+    return [{ ...source, reason, detail, cached }];
+  });
+
+  if (notices.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5">
+      {notices.map((notice) => (
+        <div key={notice.agentId} className="flex items-start gap-2 text-xs">
+          {notice.reason ? (
+            <AlertTriangle size={14} className="text-yellow-400 flex-shrink-0 mt-0.5" />
+          ) : (
+            <Clock size={14} className="text-gray-500 flex-shrink-0 mt-0.5" />
+          )}
+          <div className="text-gray-400">
+            <span className="text-gray-300">{notice.label}:</span>{' '}
+            {[notice.reason, notice.cached].filter(Boolean).join(', ')}
+            {notice.detail && <div className="text-gray-600 truncate">{notice.detail}</div>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
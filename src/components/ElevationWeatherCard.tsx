@@ -15,9 +15,11 @@ import {
   ChevronUp,
   Snowflake,
   Cloud,
+  Droplets,
 } from 'lucide-react';
 import type { ElevationWeather } from '@/types';
 import { WEATHER_ICONS, getWeatherLabel } from '@/constants';
+import { t } from '@/lib/translations';
 
 interface ElevationWeatherCardProps {
   data: ElevationWeather[];
@@ -256,6 +258,17 @@ function ElevationRow({ data, showForecast }: { data: ElevationWeather; showFore
               <span>{getWeatherLabel(data.summit.condition)}</span>
             </div>
           </div>
+
+          {data.hydro && (
+            <div className="flex items-center gap-1 text-xs text-gray-400">
+              <Droplets className="w-3 h-3 text-cyan-400" />
+              <span>
+                {t.weather.waterLevel} {data.hydro.river ? `${data.hydro.river} (${data.hydro.station})` : data.hydro.station}:{' '}
+                {data.hydro.waterLevel} cm
+                {data.hydro.waterTemperature !== undefined && `, ${data.hydro.waterTemperature}°C`}
+              </span>
+            </div>
+          )}
         </div>
       )}
     </div>
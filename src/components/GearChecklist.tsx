@@ -0,0 +1,137 @@
+/**
+ * Gear Checklist Component
+ *
+ * Pack list for a route with the reason for each item. Ticks are stored
+ * on the device; the list can be shared as text.
+ */
+
+import { useMemo, useState } from 'react';
+import { Backpack, Share2, ChevronDown, ChevronUp } from 'lucide-react';
+import type { EvaluatedRoute, GearItem } from '@/types';
+import { useAppStore, useReportsStore, useGearChecklistStore } from '@/stores';
+import { buildGearChecklist, findNearestElevationWeather, avalancheForDate } from '@/planning';
+import { t } from '@/lib/translations';
+
+interface GearChecklistProps {
+  route: EvaluatedRoute;
+}
+
+/**
+ * Plain-text list for messengers
+ */
+function checklistText(route: EvaluatedRoute, items: GearItem[], packed: string[]): string {
+  const lines = [`${t.gear.title}: ${route.name}${route.forecastDate ? ` (${route.forecastDate})` : ''}`];
+  for (const priority of ['required', 'recommended'] as const) {
+    const group = items.filter((item) => item.priority === priority);
+    if (group.length === 0) continue;
+    lines.push('', `${priority === 'required' ? t.gear.required : t.gear.recommended}:`);
+    for (const item of group) {
+      lines.push(`${packed.includes(item.id) ? '☑' : '☐'} ${t.gear.items[item.id]} - ${item.reasons.join('; ')}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export function GearChecklist({ route }: GearChecklistProps) {
+  const { avalancheReport, elevationWeather } = useAppStore();
+  const { reports, getAggregatedConditions } = useReportsStore();
+  const packedList = useGearChecklistStore((state) => state.packed[route.id]);
+  const { togglePacked, resetPacked } = useGearChecklistStore();
+  const [expanded, setExpanded] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const items = useMemo(
+    () =>
+      buildGearChecklist({
+        route,
+        avalanche: route.forecastDate
+          ? avalancheForDate(avalancheReport ?? undefined, route.forecastDate)
+          : avalancheReport ?? undefined,
+        weather: findNearestElevationWeather(route, elevationWeather),
+        conditions: getAggregatedConditions(route.region),
+        date: route.forecastDate,
+      }),
+    // reports: aggregated conditions change with them
+    [route, avalancheReport, elevationWeather, getAggregatedConditions, reports]
+  );
+
+  const packed = packedList?.items ?? [];
+  const packedCount = items.filter((item) => packed.includes(item.id)).length;
+
+  const handleShare = async () => {
+    const text = checklistText(route, items, packed);
+    if (navigator.share) {
+      await navigator.share({ title: t.gear.title, text }).catch(() => undefined);
+    } else {
+      try {
+        await navigator.clipboard.writeText(text);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      } catch (error) {
+        console.warn('Copying the gear checklist failed:', error);
+      }
+    }
+  };
+
+  return (
+    <div className="px-4 pb-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between py-2 text-sm text-gray-300"
+        aria-expanded={expanded}
+      >
+        <span className="flex items-center gap-2">
+          <Backpack size={16} className="text-gray-400" />
+          {t.gear.title}
+          <span className="text-xs text-gray-500">
+            {t.gear.packed} {packedCount}/{items.length}
+          </span>
+        </span>
+        {expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {expanded && (
+        <div className="space-y-2">
+          <ul className="space-y-2">
+            {items.map((item) => (
+              <li key={item.id}>
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={packed.includes(item.id)}
+                    onChange={() => togglePacked(route.id, item.id)}
+                    className="mt-1 accent-blue-500"
+                  />
+                  <span className="flex-1">
+                    <span className={`text-sm ${packed.includes(item.id) ? 'text-gray-500 line-through' : 'text-white'}`}>
+                      {t.gear.items[item.id]}
+                    </span>
+                    <span
+                      className={`ml-2 px-1.5 py-0.5 rounded text-[10px] ${
+                        item.priority === 'required' ? 'bg-red-900/50 text-red-300' : 'bg-gray-700 text-gray-300'
+                      }`}
+                    >
+                      {item.priority === 'required' ? t.gear.required : t.gear.recommended}
+                    </span>
+                    <span className="block text-xs text-gray-500">{item.reasons.join(' • ')}</span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center justify-end gap-4 text-xs">
+            {packedCount > 0 && (
+              <button onClick={() => resetPacked(route.id)} className="text-gray-400 hover:underline">
+                {t.gear.reset}
+              </button>
+            )}
+            <button onClick={handleShare} className="flex items-center gap-1 text-blue-400 hover:underline">
+              <Share2 size={12} />
+              {copied ? t.gear.copied : t.gear.share}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
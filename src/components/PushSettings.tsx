@@ -0,0 +1,140 @@
+/**
+ * Push Settings Component
+ *
+ * Web Push opt-in for the Settings panel: enable switch plus the regions
+ * and event types this browser is notified about.
+ */
+
+import { useEffect, useState } from 'react';
+import { BellRing } from 'lucide-react';
+import type { PushEventType, PushPreferences } from '@/types';
+import { useAppStore } from '@/stores';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { ALL_REGIONS } from '@/constants';
+import {
+  disablePush,
+  enablePush,
+  getPushPreferences,
+  isPushSupported,
+  updatePushPreferences,
+} from '@/services/pushNotifications';
+import { t } from '@/lib/translations';
+
+const EVENT_TYPES: { type: PushEventType; label: string }[] = [
+  { type: 'bulletin', label: t.push.bulletin },
+  { type: 'verified_report', label: t.push.verifiedReport },
+  { type: 'community_report', label: t.push.communityReport },
+];
+
+export function PushSettings() {
+  const region = useAppStore((state) => state.config.region);
+  const user = useAuthStore((state) => state.user);
+  const [enabled, setEnabled] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [preferences, setPreferences] = useState<PushPreferences>(() => ({
+    regions: (ALL_REGIONS as readonly string[]).includes(region) ? [region] : ['Tatry'],
+    types: EVENT_TYPES.map((e) => e.type),
+  }));
+
+  const supported = isPushSupported();
+
+  useEffect(() => {
+    if (!supported || !user) return;
+    getPushPreferences().then((stored) => {
+      if (stored) {
+        setEnabled(true);
+        setPreferences(stored);
+      }
+    });
+  }, [supported, user]);
+
+  const handleToggle = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      if (enabled) {
+        await disablePush();
+        setEnabled(false);
+      } else {
+        const result = await enablePush(preferences);
+        if (result === 'enabled') setEnabled(true);
+        else setMessage(result === 'denied' ? t.push.denied : t.push.unsupported);
+      }
+    } catch (error) {
+      console.error('Push subscription failed:', error);
+      setMessage(t.push.error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changePreferences = (next: PushPreferences) => {
+    setPreferences(next);
+    if (enabled) {
+      updatePushPreferences(next).catch((error) => {
+        console.error('Failed to update push preferences:', error);
+        setMessage(t.push.error);
+      });
+    }
+  };
+
+  const toggleIn = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+        <BellRing size={16} className="text-gray-400" />
+        {t.push.title}
+      </label>
+
+      {!supported ? (
+        <div className="text-xs text-gray-500">{t.push.unsupported}</div>
+      ) : !user ? (
+        <div className="text-xs text-gray-500">{t.push.loginRequired}</div>
+      ) : (
+        <div className="space-y-3">
+          <div className="text-xs text-gray-500">{t.push.description}</div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={enabled} disabled={busy} onChange={handleToggle} />
+            {t.push.enable}
+          </label>
+
+          <div>
+            <div className="text-xs text-gray-400 mb-1">{t.push.regions}</div>
+            <div className="grid grid-cols-2 gap-1">
+              {ALL_REGIONS.map((r) => (
+                <label key={r} className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={preferences.regions.includes(r)}
+                    onChange={() => changePreferences({ ...preferences, regions: toggleIn(preferences.regions, r) })}
+                  />
+                  {r}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs text-gray-400 mb-1">{t.push.types}</div>
+            {EVENT_TYPES.map(({ type, label }) => (
+              <label key={type} className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={preferences.types.includes(type)}
+                  onChange={() => changePreferences({ ...preferences, types: toggleIn(preferences.types, type) })}
+                />
+                {label}
+              </label>
+            ))}
+            <div className="mt-1 text-xs text-gray-500">{t.push.watchedOnly}</div>
+          </div>
+
+          {message && <div className="text-xs text-amber-400">{message}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
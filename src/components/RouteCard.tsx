@@ -4,11 +4,15 @@
  * Displays an evaluated ski touring route with condition score.
  */
 
-import { Mountain, Clock, TrendingUp, AlertCircle, ChevronRight } from 'lucide-react';
+import { Mountain, Clock, TrendingUp, AlertCircle, ChevronRight, Download, Star } from 'lucide-react';
 import type { EvaluatedRoute } from '@/types';
 import { t } from '@/lib/translations';
+import { useWatchlistStore } from '@/stores/useWatchlistStore';
 import { ResortDescentBadge } from './ResortConditions';
+import { GearChecklist } from './GearChecklist';
 import { getScoreColor, getScoreBg } from '@/utils/scoreUtils';
+import { routeToGpx, gpxFileName, downloadGpx } from '@/utils/gpxExport';
+import { ATES_LABELS, ATES_DECISION_LABELS, formatMunter } from '@/scoring';
 
 interface RouteCardProps {
   route: EvaluatedRoute;
@@ -33,14 +37,21 @@ const scoreBreakdownLabels: Record<string, string> = {
   weather: 'Pogoda',
   snow: 'Śnieg',
   snowConditions: 'Śnieg',
+  avalanche: 'Lawiny',
   safety: 'Bezpieczeństwo',
   accessibility: 'Dostępność',
 };
 
-// Keys to exclude from display (no longer tracked or not meaningful)
-const excludedBreakdownKeys = ['crowding', 'avalanche'];
+const atesDecisionColors = {
+  go: 'bg-green-900/50 text-green-300',
+  careful: 'bg-yellow-900/50 text-yellow-300',
+  'no-go': 'bg-red-900/50 text-red-300',
+};
 
 export function RouteCard({ route, compact = false }: RouteCardProps) {
+  const watched = useWatchlistStore((state) => state.items.some((item) => item.id === route.id));
+  const toggleWatch = useWatchlistStore((state) => state.toggleWatch);
+
   if (compact) {
     return (
       <div className="flex items-center justify-between p-3 bg-mountain-light rounded-lg hover:bg-gray-600 transition-colors cursor-pointer">
@@ -53,7 +64,10 @@ export function RouteCard({ route, compact = false }: RouteCardProps) {
             </span>
           </div>
           <div>
-            <div className="font-medium text-white">{route.name}</div>
+            <div className="font-medium text-white flex items-center gap-1">
+              {route.name}
+              {watched && <Star size={12} className="text-yellow-400 fill-yellow-400" />}
+            </div>
             <div className="text-xs text-gray-400 flex items-center gap-2">
               <span>{route.elevation}m</span>
               <span>•</span>
@@ -72,7 +86,17 @@ export function RouteCard({ route, compact = false }: RouteCardProps) {
       <div className="p-4 border-b border-gray-700">
         <div className="flex items-start justify-between">
           <div>
-            <h3 className="font-semibold text-white">{route.name}</h3>
+            <h3 className="font-semibold text-white flex items-center gap-2">
+              {route.name}
+              <button
+                onClick={() => toggleWatch({ kind: 'route', id: route.id, name: route.name, region: route.region })}
+                className="p-1 rounded hover:bg-gray-700 transition-colors"
+                title={watched ? t.watchlist.unwatch : t.watchlist.watch}
+                aria-pressed={watched}
+              >
+                <Star size={16} className={watched ? 'text-yellow-400 fill-yellow-400' : 'text-gray-500'} />
+              </button>
+            </h3>
             <div className="text-sm text-gray-400">{route.region}</div>
           </div>
           <div
@@ -115,20 +139,32 @@ export function RouteCard({ route, compact = false }: RouteCardProps) {
       <div className="p-4 border-b border-gray-700">
         <div className="text-xs text-gray-400 mb-2">{t.routes.scoreBreakdown}</div>
         <div className="space-y-2">
-          {Object.entries(route.scoreBreakdown)
-            .filter(([key]) => !excludedBreakdownKeys.includes(key))
-            .map(([key, value]) => (
-            <div key={key} className="flex items-center gap-2">
-              <div className="w-24 text-xs text-gray-400">
-                {scoreBreakdownLabels[key] || key}
-              </div>
-              <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
-                <div
-                  className={`h-full rounded-full ${value >= 70 ? 'bg-green-500' : value >= 50 ? 'bg-yellow-500' : 'bg-red-500'}`}
-                  style={{ width: `${value}%` }}
-                />
+          {Object.entries(route.scoreBreakdown).map(([key, category]) => (
+            <div key={key}>
+              <div className="flex items-center gap-2">
+                <div className="w-24 text-xs text-gray-400">
+                  {scoreBreakdownLabels[key] || key}
+                </div>
+                <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${category.score >= 70 ? 'bg-green-500' : category.score >= 50 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                    style={{ width: `${category.score}%` }}
+                  />
+                </div>
+                <div className="w-8 text-xs text-gray-400 text-right">{category.score}</div>
               </div>
-              <div className="w-8 text-xs text-gray-400 text-right">{value}</div>
+              {category.contributions.length > 0 && (
+                <div className="ml-24 pl-2 mt-1 flex flex-wrap gap-x-3 gap-y-0.5">
+                  {category.contributions.map((contribution) => (
+                    <span key={contribution.ruleId} className="text-[11px] text-gray-500">
+                      {contribution.label}{' '}
+                      <span className={contribution.points > 0 ? 'text-green-500' : 'text-red-400'}>
+                        {contribution.points > 0 ? '+' : ''}{contribution.points}
+                      </span>
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -158,8 +194,69 @@ export function RouteCard({ route, compact = false }: RouteCardProps) {
           </div>
         )}
 
+        {/* Munter residual risk */}
+        {route.munter && (
+          <div className="mt-3 pt-3 border-t border-gray-700">
+            <div className="flex items-center justify-between text-xs mb-1">
+              <span className="text-gray-400">{t.avalanche.munter.residualRisk}</span>
+              <span className={`font-medium ${route.munter.acceptable ? 'text-green-400' : 'text-red-400'}`}>
+                {formatMunter(route.munter)}
+              </span>
+            </div>
+            <div className="space-y-0.5">
+              {route.munter.factors.map((factor) => (
+                <div key={factor.type} className="flex justify-between text-[11px] text-gray-500">
+                  <span>
+                    {factor.label}
+                    {factor.estimated && ` (${t.avalanche.munter.estimated})`}
+                  </span>
+                  <span>×{factor.value}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Tour time window */}
+        {route.timeWindow && (
+          <div className="mt-3 pt-3 border-t border-gray-700">
+            <div className="flex items-center gap-1 text-xs text-gray-400 mb-2">
+              <Clock size={12} />
+              <span>Okno czasowe ({route.timeWindow.date})</span>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <div className="text-sm text-white font-medium">{route.timeWindow.start}</div>
+                <div className="text-xs text-gray-500">Start</div>
+              </div>
+              <div>
+                <div className="text-sm text-white font-medium">{route.timeWindow.turnaround}</div>
+                <div className="text-xs text-gray-500">Zawrót</div>
+              </div>
+              <div>
+                <div className="text-sm text-white font-medium">
+                  {route.timeWindow.descentWindow.from}-{route.timeWindow.descentWindow.to}
+                </div>
+                <div className="text-xs text-gray-500">Zjazd</div>
+              </div>
+            </div>
+            {route.timeWindow.flags.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {route.timeWindow.flags.map((flag, i) => (
+                  <div
+                    key={i}
+                    className={`text-xs ${flag.severity === 'unsafe' ? 'text-red-400' : 'text-yellow-400'}`}
+                  >
+                    {flag.message}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Optimal time */}
-        {route.optimalTime && (
+        {!route.timeWindow && route.optimalTime && (
           <div className="mt-2 text-xs text-gray-400">
             <Clock size={12} className="inline mr-1" />
             {route.optimalTime}
@@ -175,13 +272,59 @@ export function RouteCard({ route, compact = false }: RouteCardProps) {
           >
             {difficultyLabels[route.difficulty]}
           </span>
+          <span
+            className={`ml-2 inline-block px-2 py-1 rounded text-xs ${route.atesDecision ? atesDecisionColors[route.atesDecision] : 'bg-gray-700 text-gray-300'}`}
+            title={route.atesDecision ? ATES_DECISION_LABELS[route.atesDecision] : undefined}
+          >
+            ATES: {ATES_LABELS[route.ates]}
+          </span>
+          {route.isCustom && (
+            <span className="ml-2 inline-block px-2 py-1 rounded text-xs bg-blue-900/50 text-blue-300">
+              {t.routes.custom}
+            </span>
+          )}
           <span className="ml-2 text-xs text-gray-500">
             Ekspozycje: {route.aspects.join(', ')}
           </span>
+          <button
+            onClick={() => downloadGpx(routeToGpx(route), gpxFileName(route.name))}
+            className="float-right flex items-center gap-1 text-xs text-blue-400 hover:underline"
+            title={t.routes.exportGpx}
+          >
+            <Download size={12} />
+            GPX
+          </button>
         </div>
+        {/* Bulletin used for this route (TOPR, SLP or both near the border) */}
+        {route.avalancheSource && (
+          <div className="text-xs text-gray-500">
+            Komunikat: {route.avalancheSource}
+          </div>
+        )}
+        {/* Slope profile from the DEM */}
+        {route.terrain && (
+          <div className="text-xs text-gray-500">
+            Nachylenie maks. {route.terrain.maxSlope}°
+            {route.terrain.steepLength[30] > 0 && (
+              <>
+                {' '}• &gt;30°: {route.terrain.steepLength[30]} m
+                {route.terrain.steepLength[35] > 0 && <>, &gt;35°: {route.terrain.steepLength[35]} m</>}
+                {route.terrain.steepLength[40] > 0 && (
+                  <span className="text-red-400">, &gt;40°: {route.terrain.steepLength[40]} m</span>
+                )}
+                {' '}({route.terrain.steepAspects.join(', ')})
+              </>
+            )}
+          </div>
+        )}
         {/* Show nearby resort as descent alternative */}
         <ResortDescentBadge routeName={route.name} region={route.region} />
       </div>
+
+      {/* Pack list for the conditions */}
+      <div className="border-t border-gray-700">
+        <GearChecklist route={route} />
+      </div>
     </div>
   );
 }
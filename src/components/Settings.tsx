@@ -10,13 +10,15 @@ import { X, Check, Shield, Info } from 'lucide-react';
 import { useAppStore } from '@/stores';
 import { useAuthStore } from '@/stores/useAuthStore';
 import { isSupabaseConfigured } from '@/lib/supabase';
+import { SCORING_PROFILES, isScoringProfileId, munterGroupFactor } from '@/scoring';
+import { PushSettings } from './PushSettings';
 
 interface SettingsProps {
   onClose: () => void;
 }
 
 export function Settings({ onClose }: SettingsProps) {
-  const { config, updateConfig } = useAppStore();
+  const { config, updateConfig, refreshAll } = useAppStore();
   const { isAdmin, user } = useAuthStore();
   const [saved, setSaved] = useState(false);
 
@@ -135,6 +137,72 @@ export function Settings({ onClose }: SettingsProps) {
               <option value="0">Tylko ręcznie</option>
             </select>
           </div>
+
+          {/* Scoring profile */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Profil oceny tras
+            </label>
+            <select
+              value={config.scoringProfile}
+              onChange={(e) => {
+                if (isScoringProfileId(e.target.value)) {
+                  updateConfig({ scoringProfile: e.target.value });
+                  refreshAll();
+                }
+              }}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+            >
+              {Object.values(SCORING_PROFILES).map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.label}
+                </option>
+              ))}
+            </select>
+            <div className="mt-1 text-xs text-gray-500">
+              {SCORING_PROFILES[config.scoringProfile].description}
+            </div>
+          </div>
+
+          {/* Touring party (Munter group reduction factor) */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Grupa (metoda redukcyjna)
+            </label>
+            <div className="flex items-center gap-3">
+              <select
+                value={config.group.size}
+                onChange={(e) => {
+                  updateConfig({ group: { ...config.group, size: parseInt(e.target.value) } });
+                  refreshAll();
+                }}
+                className="flex-1 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+              >
+                {[1, 2, 3, 4, 5, 6, 7, 8, 10, 12].map((size) => (
+                  <option key={size} value={size}>
+                    {size} {size === 1 ? 'osoba' : size < 5 ? 'osoby' : 'osób'}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={config.group.spacing}
+                  onChange={(e) => {
+                    updateConfig({ group: { ...config.group, spacing: e.target.checked } });
+                    refreshAll();
+                  }}
+                />
+                Odstępy
+              </label>
+            </div>
+            <div className="mt-1 text-xs text-gray-500">
+              {munterGroupFactor(config.group).label} - czynnik redukcji {munterGroupFactor(config.group).value}
+            </div>
+          </div>
+
+          {/* Push notifications */}
+          <PushSettings />
         </div>
 
         {/* Footer with save button */}
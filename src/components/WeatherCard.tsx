@@ -14,6 +14,7 @@ import {
 import type { WeatherData } from '@/types';
 import { t } from '@/lib/translations';
 import { WEATHER_ICONS, WEATHER_LABELS } from '@/constants';
+import { ConfidenceBadge } from './ConfidenceBadge';
 
 interface WeatherCardProps {
   weather: WeatherData | null;
@@ -116,6 +117,27 @@ export function WeatherCard({ weather, loading, locationName }: WeatherCardProps
         </div>
       )}
 
+      {/* Model spread (ensemble mode) */}
+      {weather.ensemble && weather.confidence && (
+        <div className="mt-3 pt-3 border-t border-gray-700 text-sm">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-gray-400">{t.weather.ensemble.title}</span>
+            <ConfidenceBadge confidence={weather.confidence} compact />
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-xs text-gray-300">
+            <span>
+              {t.weather.ensemble.snowfall} {weather.ensemble.snowfall.min}-{weather.ensemble.snowfall.max} cm
+            </span>
+            <span>
+              {t.weather.ensemble.wind} {weather.ensemble.windSpeed.min}-{weather.ensemble.windSpeed.max} km/h
+            </span>
+            <span>
+              {t.weather.ensemble.freezingLevel} {weather.ensemble.freezingLevel.min}-{weather.ensemble.freezingLevel.max} m
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Source and timestamp */}
       <div className="mt-3 text-xs text-gray-500 flex justify-between">
         <span>{weather.source}</span>
@@ -0,0 +1,71 @@
+/**
+ * Wind Loading Rose Component
+ *
+ * Eight-sector aspect rose shaded by how much drifted snow the last 48h
+ * of wind deposited. Bulletin problem aspects are outlined for comparison.
+ */
+
+import type { Aspect, WindLoading } from '@/types';
+import { t } from '@/lib/translations';
+
+const ASPECTS: Aspect[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+const SIZE = 72;
+const CENTER = SIZE / 2;
+const RADIUS = 26;
+
+interface WindLoadingRoseProps {
+  windLoading: WindLoading;
+  /** Bulletin problem aspects, outlined in red */
+  problemAspects?: Aspect[];
+}
+
+/**
+ * Point on the rose, 0° = north, clockwise
+ */
+function polar(degrees: number, radius: number): string {
+  const rad = (degrees * Math.PI) / 180;
+  return `${(CENTER + radius * Math.sin(rad)).toFixed(1)},${(CENTER - radius * Math.cos(rad)).toFixed(1)}`;
+}
+
+function sectorPath(index: number): string {
+  const start = index * 45 - 22.5;
+  const end = index * 45 + 22.5;
+  return `M${CENTER},${CENTER} L${polar(start, RADIUS)} A${RADIUS},${RADIUS} 0 0 1 ${polar(end, RADIUS)} Z`;
+}
+
+export function WindLoadingRose({ windLoading, problemAspects = [] }: WindLoadingRoseProps) {
+  const loaded = new Set(windLoading.loadedAspects);
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`} role="img" aria-label={t.avalanche.windLoading.title}>
+        {ASPECTS.map((aspect, i) => (
+          <path
+            key={aspect}
+            d={sectorPath(i)}
+            fill={loaded.has(aspect) ? '#f97316' : '#4b5563'}
+            fillOpacity={loaded.has(aspect) ? 0.3 + 0.7 * windLoading.loading[aspect] : 0.3}
+            stroke={problemAspects.includes(aspect) ? '#f87171' : '#1f2937'}
+            strokeWidth={problemAspects.includes(aspect) ? 2 : 1}
+          >
+            <title>{`${aspect}: ${Math.round(windLoading.loading[aspect] * 100)}%`}</title>
+          </path>
+        ))}
+        {ASPECTS.filter((_, i) => i % 2 === 0).map((aspect, i) => {
+          const [x, y] = polar(i * 90, RADIUS + 6).split(',');
+          return (
+            <text key={aspect} x={x} y={y} fontSize="8" fill="#9ca3af" textAnchor="middle" dominantBaseline="middle">
+              {aspect}
+            </text>
+          );
+        })}
+      </svg>
+      <div className="text-[11px] text-gray-500 text-center">
+        {windLoading.windFrom
+          ? `${t.avalanche.windLoading.windFrom} ${windLoading.windFrom}, ${windLoading.driftHours} h`
+          : t.avalanche.windLoading.calm}
+      </div>
+    </div>
+  );
+}
@@ -5,11 +5,14 @@
  * Supports both Ascent (Podejście) and Descent (Zjazd) reports.
  */
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { pl } from 'date-fns/locale';
-import { Users, AlertTriangle, MapPin, Clock, ArrowUp, ArrowDown, UserCheck, Activity } from 'lucide-react';
+import { Users, AlertTriangle, MapPin, Clock, ArrowUp, ArrowDown, UserCheck, Activity, Download, ThumbsUp, ThumbsDown, Shield, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { useReportsStore, type CommunityReport, type LocationConditions } from '@/stores';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { hapticButton, hapticError } from '@/utils/haptics';
 import { t } from '@/lib/translations';
 import {
   getRelevanceTier,
@@ -18,7 +21,9 @@ import {
   isReportArchived,
   calculateReportWeight,
 } from '@/utils/relevanceScore';
-import type { RelevanceTier } from '@/types';
+import type { RelevanceTier, ReportVote, ContributorReputation, ReputationTier } from '@/types';
+import { getReputationTier } from '@/utils/reputation';
+import { reportsToGpx, gpxFileName, downloadGpx } from '@/utils/gpxExport';
 import {
   getSnowConfig,
   getTrackConfig,
@@ -26,6 +31,7 @@ import {
   MIN_REPORTS_FOR_AGGREGATION,
 } from '@/constants';
 import { StarRating } from '@/components/ui';
+import { ReportPhotos } from './ReportPhotos';
 
 interface CommunityIntelProps {
   region: string;
@@ -171,6 +177,109 @@ function LocationSummaryCard({ summary }: { summary: LocationConditions }) {
   );
 }
 
+const TRUST_STYLES: Record<ReputationTier, { icon: typeof Shield; className: string }> = {
+  trusted: { icon: ShieldCheck, className: 'bg-emerald-500/20 text-emerald-400' },
+  regular: { icon: Shield, className: 'bg-gray-700 text-gray-300' },
+  low: { icon: ShieldAlert, className: 'bg-amber-500/20 text-amber-400' },
+  new: { icon: Shield, className: 'bg-gray-700/50 text-gray-500' },
+};
+
+/**
+ * Small badge with the author's reputation tier
+ */
+function TrustBadge({ reputation }: { reputation: ContributorReputation }) {
+  const tier = getReputationTier(reputation);
+  const { icon: Icon, className } = TRUST_STYLES[tier];
+  const title =
+    tier === 'new'
+      ? t.community.trust.newHint
+      : t.community.trust.score
+          .replace('{score}', reputation.score.toString())
+          .replace('{reports}', reputation.reports.toString());
+
+  return (
+    <span
+      className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] font-medium ${className}`}
+      title={title}
+    >
+      <Icon className="w-3 h-3" aria-hidden="true" />
+      {t.community.trust[tier]}
+    </span>
+  );
+}
+
+/**
+ * "Still accurate?" confirm/dispute buttons with the current tally
+ */
+function ReportVoteBar({ report }: { report: CommunityReport }) {
+  const { user } = useAuthStore();
+  const { voteOnReport } = useReportsStore();
+  const [isSaving, setIsSaving] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const votes = report.votes ?? { confirms: 0, disputes: 0 };
+  const canVote = isSupabaseConfigured() && Boolean(user) && report.synced && !report.isOwn;
+  if (!canVote && votes.confirms === 0 && votes.disputes === 0) return null;
+
+  const handleVote = async (vote: ReportVote) => {
+    hapticButton();
+    setIsSaving(true);
+    setFailed(false);
+    try {
+      // Tapping the current vote withdraws it
+      await voteOnReport(report.id, votes.own === vote ? null : vote);
+    } catch {
+      hapticError();
+      setFailed(true);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const buttonClass = (vote: ReportVote) =>
+    `flex items-center gap-1 px-2 py-1 rounded-full transition-colors disabled:cursor-default ${
+      votes.own === vote
+        ? vote === 'confirm' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'
+        : 'bg-gray-700/50 text-gray-400 enabled:hover:text-white'
+    }`;
+
+  return (
+    <div className="mt-2 flex items-center justify-between gap-2 text-xs">
+      <span className={failed ? 'text-red-400' : 'text-gray-500'}>
+        {failed
+          ? t.community.votes.failed
+          : votes.lastConfirmedAt && votes.confirms > 0
+            ? `${t.community.votes.confirmed} ${formatDistanceToNow(new Date(votes.lastConfirmedAt), { addSuffix: true, locale: pl })}`
+            : t.community.votes.question}
+      </span>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => handleVote('confirm')}
+          disabled={!canVote || isSaving}
+          className={buttonClass('confirm')}
+          aria-pressed={votes.own === 'confirm'}
+          title={t.community.votes.confirm}
+          aria-label={t.community.votes.confirm}
+        >
+          <ThumbsUp className="w-3.5 h-3.5" />
+          {votes.confirms}
+        </button>
+        <button
+          onClick={() => handleVote('dispute')}
+          disabled={!canVote || isSaving}
+          className={buttonClass('dispute')}
+          aria-pressed={votes.own === 'dispute'}
+          title={t.community.votes.dispute}
+          aria-label={t.community.votes.dispute}
+        >
+          <ThumbsDown className="w-3.5 h-3.5" />
+          {votes.disputes}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function ReportCard({ report }: { report: CommunityReport }) {
   const timeAgo = useMemo(() => {
     try {
@@ -202,6 +311,7 @@ function ReportCard({ report }: { report: CommunityReport }) {
           <span className={`text-xs font-medium ${archived ? 'text-gray-400' : 'text-emerald-400'}`}>
             {t.community.userReport}
           </span>
+          {report.authorReputation && <TrustBadge reputation={report.authorReputation} />}
           {archived && (
             <span className="text-xs text-gray-500 bg-gray-700 px-1.5 py-0.5 rounded">
               Archiwum
@@ -284,6 +394,14 @@ function ReportCard({ report }: { report: CommunityReport }) {
       {report.notes && (
         <p className="mt-2 text-sm text-gray-300 line-clamp-2 italic">"{report.notes}"</p>
       )}
+
+      {report.photos && (
+        <div className="mt-2">
+          <ReportPhotos photos={report.photos} />
+        </div>
+      )}
+
+      {!archived && <ReportVoteBar report={report} />}
     </article>
   );
 }
@@ -355,10 +473,27 @@ export function CommunityIntel({ region }: CommunityIntelProps) {
           <Users className="w-4 h-4 text-blue-400" />
           {t.community.title}
         </h3>
-        <span className="text-xs text-gray-500">
-          {activeReports.length} aktywnych
-          {archivedReports.length > 0 && `, ${archivedReports.length} arch.`}
-        </span>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">
+            {activeReports.length} aktywnych
+            {archivedReports.length > 0 && `, ${archivedReports.length} arch.`}
+          </span>
+          {activeReports.some((r) => r.coordinates) && (
+            <button
+              onClick={() =>
+                downloadGpx(
+                  reportsToGpx(activeReports, `${t.community.title} - ${region}`),
+                  gpxFileName(`raporty-${region}`)
+                )
+              }
+              className="p-1 rounded text-gray-400 hover:text-blue-400 transition-colors"
+              title={t.community.exportGpx}
+              aria-label={t.community.exportGpx}
+            >
+              <Download className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Location summaries - only show if we have enough active reports for meaningful aggregation */}
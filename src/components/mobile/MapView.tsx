@@ -7,17 +7,19 @@
  */
 
 import { useEffect, useState, useMemo } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap, LayersControl } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, LayersControl } from 'react-leaflet';
 import MarkerClusterGroup from 'react-leaflet-cluster';
 import L from 'leaflet';
 import 'leaflet.markercluster';
-import { Crosshair, Loader2 } from 'lucide-react';
+import { Crosshair, Loader2, Download } from 'lucide-react';
 import type { EvaluatedRoute } from '@/types';
 import type { CommunityReport, VerifiedReport } from '@/stores/useReportsStore';
 import { WeatherAgent } from '@/agents';
 import { REGION_COORDS, ALL_REGIONS } from '@/constants';
 import { getScoreHexColor } from '@/utils/scoreUtils';
 import { isReportArchived } from '@/utils/relevanceScore';
+import { routeToGpx, reportsToGpx, gpxFileName, downloadGpx } from '@/utils/gpxExport';
+import { ReportPhotos } from './ReportPhotos';
 
 // Import Leaflet CSS
 import 'leaflet/dist/leaflet.css';
@@ -409,6 +411,24 @@ export function MapView({
           </LayersControl.Overlay>
         </LayersControl>
 
+        {/* Imported route tracks */}
+        {routes
+          .filter((route) => route.track && route.track.length > 1)
+          .map((route) => (
+            <Polyline
+              key={`track-${route.id}`}
+              positions={route.track!.map((p) => [p.lat, p.lng] as [number, number])}
+              pathOptions={{
+                color: getScoreHexColor(route.conditionScore),
+                weight: selectedRouteId === route.id ? 6 : 4,
+                opacity: selectedRouteId === route.id ? 1 : 0.8,
+              }}
+              eventHandlers={{
+                click: () => onRouteSelect?.(route.id),
+              }}
+            />
+          ))}
+
         {/* Route markers - use summit coordinates */}
         {routes.map((route) => (
           <Marker
@@ -442,6 +462,13 @@ export function MapView({
                 {route.recommendation && (
                   <p className="mt-1 text-xs text-gray-700">{route.recommendation}</p>
                 )}
+                <button
+                  onClick={() => downloadGpx(routeToGpx(route), gpxFileName(route.name))}
+                  className="mt-1 flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                >
+                  <Download className="w-3 h-3" />
+                  GPX
+                </button>
               </div>
             </Popup>
           </Marker>
@@ -500,6 +527,11 @@ export function MapView({
                     {report.notes && (
                       <p className="mt-1 text-xs text-gray-700 italic">"{report.notes}"</p>
                     )}
+                    {report.photos && (
+                      <div className="mt-1">
+                        <ReportPhotos photos={report.photos} size={48} />
+                      </div>
+                    )}
                     <p className="mt-1 text-xs text-gray-400">
                       {new Date(report.timestamp).toLocaleDateString('pl-PL')}
                     </p>
@@ -508,6 +540,15 @@ export function MapView({
                         ⚠ Raport starszy niż 2 tygodnie - tylko do wglądu
                       </p>
                     )}
+                    <button
+                      onClick={() =>
+                        downloadGpx(reportsToGpx([report], report.location), gpxFileName(report.location))
+                      }
+                      className="mt-1 flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                    >
+                      <Download className="w-3 h-3" />
+                      GPX
+                    </button>
                   </div>
                 </Popup>
               </Marker>
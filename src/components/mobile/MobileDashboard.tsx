@@ -17,15 +17,25 @@ import {
   X,
   WifiOff,
   CloudOff,
+  Upload,
+  Bell,
+  Footprints,
 } from 'lucide-react';
 import { useOnlineStatus } from '@/hooks/useOnlineStatus';
 import { useIsDesktop } from '@/hooks/useMediaQuery';
-import { useAppStore, useReportsStore, type NewReportInput } from '@/stores';
+import { useAppStore, useReportsStore, useWatchlistStore, useTripPlanStore, type NewReportInput } from '@/stores';
 import { useAuthStore } from '@/stores/useAuthStore';
 import { WeatherAgent } from '@/agents';
+import { strongestWindLoading } from '@/utils/windLoading';
+import { isTripOpen, tripStatus } from '@/utils/tripPlan';
+import type { PreparedPhoto } from '@/services/reportPhotos';
+import { CHECK_IN_PARAM, checkInTokenFromUrl } from '@/services/tripCheckIn';
 import { BottomSheet } from './BottomSheet';
 import { MapView } from './MapView';
 import { QuickReport } from './QuickReport';
+import { RouteImport } from './RouteImport';
+import { Watchlist } from './Watchlist';
+import { TripPlanner, SharedCheckIn } from './TripPlanner';
 import { CommunityIntel } from './CommunityIntel';
 import { IntelSummary } from './IntelSummary';
 import { AssistantChat } from './AssistantChat';
@@ -38,6 +48,7 @@ import { AdminSettings } from '../admin/AdminSettings';
 import { LoginButton } from '../auth/LoginButton';
 import { ResortConditions } from '../ResortConditions';
 import { ElevationWeatherCard } from '../ElevationWeatherCard';
+import { DataStatus } from '../DataStatus';
 import { LoadingSkeleton } from '../ui';
 import { t } from '@/lib/translations';
 
@@ -47,10 +58,17 @@ export function MobileDashboard() {
   const [activeView, setActiveView] = useState<ViewType>('overview');
   const [showSettings, setShowSettings] = useState(false);
   const [showQuickReport, setShowQuickReport] = useState(false);
+  const [showRouteImport, setShowRouteImport] = useState(false);
   const [showUserDashboard, setShowUserDashboard] = useState(false);
   const [showAdminSettings, setShowAdminSettings] = useState(false);
+  const [showWatchlist, setShowWatchlist] = useState(false);
+  const [showTripPlanner, setShowTripPlanner] = useState(false);
+  /** Token from a member's check-in link (?checkin=) */
+  const [sharedCheckIn, setSharedCheckIn] = useState<string | null>(() => checkInTokenFromUrl());
   const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
   const [sheetSnap, setSheetSnap] = useState(1);
+  /** Forecast day shown in the Routes tab (null = current conditions) */
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
 
   const {
     avalancheReport,
@@ -63,7 +81,10 @@ export function MobileDashboard() {
     initialized,
     config,
     elevationWeather,
+    routeForecast,
+    snowpack,
     error,
+    dataStatus,
     initialize,
     refreshAll,
     searchWeb,
@@ -80,6 +101,10 @@ export function MobileDashboard() {
     pendingOperations,
   } = useReportsStore();
 
+  const unreadAlerts = useWatchlistStore((state) => state.notifications.filter((n) => !n.read).length);
+  const activeTrip = useTripPlanStore((state) => state.plans.find(isTripOpen));
+  const syncTripPlans = useTripPlanStore((state) => state.syncWithSupabase);
+
   const { initialize: initAuth, cleanup: cleanupAuth } = useAuthStore();
   const isOnline = useOnlineStatus();
   const isDesktop = useIsDesktop();
@@ -110,6 +135,11 @@ export function MobileDashboard() {
     };
   }, [initialized, initialize, initReports, initAuth, cleanupAuth]);
 
+  // Push trip check-ins made without connection
+  useEffect(() => {
+    if (isOnline) syncTripPlans();
+  }, [isOnline, syncTripPlans]);
+
   // Handle navigation from LoginButton menu
   const handleNavigate = (view: 'dashboard' | 'settings' | 'admin') => {
     if (view === 'dashboard') {
@@ -129,8 +159,16 @@ export function MobileDashboard() {
     [routes]
   );
 
-  const isTatry = useMemo(
-    () => config.region.toLowerCase().includes('tatry'),
+  // Routes re-ranked for the selected forecast day
+  const dayRoutes = useMemo(() => {
+    const day = selectedDay ? routeForecast.find((d) => d.date === selectedDay) : undefined;
+    if (!day) return sortedRoutes;
+    return [...day.routes].sort((a, b) => b.conditionScore - a.conditionScore);
+  }, [selectedDay, routeForecast, sortedRoutes]);
+
+  // Regions with an avalanche bulletin (TOPR/SLP, HS Krkonoše) or a Beskidy estimate
+  const hasBulletin = useMemo(
+    () => ['tatry', 'karkonosze', 'beskid'].some((r) => config.region.toLowerCase().includes(r)),
     [config.region]
   );
 
@@ -151,8 +189,8 @@ export function MobileDashboard() {
 
   const recentReportsCount = recentReports.length;
 
-  const handleReportSubmit = useCallback(async (report: NewReportInput) => {
-    await addReport(report);
+  const handleReportSubmit = useCallback(async (report: NewReportInput, photos: PreparedPhoto[]) => {
+    await addReport(report, photos);
   }, [addReport]);
 
   const handleRouteSelect = useCallback((routeId: string) => {
@@ -171,6 +209,7 @@ export function MobileDashboard() {
           onChange={(e) => {
             updateConfig({ region: e.target.value });
             setSelectedRouteId(null); // Clear selected route when region changes
+            setSelectedDay(null);
             refreshAll();
           }}
           className="bg-gray-800 text-white text-sm font-medium rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:border-blue-500 min-h-[44px]"
@@ -202,6 +241,18 @@ export function MobileDashboard() {
               className={`w-5 h-5 text-gray-400 ${isLoading ? 'animate-spin' : ''}`}
             />
           </button>
+          <button
+            onClick={() => setShowWatchlist(true)}
+            className="relative w-11 h-11 flex items-center justify-center rounded-xl hover:bg-gray-800 transition-colors"
+            aria-label={t.watchlist.title}
+          >
+            <Bell className="w-5 h-5 text-gray-400" />
+            {unreadAlerts > 0 && (
+              <span className="absolute top-1 right-1 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[11px] rounded-full flex items-center justify-center">
+                {unreadAlerts > 9 ? '9+' : unreadAlerts}
+              </span>
+            )}
+          </button>
           <button
             onClick={() => setShowSettings(true)}
             className="w-11 h-11 flex items-center justify-center rounded-xl hover:bg-gray-800 transition-colors"
@@ -212,6 +263,29 @@ export function MobileDashboard() {
         </div>
       </div>
 
+      {/* Open trip plan */}
+      {activeTrip && (
+        <button
+          onClick={() => setShowTripPlanner(true)}
+          className={`w-full flex items-center gap-2 px-3 py-2 rounded-xl text-sm min-h-[44px] ${
+            tripStatus(activeTrip) === 'overdue'
+              ? 'bg-red-900/60 border border-red-700 text-red-100'
+              : 'bg-gray-800 text-gray-200'
+          }`}
+        >
+          <Footprints className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1 text-left truncate">
+            {t.trip.banner
+              .replace('{route}', activeTrip.routeName)
+              .replace(
+                '{time}',
+                new Date(activeTrip.expectedReturn).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })
+              )}
+          </span>
+          <span className="text-xs">{t.trip.status[tripStatus(activeTrip)]}</span>
+        </button>
+      )}
+
       {/* Navigation tabs */}
       <div className="flex bg-gray-800/50 rounded-xl p-1">
         {[
@@ -319,12 +393,15 @@ export function MobileDashboard() {
           {/* Overview View */}
           {activeView === 'overview' && (
             <div className="space-y-4">
-              {/* Avalanche indicator - only for Tatry */}
-              {isTatry && (
+              {/* Avalanche indicator - only for regions with a bulletin */}
+              {hasBulletin && (
                 <AvalancheIndicator
                   report={avalancheReport}
                   loading={loading.avalanche}
                   region={config.region}
+                  routes={routes}
+                  group={config.group}
+                  windLoading={strongestWindLoading(snowpack)}
                 />
               )}
 
@@ -361,7 +438,7 @@ export function MobileDashboard() {
                 </div>
               </div>
 
-              {/* Last refresh */}
+              {/* Last refresh, and why data may be stale */}
               {lastRefresh && (
                 <div className="text-center text-xs text-gray-500 pt-2">
                   {t.weather.updated} {new Date(lastRefresh).toLocaleTimeString('pl-PL', {
@@ -370,13 +447,39 @@ export function MobileDashboard() {
                   })}
                 </div>
               )}
+              <DataStatus status={dataStatus} />
             </div>
           )}
 
           {/* Routes View */}
           {activeView === 'routes' && (
             <div className="space-y-3">
-              {selectedRouteId && sortedRoutes.find((r) => r.id === selectedRouteId) ? (
+              {/* Forecast day selector */}
+              {routeForecast.length > 0 && (
+                <div className="flex gap-1.5 overflow-x-auto pb-1 -mx-1 px-1">
+                  {[null, ...routeForecast.map((d) => d.date)].map((date) => (
+                    <button
+                      key={date ?? 'now'}
+                      onClick={() => setSelectedDay(date)}
+                      className={`flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors min-h-[36px] ${
+                        selectedDay === date
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-800 text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {date
+                        ? new Date(`${date}T12:00:00`).toLocaleDateString('pl-PL', {
+                            weekday: 'short',
+                            day: 'numeric',
+                            month: 'numeric',
+                          })
+                        : 'Teraz'}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {selectedRouteId && dayRoutes.find((r) => r.id === selectedRouteId) ? (
                 <>
                   <button
                     onClick={() => setSelectedRouteId(null)}
@@ -385,13 +488,32 @@ export function MobileDashboard() {
                     ← Wszystkie trasy
                   </button>
                   <RouteCard
-                    route={sortedRoutes.find((r) => r.id === selectedRouteId)!}
+                    route={dayRoutes.find((r) => r.id === selectedRouteId)!}
                   />
+                  <button
+                    onClick={() => setShowTripPlanner(true)}
+                    className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-gray-800 hover:bg-gray-700 text-sm text-white min-h-[44px]"
+                  >
+                    <Footprints className="w-4 h-4" />
+                    {activeTrip ? t.trip.title : t.trip.plan}
+                  </button>
                 </>
               ) : (
                 <>
-                  <p className="text-sm text-gray-400">{routes.length} tras ocenionych</p>
-                  {sortedRoutes.map((route) => (
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-400">
+                      {dayRoutes.length} tras ocenionych
+                      {selectedDay && ' (prognoza)'}
+                    </p>
+                    <button
+                      onClick={() => setShowRouteImport(true)}
+                      className="flex items-center gap-1 text-sm text-blue-400 hover:underline min-h-[44px]"
+                    >
+                      <Upload className="w-4 h-4" />
+                      {t.routes.import.button}
+                    </button>
+                  </div>
+                  {dayRoutes.map((route) => (
                     <div key={route.id} onClick={() => setSelectedRouteId(route.id)}>
                       <RouteCard route={route} compact />
                     </div>
@@ -456,6 +578,35 @@ export function MobileDashboard() {
         currentRegion={config.region}
         elevationWeather={elevationWeather}
       />
+      <RouteImport
+        isOpen={showRouteImport}
+        onClose={() => setShowRouteImport(false)}
+        onChange={refreshAll}
+      />
+      <Watchlist
+        isOpen={showWatchlist}
+        onClose={() => setShowWatchlist(false)}
+        region={config.region}
+        locations={locationNames}
+        hasBulletin={hasBulletin}
+      />
+      <TripPlanner
+        isOpen={showTripPlanner}
+        onClose={() => setShowTripPlanner(false)}
+        route={dayRoutes.find((r) => r.id === selectedRouteId) ?? null}
+      />
+      {sharedCheckIn && (
+        <SharedCheckIn
+          token={sharedCheckIn}
+          onClose={() => {
+            setSharedCheckIn(null);
+            // Drop the token so a reload does not reopen the form
+            const url = new URL(window.location.href);
+            url.searchParams.delete(CHECK_IN_PARAM);
+            window.history.replaceState(null, '', url);
+          }}
+        />
+      )}
     </div>
   );
 }
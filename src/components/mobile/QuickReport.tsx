@@ -4,10 +4,13 @@
  * Mobile-friendly modal for reporting ski conditions.
  * Supports dual reporting: Ascent (Podejście) and Descent (Zjazd).
  * Swipe down anywhere on header to dismiss.
+ * Photos are compressed on the device; EXIF GPS fills in a missing location.
  */
 
-import { useState, useRef } from 'react';
-import { X, MapPin, Send, Loader2, Navigation, ArrowUp, ArrowDown, AlertCircle, Clock, LogIn } from 'lucide-react';
+import { useState, useRef, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { pl } from 'date-fns/locale';
+import { X, MapPin, Send, Loader2, Navigation, ArrowUp, ArrowDown, AlertCircle, Clock, LogIn, Camera } from 'lucide-react';
 import { StarRating } from '@/components/ui';
 import type {
   ReportType,
@@ -24,6 +27,7 @@ import { t } from '@/lib/translations';
 import { hapticButton, hapticGesture, hapticSuccess, hapticError } from '@/utils/haptics';
 import type { ElevationWeather } from '@/types';
 import { createWeatherSnapshot } from '@/utils/relevanceScore';
+import { preparePhoto, PHOTO_CONFIG, type PreparedPhoto } from '@/services/reportPhotos';
 import {
   TRACK_STATUS_OPTIONS,
   GEAR_OPTION_LIST,
@@ -33,10 +37,19 @@ import {
   GEOLOCATION_TIMEOUT_MS,
 } from '@/constants';
 
+/** Photos older than this get a notice: reports describe current conditions */
+const OLD_PHOTO_MS = 24 * 60 * 60 * 1000;
+
+interface PhotoDraft {
+  photo: PreparedPhoto;
+  /** Object URL of the thumbnail */
+  preview: string;
+}
+
 interface QuickReportProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (report: NewReportInput) => void;
+  onSubmit: (report: NewReportInput, photos: PreparedPhoto[]) => void;
   currentRegion: string;
   /** Current elevation weather for capturing snapshot */
   elevationWeather?: ElevationWeather[];
@@ -53,6 +66,15 @@ export function QuickReport({ isOpen, onClose, onSubmit, currentRegion, elevatio
   const [isDragging, setIsDragging] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
 
+  // Photos
+  const [photos, setPhotos] = useState<PhotoDraft[]>([]);
+  const [isProcessingPhotos, setIsProcessingPhotos] = useState(false);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const [gpsFromPhoto, setGpsFromPhoto] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const photosRef = useRef<PhotoDraft[]>([]);
+  photosRef.current = photos;
+
   // Ascent state
   const [trackStatus, setTrackStatus] = useState<TrackStatus | null>(null);
   const [gearNeeded, setGearNeeded] = useState<AscentGear[]>([]);
@@ -71,6 +93,9 @@ export function QuickReport({ isOpen, onClose, onSubmit, currentRegion, elevatio
   // Check if auth is required (Supabase configured but user not logged in)
   const requiresAuth = isSupabaseConfigured() && !user;
 
+  // Release thumbnail previews on unmount
+  useEffect(() => () => photosRef.current.forEach((draft) => URL.revokeObjectURL(draft.preview)), []);
+
   // Swipe to dismiss handlers
   const handleTouchStart = (e: React.TouchEvent) => {
     startY.current = e.touches[0].clientY;
@@ -106,6 +131,7 @@ export function QuickReport({ isOpen, onClose, onSubmit, currentRegion, elevatio
           lat: position.coords.latitude,
           lng: position.coords.longitude,
         });
+        setGpsFromPhoto(false);
         setIsGettingLocation(false);
       },
       (error) => {
@@ -117,6 +143,51 @@ export function QuickReport({ isOpen, onClose, onSubmit, currentRegion, elevatio
     );
   };
 
+  const handlePhotosSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, PHOTO_CONFIG.MAX_PHOTOS - photos.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsProcessingPhotos(true);
+    setPhotoError(null);
+
+    const prepared: PhotoDraft[] = [];
+    for (const file of files) {
+      try {
+        const photo = await preparePhoto(file);
+        prepared.push({ photo, preview: URL.createObjectURL(photo.thumb) });
+      } catch (error) {
+        console.error('Photo processing failed:', error);
+        setPhotoError(t.reports.photos.failed);
+      }
+    }
+    setPhotos((prev) => [...prev, ...prepared]);
+
+    // Photo GPS stands in for a missing device fix
+    const located = prepared.find((draft) => draft.photo.coordinates);
+    if (located && !gpsCoords) {
+      setGpsCoords(located.photo.coordinates!);
+      setGpsFromPhoto(true);
+    }
+    setIsProcessingPhotos(false);
+  };
+
+  const removePhoto = (id: string) => {
+    setPhotos((prev) =>
+      prev.filter((draft) => {
+        if (draft.photo.id !== id) return true;
+        URL.revokeObjectURL(draft.preview);
+        return false;
+      })
+    );
+  };
+
+  const oldestPhotoTime = photos
+    .map((draft) => draft.photo.takenAt)
+    .filter((takenAt): takenAt is string => Boolean(takenAt))
+    .sort()[0];
+  const hasOldPhoto = oldestPhotoTime !== undefined && Date.now() - new Date(oldestPhotoTime).getTime() > OLD_PHOTO_MS;
+
   const toggleGear = (gear: AscentGear) => {
     setGearNeeded((prev) =>
       prev.includes(gear) ? prev.filter((g) => g !== gear) : [...prev, gear]
@@ -178,7 +249,7 @@ export function QuickReport({ isOpen, onClose, onSubmit, currentRegion, elevatio
     }
 
     try {
-      await onSubmit(report);
+      await onSubmit(report, photos.map((draft) => draft.photo));
       hapticSuccess();
       setIsSubmitting(false);
 
@@ -190,6 +261,10 @@ export function QuickReport({ isOpen, onClose, onSubmit, currentRegion, elevatio
       setLocation('');
       setNotes('');
       setGpsCoords(null);
+      setGpsFromPhoto(false);
+      photos.forEach((draft) => URL.revokeObjectURL(draft.preview));
+      setPhotos([]);
+      setPhotoError(null);
       onClose();
     } catch {
       // Error is handled by the store
@@ -443,6 +518,9 @@ export function QuickReport({ isOpen, onClose, onSubmit, currentRegion, elevatio
                 </div>
               )}
             </div>
+            {gpsCoords && gpsFromPhoto && (
+              <p className="-mt-1 mb-3 text-xs text-green-400/70">{t.reports.photos.locationFromPhoto}</p>
+            )}
             <div className="flex flex-wrap gap-2">
               {locations.map((loc) => (
                 <button
@@ -474,13 +552,74 @@ export function QuickReport({ isOpen, onClose, onSubmit, currentRegion, elevatio
               className="w-full bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white placeholder-gray-500 resize-none h-20 focus:outline-none focus:border-blue-500 text-base"
             />
           </div>
+
+          {/* Photos (shared) - stored in Supabase Storage */}
+          {isSupabaseConfigured() && (
+            <div>
+              <label className="text-sm font-medium text-gray-400 mb-3 block">
+                {t.reports.photos.title} ({photos.length}/{PHOTO_CONFIG.MAX_PHOTOS})
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {photos.map((draft) => (
+                  <div key={draft.photo.id} className="relative w-20 h-20">
+                    <img
+                      src={draft.preview}
+                      alt={t.reports.photos.title}
+                      className="w-full h-full rounded-xl object-cover"
+                    />
+                    <button
+                      onClick={() => removePhoto(draft.photo.id)}
+                      className="absolute -top-2 -right-2 w-7 h-7 flex items-center justify-center rounded-full bg-gray-900 border border-gray-700"
+                      aria-label={t.reports.photos.remove}
+                    >
+                      <X className="w-4 h-4 text-gray-300" />
+                    </button>
+                  </div>
+                ))}
+                {photos.length < PHOTO_CONFIG.MAX_PHOTOS && (
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isProcessingPhotos}
+                    className="w-20 h-20 flex flex-col items-center justify-center gap-1 rounded-xl border-2 border-dashed border-gray-700 hover:border-gray-600 text-gray-400 transition-colors disabled:opacity-50"
+                  >
+                    {isProcessingPhotos ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Camera className="w-5 h-5" />
+                    )}
+                    <span className="text-[10px]">
+                      {isProcessingPhotos ? t.reports.photos.processing : t.reports.photos.add}
+                    </span>
+                  </button>
+                )}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={handlePhotosSelected}
+              />
+              {hasOldPhoto && (
+                <p className="mt-2 text-xs text-amber-400">
+                  {t.reports.photos.takenAgo.replace(
+                    '{time}',
+                    formatDistanceToNow(new Date(oldestPhotoTime), { addSuffix: true, locale: pl })
+                  )}
+                </p>
+              )}
+              {photoError && <p className="mt-2 text-xs text-red-400">{photoError}</p>}
+              <p className="mt-2 text-xs text-gray-500">{t.reports.photos.hint}</p>
+            </div>
+          )}
         </div>
 
         {/* Submit button */}
         <div className="p-4 border-t border-gray-800">
           <button
             onClick={handleSubmit}
-            disabled={!canSubmit() || isSubmitting}
+            disabled={!canSubmit() || isSubmitting || isProcessingPhotos}
             className={`w-full py-4 rounded-xl text-white font-semibold transition-colors flex items-center justify-center gap-2 min-h-[60px] text-lg ${
               reportType === 'ascent'
                 ? 'bg-green-600 hover:bg-green-700 disabled:bg-gray-700'
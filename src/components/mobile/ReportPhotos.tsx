@@ -0,0 +1,59 @@
+/**
+ * Report Photos Component
+ *
+ * Thumbnail strip for a community report. Each thumbnail opens the full
+ * photo; photos still waiting in the upload queue show a placeholder.
+ */
+
+import { useState } from 'react';
+import { ImageOff } from 'lucide-react';
+import type { ReportPhoto } from '@/types';
+import { getPhotoUrl } from '@/services/reportPhotos';
+import { t } from '@/lib/translations';
+
+interface ReportPhotosProps {
+  photos: ReportPhoto[];
+  /** Thumbnail edge in pixels */
+  size?: number;
+}
+
+function PhotoThumb({ photo, size }: { photo: ReportPhoto; size: number }) {
+  const [missing, setMissing] = useState(false);
+
+  if (missing) {
+    return (
+      <div
+        className="flex items-center justify-center rounded bg-gray-700 text-gray-400"
+        style={{ width: size, height: size }}
+        title={t.reports.photos.pending}
+      >
+        <ImageOff className="w-4 h-4" aria-label={t.reports.photos.pending} />
+      </div>
+    );
+  }
+
+  return (
+    <a href={getPhotoUrl(photo.path)} target="_blank" rel="noopener noreferrer" title={t.reports.photos.open}>
+      <img
+        src={getPhotoUrl(photo.thumbPath)}
+        alt={t.reports.photos.title}
+        loading="lazy"
+        onError={() => setMissing(true)}
+        className="rounded object-cover"
+        style={{ width: size, height: size }}
+      />
+    </a>
+  );
+}
+
+export function ReportPhotos({ photos, size = 64 }: ReportPhotosProps) {
+  if (photos.length === 0) return null;
+
+  return (
+    <div className="flex gap-1.5 flex-wrap">
+      {photos.map((photo) => (
+        <PhotoThumb key={photo.path} photo={photo} size={size} />
+      ))}
+    </div>
+  );
+}
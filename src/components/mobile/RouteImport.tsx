@@ -0,0 +1,258 @@
+/**
+ * Route Import Component
+ *
+ * Modal for importing GPX/KML tracks as custom routes.
+ * Shows the derived metrics before saving and lists imported routes.
+ */
+
+import { useState, useMemo } from 'react';
+import { X, Upload, Loader2, AlertCircle, Trash2, CloudOff } from 'lucide-react';
+import type { AtesClass, RouteDifficulty } from '@/types';
+import { useCustomRoutesStore } from '@/stores/useCustomRoutesStore';
+import { ALL_REGIONS } from '@/constants';
+import { t } from '@/lib/translations';
+import { ATES_LABELS, suggestAtesClass } from '@/scoring';
+import { hapticButton, hapticSuccess, hapticError } from '@/utils/haptics';
+import {
+  parseTrackFile,
+  analyzeTrack,
+  suggestDifficulty,
+  nearestRegion,
+  routeFromTrack,
+  type ParsedTrack,
+} from '@/utils/trackImport';
+
+interface RouteImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after a route was added or removed */
+  onChange: () => void;
+}
+
+const DIFFICULTIES: RouteDifficulty[] = ['easy', 'moderate', 'difficult', 'expert'];
+const ATES_CLASSES: AtesClass[] = ['simple', 'challenging', 'complex'];
+
+export function RouteImport({ isOpen, onClose, onChange }: RouteImportProps) {
+  const { routes, addRoute, deleteRoute } = useCustomRoutesStore();
+  const [track, setTrack] = useState<ParsedTrack | null>(null);
+  const [name, setName] = useState('');
+  const [region, setRegion] = useState<string>(ALL_REGIONS[0]);
+  const [difficulty, setDifficulty] = useState<RouteDifficulty>('moderate');
+  const [ates, setAtes] = useState<AtesClass>('challenging');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const stats = useMemo(() => (track ? analyzeTrack(track.points) : null), [track]);
+
+  if (!isOpen) return null;
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = parseTrackFile(await file.text(), file.name);
+      const derived = analyzeTrack(parsed.points);
+      setTrack(parsed);
+      setName(parsed.name || file.name.replace(/\.(gpx|kml)$/i, ''));
+      setRegion(nearestRegion(derived.summit));
+      const suggested = suggestDifficulty(derived.elevationGain);
+      setDifficulty(suggested);
+      setAtes(suggestAtesClass(suggested));
+    } catch (err) {
+      hapticError();
+      setTrack(null);
+      setError(err instanceof Error ? err.message : 'Nie udało się wczytać pliku');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!track || !name.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await addRoute(
+        routeFromTrack({
+          id: crypto.randomUUID(),
+          name: name.trim(),
+          region,
+          difficulty,
+          ates,
+          points: track.points,
+        })
+      );
+      hapticSuccess();
+      setTrack(null);
+      onChange();
+    } catch {
+      hapticError();
+      setError('Nie udało się zapisać trasy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    hapticButton();
+    try {
+      await deleteRoute(id);
+      onChange();
+    } catch {
+      setError('Nie udało się usunąć trasy');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-gray-900 w-full max-w-lg rounded-t-3xl max-h-[90dvh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+          <h2 className="text-lg font-semibold text-white">{t.routes.import.title}</h2>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 flex items-center justify-center rounded-full hover:bg-gray-800 transition-colors -mr-2"
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* File picker */}
+          <label className="flex items-center justify-center gap-2 w-full py-4 border-2 border-dashed border-gray-700 rounded-xl text-sm text-gray-400 hover:border-blue-500 hover:text-white cursor-pointer transition-colors">
+            <Upload className="w-5 h-5" />
+            {t.routes.import.chooseFile}
+            <input
+              type="file"
+              accept=".gpx,.kml"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          {/* Preview */}
+          {track && stats && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-gray-800 rounded-lg p-2">
+                  <div className="text-xs text-gray-500">{t.routes.elevation}</div>
+                  <div className="text-sm font-medium text-white">+{stats.elevationGain}m</div>
+                </div>
+                <div className="bg-gray-800 rounded-lg p-2">
+                  <div className="text-xs text-gray-500">{t.routes.distance}</div>
+                  <div className="text-sm font-medium text-white">{stats.distance} km</div>
+                </div>
+                <div className="bg-gray-800 rounded-lg p-2">
+                  <div className="text-xs text-gray-500">{t.routes.duration}</div>
+                  <div className="text-sm font-medium text-white">~{stats.duration}h</div>
+                </div>
+              </div>
+              <p className="text-xs text-gray-400">
+                {t.routes.import.aspects}: {stats.aspects.join(', ') || '-'} • Szczyt {Math.round(stats.summit.altitude)}m
+              </p>
+
+              <div>
+                <label className="text-sm font-medium text-gray-400 mb-1 block">{t.routes.import.name}</label>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full bg-gray-800 text-white rounded-lg px-3 py-2 text-sm border border-gray-700 focus:border-blue-500 outline-none"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-sm font-medium text-gray-400 mb-1 block">{t.routes.import.region}</label>
+                  <select
+                    value={region}
+                    onChange={(e) => setRegion(e.target.value)}
+                    className="w-full bg-gray-800 text-white rounded-lg px-3 py-2 text-sm border border-gray-700"
+                  >
+                    {ALL_REGIONS.map((r) => (
+                      <option key={r} value={r}>{r}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-400 mb-1 block">{t.routes.import.difficulty}</label>
+                  <select
+                    value={difficulty}
+                    onChange={(e) => setDifficulty(e.target.value as RouteDifficulty)}
+                    className="w-full bg-gray-800 text-white rounded-lg px-3 py-2 text-sm border border-gray-700"
+                  >
+                    {DIFFICULTIES.map((d) => (
+                      <option key={d} value={d}>{t.routes.difficulty[d]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-400 mb-1 block">{t.routes.import.ates}</label>
+                <select
+                  value={ates}
+                  onChange={(e) => setAtes(e.target.value as AtesClass)}
+                  className="w-full bg-gray-800 text-white rounded-lg px-3 py-2 text-sm border border-gray-700"
+                >
+                  {ATES_CLASSES.map((a) => (
+                    <option key={a} value={a}>{ATES_LABELS[a]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !name.trim()}
+                className="w-full py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {t.routes.import.save}
+              </button>
+            </div>
+          )}
+
+          {/* Imported routes */}
+          {routes.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-400 mb-2">{t.routes.import.myRoutes}</h3>
+              <ul className="space-y-2">
+                {routes.map((route) => (
+                  <li key={route.id} className="flex items-center justify-between bg-gray-800 rounded-lg px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm text-white truncate">{route.name}</p>
+                      <p className="text-xs text-gray-500 flex items-center gap-1">
+                        {route.region} • +{route.elevation}m • {route.distance} km
+                        {!route.synced && (
+                          <CloudOff className="w-3 h-3 text-amber-400" aria-label={t.routes.import.localOnly} />
+                        )}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(route.id)}
+                      className="w-10 h-10 flex items-center justify-center rounded-lg hover:bg-gray-700 text-gray-400 hover:text-red-400 transition-colors"
+                      aria-label={t.routes.import.delete}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
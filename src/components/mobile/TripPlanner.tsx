@@ -0,0 +1,670 @@
+/**
+ * Trip Planner Component
+ *
+ * Modal for filing a trip plan on a route and following it in the field:
+ * check-ins with GPS position, return, and the overdue panel with the TOPR
+ * number and a shareable emergency message. SharedCheckIn is the form party
+ * members reach through the plan's check-in link.
+ */
+
+import { useEffect, useState } from 'react';
+import { X, Phone, Share2, MapPin, Plus, Trash2, CloudOff, AlertTriangle, Loader2, Link2, Check } from 'lucide-react';
+import type { EvaluatedRoute, TripPosition, TripStatus } from '@/types';
+import { useTripPlanStore, type StoredTripPlan } from '@/stores/useTripPlanStore';
+import { useAuthStore } from '@/stores/useAuthStore';
+import {
+  TOPR_PHONE,
+  TOPR_PHONE_MOBILE,
+  checkInLink,
+  defaultTripTimes,
+  emergencyMessage,
+  isTripOpen,
+  minutesUntilEscalation,
+  toLocalInput,
+  tripStatus,
+} from '@/utils/tripPlan';
+import { GEOLOCATION_TIMEOUT_MS } from '@/constants';
+import { hapticButton } from '@/utils/haptics';
+import { t } from '@/lib/translations';
+import { fetchSharedTrip, sendSharedCheckIn, type SharedTripPlan } from '@/services/tripCheckIn';
+
+interface TripPlannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Route to plan; ignored while another plan is open */
+  route?: EvaluatedRoute | null;
+}
+
+const statusColors: Record<TripStatus, string> = {
+  planned: 'bg-blue-900/50 text-blue-300',
+  active: 'bg-green-900/50 text-green-300',
+  overdue: 'bg-red-900/50 text-red-300',
+  returned: 'bg-gray-700 text-gray-300',
+  cancelled: 'bg-gray-700 text-gray-400',
+};
+
+const inputClass = 'w-full bg-gray-800 text-white rounded-lg px-3 py-2 text-sm border border-gray-700';
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('pl-PL', {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Current GPS position, or undefined when unavailable
+ */
+function getPosition(): Promise<TripPosition | undefined> {
+  if (!navigator.geolocation) return Promise.resolve(undefined);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: Math.round(position.coords.accuracy),
+        }),
+      (error) => {
+        console.error('GPS error:', error);
+        resolve(undefined);
+      },
+      { enableHighAccuracy: true, timeout: GEOLOCATION_TIMEOUT_MS }
+    );
+  });
+}
+
+/**
+ * Form filing a new plan for a route
+ */
+function TripForm({ route }: { route: EvaluatedRoute }) {
+  const createPlan = useTripPlanStore((state) => state.createPlan);
+  const user = useAuthStore((state) => state.user);
+  const [defaults] = useState(() => defaultTripTimes(route));
+  const [party, setParty] = useState<string[]>([]);
+  const [member, setMember] = useState('');
+  const [plannedStart, setPlannedStart] = useState(toLocalInput(defaults.plannedStart));
+  const [turnaroundAt, setTurnaroundAt] = useState(toLocalInput(defaults.turnaroundAt));
+  const [expectedReturn, setExpectedReturn] = useState(toLocalInput(defaults.expectedReturn));
+  const [contactName, setContactName] = useState('');
+  const [contactPhone, setContactPhone] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const addMember = () => {
+    const name = member.trim();
+    if (name && !party.includes(name)) setParty([...party, name]);
+    setMember('');
+  };
+
+  const handleSubmit = () => {
+    const start = new Date(plannedStart);
+    const turnaround = new Date(turnaroundAt);
+    const back = new Date(expectedReturn);
+    if (!(start < turnaround && turnaround <= back)) {
+      setError(t.trip.invalidTimes);
+      return;
+    }
+    if (!contactName.trim() || !contactPhone.trim()) {
+      setError(t.trip.missingContact);
+      return;
+    }
+
+    hapticButton();
+    createPlan({
+      routeId: route.id,
+      routeName: route.name,
+      region: route.region,
+      party,
+      plannedStart: start.toISOString(),
+      turnaroundAt: turnaround.toISOString(),
+      expectedReturn: back.toISOString(),
+      emergencyContact: { name: contactName.trim(), phone: contactPhone.trim() },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-xs text-gray-500">{t.trip.route}</p>
+        <p className="text-sm text-white">{route.name} <span className="text-gray-500">({route.region})</span></p>
+      </div>
+
+      {/* Party */}
+      <div>
+        <p className="text-sm font-medium text-gray-400 mb-2">{t.trip.party}</p>
+        <ul className="flex flex-wrap gap-2 mb-2">
+          {party.map((name) => (
+            <li key={name} className="flex items-center gap-1 bg-gray-800 rounded-full pl-3 pr-1 py-1 text-sm text-white">
+              {name}
+              <button
+                onClick={() => setParty(party.filter((n) => n !== name))}
+                className="p-1 text-gray-500 hover:text-red-400"
+                aria-label={t.routes.import.delete}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <input
+            value={member}
+            onChange={(e) => setMember(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addMember()}
+            placeholder={t.trip.memberName}
+            className={inputClass}
+          />
+          <button
+            onClick={addMember}
+            className="w-10 h-10 flex-shrink-0 flex items-center justify-center rounded-lg bg-gray-700 hover:bg-gray-600"
+            aria-label={t.trip.addMember}
+          >
+            <Plus className="w-4 h-4 text-white" />
+          </button>
+        </div>
+      </div>
+
+      {/* Times */}
+      <div className="grid grid-cols-1 gap-2">
+        {[
+          { label: t.trip.plannedStart, value: plannedStart, set: setPlannedStart },
+          { label: t.trip.turnaround, value: turnaroundAt, set: setTurnaroundAt },
+          { label: t.trip.expectedReturn, value: expectedReturn, set: setExpectedReturn },
+        ].map(({ label, value, set }) => (
+          <label key={label} className="text-xs text-gray-400 flex items-center justify-between gap-2">
+            {label}
+            <input
+              type="datetime-local"
+              value={value}
+              onChange={(e) => set(e.target.value)}
+              className={`${inputClass} w-auto`}
+            />
+          </label>
+        ))}
+      </div>
+
+      {/* Emergency contact */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-400">{t.trip.emergencyContact}</p>
+        <input
+          value={contactName}
+          onChange={(e) => setContactName(e.target.value)}
+          placeholder={t.trip.contactName}
+          className={inputClass}
+        />
+        <input
+          type="tel"
+          value={contactPhone}
+          onChange={(e) => setContactPhone(e.target.value)}
+          placeholder={t.trip.contactPhone}
+          className={inputClass}
+        />
+      </div>
+
+      {!user && (
+        <p className="text-xs text-amber-400 flex items-center gap-1">
+          <CloudOff className="w-3.5 h-3.5" />
+          {t.trip.localOnly}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <button
+        onClick={handleSubmit}
+        className="w-full py-3 rounded-xl bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors"
+      >
+        {t.trip.file}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Overdue panel: escalation state, TOPR number and the message to share
+ */
+function OverduePanel({ plan, now }: { plan: StoredTripPlan; now: Date }) {
+  const [copied, setCopied] = useState(false);
+  const minutes = minutesUntilEscalation(plan, now);
+
+  const handleShare = async () => {
+    const text = emergencyMessage(plan);
+    if (navigator.share) {
+      await navigator.share({ title: t.trip.overdueTitle, text }).catch(() => undefined);
+    } else {
+      try {
+        await navigator.clipboard.writeText(text);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      } catch (error) {
+        console.warn('Copying the emergency message failed:', error);
+      }
+    }
+  };
+
+  return (
+    <div className="rounded-xl bg-red-900/30 border border-red-800 p-3 space-y-3">
+      <p className="text-sm font-medium text-red-300 flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4" />
+        {t.trip.overdueTitle}
+      </p>
+      <p className="text-xs text-red-200/80">
+        {plan.escalatedAt
+          ? t.trip.escalated
+          : minutes > 0
+            ? t.trip.escalationIn.replace('{minutes}', String(minutes))
+            : t.trip.escalationDue}
+      </p>
+      {plan.lastPosition && (
+        <p className="text-xs text-gray-300 flex items-center gap-1">
+          <MapPin className="w-3.5 h-3.5" />
+          {t.trip.lastPosition}: {plan.lastPosition.lat.toFixed(5)}, {plan.lastPosition.lng.toFixed(5)} ({formatTime(plan.lastPosition.at)})
+        </p>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <a
+          href={`tel:${TOPR_PHONE}`}
+          className="flex items-center justify-center gap-2 py-2.5 rounded-lg bg-red-600 hover:bg-red-500 text-white text-sm font-medium"
+        >
+          <Phone className="w-4 h-4" />
+          {t.trip.callTopr}
+        </a>
+        <button
+          onClick={handleShare}
+          className="flex items-center justify-center gap-2 py-2.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-white text-sm"
+        >
+          <Share2 className="w-4 h-4" />
+          {copied ? t.trip.copied : t.trip.share}
+        </button>
+      </div>
+      <p className="text-[11px] text-gray-400 text-center">
+        TOPR: {TOPR_PHONE} / {TOPR_PHONE_MOBILE}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Share the members' check-in link, or copy it where sharing is unavailable
+ */
+function CheckInLinkButton({ link }: { link: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleShare = async () => {
+    hapticButton();
+    if (navigator.share) {
+      await navigator.share({ title: t.trip.checkInLink, url: link }).catch(() => undefined);
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn('Copying the check-in link failed:', error);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleShare}
+      className="w-full flex items-center gap-2 py-2 px-3 rounded-lg bg-gray-800 hover:bg-gray-700 text-left"
+    >
+      {copied ? <Check className="w-4 h-4 text-green-400" /> : <Link2 className="w-4 h-4 text-blue-400" />}
+      <span className="min-w-0">
+        <span className="block text-sm text-white">{copied ? t.trip.copied : t.trip.checkInLink}</span>
+        <span className="block text-xs text-gray-500">{t.trip.checkInLinkHint}</span>
+      </span>
+    </button>
+  );
+}
+
+/**
+ * Open plan: status, check-in form and check-in history
+ */
+function ActiveTrip({ plan }: { plan: StoredTripPlan }) {
+  const { checkIn, markReturned, cancelPlan } = useTripPlanStore();
+  const user = useAuthStore((state) => state.user);
+  const [now, setNow] = useState(() => new Date());
+  const [by, setBy] = useState(plan.party[0] ?? '');
+  const [note, setNote] = useState('');
+  const [newReturn, setNewReturn] = useState('');
+  const [locating, setLocating] = useState(false);
+
+  // Overdue state and countdown follow the clock
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const status = tripStatus(plan, now);
+  const link = checkInLink(plan);
+
+  const handleCheckIn = async () => {
+    hapticButton();
+    setLocating(true);
+    const position = await getPosition();
+    setLocating(false);
+    checkIn(plan.id, {
+      by: by.trim() || plan.party[0] || '-',
+      note: note.trim() || undefined,
+      position,
+      expectedReturn: newReturn ? new Date(newReturn).toISOString() : undefined,
+    });
+    setNote('');
+    setNewReturn('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-base text-white font-medium truncate">{plan.routeName}</p>
+          <p className="text-xs text-gray-500">
+            {plan.region}
+            {plan.party.length > 0 && ` • ${plan.party.join(', ')}`}
+          </p>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs flex-shrink-0 ${statusColors[status]}`}>
+          {t.trip.status[status]}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div>
+          <div className="text-sm text-white">{formatTime(plan.plannedStart)}</div>
+          <div className="text-xs text-gray-500">{t.trip.plannedStart}</div>
+        </div>
+        <div>
+          <div className="text-sm text-white">{formatTime(plan.turnaroundAt)}</div>
+          <div className="text-xs text-gray-500">{t.trip.turnaround}</div>
+        </div>
+        <div>
+          <div className={`text-sm ${status === 'overdue' ? 'text-red-400' : 'text-white'}`}>
+            {formatTime(plan.expectedReturn)}
+          </div>
+          <div className="text-xs text-gray-500">{t.trip.expectedReturn}</div>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {t.trip.emergencyContact}: {plan.emergencyContact.name}, {plan.emergencyContact.phone}
+      </p>
+      {!user ? (
+        <p className="text-xs text-amber-400 flex items-center gap-1">
+          <CloudOff className="w-3.5 h-3.5" />
+          {t.trip.localOnly}
+        </p>
+      ) : !plan.synced && (
+        <p className="text-xs text-amber-400 flex items-center gap-1">
+          <CloudOff className="w-3.5 h-3.5" />
+          {t.trip.notSynced}
+        </p>
+      )}
+
+      {link && <CheckInLinkButton link={link} />}
+
+      {status === 'overdue' && <OverduePanel plan={plan} now={now} />}
+
+      {/* Check-in */}
+      <div className="space-y-2 bg-gray-800/50 rounded-xl p-3">
+        {plan.party.length > 1 ? (
+          <select value={by} onChange={(e) => setBy(e.target.value)} className={inputClass} aria-label={t.trip.checkedInBy}>
+            {plan.party.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        ) : plan.party.length === 0 && (
+          <input value={by} onChange={(e) => setBy(e.target.value)} placeholder={t.trip.checkedInBy} className={inputClass} />
+        )}
+        <input value={note} onChange={(e) => setNote(e.target.value)} placeholder={t.trip.checkInNote} className={inputClass} />
+        {plan.status !== 'planned' && (
+          <label className="text-xs text-gray-400 flex items-center justify-between gap-2">
+            {t.trip.newReturn}
+            <input
+              type="datetime-local"
+              value={newReturn}
+              onChange={(e) => setNewReturn(e.target.value)}
+              className={`${inputClass} w-auto`}
+            />
+          </label>
+        )}
+        <button
+          onClick={handleCheckIn}
+          disabled={locating}
+          className="w-full py-2.5 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-sm font-medium flex items-center justify-center gap-2"
+        >
+          {locating ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {t.trip.gettingLocation}
+            </>
+          ) : (
+            <>
+              <MapPin className="w-4 h-4" />
+              {plan.status === 'planned' ? t.trip.start : t.trip.checkIn}
+            </>
+          )}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => {
+            hapticButton();
+            markReturned(plan.id);
+          }}
+          className="py-2.5 rounded-lg bg-green-700 hover:bg-green-600 text-white text-sm font-medium"
+        >
+          {t.trip.returned}
+        </button>
+        {plan.status === 'planned' && (
+          <button
+            onClick={() => cancelPlan(plan.id)}
+            className="py-2.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm"
+          >
+            {t.trip.cancel}
+          </button>
+        )}
+      </div>
+
+      {/* Check-in history */}
+      <section>
+        <h3 className="text-sm font-medium text-gray-400 mb-2">{t.trip.checkIns}</h3>
+        {plan.checkIns.length === 0 ? (
+          <p className="text-sm text-gray-500">{t.trip.noCheckIns}</p>
+        ) : (
+          <ul className="space-y-1">
+            {[...plan.checkIns].reverse().map((entry) => (
+              <li key={entry.at} className="text-xs text-gray-300">
+                <span className="text-gray-500">{formatTime(entry.at)}</span> {entry.by}
+                {entry.note && ` - ${entry.note}`}
+                <span className="text-gray-500">
+                  {' '}
+                  {entry.position
+                    ? `(${entry.position.lat.toFixed(4)}, ${entry.position.lng.toFixed(4)})`
+                    : `(${t.trip.noPosition})`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+export function TripPlanner({ isOpen, onClose, route }: TripPlannerProps) {
+  const activePlan = useTripPlanStore((state) => state.plans.find(isTripOpen));
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-gray-900 w-full max-w-lg rounded-t-3xl max-h-[90dvh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+          <h2 className="text-lg font-semibold text-white">{t.trip.title}</h2>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 flex items-center justify-center rounded-full hover:bg-gray-800 transition-colors -mr-2"
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-4">
+          {activePlan ? (
+            <ActiveTrip key={activePlan.id} plan={activePlan} />
+          ) : route ? (
+            <TripForm route={route} />
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Check-in form behind a plan's check-in link, for party members who do
+ * not have the plan on their phone
+ */
+export function SharedCheckIn({ token, onClose }: { token: string; onClose: () => void }) {
+  const [plan, setPlan] = useState<SharedTripPlan | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [by, setBy] = useState('');
+  const [note, setNote] = useState('');
+  const [newReturn, setNewReturn] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSharedTrip(token)
+      .then((shared) => {
+        setPlan(shared);
+        setBy(shared.party[0] ?? '');
+      })
+      .catch((err) => {
+        console.error('Loading shared trip plan failed:', err);
+        setLoadError(true);
+      });
+  }, [token]);
+
+  const closed = plan?.status === 'returned' || plan?.status === 'cancelled';
+
+  const handleCheckIn = async () => {
+    if (!by.trim()) return;
+    hapticButton();
+    setSending(true);
+    setError(null);
+    try {
+      const position = await getPosition();
+      const updated = await sendSharedCheckIn(token, {
+        by: by.trim(),
+        note: note.trim() || undefined,
+        position,
+        expectedReturn: newReturn ? new Date(newReturn).toISOString() : undefined,
+      });
+      setPlan(updated);
+      setSent(true);
+      setNote('');
+      setNewReturn('');
+    } catch (err) {
+      console.error('Shared check-in failed:', err);
+      setError(t.trip.checkInFailed);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-gray-900 w-full max-w-lg rounded-t-3xl max-h-[90dvh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+          <h2 className="text-lg font-semibold text-white">{t.trip.memberCheckIn}</h2>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 flex items-center justify-center rounded-full hover:bg-gray-800 transition-colors -mr-2"
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {loadError ? (
+            <p className="text-sm text-red-400">{t.trip.linkInvalid}</p>
+          ) : !plan ? (
+            <p className="text-sm text-gray-400 flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {t.loading}
+            </p>
+          ) : (
+            <>
+              <div>
+                <p className="text-base text-white font-medium">{plan.routeName}</p>
+                <p className="text-xs text-gray-500">
+                  {plan.region}
+                  {plan.party.length > 0 && ` • ${plan.party.join(', ')}`}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {t.trip.expectedReturn}: {formatTime(plan.expectedReturn)} • {t.trip.status[plan.status]}
+                </p>
+              </div>
+
+              {closed ? (
+                <p className="text-sm text-gray-400">{t.trip.planClosed}</p>
+              ) : (
+                <div className="space-y-2 bg-gray-800/50 rounded-xl p-3">
+                  {plan.party.length > 1 ? (
+                    <select value={by} onChange={(e) => setBy(e.target.value)} className={inputClass} aria-label={t.trip.checkedInBy}>
+                      {plan.party.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input value={by} onChange={(e) => setBy(e.target.value)} placeholder={t.trip.yourName} className={inputClass} />
+                  )}
+                  <input value={note} onChange={(e) => setNote(e.target.value)} placeholder={t.trip.checkInNote} className={inputClass} />
+                  <label className="text-xs text-gray-400 flex items-center justify-between gap-2">
+                    {t.trip.newReturn}
+                    <input
+                      type="datetime-local"
+                      value={newReturn}
+                      onChange={(e) => setNewReturn(e.target.value)}
+                      className={`${inputClass} w-auto`}
+                    />
+                  </label>
+                  {error && <p className="text-xs text-red-400">{error}</p>}
+                  {sent && !error && (
+                    <p className="text-xs text-green-400 flex items-center gap-1">
+                      <Check className="w-3.5 h-3.5" />
+                      {t.trip.checkInSent}
+                    </p>
+                  )}
+                  <button
+                    onClick={handleCheckIn}
+                    disabled={sending || !by.trim()}
+                    className="w-full py-2.5 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white text-sm font-medium flex items-center justify-center gap-2"
+                  >
+                    {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <MapPin className="w-4 h-4" />}
+                    {t.trip.checkIn}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+/**
+ * Watchlist Component
+ *
+ * Modal with alert notifications, starred routes and locations and the
+ * alert rules defined on them.
+ */
+
+import { useState } from 'react';
+import { X, Bell, Star, Trash2, Plus, MapPin, Route as RouteIcon, CloudOff } from 'lucide-react';
+import type { AlertCondition, AlertRule, AvalancheLevel, WatchItem } from '@/types';
+import { useWatchlistStore } from '@/stores/useWatchlistStore';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { ALERT_WEEKDAYS, describeAlertCondition } from '@/utils/alerts';
+import { hapticButton } from '@/utils/haptics';
+import { t } from '@/lib/translations';
+
+interface WatchlistProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Current region (avalanche alerts are defined per region) */
+  region: string;
+  /** Weather locations of the current region, offered for starring */
+  locations: string[];
+  /** Region has an avalanche bulletin */
+  hasBulletin: boolean;
+}
+
+const LEVELS: AvalancheLevel[] = [1, 2, 3, 4, 5];
+
+/**
+ * Existing rules of one target
+ */
+function RuleList({ rules }: { rules: AlertRule[] }) {
+  const { toggleRule, removeRule } = useWatchlistStore();
+
+  return (
+    <ul className="space-y-1">
+      {rules.map((rule) => (
+        <li key={rule.id} className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={rule.enabled}
+            onChange={() => toggleRule(rule.id)}
+            className="accent-blue-500"
+          />
+          <span className={`flex-1 ${rule.enabled ? 'text-gray-300' : 'text-gray-500 line-through'}`}>
+            {describeAlertCondition(rule.condition)}
+          </span>
+          <button
+            onClick={() => removeRule(rule.id)}
+            className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+            aria-label={t.routes.import.delete}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Inline form adding a rule to a watched route or location
+ */
+function AddRuleForm({ item }: { item: WatchItem }) {
+  const addRule = useWatchlistStore((state) => state.addRule);
+  const [minScore, setMinScore] = useState(75);
+  const [weekday, setWeekday] = useState<number | ''>('');
+  const [reportType, setReportType] = useState<'' | 'ascent' | 'descent'>('');
+
+  const handleAdd = () => {
+    hapticButton();
+    const condition: AlertCondition =
+      item.kind === 'route'
+        ? { type: 'score', minScore, ...(weekday !== '' && { weekday }) }
+        : { type: 'report', ...(reportType && { reportType }) };
+    addRule({ target: item.id, targetName: item.name, condition });
+  };
+
+  const selectClass = 'bg-gray-800 text-white rounded-lg px-2 py-1.5 text-xs border border-gray-700';
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      {item.kind === 'route' ? (
+        <>
+          <label className="text-xs text-gray-400 flex items-center gap-1">
+            {t.watchlist.minScore}
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={minScore}
+              onChange={(e) => setMinScore(Math.min(100, Math.max(0, Number(e.target.value))))}
+              className={`${selectClass} w-16`}
+            />
+          </label>
+          <select
+            value={weekday}
+            onChange={(e) => setWeekday(e.target.value === '' ? '' : Number(e.target.value))}
+            className={selectClass}
+          >
+            <option value="">{t.watchlist.anyDay}</option>
+            {ALERT_WEEKDAYS.map((day, i) => (
+              <option key={day} value={i}>w {day}</option>
+            ))}
+          </select>
+        </>
+      ) : (
+        <select
+          value={reportType}
+          onChange={(e) => setReportType(e.target.value as '' | 'ascent' | 'descent')}
+          className={selectClass}
+        >
+          <option value="">{t.watchlist.anyReport}</option>
+          <option value="descent">{t.reports.descent}</option>
+          <option value="ascent">{t.reports.ascent}</option>
+        </select>
+      )}
+      <button
+        onClick={handleAdd}
+        className="flex items-center gap-1 px-2 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs transition-colors"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        {t.watchlist.addAlert}
+      </button>
+    </div>
+  );
+}
+
+export function Watchlist({ isOpen, onClose, region, locations, hasBulletin }: WatchlistProps) {
+  const {
+    items,
+    rules,
+    notifications,
+    toggleWatch,
+    addRule,
+    markAllRead,
+    clearNotifications,
+  } = useWatchlistStore();
+  const user = useAuthStore((state) => state.user);
+  const [location, setLocation] = useState('');
+  const [maxLevel, setMaxLevel] = useState<AvalancheLevel>(2);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    markAllRead();
+    onClose();
+  };
+
+  const watchedIds = new Set(items.map((item) => item.id));
+  const unwatchedLocations = locations.filter((name) => !watchedIds.has(name));
+  const avalancheRules = rules.filter((rule) => rule.condition.type === 'avalanche');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={handleClose} />
+
+      {/* Modal */}
+      <div className="relative bg-gray-900 w-full max-w-lg rounded-t-3xl max-h-[90dvh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+          <h2 className="text-lg font-semibold text-white">{t.watchlist.title}</h2>
+          <button
+            onClick={handleClose}
+            className="w-12 h-12 flex items-center justify-center rounded-full hover:bg-gray-800 transition-colors -mr-2"
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          {/* Notifications */}
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                <Bell className="w-4 h-4" />
+                {t.watchlist.notifications}
+              </h3>
+              {notifications.length > 0 && (
+                <button onClick={clearNotifications} className="text-xs text-blue-400 hover:underline">
+                  {t.watchlist.clear}
+                </button>
+              )}
+            </div>
+            {notifications.length === 0 ? (
+              <p className="text-sm text-gray-500">{t.watchlist.noNotifications}</p>
+            ) : (
+              <ul className="space-y-2">
+                {notifications.map((notification) => (
+                  <li
+                    key={notification.id}
+                    className={`rounded-lg px-3 py-2 ${notification.read ? 'bg-gray-800/50' : 'bg-blue-900/30 border border-blue-800'}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm text-white">{notification.title}</p>
+                      <span className="text-[11px] text-gray-500 flex-shrink-0">
+                        {new Date(notification.createdAt).toLocaleString('pl-PL', {
+                          day: 'numeric',
+                          month: 'numeric',
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-400">{notification.message}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Watched routes and locations */}
+          <section>
+            <h3 className="text-sm font-medium text-gray-400 mb-2 flex items-center gap-2">
+              <Star className="w-4 h-4" />
+              {t.watchlist.title}
+              {!user && items.length > 0 && (
+                <CloudOff className="w-3.5 h-3.5 text-amber-400" aria-label={t.watchlist.localOnly} />
+              )}
+            </h3>
+            {items.length === 0 && <p className="text-sm text-gray-500 mb-3">{t.watchlist.empty}</p>}
+            <ul className="space-y-2">
+              {items.map((item) => (
+                <li key={item.id} className="bg-gray-800 rounded-lg px-3 py-2 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0 flex items-center gap-2">
+                      {item.kind === 'route' ? (
+                        <RouteIcon className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                      ) : (
+                        <MapPin className="w-4 h-4 text-green-400 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm text-white truncate">{item.name}</p>
+                        <p className="text-xs text-gray-500">{item.region}</p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => toggleWatch(item)}
+                      className="w-10 h-10 flex items-center justify-center rounded-lg hover:bg-gray-700 transition-colors"
+                      aria-label={t.watchlist.unwatch}
+                    >
+                      <Star className="w-4 h-4 text-yellow-400 fill-yellow-400" />
+                    </button>
+                  </div>
+                  <RuleList rules={rules.filter((rule) => rule.target === item.id)} />
+                  <AddRuleForm item={item} />
+                </li>
+              ))}
+            </ul>
+
+            {/* Star a location of the current region */}
+            {unwatchedLocations.length > 0 && (
+              <div className="flex items-center gap-2 mt-3">
+                <select
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  className="flex-1 bg-gray-800 text-white rounded-lg px-3 py-2 text-sm border border-gray-700"
+                >
+                  <option value="">{t.watchlist.addLocation}</option>
+                  {unwatchedLocations.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    if (!location) return;
+                    hapticButton();
+                    toggleWatch({ kind: 'location', id: location, name: location, region });
+                    setLocation('');
+                  }}
+                  disabled={!location}
+                  className="w-10 h-10 flex items-center justify-center rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50 transition-colors"
+                  aria-label={t.watchlist.watch}
+                >
+                  <Plus className="w-4 h-4 text-white" />
+                </button>
+              </div>
+            )}
+          </section>
+
+          {/* Avalanche alerts per region */}
+          {(hasBulletin || avalancheRules.length > 0) && (
+            <section>
+              <h3 className="text-sm font-medium text-gray-400 mb-2">{t.watchlist.avalancheAlert}</h3>
+              <ul className="space-y-2 mb-2">
+                {avalancheRules.map((rule) => (
+                  <li key={rule.id} className="bg-gray-800 rounded-lg px-3 py-2">
+                    <p className="text-xs text-gray-500 mb-1">{rule.targetName}</p>
+                    <RuleList rules={[rule]} />
+                  </li>
+                ))}
+              </ul>
+              {hasBulletin && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-white flex-1">{region}</span>
+                  <label className="text-xs text-gray-400 flex items-center gap-1">
+                    {t.watchlist.avalancheLevel}
+                    <select
+                      value={maxLevel}
+                      onChange={(e) => setMaxLevel(Number(e.target.value) as AvalancheLevel)}
+                      className="bg-gray-800 text-white rounded-lg px-2 py-1.5 text-xs border border-gray-700"
+                    >
+                      {LEVELS.map((level) => (
+                        <option key={level} value={level}>{level}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={() => {
+                      hapticButton();
+                      addRule({ target: region, targetName: region, condition: { type: 'avalanche', maxLevel } });
+                    }}
+                    className="flex items-center gap-1 px-2 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs transition-colors"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    {t.watchlist.addAlert}
+                  </button>
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,3 +4,7 @@ export { QuickReport } from './QuickReport';
 export { CommunityIntel } from './CommunityIntel';
 export { IntelSummary } from './IntelSummary';
 export { MobileDashboard } from './MobileDashboard';
+export { RouteImport } from './RouteImport';
+export { Watchlist } from './Watchlist';
+export { TripPlanner, SharedCheckIn } from './TripPlanner';
+export { ReportPhotos } from './ReportPhotos';
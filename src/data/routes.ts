@@ -20,6 +20,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 757,
       distance: 5.5,
       difficulty: 'moderate',
+      ates: 'simple',
       aspects: ['N', 'NE'] as Aspect[],
       duration: 3,
       description: 'Popular route from Szczyrk to highest peak of Beskid Śląski',
@@ -33,6 +34,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 300,
       distance: 4.2,
       difficulty: 'easy',
+      ates: 'simple',
       aspects: ['E', 'SE'] as Aspect[],
       duration: 2,
       description: 'Ridge traverse with great views, gentle terrain',
@@ -46,6 +48,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 600,
       distance: 4.8,
       difficulty: 'difficult',
+      ates: 'challenging',
       aspects: ['N', 'NW'] as Aspect[],
       duration: 3.5,
       description: 'Steeper north-facing route, best powder conditions',
@@ -59,6 +62,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 450,
       distance: 3.5,
       difficulty: 'easy',
+      ates: 'simple',
       aspects: ['S', 'SW'] as Aspect[],
       duration: 2.5,
       description: 'Classic approach, wide open slopes',
@@ -72,6 +76,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 476,
       distance: 5.0,
       difficulty: 'moderate',
+      ates: 'simple',
       aspects: ['N', 'W'] as Aspect[],
       duration: 3,
       description: 'Less crowded, beautiful forest approach',
@@ -85,6 +90,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 570,
       distance: 6.0,
       difficulty: 'moderate',
+      ates: 'simple',
       aspects: ['NE', 'E'] as Aspect[],
       duration: 3.5,
       description: 'Source of Vistula river, scenic route',
@@ -100,6 +106,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 950,
       distance: 6.5,
       difficulty: 'moderate',
+      ates: 'challenging',
       aspects: ['N', 'NW'] as Aspect[],
       duration: 4,
       description: 'Classic ski touring descent from Kasprowy Wierch',
@@ -113,6 +120,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 1104,
       distance: 8.2,
       difficulty: 'expert',
+      ates: 'complex',
       aspects: ['N', 'NE'] as Aspect[],
       duration: 7,
       description: 'Challenging route to the highest peak in Poland',
@@ -126,6 +134,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 781,
       distance: 5.8,
       difficulty: 'difficult',
+      ates: 'complex',
       aspects: ['E', 'SE'] as Aspect[],
       duration: 5,
       description: 'Popular route with stunning views',
@@ -139,6 +148,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 635,
       distance: 4.2,
       difficulty: 'moderate',
+      ates: 'complex',
       aspects: ['N', 'NE'] as Aspect[],
       duration: 3.5,
       description: 'Accessible peak with reliable snow',
@@ -152,6 +162,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 509,
       distance: 7.5,
       difficulty: 'difficult',
+      ates: 'complex',
       aspects: ['W', 'NW'] as Aspect[],
       duration: 6,
       description: 'Scenic traverse between valleys',
@@ -167,6 +178,7 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 875,
       distance: 6.5,
       difficulty: 'expert',
+      ates: 'challenging',
       aspects: ['N', 'NE'] as Aspect[],
       duration: 5,
       description: 'Steep north face of the Queen of Beskids',
@@ -180,11 +192,42 @@ export const ROUTES_BY_REGION: Record<string, Route[]> = {
       elevation: 775,
       distance: 5.0,
       difficulty: 'moderate',
+      ates: 'simple',
       aspects: ['S', 'SW'] as Aspect[],
       duration: 4,
       description: 'Gentler approach, good for spring corn snow',
     },
   ],
+  'Karkonosze': [
+    {
+      id: 'sniezka-bialy-jar',
+      name: 'Śnieżka - Biały Jar',
+      region: 'Karkonosze',
+      startPoint: { lat: 50.7670, lng: 15.7430, altitude: 880 },
+      summit: { lat: 50.7360, lng: 15.7397, altitude: 1603 },
+      elevation: 725,
+      distance: 7.0,
+      difficulty: 'moderate',
+      ates: 'challenging',
+      aspects: ['N', 'NE'] as Aspect[],
+      duration: 3.5,
+      description: 'Classic ascent through the Biały Jar avalanche path - check the bulletin',
+    },
+    {
+      id: 'szrenica-szklarska',
+      name: 'Szrenica from Szklarska Poręba',
+      region: 'Karkonosze',
+      startPoint: { lat: 50.8270, lng: 15.5210, altitude: 680 },
+      summit: { lat: 50.7930, lng: 15.5130, altitude: 1362 },
+      elevation: 680,
+      distance: 6.5,
+      difficulty: 'easy',
+      ates: 'simple',
+      aspects: ['N'] as Aspect[],
+      duration: 3,
+      description: 'Forest road and ski slope, reliable snow',
+    },
+  ],
 };
 
 /**
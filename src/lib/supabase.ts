@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { AlertRule, PushEventType, ReportPhoto, ReportVote, ReputationFactors, TripCheckIn, TripPosition, TripStatus, WatchItem } from '../types';
 
 // Database types for Supabase
 export interface Database {
@@ -12,6 +13,9 @@ export interface Database {
           avatar_url: string | null;
           is_admin: boolean;
           created_at: string;
+          reputation: number;
+          reputation_reports: number;
+          reputation_updated_at: string | null;
         };
         Insert: {
           id: string;
@@ -25,6 +29,7 @@ export interface Database {
           display_name?: string | null;
           avatar_url?: string | null;
         };
+        Relationships: [];
       };
       reports: {
         Row: {
@@ -39,6 +44,7 @@ export interface Database {
           snow_condition: 'puch' | 'firn' | 'szren' | 'beton' | 'cukier' | 'kamienie' | 'mokry' | null;
           quality_rating: number | null;
           notes: string | null;
+          photos: ReportPhoto[];
           created_at: string;
           deleted_at: string | null;
           deleted_by: string | null;
@@ -55,11 +61,13 @@ export interface Database {
           snow_condition?: 'puch' | 'firn' | 'szren' | 'beton' | 'cukier' | 'kamienie' | 'mokry' | null;
           quality_rating?: number | null;
           notes?: string | null;
+          photos?: ReportPhoto[];
         };
         Update: {
           deleted_at?: string;
           deleted_by?: string;
         };
+        Relationships: [];
       };
       rate_limits: {
         Row: {
@@ -73,6 +81,7 @@ export interface Database {
         Update: {
           last_report_at?: string;
         };
+        Relationships: [];
       };
       app_settings: {
         Row: {
@@ -92,6 +101,7 @@ export interface Database {
           updated_at?: string;
           updated_by?: string | null;
         };
+        Relationships: [];
       };
       admin_reports: {
         Row: {
@@ -149,6 +159,7 @@ export interface Database {
           report_date?: string;
           author_name?: string | null;
         };
+        Relationships: [];
       };
       fb_group_configs: {
         Row: {
@@ -162,6 +173,8 @@ export interface Database {
           last_scraped_at: string | null;
           total_posts_scraped: number;
           total_reports_created: number;
+          earliest_scraped_date: string | null;
+          latest_scraped_date: string | null;
         };
         Insert: {
           id?: string;
@@ -181,6 +194,7 @@ export interface Database {
           total_posts_scraped?: number;
           total_reports_created?: number;
         };
+        Relationships: [];
       };
       scrape_jobs: {
         Row: {
@@ -233,6 +247,7 @@ export interface Database {
           llm_filter_cost_usd?: number | null;
           llm_parse_cost_usd?: number | null;
         };
+        Relationships: [];
       };
       scraped_posts: {
         Row: {
@@ -272,6 +287,7 @@ export interface Database {
           processed_at?: string | null;
           admin_report_id?: string | null;
         };
+        Relationships: [];
       };
       report_embeddings: {
         Row: {
@@ -298,7 +314,236 @@ export interface Database {
           metadata?: Record<string, unknown>;
           updated_at?: string;
         };
+        Relationships: [];
       };
+      custom_routes: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          region: string;
+          difficulty: 'easy' | 'moderate' | 'difficult' | 'expert';
+          ates: 'simple' | 'challenging' | 'complex';
+          start_point: { lat: number; lng: number; altitude: number };
+          summit: { lat: number; lng: number; altitude: number };
+          elevation: number;
+          distance: number;
+          aspects: string[];
+          duration: number;
+          description: string | null;
+          track: { lat: number; lng: number; altitude: number }[];
+          created_at: string;
+          deleted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          region: string;
+          difficulty: 'easy' | 'moderate' | 'difficult' | 'expert';
+          ates: 'simple' | 'challenging' | 'complex';
+          start_point: { lat: number; lng: number; altitude: number };
+          summit: { lat: number; lng: number; altitude: number };
+          elevation: number;
+          distance: number;
+          aspects: string[];
+          duration: number;
+          description?: string | null;
+          track: { lat: number; lng: number; altitude: number }[];
+          created_at?: string;
+        };
+        Update: {
+          deleted_at?: string;
+        };
+        Relationships: [];
+      };
+      avalanche_bulletins: {
+        Row: {
+          id: string;
+          provider: 'topr' | 'slp' | 'hs';
+          bulletin_date: string;
+          report_id: string | null;
+          level: number;
+          trend: 'increasing' | 'stable' | 'decreasing' | null;
+          problem_aspects: string[];
+          altitude_from: number | null;
+          altitude_to: number | null;
+          problems: string[];
+          issued_at: string | null;
+          valid_until: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          provider?: 'topr' | 'slp' | 'hs';
+          bulletin_date: string;
+          report_id?: string | null;
+          level: number;
+          trend?: 'increasing' | 'stable' | 'decreasing' | null;
+          problem_aspects?: string[];
+          altitude_from?: number | null;
+          altitude_to?: number | null;
+          problems?: string[];
+          issued_at?: string | null;
+          valid_until?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          level?: number;
+          trend?: 'increasing' | 'stable' | 'decreasing' | null;
+          problem_aspects?: string[];
+          problems?: string[];
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      profile_watchlists: {
+        Row: {
+          user_id: string;
+          items: WatchItem[];
+          rules: AlertRule[];
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          items?: WatchItem[];
+          rules?: AlertRule[];
+          updated_at?: string;
+        };
+        Update: {
+          items?: WatchItem[];
+          rules?: AlertRule[];
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      push_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          regions: string[];
+          types: PushEventType[];
+          failure_count: number;
+          last_error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          regions?: string[];
+          types?: PushEventType[];
+          failure_count?: number;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          regions?: string[];
+          types?: PushEventType[];
+          failure_count?: number;
+          last_error?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      trip_plans: {
+        Row: {
+          id: string;
+          user_id: string;
+          route_id: string;
+          route_name: string;
+          region: string;
+          party: string[];
+          planned_start: string;
+          turnaround_at: string;
+          expected_return: string;
+          emergency_contact_name: string;
+          emergency_contact_phone: string;
+          status: TripStatus;
+          check_ins: TripCheckIn[];
+          last_position: (TripPosition & { at: string }) | null;
+          overdue_at: string | null;
+          escalated_at: string | null;
+          all_clear_at: string | null;
+          escalation_error: string | null;
+          check_in_token: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          route_id: string;
+          route_name: string;
+          region: string;
+          party?: string[];
+          planned_start: string;
+          turnaround_at: string;
+          expected_return: string;
+          emergency_contact_name: string;
+          emergency_contact_phone: string;
+          status?: TripStatus;
+          check_ins?: TripCheckIn[];
+          last_position?: (TripPosition & { at: string }) | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          party?: string[];
+          expected_return?: string;
+          status?: TripStatus;
+          check_ins?: TripCheckIn[];
+          last_position?: (TripPosition & { at: string }) | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      reputation_factors: {
+        Row: {
+          user_id: string;
+          factors: ReputationFactors;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          factors: ReputationFactors;
+          updated_at?: string;
+        };
+        Update: {
+          factors?: ReputationFactors;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      report_votes: {
+        Row: {
+          report_id: string;
+          user_id: string;
+          vote: ReportVote;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          report_id: string;
+          user_id: string;
+          vote: ReportVote;
+        };
+        Update: {
+          vote?: ReportVote;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
     };
     Functions: {
       can_submit_report: {
@@ -336,6 +581,15 @@ export interface Database {
         };
         Returns: string;
       };
+      report_vote_counts: {
+        Args: { p_report_ids: string[] };
+        Returns: {
+          report_id: string;
+          confirms: number;
+          disputes: number;
+          last_confirmed_at: string | null;
+        }[];
+      };
     };
   };
 }
@@ -351,6 +605,19 @@ export type FBGroupConfig = Database['public']['Tables']['fb_group_configs']['Ro
 export type ScrapeJob = Database['public']['Tables']['scrape_jobs']['Row'];
 export type ScrapedPost = Database['public']['Tables']['scraped_posts']['Row'];
 export type ReportEmbedding = Database['public']['Tables']['report_embeddings']['Row'];
+export type CustomRouteRow = Database['public']['Tables']['custom_routes']['Row'];
+export type CustomRouteInsert = Database['public']['Tables']['custom_routes']['Insert'];
+export type AvalancheBulletinRow = Database['public']['Tables']['avalanche_bulletins']['Row'];
+export type ProfileWatchlistRow = Database['public']['Tables']['profile_watchlists']['Row'];
+export type ProfileWatchlistInsert = Database['public']['Tables']['profile_watchlists']['Insert'];
+export type PushSubscriptionRow = Database['public']['Tables']['push_subscriptions']['Row'];
+export type PushSubscriptionInsert = Database['public']['Tables']['push_subscriptions']['Insert'];
+export type PushSubscriptionUpdate = Database['public']['Tables']['push_subscriptions']['Update'];
+export type TripPlanRow = Database['public']['Tables']['trip_plans']['Row'];
+export type TripPlanInsert = Database['public']['Tables']['trip_plans']['Insert'];
+export type ReportVoteRow = Database['public']['Tables']['report_votes']['Row'];
+export type ReportVoteInsert = Database['public']['Tables']['report_votes']['Insert'];
+export type ReportVoteCount = Database['public']['Functions']['report_vote_counts']['Returns'][number];
 
 // Initialize Supabase client
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
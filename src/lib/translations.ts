@@ -46,9 +46,11 @@ export const t = {
     noService: 'Brak komunikatu lawinowego',
     noServiceShort: 'Brak TOPR',
     beskidyNote: 'Beskidy nie mają oficjalnego serwisu lawinowego. Oceń warunki lokalnie.',
+    estimateNote: 'Nieoficjalny szacunek z pogody z ostatnich 72h (śnieg, wiatr, ocieplenie, deszcz). To nie jest komunikat lawinowy - oceń warunki lokalnie.',
     couldNotLoad: 'Nie udało się załadować danych lawinowych',
     checkTopr: 'Sprawdź aktualne warunki na:',
     toprLink: 'TOPR Lawiny',
+    hsLink: 'Horská služba - Laviny Krkonoše',
     problemAspects: 'Ekspozycje',
     dangerAltitude: 'Wysokość zagrożenia',
     activeProblems: 'Aktywne problemy',
@@ -56,6 +58,26 @@ export const t = {
     validUntil: 'Ważne do',
     issued: 'Wydano',
     source: 'Źródło',
+    bulletins: 'Komunikaty (PL / SK)',
+    munter: {
+      title: 'Metoda redukcyjna (Munter)',
+      dangerPotential: 'Potencjał zagrożenia',
+      residualRisk: 'Ryzyko resztkowe',
+      hint: 'Ryzyko resztkowe ≤ 1 jest akceptowalne',
+      estimated: 'szacunkowo',
+    },
+    windLoading: {
+      title: 'Nawiewanie (48h)',
+      windFrom: 'wiatr z',
+      calm: 'bez transportu śniegu',
+      loaded: 'Nawiane',
+    },
+    timeline: {
+      title: 'Sezon - stopnie zagrożenia (TOPR)',
+      noBulletin: 'brak komunikatu w archiwum',
+      today: 'dziś',
+      days: 'dni',
+    },
   },
 
   // Weather
@@ -65,6 +87,13 @@ export const t = {
     freezingLevel: 'Poziom 0°C',
     updated: 'Zaktualizowano',
     noData: 'Brak danych pogodowych',
+    waterLevel: 'Stan wody',
+    ensemble: {
+      title: 'Zgodność modeli',
+      snowfall: 'Śnieg',
+      wind: 'Wiatr',
+      freezingLevel: '0°C',
+    },
     conditions: {
       clear: 'Bezchmurnie',
       partlyCloudy: 'Częściowe zachmurzenie',
@@ -94,6 +123,22 @@ export const t = {
       difficult: 'Trudna',
       expert: 'Ekspercka',
     },
+    custom: 'Własna',
+    exportGpx: 'Eksportuj do GPX',
+    import: {
+      title: 'Import trasy',
+      button: 'Importuj GPX/KML',
+      chooseFile: 'Wybierz plik GPX lub KML',
+      name: 'Nazwa',
+      region: 'Region',
+      difficulty: 'Trudność',
+      ates: 'Teren lawinowy (ATES)',
+      aspects: 'Ekspozycje',
+      save: 'Zapisz trasę',
+      myRoutes: 'Moje trasy',
+      delete: 'Usuń',
+      localOnly: 'Zapisana lokalnie - zaloguj się, aby synchronizować',
+    },
   },
 
   // Reports / Quick Report
@@ -118,6 +163,20 @@ export const t = {
     rateLimit: 'Limit raportów',
     rateLimitMessage: 'Możesz wysłać kolejny raport za {minutes} min.',
 
+    // Photos
+    photos: {
+      title: 'Zdjęcia',
+      add: 'Dodaj zdjęcie',
+      processing: 'Przetwarzanie...',
+      remove: 'Usuń zdjęcie',
+      failed: 'Nie udało się wczytać zdjęcia',
+      hint: 'Zdjęcia są zmniejszane, a metadane EXIF usuwane przed wysłaniem.',
+      locationFromPhoto: 'Lokalizacja GPS odczytana ze zdjęcia',
+      takenAgo: 'Zdjęcie zrobione {time}',
+      pending: 'Zdjęcie czeka na wysłanie',
+      open: 'Otwórz zdjęcie',
+    },
+
     // Track status options
     track: {
       tracked: 'Przetarte',
@@ -157,6 +216,22 @@ export const t = {
     userReport: 'Raport użytkownika',
     autoGenerated: 'Automatyczne z sieci',
     humanVerified: 'Zweryfikowane przez ludzi',
+    exportGpx: 'Eksportuj raporty z GPS do GPX',
+    votes: {
+      question: 'Nadal aktualne?',
+      confirm: 'Potwierdzam',
+      dispute: 'Nieaktualne',
+      confirmed: 'Potwierdzone',
+      failed: 'Nie udało się zapisać głosu',
+    },
+    trust: {
+      trusted: 'Zaufany',
+      regular: 'Sprawdzony',
+      low: 'Mało wiarygodny',
+      new: 'Nowy autor',
+      score: 'Reputacja autora: {score}/100 ({reports} raportów w 90 dni)',
+      newHint: 'Za mało raportów, by ocenić autora',
+    },
   },
 
   // Intel / AI Summary
@@ -198,6 +273,119 @@ export const t = {
     version: 'SkitourScout v0.2.0',
   },
 
+  // Watchlist / alerts
+  watchlist: {
+    title: 'Obserwowane',
+    watch: 'Obserwuj',
+    unwatch: 'Przestań obserwować',
+    notifications: 'Powiadomienia',
+    noNotifications: 'Brak powiadomień',
+    markRead: 'Oznacz jako przeczytane',
+    clear: 'Wyczyść',
+    empty: 'Oznacz trasę gwiazdką lub dodaj lokalizację, aby ustawić alerty.',
+    addLocation: 'Dodaj lokalizację',
+    addAlert: 'Dodaj alert',
+    minScore: 'Ocena od',
+    anyDay: 'Dowolny dzień',
+    anyReport: 'Każdy raport',
+    avalancheAlert: 'Alert lawinowy',
+    avalancheLevel: 'Stopień do',
+    localOnly: 'Zapisane lokalnie - zaloguj się, aby synchronizować',
+  },
+
+  // Gear checklist
+  gear: {
+    title: 'Lista sprzętu',
+    required: 'Wymagane',
+    recommended: 'Zalecane',
+    packed: 'Spakowane',
+    share: 'Udostępnij',
+    copied: 'Skopiowano',
+    reset: 'Wyczyść',
+    items: {
+      avalanche_kit: 'Detektor, łopata, sonda',
+      airbag: 'Plecak lawinowy',
+      skins: 'Foki',
+      ski_crampons: 'Harszle',
+      crampons: 'Raki',
+      ice_axe: 'Czekan',
+      extra_layers: 'Dodatkowa warstwa (puchówka, rękawice)',
+    },
+  },
+
+  // Trip plans
+  trip: {
+    title: 'Plan wyjścia',
+    plan: 'Zaplanuj wyjście',
+    route: 'Trasa',
+    party: 'Uczestnicy',
+    addMember: 'Dodaj osobę',
+    memberName: 'Imię',
+    plannedStart: 'Start',
+    turnaround: 'Zawrót',
+    expectedReturn: 'Planowany powrót',
+    emergencyContact: 'Kontakt alarmowy',
+    contactName: 'Imię i nazwisko',
+    contactPhone: 'Telefon',
+    file: 'Zapisz plan',
+    invalidTimes: 'Start, zawrót i powrót muszą być po kolei',
+    missingContact: 'Podaj kontakt alarmowy',
+    localOnly: 'Zaloguj się, aby w razie spóźnienia kontakt alarmowy dostał SMS',
+    notSynced: 'Niezsynchronizowane - serwer nie widzi ostatnich zmian',
+    status: {
+      planned: 'Zaplanowane',
+      active: 'W trasie',
+      overdue: 'Spóźnienie',
+      returned: 'Powrót',
+      cancelled: 'Anulowane',
+    },
+    start: 'Wyruszamy',
+    checkIn: 'Zamelduj się',
+    checkInNote: 'Notatka (opcjonalnie)',
+    newReturn: 'Nowy czas powrotu',
+    checkedInBy: 'Kto się melduje',
+    returned: 'Wróciliśmy',
+    cancel: 'Anuluj plan',
+    checkIns: 'Meldunki',
+    noCheckIns: 'Brak meldunków',
+    gettingLocation: 'Pobieranie pozycji...',
+    noPosition: 'bez pozycji GPS',
+    overdueTitle: 'Przekroczony czas powrotu',
+    escalationIn: 'Kontakt alarmowy zostanie powiadomiony za {minutes} min',
+    escalated: 'Kontakt alarmowy został powiadomiony',
+    escalationDue: 'Powiadomienie kontaktu alarmowego w toku',
+    callTopr: 'Zadzwoń do TOPR',
+    share: 'Udostępnij pozycję',
+    copied: 'Skopiowano',
+    lastPosition: 'Ostatnia pozycja',
+    banner: '{route} - powrót {time}',
+    checkInLink: 'Link do meldowania dla uczestników',
+    checkInLinkHint: 'Uczestnicy meldują się z własnego telefonu, bez konta',
+    memberCheckIn: 'Meldunek z trasy',
+    yourName: 'Twoje imię',
+    checkInSent: 'Meldunek wysłany',
+    checkInFailed: 'Nie udało się wysłać meldunku',
+    linkInvalid: 'Link do meldowania jest nieprawidłowy albo plan został usunięty',
+    planClosed: 'Wyjście jest już zakończone',
+  },
+
+  // Push notifications
+  push: {
+    title: 'Powiadomienia push',
+    description: 'Zmiany stopnia zagrożenia lawinowego i nowe raporty z obserwowanych lokalizacji, także przy zamkniętej aplikacji.',
+    enable: 'Włącz powiadomienia',
+    regions: 'Regiony',
+    types: 'Rodzaje',
+    bulletin: 'Zmiana stopnia lawinowego (Tatry, TOPR)',
+    verifiedReport: 'Zweryfikowane raporty',
+    communityReport: 'Raporty społeczności',
+    watchedOnly: 'Raporty tylko z obserwowanych lokalizacji',
+    loginRequired: 'Zaloguj się, aby włączyć powiadomienia push.',
+    unsupported: 'Ta przeglądarka nie obsługuje powiadomień push.',
+    denied: 'Powiadomienia są zablokowane w ustawieniach przeglądarki.',
+    error: 'Nie udało się zapisać subskrypcji',
+  },
+
   // Dashboard
   dashboard: {
     noAvalancheData: 'Brak danych lawinowych',
@@ -205,6 +393,16 @@ export const t = {
     viewReports: 'Zobacz {count} raportów →',
   },
 
+  // Source health (circuit breakers and cached data)
+  dataStatus: {
+    weather: 'Pogoda',
+    avalanche: 'Komunikat lawinowy',
+    paused: 'źródło wstrzymane po powtarzających się błędach, ponowna próba o {time}',
+    retrying: 'źródło wraca po przerwie, trwa ponowna próba',
+    failed: 'ostatnie pobranie nieudane',
+    cached: 'pokazano dane sprzed {age}',
+  },
+
   // Auth
   auth: {
     loginWith: 'Zaloguj przez',
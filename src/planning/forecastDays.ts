@@ -0,0 +1,125 @@
+/**
+ * Forecast Day Conditions
+ *
+ * Turns the daily elevation-pair forecast into the WeatherData shape
+ * the scoring engine expects, so routes can be scored for future days.
+ *
+ * @module planning/forecastDays
+ */
+
+import type {
+  Route,
+  WeatherData,
+  WeatherCondition,
+  ElevationWeather,
+  AvalancheReport,
+} from '@/types';
+import { apiConfidence } from '@/types/confidence';
+import { forecastConfidence } from '@/utils/ensemble';
+import { windChill } from '@/weather';
+
+/** Routes further than this from any elevation pair get no forecast (km) */
+const MAX_PAIR_DISTANCE_KM = 40;
+
+/**
+ * Rough visibility (km) implied by a daily weather condition
+ */
+const CONDITION_VISIBILITY: Record<WeatherCondition, number> = {
+  clear: 20,
+  partly_cloudy: 15,
+  cloudy: 10,
+  wind: 10,
+  snow: 5,
+  rain: 5,
+  heavy_snow: 2,
+  fog: 1,
+};
+
+/**
+ * Approximate distance between two coordinates in km (equirectangular)
+ */
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = Math.PI / 180;
+  const x = (lng2 - lng1) * toRad * Math.cos(((lat1 + lat2) / 2) * toRad);
+  const y = (lat2 - lat1) * toRad;
+  return Math.sqrt(x * x + y * y) * 6371;
+}
+
+/**
+ * Find the elevation pair whose summit is closest to the route summit
+ */
+export function findNearestElevationWeather(
+  route: Route,
+  elevationWeather: ElevationWeather[]
+): ElevationWeather | undefined {
+  let nearest: ElevationWeather | undefined;
+  let nearestDistance = MAX_PAIR_DISTANCE_KM;
+
+  for (const pair of elevationWeather) {
+    const distance = distanceKm(
+      route.summit.lat,
+      route.summit.lng,
+      pair.summit.latitude,
+      pair.summit.longitude
+    );
+    if (distance <= nearestDistance) {
+      nearest = pair;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Build WeatherData for a forecast day of an elevation pair
+ *
+ * Fresh snow is the snowfall of the previous day (what you ski on).
+ * Snow base is not forecast, so the current value is carried over.
+ * Feels-like is the wind chill of the low with the day's strongest wind.
+ * Confidence follows the model spread on days covered by the ensemble.
+ */
+export function buildForecastWeather(
+  pair: ElevationWeather,
+  date: string,
+  current?: WeatherData
+): WeatherData | undefined {
+  const dayIndex = pair.forecast?.findIndex((day) => day.date === date) ?? -1;
+  if (!pair.forecast || dayIndex < 0) {
+    return undefined;
+  }
+
+  const day = pair.forecast[dayIndex];
+  const previous = pair.forecast[dayIndex - 1];
+  const freshSnow24h = previous ? previous.summit.snowfall : pair.freshSnow24h;
+  const ensemble = pair.ensemble?.find((e) => e.date === date);
+
+  return {
+    temperature: Math.round((day.summit.tempMax + day.summit.tempMin) / 2),
+    feelsLike: Math.round(windChill(day.summit.tempMin, day.summit.windSpeed)),
+    condition: day.summit.condition,
+    windSpeed: day.summit.windSpeed,
+    windDirection: pair.summit.windDirection,
+    humidity: current?.humidity ?? 0,
+    visibility: CONDITION_VISIBILITY[day.summit.condition],
+    freshSnow24h,
+    snowBase: current?.snowBase ?? 0,
+    freezingLevel: day.freezingLevel,
+    timestamp: new Date().toISOString(),
+    source: `${pair.source} (prognoza ${date})`,
+    ensemble,
+    confidence: forecastConfidence(current?.confidence ?? apiConfidence(pair.source), ensemble),
+  };
+}
+
+/**
+ * Bulletin still valid on the given date, otherwise undefined
+ */
+export function avalancheForDate(
+  avalanche: AvalancheReport | undefined,
+  date: string
+): AvalancheReport | undefined {
+  if (!avalanche) return undefined;
+  const validUntil = avalanche.validUntil.slice(0, 10);
+  return date <= validUntil ? avalanche : undefined;
+}
@@ -0,0 +1,200 @@
+/**
+ * Gear Checklist Generator
+ *
+ * Builds the pack list for a route from its terrain, the avalanche
+ * bulletin, summit weather and the gear recent ascent reports needed.
+ * Each rule adds an item as required or recommended with a reason;
+ * an item takes the strongest priority any rule gave it.
+ *
+ * @module planning/gearChecklist
+ */
+
+import type { AvalancheReport, ElevationWeather, GearItem, GearItemId, Route } from '@/types';
+import type { LocationConditions } from '@/stores/useReportsStore';
+import { ATES_LABELS } from '@/scoring';
+import { matchesLocation } from '@/utils/alerts';
+import { windChill } from '@/weather';
+
+/**
+ * Checklist thresholds
+ */
+export const GEAR_CONFIG = {
+  /** Danger level from which the avalanche kit is required */
+  AVALANCHE_KIT_LEVEL: 2,
+  /** Danger level from which an airbag is recommended */
+  AIRBAG_LEVEL: 3,
+  /** Fresh snow (cm / 24 h) that makes the avalanche kit required */
+  FRESH_SNOW_CM: 20,
+  /** Summit altitude above which the terrain is alpine (m) */
+  ALPINE_ALTITUDE: 1900,
+  /** Summit wind that packs and polishes the snow (km/h) */
+  WIND_CRUST: 40,
+  /** Summit wind / feels-like temperature calling for extra layers */
+  COLD_WIND: 30,
+  COLD_WIND_SEVERE: 50,
+  COLD_FEELS_LIKE: -10,
+  COLD_FEELS_LIKE_SEVERE: -18,
+  /** Tours this long (h) need a spare layer regardless of weather */
+  LONG_TOUR_HOURS: 5,
+} as const;
+
+/** Display order */
+const ITEM_ORDER: GearItemId[] = [
+  'avalanche_kit',
+  'airbag',
+  'skins',
+  'ski_crampons',
+  'crampons',
+  'ice_axe',
+  'extra_layers',
+];
+
+/**
+ * Inputs to the generator
+ */
+export interface GearChecklistInput {
+  route: Route;
+  avalanche?: AvalancheReport;
+  /** Elevation pair nearest the route */
+  weather?: ElevationWeather;
+  /** Aggregated community conditions of the route's region */
+  conditions?: LocationConditions[];
+  /** Forecast day (YYYY-MM-DD); current conditions when unset */
+  date?: string;
+}
+
+/**
+ * Summit conditions for the day: current values, or the daily forecast
+ * (feels-like from the low and the strongest wind, the coldest it gets)
+ */
+function summitConditions(weather: ElevationWeather | undefined, date: string | undefined) {
+  if (!weather) return undefined;
+
+  const day = date ? weather.forecast?.find((d) => d.date === date) : undefined;
+  if (day) {
+    return {
+      feelsLike: windChill(day.summit.tempMin, day.summit.windSpeed),
+      windSpeed: day.summit.windSpeed,
+      freshSnow: day.summit.snowfall,
+      freezingLevel: day.freezingLevel,
+    };
+  }
+  return {
+    feelsLike: weather.summit.feelsLike,
+    windSpeed: weather.summit.windSpeed,
+    freshSnow: weather.freshSnow24h,
+    freezingLevel: weather.freezingLevel,
+  };
+}
+
+/**
+ * Generate the gear checklist for a route
+ *
+ * @returns Items ordered required first, then by the fixed display order
+ */
+export function buildGearChecklist(input: GearChecklistInput): GearItem[] {
+  const { route, avalanche, conditions = [], date } = input;
+  const items = new Map<GearItemId, GearItem>();
+
+  const add = (id: GearItemId, priority: GearItem['priority'], reason: string) => {
+    const item = items.get(id);
+    if (!item) {
+      items.set(id, { id, priority, reasons: [reason] });
+      return;
+    }
+    if (priority === 'required') item.priority = 'required';
+    item.reasons.push(reason);
+  };
+
+  const summit = summitConditions(input.weather, date);
+  const alpine = route.summit.altitude >= GEAR_CONFIG.ALPINE_ALTITUDE;
+  const steep = route.difficulty === 'difficult' || route.difficulty === 'expert';
+
+  // Community reports from the route's locations
+  const reports = conditions.filter((c) => matchesLocation(route.name, c.location));
+  const reportedGear = new Set(reports.flatMap((c) => c.commonGear));
+  const reportedIce = reports.some((c) => c.trackStatus === 'lod');
+
+  // Avalanche kit
+  if (avalanche && avalanche.level >= GEAR_CONFIG.AVALANCHE_KIT_LEVEL) {
+    add('avalanche_kit', 'required', `Stopień zagrożenia lawinowego ${avalanche.level}`);
+  }
+  if (route.ates !== 'simple') {
+    add('avalanche_kit', 'required', `Teren ATES: ${ATES_LABELS[route.ates].toLowerCase()}`);
+  }
+  if (summit && summit.freshSnow >= GEAR_CONFIG.FRESH_SNOW_CM) {
+    add('avalanche_kit', 'required', `${Math.round(summit.freshSnow)} cm świeżego śniegu`);
+  }
+  if (!items.has('avalanche_kit')) {
+    add('avalanche_kit', 'recommended', 'Detektor, łopata i sonda na każdą zimową turę');
+  }
+
+  if (avalanche && avalanche.level >= GEAR_CONFIG.AIRBAG_LEVEL) {
+    add('airbag', 'recommended', `Stopień zagrożenia lawinowego ${avalanche.level}`);
+  } else if (avalanche && avalanche.level >= GEAR_CONFIG.AVALANCHE_KIT_LEVEL && route.ates === 'complex') {
+    add('airbag', 'recommended', 'Złożony teren lawinowy');
+  }
+
+  add('skins', 'required', 'Podejście na nartach');
+
+  // Hard snow on the ascent
+  if (reportedGear.has('harszle')) {
+    add('ski_crampons', 'required', 'Harszle w ostatnich raportach z podejścia');
+  }
+  if (reportedIce) {
+    add('ski_crampons', 'required', 'Oblodzone podejście w raportach');
+  }
+  if (summit && summit.windSpeed >= GEAR_CONFIG.WIND_CRUST) {
+    add('ski_crampons', 'recommended', `Wiatr ${Math.round(summit.windSpeed)} km/h - przewiane, twarde stoki`);
+  }
+  if (summit && summit.freezingLevel > route.startPoint.altitude && summit.freezingLevel < route.summit.altitude) {
+    add('ski_crampons', 'recommended', `Granica zera na ${Math.round(summit.freezingLevel)} m - rano zmrożona skorupa`);
+  }
+  if (steep) {
+    add('ski_crampons', 'recommended', 'Strome podejście');
+  }
+
+  // Boot section on ice or rock
+  if (reportedGear.has('raki')) {
+    add('crampons', 'required', 'Raki w ostatnich raportach z podejścia');
+  }
+  if (reportedIce) {
+    add('crampons', 'recommended', 'Oblodzone podejście w raportach');
+  }
+  if (route.difficulty === 'expert') {
+    add('crampons', 'required', 'Trasa ekspercka z podejściem bez nart');
+    add('ice_axe', 'required', 'Trasa ekspercka z podejściem bez nart');
+  } else if (steep && alpine) {
+    add('crampons', 'recommended', `Teren wysokogórski (${route.summit.altitude} m)`);
+    add('ice_axe', 'recommended', `Teren wysokogórski (${route.summit.altitude} m)`);
+  }
+  if (reportedIce && steep) {
+    add('ice_axe', 'recommended', 'Oblodzenie w stromym terenie');
+  }
+
+  // Cold and wind on the summit
+  if (summit) {
+    if (summit.feelsLike <= GEAR_CONFIG.COLD_FEELS_LIKE_SEVERE || summit.windSpeed >= GEAR_CONFIG.COLD_WIND_SEVERE) {
+      add(
+        'extra_layers',
+        'required',
+        `Na szczycie odczuwalnie ${Math.round(summit.feelsLike)}°C, wiatr ${Math.round(summit.windSpeed)} km/h`
+      );
+    } else if (summit.feelsLike <= GEAR_CONFIG.COLD_FEELS_LIKE || summit.windSpeed >= GEAR_CONFIG.COLD_WIND) {
+      add(
+        'extra_layers',
+        'recommended',
+        `Na szczycie odczuwalnie ${Math.round(summit.feelsLike)}°C, wiatr ${Math.round(summit.windSpeed)} km/h`
+      );
+    }
+  }
+  if (route.duration >= GEAR_CONFIG.LONG_TOUR_HOURS) {
+    add('extra_layers', 'recommended', `Długa tura (${route.duration} h)`);
+  }
+
+  return [...items.values()].sort(
+    (a, b) =>
+      (a.priority === b.priority ? 0 : a.priority === 'required' ? -1 : 1) ||
+      ITEM_ORDER.indexOf(a.id) - ITEM_ORDER.indexOf(b.id)
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Tour Planning Exports
+ * @module planning
+ */
+
+export {
+  planTimeWindow,
+  describeTimeWindow,
+  formatHour,
+  PLANNER_CONFIG,
+  type TimeWindowInput,
+} from './timeWindow';
+export {
+  findNearestElevationWeather,
+  buildForecastWeather,
+  avalancheForDate,
+} from './forecastDays';
+export {
+  buildGearChecklist,
+  GEAR_CONFIG,
+  type GearChecklistInput,
+} from './gearChecklist';
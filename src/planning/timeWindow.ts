@@ -0,0 +1,267 @@
+/**
+ * Tour Time-Window Planner
+ *
+ * Computes start, turnaround and descent times for a route from the
+ * hourly forecast. Sun-exposed aspects must be skied before solar
+ * warming sets in; strong wind and low cloud are flagged.
+ *
+ * @module planning/timeWindow
+ */
+
+import type {
+  Route,
+  Aspect,
+  AvalancheReport,
+  HourlyForecastPoint,
+  TourWindow,
+  TourWindowFlag,
+} from '@/types';
+
+/**
+ * Planner thresholds
+ */
+export const PLANNER_CONFIG = {
+  /** Earliest sensible start (headlamp start) */
+  EARLIEST_START_HOUR: 5,
+  /** Start hour when nothing forces an earlier one */
+  DEFAULT_START_HOUR: 7,
+  /** Latest acceptable end of the descent */
+  LATEST_END_HOUR: 16,
+  /** Share of route duration spent ascending */
+  ASCENT_SHARE: 0.65,
+  /** Temperature lapse rate (°C per m) used to correct to summit altitude */
+  LAPSE_RATE: 0.0065,
+  /** Summit temperature at which sun-exposed slopes start to soften (°C) */
+  SOLAR_SOFTENING_TEMP: -2,
+  /** Cloud cover below which direct sun warms the slopes (%) */
+  SOLAR_CLOUD_MAX: 70,
+  /** Wind speed for caution / unsafe (km/h) */
+  WIND_CAUTION: 35,
+  WIND_UNSAFE: 50,
+  /** Gusts considered unsafe (km/h) */
+  GUST_UNSAFE: 70,
+  /** Cloud cover treated as poor visibility (%) */
+  LOW_VISIBILITY_CLOUD: 90,
+  /** Hours of margin between end of descent and warming onset */
+  WARMING_MARGIN_HOURS: 0.5,
+} as const;
+
+/**
+ * Local hour at which the sun hits each aspect hard enough to matter
+ * (mid-winter/spring, Polish mountains). Northern aspects only
+ * soften with a general thaw.
+ */
+const SOLAR_ONSET_HOUR: Partial<Record<Aspect, number>> = {
+  NE: 9,
+  E: 9,
+  SE: 10,
+  S: 11,
+  SW: 13,
+  W: 14,
+};
+
+/**
+ * Inputs to the planner
+ */
+export interface TimeWindowInput {
+  route: Route;
+  /** Hourly forecast near the route */
+  hourly: HourlyForecastPoint[];
+  /** Altitude the hourly temperature applies to (m) */
+  forecastAltitude?: number;
+  /** Current avalanche bulletin */
+  avalanche?: AvalancheReport;
+  /** Date to plan for (YYYY-MM-DD); defaults to today before 9:00, else tomorrow */
+  date?: string;
+}
+
+/**
+ * Format decimal hour as "HH:MM"
+ */
+export function formatHour(hour: number): string {
+  const clamped = Math.max(0, Math.min(23.99, hour));
+  const h = Math.floor(clamped);
+  const m = Math.round((clamped - h) * 60 / 15) * 15;
+  const total = h * 60 + m;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Local YYYY-MM-DD for a Date
+ */
+function toLocalDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Default planning day - today if it's still early, otherwise tomorrow
+ */
+function defaultPlanDate(now: Date = new Date()): string {
+  if (now.getHours() < 9) {
+    return toLocalDate(now);
+  }
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  return toLocalDate(tomorrow);
+}
+
+/**
+ * Hour-of-day from an Open-Meteo local time string
+ */
+function hourOf(time: string): number {
+  return parseInt(time.slice(11, 13), 10);
+}
+
+/**
+ * Find the hour at which the route's slopes start to soften
+ * Returns null when no warming is expected that day.
+ */
+function findWarmingOnset(
+  route: Route,
+  hours: HourlyForecastPoint[],
+  summitTemp: (point: HourlyForecastPoint) => number
+): { hour: number; aspect?: Aspect } | null {
+  let onset: { hour: number; aspect?: Aspect } | null = null;
+
+  for (const point of hours) {
+    const hour = hourOf(point.time);
+    const temp = summitTemp(point);
+
+    // General thaw - every aspect softens
+    if (temp > 0 && point.freezingLevel > route.summit.altitude) {
+      if (!onset || hour < onset.hour) onset = { hour };
+      break;
+    }
+
+    // Solar softening on sun-exposed aspects
+    if (temp >= PLANNER_CONFIG.SOLAR_SOFTENING_TEMP && point.cloudCover < PLANNER_CONFIG.SOLAR_CLOUD_MAX) {
+      for (const aspect of route.aspects) {
+        const aspectHour = SOLAR_ONSET_HOUR[aspect];
+        if (aspectHour !== undefined && hour >= aspectHour && (!onset || hour < onset.hour)) {
+          onset = { hour, aspect };
+        }
+      }
+    }
+  }
+
+  return onset;
+}
+
+/**
+ * Plan the tour window for a route
+ * Returns null when the forecast does not cover the requested date.
+ */
+export function planTimeWindow(input: TimeWindowInput): TourWindow | null {
+  const { route, hourly, avalanche } = input;
+  const date = input.date ?? defaultPlanDate();
+  const dayHours = hourly.filter((point) => point.time.startsWith(date));
+
+  if (dayHours.length === 0) {
+    return null;
+  }
+
+  const altitudeOffset = (input.forecastAltitude ?? route.summit.altitude) - route.summit.altitude;
+  const summitTemp = (point: HourlyForecastPoint) =>
+    point.temperature + altitudeOffset * PLANNER_CONFIG.LAPSE_RATE;
+
+  const ascentHours = route.duration * PLANNER_CONFIG.ASCENT_SHARE;
+  const descentHours = route.duration - ascentHours;
+  const flags: TourWindowFlag[] = [];
+
+  // Latest time the descent must be finished
+  const onset = findWarmingOnset(route, dayHours, summitTemp);
+  let latestEnd: number = PLANNER_CONFIG.LATEST_END_HOUR;
+  if (onset) {
+    latestEnd = Math.min(latestEnd, onset.hour - PLANNER_CONFIG.WARMING_MARGIN_HOURS);
+  }
+
+  // Start as late as comfortable, but early enough to finish before warming
+  let start: number = Math.min(PLANNER_CONFIG.DEFAULT_START_HOUR, latestEnd - route.duration);
+  if (avalanche && avalanche.level >= 3) {
+    start = Math.min(start, PLANNER_CONFIG.DEFAULT_START_HOUR - 1);
+  }
+
+  if (start < PLANNER_CONFIG.EARLIEST_START_HOUR) {
+    start = PLANNER_CONFIG.EARLIEST_START_HOUR;
+    flags.push({
+      type: 'short_window',
+      severity: 'unsafe',
+      message: `Za mało czasu przed ociepleniem (od ok. ${formatHour(onset?.hour ?? latestEnd)}) - wybierz krótszą trasę lub inny dzień`,
+    });
+  }
+
+  const turnaround = start + ascentHours;
+  const end = turnaround + descentHours;
+
+  if (onset) {
+    const sunAspect = onset.aspect ? ` na ekspozycji ${onset.aspect}` : '';
+    const message = `Ocieplenie${sunAspect} od ok. ${formatHour(onset.hour)} - zjazd przed ${formatHour(latestEnd)}`;
+    const wetSnowProblem = avalanche?.problems.some((p) => p.toLowerCase().includes('mokry'));
+    flags.push({
+      type: 'solar_warming',
+      severity: wetSnowProblem && end > onset.hour ? 'unsafe' : 'caution',
+      message,
+    });
+  }
+
+  // Wind and visibility while on the route
+  const tourHours = dayHours.filter((point) => {
+    const hour = hourOf(point.time);
+    return hour >= Math.floor(start) && hour <= Math.ceil(end);
+  });
+
+  const maxWind = Math.max(0, ...tourHours.map((p) => p.windSpeed));
+  const maxGust = Math.max(0, ...tourHours.map((p) => p.windGusts));
+  if (maxWind >= PLANNER_CONFIG.WIND_UNSAFE || maxGust >= PLANNER_CONFIG.GUST_UNSAFE) {
+    flags.push({
+      type: 'wind',
+      severity: 'unsafe',
+      message: `Silny wiatr w trakcie wyjścia: ${maxWind} km/h, porywy ${maxGust} km/h`,
+    });
+  } else if (maxWind >= PLANNER_CONFIG.WIND_CAUTION) {
+    flags.push({
+      type: 'wind',
+      severity: 'caution',
+      message: `Wiatr do ${maxWind} km/h na grani`,
+    });
+  }
+
+  const summitHours = tourHours.filter((point) => {
+    const hour = hourOf(point.time);
+    return hour >= Math.floor(turnaround) - 1 && hour <= Math.ceil(turnaround);
+  });
+  if (summitHours.some((p) => p.cloudCover >= PLANNER_CONFIG.LOW_VISIBILITY_CLOUD)) {
+    flags.push({
+      type: 'visibility',
+      severity: 'caution',
+      message: 'Pełne zachmurzenie w okolicy szczytu - ograniczona widoczność',
+    });
+  }
+
+  return {
+    date,
+    start: formatHour(start),
+    turnaround: formatHour(turnaround),
+    descentWindow: {
+      from: formatHour(turnaround),
+      to: formatHour(Math.max(end, latestEnd)),
+    },
+    flags,
+    safe: !flags.some((f) => f.severity === 'unsafe'),
+  };
+}
+
+/**
+ * One-line Polish summary of a tour window
+ */
+export function describeTimeWindow(window: TourWindow): string {
+  const base = `Start ${window.start}, zawrót ${window.turnaround}, zjazd ${window.descentWindow.from}-${window.descentWindow.to}`;
+  const unsafe = window.flags.find((f) => f.severity === 'unsafe');
+  if (unsafe) {
+    return `${base} - ${unsafe.message}`;
+  }
+  return base;
+}
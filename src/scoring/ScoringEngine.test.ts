@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest';
+import type { AvalancheReport, Route, WeatherData } from '@/types';
+import { ScoringEngine } from './ScoringEngine';
+import { DEFAULT_RULES } from './rules';
+import { DEFAULT_WEIGHTS, resolveWeights } from './weights';
+import { makeAvalanche, makeRoute, makeWeather } from './testFixtures';
+
+/**
+ * Scores as the orchestrator computed them before the rule engine,
+ * kept as the reference the engine has to reproduce
+ */
+function baselineScores(route: Route, weather?: WeatherData, avalanche?: AvalancheReport) {
+  let weatherScore = 50;
+  if (weather) {
+    if (weather.condition === 'clear') weatherScore += 25;
+    else if (weather.condition === 'partly_cloudy') weatherScore += 15;
+    else if (weather.condition === 'cloudy') weatherScore += 5;
+    else if (weather.condition === 'snow') weatherScore -= 5;
+    else if (weather.condition === 'heavy_snow') weatherScore -= 20;
+    else if (weather.condition === 'fog') weatherScore -= 25;
+    else if (weather.condition === 'rain') weatherScore -= 30;
+
+    const altitudeFactor = Math.min(1.5, route.summit.altitude / 1500);
+    if (weather.windSpeed < 10) weatherScore += 15;
+    else if (weather.windSpeed < 20) weatherScore += 10;
+    else if (weather.windSpeed < 30) weatherScore -= 5 * altitudeFactor;
+    else if (weather.windSpeed < 40) weatherScore -= 15 * altitudeFactor;
+    else weatherScore -= 25 * altitudeFactor;
+
+    if (weather.visibility >= 15) weatherScore += 10;
+    else if (weather.visibility >= 10) weatherScore += 5;
+    else if (weather.visibility < 5) weatherScore -= 10;
+
+    if (weather.temperature >= -10 && weather.temperature <= 0) weatherScore += 5;
+    else if (weather.temperature < -15) weatherScore -= 10;
+    else if (weather.temperature > 5) weatherScore -= 10;
+
+    if (weather.freezingLevel < route.summit.altitude) weatherScore += 5;
+    else if (weather.freezingLevel > route.summit.altitude + 200) weatherScore -= 10;
+  }
+
+  let avalancheScore = 70;
+  if (avalanche) {
+    avalancheScore = Math.max(0, 100 - (avalanche.level - 1) * 20);
+    if (route.aspects.some((aspect) => avalanche.problemAspects.includes(aspect))) avalancheScore -= 15;
+    if (route.summit.altitude >= avalanche.altitudeRange.from && route.summit.altitude <= avalanche.altitudeRange.to) {
+      avalancheScore -= 10;
+    }
+    if (route.difficulty === 'expert') avalancheScore -= 10;
+    else if (route.difficulty === 'difficult') avalancheScore -= 5;
+  }
+
+  let snowScore = 50;
+  if (weather) {
+    const northFacing = route.aspects.some((a) => ['N', 'NE', 'NW'].includes(a));
+    const southFacing = route.aspects.some((a) => ['S', 'SE', 'SW'].includes(a));
+    snowScore = northFacing ? 65 : southFacing ? 55 : 60;
+
+    if (weather.freshSnow24h > 0 && weather.freshSnow24h < 15) snowScore += 20;
+    else if (weather.freshSnow24h >= 15 && weather.freshSnow24h < 30) snowScore += 10;
+    else if (weather.freshSnow24h >= 30) snowScore += 5;
+
+    if (weather.snowBase >= 100) snowScore += 10;
+    else if (weather.snowBase >= 50) snowScore += 5;
+    else if (weather.snowBase < 30) snowScore -= 15;
+
+    if (weather.temperature < -5) snowScore += 5;
+    else if (weather.temperature > 3) {
+      if (northFacing) snowScore -= 10;
+      else if (southFacing) snowScore += 5;
+    }
+
+    if (route.summit.altitude > 1500) snowScore += 5;
+    else if (route.summit.altitude < 1000) snowScore -= 5;
+  }
+
+  const clamp = (value: number) => Math.max(0, Math.min(100, value));
+  return {
+    weather: clamp(weatherScore),
+    avalanche: clamp(avalancheScore),
+    snowConditions: clamp(snowScore),
+  };
+}
+
+/** Rules that existed before the engine (ATES, model spread and snowpack came later) */
+const BASELINE_RULE_IDS = [
+  'weather.condition',
+  'weather.wind',
+  'weather.visibility',
+  'weather.temperature',
+  'weather.freezingLevel',
+  'avalanche.level',
+  'avalanche.aspect',
+  'avalanche.altitude',
+  'avalanche.steepness',
+  'snow.aspect',
+  'snow.fresh',
+  'snow.base',
+  'snow.temperature',
+  'snow.altitude',
+];
+
+const baselineEngine = () => new ScoringEngine(DEFAULT_RULES.filter((rule) => BASELINE_RULE_IDS.includes(rule.id)));
+
+const tatraRoute = makeRoute({
+  region: 'Tatry',
+  summit: { lat: 49.23, lng: 19.98, altitude: 2000 },
+  aspects: ['N'],
+  difficulty: 'moderate',
+});
+
+// Partly cloudy, 25 km/h, 4 km visibility: wind -6.67, visibility -10
+const tatraWeather = makeWeather({
+  condition: 'partly_cloudy',
+  windSpeed: 25,
+  visibility: 4,
+  temperature: -8,
+  freezingLevel: 1500,
+  freshSnow24h: 0,
+  snowBase: 60,
+});
+
+const tatraBulletin = makeAvalanche({ level: 2, problemAspects: ['N'], altitudeRange: { from: 1500, to: 2500 } });
+
+describe('ScoringEngine', () => {
+  const scenarios: Array<{ name: string; route: Route; weather?: WeatherData; avalanche?: AvalancheReport }> = [
+    { name: 'calm powder day', route: makeRoute({ aspects: ['NE'] }), weather: makeWeather({ condition: 'clear', windSpeed: 5, visibility: 20, freshSnow24h: 10, snowBase: 120 }) },
+    { name: 'storm in the Tatras', route: tatraRoute, weather: makeWeather({ condition: 'heavy_snow', windSpeed: 55, visibility: 3, freshSnow24h: 35, temperature: -18 }), avalanche: makeAvalanche({ level: 4, problemAspects: ['N'] }) },
+    { name: 'warm spring south face', route: makeRoute({ aspects: ['S'], difficulty: 'difficult', summit: { lat: 49.5, lng: 19.5, altitude: 900 } }), weather: makeWeather({ condition: 'rain', windSpeed: 32, temperature: 7, freezingLevel: 2500, snowBase: 20 }), avalanche: makeAvalanche({ level: 3, altitudeRange: { from: 800, to: 1000 } }) },
+    { name: 'no bulletin', route: makeRoute(), weather: makeWeather() },
+    { name: 'no weather', route: tatraRoute, avalanche: tatraBulletin },
+  ];
+
+  it.each(scenarios)('matches the baseline scores with neutral weights: $name', ({ route, weather, avalanche }) => {
+    const baseline = baselineScores(route, weather, avalanche);
+    const { overall, breakdown } = baselineEngine().scoreRoute(route, { weather, avalanche }, DEFAULT_WEIGHTS);
+
+    expect(breakdown.weather.score).toBe(Math.round(baseline.weather));
+    expect(breakdown.avalanche.score).toBe(Math.round(baseline.avalanche));
+    expect(breakdown.snowConditions.score).toBe(Math.round(baseline.snowConditions));
+    expect(overall).toBe(Math.round((baseline.weather + baseline.avalanche + baseline.snowConditions) / 3));
+  });
+
+  it('keeps neutral weights for regions without adjustments', () => {
+    expect(resolveWeights('Beskidy', 'balanced')).toEqual(DEFAULT_WEIGHTS);
+    expect(resolveWeights('Pieniny')).toEqual(DEFAULT_WEIGHTS);
+  });
+
+  it('multiplies region and profile weights', () => {
+    expect(resolveWeights('Tatry', 'balanced')).toEqual({
+      categories: { weather: 1, avalanche: 1.5, snowConditions: 1 },
+      rules: { 'weather.wind': 1.25 },
+    });
+    expect(resolveWeights('Tatry', 'safety')).toEqual({
+      categories: { weather: 1, avalanche: 3, snowConditions: 0.75 },
+      rules: { 'weather.wind': 1.25, 'avalanche.aspect': 1.5, 'avalanche.windSlab': 1.5, 'weather.visibility': 1.5 },
+    });
+    expect(resolveWeights('Karkonosze', 'safety').rules['weather.visibility']).toBeCloseTo(1.875);
+    expect(resolveWeights('Karkonosze', 'powder')).toEqual({
+      categories: { weather: 0.75, avalanche: 1, snowConditions: 2 },
+      rules: { 'weather.wind': 1.25, 'weather.visibility': 1.25, 'snow.fresh': 1.5 },
+    });
+  });
+
+  it('weighs the Tatra baseline by region', () => {
+    const baseline = baselineScores(tatraRoute, tatraWeather, tatraBulletin);
+    const { overall, breakdown } = baselineEngine().scoreRoute(
+      tatraRoute,
+      { weather: tatraWeather, avalanche: tatraBulletin },
+      resolveWeights('Tatry', 'balanced')
+    );
+
+    // Wind counts 1.25 times, avalanche 1.5 times
+    const weather = baseline.weather + 0.25 * (-5 * 2000 / 1500);
+    expect(breakdown.weather.score).toBe(Math.round(weather));
+    expect(breakdown.avalanche.weight).toBeCloseTo(1.5 / 3.5);
+    expect(overall).toBe(Math.round((weather + 1.5 * baseline.avalanche + baseline.snowConditions) / 3.5));
+  });
+
+  it('weighs the Tatra baseline by region and safety profile', () => {
+    const baseline = baselineScores(tatraRoute, tatraWeather, tatraBulletin);
+    const { overall, breakdown } = baselineEngine().scoreRoute(
+      tatraRoute,
+      { weather: tatraWeather, avalanche: tatraBulletin },
+      resolveWeights('Tatry', 'safety')
+    );
+
+    const weather = baseline.weather + 0.25 * (-5 * 2000 / 1500) + 0.5 * -10;
+    const avalanche = baseline.avalanche + 0.5 * -15;
+    expect(breakdown.weather.score).toBe(Math.round(weather));
+    expect(breakdown.avalanche.score).toBe(Math.round(avalanche));
+    expect(breakdown.snowConditions.score).toBe(baseline.snowConditions);
+    expect(overall).toBe(Math.round((weather + 3 * avalanche + 0.75 * baseline.snowConditions) / 4.75));
+  });
+
+  it('weighs the Karkonosze baseline by region and powder profile', () => {
+    const route = makeRoute({ region: 'Karkonosze', summit: { lat: 50.74, lng: 15.74, altitude: 1500 }, aspects: ['E'] });
+    // 35 km/h at factor 1: -15; 3 km visibility: -10; 10 cm fresh: +20
+    const weather = makeWeather({ condition: 'snow', windSpeed: 35, visibility: 3, freshSnow24h: 10, snowBase: 40 });
+    const baseline = baselineScores(route, weather);
+    const { overall, breakdown } = baselineEngine().scoreRoute(route, { weather }, resolveWeights('Karkonosze', 'powder'));
+
+    const weatherScore = baseline.weather + 0.25 * -15 + 0.25 * -10;
+    const snowScore = baseline.snowConditions + 0.5 * 20;
+    expect(breakdown.weather.score).toBe(Math.round(weatherScore));
+    expect(breakdown.avalanche.score).toBe(70);
+    expect(breakdown.snowConditions.score).toBe(snowScore);
+    expect(overall).toBe(Math.round((0.75 * weatherScore + baseline.avalanche + 2 * snowScore) / 3.75));
+  });
+
+  it('adds the newer rules on top of the baseline', () => {
+    const route = { ...tatraRoute, ates: 'complex' as const };
+    const avalanche = makeAvalanche({ level: 3 });
+    const baseline = baselineScores(route, tatraWeather, avalanche);
+    const { breakdown } = new ScoringEngine().scoreRoute(route, { weather: tatraWeather, avalanche }, DEFAULT_WEIGHTS);
+
+    // ATES no-go at level 3 in complex terrain
+    expect(breakdown.avalanche.score).toBe(baseline.avalanche - 40);
+    expect(breakdown.avalanche.contributions.map((c) => c.ruleId)).toContain('avalanche.ates');
+  });
+});
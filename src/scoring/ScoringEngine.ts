@@ -0,0 +1,153 @@
+/**
+ * Scoring Engine
+ *
+ * Scores a route against current conditions by running a set of named
+ * rules per category and combining categories with configurable weights.
+ *
+ * @module scoring/ScoringEngine
+ */
+
+import type { Route, ScoreCategory, CategoryScore, RuleContribution } from '@/types';
+import type { ScoringRule, ScoringContext, ScoringConditions, ScoringWeights } from './types';
+import { DEFAULT_RULES } from './rules';
+import { DEFAULT_WEIGHTS } from './weights';
+
+/**
+ * Result of scoring a single route
+ */
+export interface RouteScore {
+  /** Weighted overall score (0-100) */
+  overall: number;
+  /** Per-category scores with fired rules */
+  breakdown: Record<ScoreCategory, CategoryScore>;
+}
+
+const CATEGORIES: ScoreCategory[] = ['weather', 'avalanche', 'snowConditions'];
+
+/**
+ * Starting score per category before rules are applied
+ */
+const CATEGORY_BASE: Record<ScoreCategory, (context: ScoringContext) => number> = {
+  weather: () => 50,
+  // Assume moderate when there is no report at all (no bulletin and no estimate)
+  avalanche: ({ avalanche }) => (avalanche ? 100 : 70),
+  snowConditions: () => 50,
+};
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+/**
+ * Rule-based route scoring engine
+ *
+ * @example
+ * ```typescript
+ * const engine = new ScoringEngine();
+ * const { overall, breakdown } = engine.scoreRoute(
+ *   route,
+ *   { weather, avalanche },
+ *   resolveWeights(route.region, 'safety')
+ * );
+ * ```
+ */
+export class ScoringEngine {
+  private rules: ScoringRule[];
+
+  constructor(rules: ScoringRule[] = DEFAULT_RULES) {
+    this.rules = [...rules];
+  }
+
+  /**
+   * Register an additional rule (replaces a rule with the same id)
+   */
+  register(rule: ScoringRule): void {
+    this.rules = [...this.rules.filter((r) => r.id !== rule.id), rule];
+  }
+
+  /**
+   * Remove a rule by id
+   */
+  unregister(ruleId: string): void {
+    this.rules = this.rules.filter((r) => r.id !== ruleId);
+  }
+
+  /**
+   * Get registered rules
+   */
+  getRules(): readonly ScoringRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Score a route against the given conditions
+   */
+  scoreRoute(
+    route: Route,
+    conditions: ScoringConditions,
+    weights: ScoringWeights = DEFAULT_WEIGHTS
+  ): RouteScore {
+    const context: ScoringContext = { ...conditions, route };
+
+    const totalWeight = CATEGORIES.reduce(
+      (sum, category) => sum + Math.max(0, weights.categories[category]),
+      0
+    );
+
+    const rawScores = {} as Record<ScoreCategory, number>;
+    const breakdown = {} as Record<ScoreCategory, CategoryScore>;
+
+    for (const category of CATEGORIES) {
+      const base = CATEGORY_BASE[category](context);
+      const contributions = this.evaluateCategory(category, context, weights);
+      const raw = clampScore(
+        contributions.reduce((sum, c) => sum + c.points, base)
+      );
+
+      rawScores[category] = raw;
+      breakdown[category] = {
+        score: Math.round(raw),
+        base,
+        contributions: contributions.map((c) => ({
+          ...c,
+          points: Math.round(c.points),
+        })),
+        weight: totalWeight > 0
+          ? Math.max(0, weights.categories[category]) / totalWeight
+          : 1 / CATEGORIES.length,
+      };
+    }
+
+    const overall = Math.round(
+      CATEGORIES.reduce((sum, category) => sum + rawScores[category] * breakdown[category].weight, 0)
+    );
+
+    return { overall, breakdown };
+  }
+
+  /**
+   * Run every rule of a category and collect the ones that fired
+   */
+  private evaluateCategory(
+    category: ScoreCategory,
+    context: ScoringContext,
+    weights: ScoringWeights
+  ): RuleContribution[] {
+    const contributions: RuleContribution[] = [];
+
+    for (const rule of this.rules) {
+      if (rule.category !== category) continue;
+
+      const outcome = rule.evaluate(context);
+      if (!outcome || outcome.points === 0) continue;
+
+      contributions.push({
+        ruleId: rule.id,
+        label: outcome.label ?? rule.label,
+        points: outcome.points * (weights.rules[rule.id] ?? 1),
+      });
+    }
+
+    return contributions;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * ATES Decision Matrix
+ *
+ * Combines the bulletin danger level with the route's Avalanche Terrain
+ * Exposure Scale class, following the Avaluator trip-planning chart:
+ * normal caution → go, extra caution → careful, not recommended → no-go.
+ *
+ * @module scoring/ates
+ */
+
+import type { AtesClass, AtesDecision, AvalancheLevel, RouteDifficulty } from '@/types';
+
+/**
+ * Decision per danger level (1-5) and ATES class
+ */
+export const ATES_DECISION_MATRIX: Record<AvalancheLevel, Record<AtesClass, AtesDecision>> = {
+  1: { simple: 'go', challenging: 'go', complex: 'careful' },
+  2: { simple: 'go', challenging: 'careful', complex: 'careful' },
+  3: { simple: 'careful', challenging: 'careful', complex: 'no-go' },
+  4: { simple: 'careful', challenging: 'no-go', complex: 'no-go' },
+  5: { simple: 'no-go', challenging: 'no-go', complex: 'no-go' },
+};
+
+/** ATES class names (Polish) */
+export const ATES_LABELS: Record<AtesClass, string> = {
+  simple: 'Prosty',
+  challenging: 'Wymagający',
+  complex: 'Złożony',
+};
+
+/** Decision names (Polish) */
+export const ATES_DECISION_LABELS: Record<AtesDecision, string> = {
+  go: 'Normalna ostrożność',
+  careful: 'Zwiększona ostrożność',
+  'no-go': 'Niezalecane',
+};
+
+/**
+ * Look up the decision for a danger level and terrain class
+ */
+export function atesDecision(level: AvalancheLevel, ates: AtesClass): AtesDecision {
+  return ATES_DECISION_MATRIX[level][ates];
+}
+
+/**
+ * Default ATES class for a route without one (imported tracks)
+ * Difficulty is only a rough proxy; users should correct it.
+ */
+export function suggestAtesClass(difficulty: RouteDifficulty): AtesClass {
+  switch (difficulty) {
+    case 'easy':
+      return 'simple';
+    case 'moderate':
+      return 'challenging';
+    default:
+      return 'complex';
+  }
+}
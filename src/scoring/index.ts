@@ -0,0 +1,41 @@
+/**
+ * Scoring System Exports
+ *
+ * Rule-based route scoring with region and profile weights.
+ *
+ * @module scoring
+ */
+
+export { ScoringEngine, type RouteScore } from './ScoringEngine';
+export {
+  DEFAULT_WEIGHTS,
+  REGION_WEIGHTS,
+  SCORING_PROFILES,
+  DEFAULT_SCORING_PROFILE,
+  isScoringProfileId,
+  resolveWeights,
+} from './weights';
+export { DEFAULT_RULES } from './rules';
+export {
+  ATES_DECISION_MATRIX,
+  ATES_LABELS,
+  ATES_DECISION_LABELS,
+  atesDecision,
+  suggestAtesClass,
+} from './ates';
+export {
+  MUNTER_DANGER_POTENTIAL,
+  DEFAULT_MUNTER_GROUP,
+  calculateMunter,
+  munterGroupFactor,
+  formatMunter,
+} from './munter';
+export type {
+  ScoringRule,
+  RuleOutcome,
+  ScoringContext,
+  ScoringConditions,
+  ScoringWeights,
+  ScoringProfile,
+  ScoringProfileId,
+} from './types';
@@ -0,0 +1,154 @@
+/**
+ * Munter Reduction Method
+ *
+ * Residual risk = danger potential / (steepness × aspect × group factors).
+ * A residual risk of 1 or less is considered acceptable.
+ *
+ * The aspect factor uses the bulletin's problem aspects and altitude band;
+ * steepness comes from the DEM profile when available, otherwise it is
+ * estimated from the route difficulty.
+ *
+ * @module scoring/munter
+ */
+
+import type {
+  Aspect,
+  AvalancheLevel,
+  AvalancheReport,
+  MunterFactor,
+  MunterGroup,
+  MunterResult,
+  Route,
+  TerrainProfile,
+} from '@/types';
+
+/** Danger potential per bulletin level (doubles with each level) */
+export const MUNTER_DANGER_POTENTIAL: Record<AvalancheLevel, number> = {
+  1: 2,
+  2: 4,
+  3: 8,
+  4: 16,
+  5: 32,
+};
+
+/** Default party: small group without spacing */
+export const DEFAULT_MUNTER_GROUP: MunterGroup = {
+  size: 4,
+  spacing: false,
+};
+
+/** NW-N-NE */
+const NORTH_SECTOR: Aspect[] = ['NW', 'N', 'NE'];
+
+/** WNW-N-ESE, rounded outwards to the 8-point rose */
+const NORTHERN_HALF: Aspect[] = ['W', 'NW', 'N', 'NE', 'E'];
+
+/**
+ * First class: steepest slope on the route
+ */
+function steepnessFactor(route: Route, terrain?: TerrainProfile): MunterFactor {
+  if (terrain) {
+    const { maxSlope } = terrain;
+    if (maxSlope < 30) return { type: 'steepness', value: 6, label: `Najbardziej stromy odcinek ${maxSlope}° (< 30°)` };
+    if (maxSlope < 35) return { type: 'steepness', value: 4, label: `Najbardziej stromy odcinek ${maxSlope}° (30-34°)` };
+    if (maxSlope < 40) return { type: 'steepness', value: 2, label: `Najbardziej stromy odcinek ${maxSlope}° (35-39°)` };
+    return { type: 'steepness', value: 1, label: `Najbardziej stromy odcinek ${maxSlope}° (≥ 40°)` };
+  }
+
+  // Without a DEM the difficulty grade stands in, one class more conservative
+  switch (route.difficulty) {
+    case 'easy':
+      return { type: 'steepness', value: 4, label: 'Szacunkowo poniżej 35°', estimated: true };
+    case 'moderate':
+      return { type: 'steepness', value: 2, label: 'Szacunkowo poniżej 40°', estimated: true };
+    default:
+      return { type: 'steepness', value: 1, label: 'Szacunkowo 40° i więcej', estimated: true };
+  }
+}
+
+/**
+ * Second class: aspects and altitudes avoided (only the best one counts)
+ */
+function aspectFactor(
+  route: Route,
+  avalanche: AvalancheReport,
+  terrain?: TerrainProfile
+): MunterFactor {
+  // Aspect reductions are not valid at high danger
+  if (avalanche.level >= 4) {
+    return { type: 'aspect', value: 1, label: `Brak redukcji przy stopniu ${avalanche.level}` };
+  }
+
+  const aspects = terrain ? terrain.steepAspects : route.aspects;
+  const { from, to } = avalanche.altitudeRange;
+  const outsideBand = route.summit.altitude < from || route.startPoint.altitude > to;
+  const inProblemAspect = aspects.some((aspect) => avalanche.problemAspects.includes(aspect));
+
+  if (outsideBand || !inProblemAspect) {
+    return { type: 'aspect', value: 4, label: 'Omija krytyczne ekspozycje i wysokości z komunikatu' };
+  }
+  if (!aspects.some((aspect) => NORTHERN_HALF.includes(aspect))) {
+    return { type: 'aspect', value: 3, label: 'Omija północną połowę róży (W-N-E)' };
+  }
+  if (!aspects.some((aspect) => NORTH_SECTOR.includes(aspect))) {
+    return { type: 'aspect', value: 2, label: 'Omija sektor północny (NW-N-NE)' };
+  }
+  const critical = aspects.filter((aspect) => avalanche.problemAspects.includes(aspect));
+  return { type: 'aspect', value: 1, label: `Krytyczne ekspozycje: ${critical.join(', ')}` };
+}
+
+/**
+ * Third class: group size and spacing
+ */
+export function munterGroupFactor(group: MunterGroup): MunterFactor {
+  if (group.size <= 4) {
+    return group.spacing
+      ? { type: 'group', value: 3, label: `Mała grupa (${group.size}) z odstępami` }
+      : { type: 'group', value: 2, label: `Mała grupa (${group.size})` };
+  }
+  return group.spacing
+    ? { type: 'group', value: 2, label: `Duża grupa (${group.size}) z odstępami` }
+    : { type: 'group', value: 1, label: `Duża grupa (${group.size}) bez odstępów` };
+}
+
+/**
+ * Compute the residual risk for a route
+ *
+ * @example
+ * ```typescript
+ * const result = calculateMunter({ route, avalanche, group: { size: 3, spacing: true } });
+ * result.residualRisk; // 8 / (2 × 4 × 3) = 0.33
+ * ```
+ */
+export function calculateMunter(input: {
+  route: Route;
+  avalanche: AvalancheReport;
+  terrain?: TerrainProfile;
+  group?: MunterGroup;
+}): MunterResult {
+  const { route, avalanche, terrain, group = DEFAULT_MUNTER_GROUP } = input;
+  const dangerPotential = MUNTER_DANGER_POTENTIAL[avalanche.level];
+  const factors = [
+    steepnessFactor(route, terrain),
+    aspectFactor(route, avalanche, terrain),
+    munterGroupFactor(group),
+  ];
+  const reduction = factors.reduce((product, factor) => product * factor.value, 1);
+  const residualRisk = Math.round((dangerPotential / reduction) * 100) / 100;
+
+  return {
+    dangerPotential,
+    factors,
+    reduction,
+    residualRisk,
+    acceptable: residualRisk <= 1,
+  };
+}
+
+/**
+ * Formula as text, e.g. "8 / (2 × 4 × 3) = 0.33"
+ */
+export function formatMunter(result: MunterResult): string {
+  const factors = result.factors.map((factor) => factor.value).join(' × ');
+  return `${result.dangerPotential} / (${factors}) = ${result.residualRisk}`;
+}
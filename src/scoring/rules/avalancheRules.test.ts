@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { AvalancheLevel } from '@/types';
+import {
+  altitudeBandRule,
+  atesRule,
+  dangerLevelRule,
+  problemAspectRule,
+  steepnessRule,
+  windSlabRule,
+} from './avalancheRules';
+import { makeAvalanche, makeContext, makeRoute, makeSnowpack, makeTerrain } from '../testFixtures';
+import type { ScoringContext, ScoringRule } from '../types';
+
+function points(rule: ScoringRule, context: Partial<ScoringContext>): number | null {
+  return rule.evaluate(makeContext(context))?.points ?? null;
+}
+
+describe('avalanche rules', () => {
+  it('skip without a report, except wind slab', () => {
+    for (const rule of [dangerLevelRule, problemAspectRule, altitudeBandRule, steepnessRule, atesRule]) {
+      expect(rule.evaluate(makeContext())).toBeNull();
+    }
+  });
+
+  it('deduct 20 points per danger level above 1', () => {
+    const levels: AvalancheLevel[] = [1, 2, 3, 4, 5];
+    expect(levels.map((level) => points(dangerLevelRule, { avalanche: makeAvalanche({ level }) }))).toEqual([
+      null, -20, -40, -60, -80,
+    ]);
+  });
+
+  it('match route aspects against problem aspects', () => {
+    const avalanche = makeAvalanche({ problemAspects: ['N', 'NE'] });
+    expect(points(problemAspectRule, { avalanche, route: makeRoute({ aspects: ['S'] }) })).toBeNull();
+    expect(points(problemAspectRule, { avalanche, route: makeRoute({ aspects: ['S', 'NE'] }) })).toBe(-15);
+  });
+
+  it('use only steep aspects when the route has a terrain profile', () => {
+    const avalanche = makeAvalanche({ problemAspects: ['N'] });
+    const route = makeRoute({ aspects: ['N'] });
+    expect(points(problemAspectRule, { avalanche, route, terrain: makeTerrain({ steepAspects: ['E'] }) })).toBeNull();
+    expect(points(problemAspectRule, { avalanche, route, terrain: makeTerrain({ steepAspects: ['N'] }) })).toBe(-15);
+  });
+
+  it('deduct when the summit is inside the altitude band, edges included', () => {
+    const avalanche = makeAvalanche({ altitudeRange: { from: 1200, to: 1800 } });
+    const summitAt = (altitude: number) => makeRoute({ summit: { lat: 49.55, lng: 19.55, altitude } });
+    expect(points(altitudeBandRule, { avalanche, route: summitAt(1199) })).toBeNull();
+    expect(points(altitudeBandRule, { avalanche, route: summitAt(1200) })).toBe(-10);
+    expect(points(altitudeBandRule, { avalanche, route: summitAt(1800) })).toBe(-10);
+    expect(points(altitudeBandRule, { avalanche, route: summitAt(1801) })).toBeNull();
+  });
+
+  it('score steepness from the terrain profile', () => {
+    const avalanche = makeAvalanche();
+    const steep = (l30: number, l35: number, l40: number) =>
+      points(steepnessRule, { avalanche, terrain: makeTerrain({ steepLength: { 30: l30, 35: l35, 40: l40 } }) });
+    expect(steep(0, 0, 0)).toBeNull();
+    expect(steep(50, 0, 0)).toBe(-5);
+    expect(steep(50, 20, 0)).toBe(-10);
+    expect(steep(50, 20, 5)).toBe(-15);
+  });
+
+  it('fall back to difficulty for steepness without a profile', () => {
+    const avalanche = makeAvalanche();
+    expect(points(steepnessRule, { avalanche, route: makeRoute({ difficulty: 'easy' }) })).toBeNull();
+    expect(points(steepnessRule, { avalanche, route: makeRoute({ difficulty: 'moderate' }) })).toBeNull();
+    expect(points(steepnessRule, { avalanche, route: makeRoute({ difficulty: 'difficult' }) })).toBe(-5);
+    expect(points(steepnessRule, { avalanche, route: makeRoute({ difficulty: 'expert' }) })).toBe(-10);
+  });
+
+  it('apply the ATES decision matrix', () => {
+    const ates = (level: AvalancheLevel, cls: 'simple' | 'challenging' | 'complex') =>
+      points(atesRule, { avalanche: makeAvalanche({ level }), route: makeRoute({ ates: cls }) });
+    expect(ates(1, 'challenging')).toBeNull();
+    expect(ates(1, 'complex')).toBe(-15);
+    expect(ates(2, 'challenging')).toBe(-15);
+    expect(ates(3, 'simple')).toBe(-15);
+    expect(ates(3, 'complex')).toBe(-40);
+    expect(ates(4, 'challenging')).toBe(-40);
+    expect(ates(5, 'simple')).toBe(-40);
+  });
+
+  it('deduct for wind slab on the route aspects, with or without a report', () => {
+    const snowpack = makeSnowpack([
+      { type: 'wind_slab', label: 'Deski', aspects: ['NE', 'E'], since: '2024-02-09T12:00:00Z' },
+    ]);
+    expect(points(windSlabRule, { snowpack, route: makeRoute({ aspects: ['S'] }) })).toBeNull();
+    expect(points(windSlabRule, { snowpack, route: makeRoute({ aspects: ['E'] }) })).toBe(-15);
+    expect(points(windSlabRule, { snowpack, avalanche: makeAvalanche(), route: makeRoute({ aspects: ['E'] }) })).toBe(-15);
+    expect(points(windSlabRule, {
+      snowpack,
+      route: makeRoute({ aspects: ['E'] }),
+      terrain: makeTerrain({ steepAspects: ['S'] }),
+    })).toBeNull();
+    expect(points(windSlabRule, { snowpack: makeSnowpack([]) })).toBeNull();
+  });
+});
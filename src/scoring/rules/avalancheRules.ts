@@ -0,0 +1,136 @@
+/**
+ * Avalanche Scoring Rules
+ *
+ * Rules contributing to the avalanche/safety category.
+ * Base is 100 with a report (bulletin or Beskidy estimate), 70 without one.
+ *
+ * @module scoring/rules/avalancheRules
+ */
+
+import type { ScoringRule } from '../types';
+import { atesDecision, ATES_LABELS } from '../ates';
+
+/**
+ * Danger level - each level above 1 costs 20 points
+ */
+export const dangerLevelRule: ScoringRule = {
+  id: 'avalanche.level',
+  category: 'avalanche',
+  label: 'Stopień zagrożenia',
+  evaluate: ({ avalanche }) => {
+    if (!avalanche || avalanche.level <= 1) return null;
+    return {
+      points: -(avalanche.level - 1) * 20,
+      label: `Stopień zagrożenia ${avalanche.level}`,
+    };
+  },
+};
+
+/**
+ * Route aspects overlap the bulletin's problem aspects
+ * With a DEM profile only aspects of slopes >= 30° count; otherwise
+ * the hand-entered route aspects are used.
+ */
+export const problemAspectRule: ScoringRule = {
+  id: 'avalanche.aspect',
+  category: 'avalanche',
+  label: 'Problematyczne ekspozycje',
+  evaluate: ({ avalanche, route, terrain }) => {
+    if (!avalanche) return null;
+    const aspects = terrain ? terrain.steepAspects : route.aspects;
+    const matching = aspects.filter((aspect) =>
+      avalanche.problemAspects.includes(aspect)
+    );
+    if (matching.length === 0) return null;
+    const prefix = terrain ? 'Stoki >30° na problematycznych ekspozycjach' : 'Problematyczne ekspozycje';
+    return { points: -15, label: `${prefix}: ${matching.join(', ')}` };
+  },
+};
+
+/**
+ * Summit lies within the bulletin's danger altitude band
+ */
+export const altitudeBandRule: ScoringRule = {
+  id: 'avalanche.altitude',
+  category: 'avalanche',
+  label: 'Szczyt w strefie zagrożenia',
+  evaluate: ({ avalanche, route }) => {
+    if (!avalanche) return null;
+    const { from, to } = avalanche.altitudeRange;
+    if (route.summit.altitude < from || route.summit.altitude > to) return null;
+    return { points: -10 };
+  },
+};
+
+/**
+ * Slope exposure along the route
+ * Uses the DEM profile when available, otherwise difficulty as a proxy.
+ */
+export const steepnessRule: ScoringRule = {
+  id: 'avalanche.steepness',
+  category: 'avalanche',
+  label: 'Stromy teren',
+  evaluate: ({ avalanche, route, terrain }) => {
+    if (!avalanche) return null;
+
+    if (terrain) {
+      const { steepLength } = terrain;
+      if (steepLength[40] > 0) return { points: -15, label: `Teren >40° (${steepLength[40]} m)` };
+      if (steepLength[35] > 0) return { points: -10, label: `Teren >35° (${steepLength[35]} m)` };
+      if (steepLength[30] > 0) return { points: -5, label: `Teren >30° (${steepLength[30]} m)` };
+      return null;
+    }
+
+    if (route.difficulty === 'expert') return { points: -10, label: 'Bardzo stromy teren' };
+    if (route.difficulty === 'difficult') return { points: -5 };
+    return null;
+  },
+};
+
+/**
+ * Danger level × ATES class decision matrix
+ */
+export const atesRule: ScoringRule = {
+  id: 'avalanche.ates',
+  category: 'avalanche',
+  label: 'Teren lawinowy (ATES)',
+  evaluate: ({ avalanche, route }) => {
+    if (!avalanche) return null;
+    const decision = atesDecision(avalanche.level, route.ates);
+    const terrain = ATES_LABELS[route.ates].toLowerCase();
+    if (decision === 'no-go') {
+      return { points: -40, label: `Teren ${terrain} przy stopniu ${avalanche.level} - niezalecane` };
+    }
+    if (decision === 'careful') {
+      return { points: -15, label: `Teren ${terrain} przy stopniu ${avalanche.level} - zwiększona ostrożność` };
+    }
+    return null;
+  },
+};
+
+/**
+ * Wind slab from the snowpack history on the route's aspects
+ * Applies with or without a bulletin - Beskidy and days between bulletins.
+ */
+export const windSlabRule: ScoringRule = {
+  id: 'avalanche.windSlab',
+  category: 'avalanche',
+  label: 'Deski śnieżne',
+  evaluate: ({ snowpack, route, terrain }) => {
+    const slab = snowpack?.indicators.find((indicator) => indicator.type === 'wind_slab');
+    if (!slab?.aspects) return null;
+    const aspects = terrain ? terrain.steepAspects : route.aspects;
+    const matching = aspects.filter((aspect) => slab.aspects!.includes(aspect));
+    if (matching.length === 0) return null;
+    return { points: -15, label: `Prawdopodobne deski śnieżne: ${matching.join(', ')}` };
+  },
+};
+
+export const AVALANCHE_RULES: ScoringRule[] = [
+  dangerLevelRule,
+  problemAspectRule,
+  altitudeBandRule,
+  steepnessRule,
+  atesRule,
+  windSlabRule,
+];
@@ -0,0 +1,22 @@
+/**
+ * Scoring Rules Exports
+ * @module scoring/rules
+ */
+
+import type { ScoringRule } from '../types';
+import { WEATHER_RULES } from './weatherRules';
+import { AVALANCHE_RULES } from './avalancheRules';
+import { SNOW_RULES } from './snowRules';
+
+export * from './weatherRules';
+export * from './avalancheRules';
+export * from './snowRules';
+
+/**
+ * Default rule set used by the scoring engine
+ */
+export const DEFAULT_RULES: ScoringRule[] = [
+  ...WEATHER_RULES,
+  ...AVALANCHE_RULES,
+  ...SNOW_RULES,
+];
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import type { Aspect, SnowpackIndicatorType, WeatherData } from '@/types';
+import {
+  altitudeRule,
+  aspectRule,
+  freshSnowRule,
+  snowBaseRule,
+  snowSurfaceRule,
+  snowTemperatureRule,
+} from './snowRules';
+import { makeContext, makeRoute, makeSnowpack, makeWeather } from '../testFixtures';
+import type { ScoringRule } from '../types';
+
+function points(
+  rule: ScoringRule,
+  weather: Partial<WeatherData>,
+  route: { aspects?: Aspect[]; altitude?: number } = {}
+): number | null {
+  const context = makeContext({
+    route: makeRoute({
+      aspects: route.aspects ?? ['E'],
+      summit: { lat: 49.55, lng: 19.55, altitude: route.altitude ?? 1200 },
+    }),
+    weather: makeWeather(weather),
+  });
+  return rule.evaluate(context)?.points ?? null;
+}
+
+function surface(types: SnowpackIndicatorType[], aspects: Aspect[] = ['E']): number | null {
+  const snowpack = makeSnowpack(types.map((type) => ({ type, label: type, since: '2024-02-09T12:00:00Z' })));
+  return snowSurfaceRule.evaluate(makeContext({ route: makeRoute({ aspects }), snowpack }))?.points ?? null;
+}
+
+describe('snow rules', () => {
+  it('skip without weather or snowpack', () => {
+    for (const rule of [aspectRule, freshSnowRule, snowBaseRule, snowTemperatureRule, altitudeRule, snowSurfaceRule]) {
+      expect(rule.evaluate(makeContext())).toBeNull();
+    }
+  });
+
+  it('favour north aspects', () => {
+    expect(points(aspectRule, {}, { aspects: ['NW'] })).toBe(15);
+    expect(points(aspectRule, {}, { aspects: ['N', 'S'] })).toBe(15);
+    expect(points(aspectRule, {}, { aspects: ['SE'] })).toBe(5);
+    expect(points(aspectRule, {}, { aspects: ['W'] })).toBe(10);
+  });
+
+  it('score fresh snow at each threshold', () => {
+    expect(points(freshSnowRule, { freshSnow24h: 0 })).toBeNull();
+    expect(points(freshSnowRule, { freshSnow24h: 1 })).toBe(20);
+    expect(points(freshSnowRule, { freshSnow24h: 14 })).toBe(20);
+    expect(points(freshSnowRule, { freshSnow24h: 15 })).toBe(10);
+    expect(points(freshSnowRule, { freshSnow24h: 29 })).toBe(10);
+    expect(points(freshSnowRule, { freshSnow24h: 30 })).toBe(5);
+  });
+
+  it('score the snow base at each threshold', () => {
+    expect(points(snowBaseRule, { snowBase: 100 })).toBe(10);
+    expect(points(snowBaseRule, { snowBase: 99 })).toBe(5);
+    expect(points(snowBaseRule, { snowBase: 50 })).toBe(5);
+    expect(points(snowBaseRule, { snowBase: 49 })).toBeNull();
+    expect(points(snowBaseRule, { snowBase: 30 })).toBeNull();
+    expect(points(snowBaseRule, { snowBase: 29 })).toBe(-15);
+  });
+
+  it('score temperature by aspect', () => {
+    expect(points(snowTemperatureRule, { temperature: -5.1 })).toBe(5);
+    expect(points(snowTemperatureRule, { temperature: -5 })).toBeNull();
+    expect(points(snowTemperatureRule, { temperature: 3 }, { aspects: ['N'] })).toBeNull();
+    expect(points(snowTemperatureRule, { temperature: 3.1 }, { aspects: ['N'] })).toBe(-10);
+    expect(points(snowTemperatureRule, { temperature: 3.1 }, { aspects: ['S'] })).toBe(5);
+    expect(points(snowTemperatureRule, { temperature: 3.1 }, { aspects: ['E'] })).toBeNull();
+  });
+
+  it('score summit altitude at each threshold', () => {
+    expect(points(altitudeRule, {}, { altitude: 1501 })).toBe(5);
+    expect(points(altitudeRule, {}, { altitude: 1500 })).toBeNull();
+    expect(points(altitudeRule, {}, { altitude: 1000 })).toBeNull();
+    expect(points(altitudeRule, {}, { altitude: 999 })).toBe(-5);
+  });
+
+  it('score the surface from the snowpack history, worst first', () => {
+    expect(surface([])).toBeNull();
+    expect(surface(['wind_slab'])).toBeNull();
+    expect(surface(['fresh_powder'])).toBe(5);
+    expect(surface(['powder_aging'])).toBe(-5);
+    expect(surface(['melt_freeze_crust'])).toBe(-10);
+    expect(surface(['melt_freeze_crust'], ['S', 'SW'])).toBe(5);
+    expect(surface(['melt_freeze_crust'], ['S', 'N'])).toBe(-10);
+    expect(surface(['fresh_powder', 'rain_crust'])).toBe(-20);
+    expect(surface(['fresh_powder', 'melt_freeze_crust'])).toBe(-10);
+  });
+});
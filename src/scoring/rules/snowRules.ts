@@ -0,0 +1,148 @@
+/**
+ * Snow Conditions Scoring Rules
+ *
+ * Route-specific snow quality based on aspect, altitude, current weather
+ * and the multi-day snowpack history (base 50).
+ *
+ * @module scoring/rules/snowRules
+ */
+
+import type { Route, SnowpackIndicatorType } from '@/types';
+import type { ScoringRule } from '../types';
+
+function isNorthFacing(route: Route): boolean {
+  return route.aspects.some((a) => ['N', 'NE', 'NW'].includes(a));
+}
+
+function isSouthFacing(route: Route): boolean {
+  return route.aspects.some((a) => ['S', 'SE', 'SW'].includes(a));
+}
+
+/**
+ * Aspect - north-facing holds snow better
+ */
+export const aspectRule: ScoringRule = {
+  id: 'snow.aspect',
+  category: 'snowConditions',
+  label: 'Ekspozycja',
+  evaluate: ({ weather, route }) => {
+    if (!weather) return null;
+    if (isNorthFacing(route)) return { points: 15, label: 'Północna ekspozycja trzyma śnieg' };
+    if (isSouthFacing(route)) return { points: 5, label: 'Południowa ekspozycja - zmienne warunki' };
+    return { points: 10, label: 'Wschodnia/zachodnia ekspozycja' };
+  },
+};
+
+/**
+ * Fresh snow is great (but not too much)
+ */
+export const freshSnowRule: ScoringRule = {
+  id: 'snow.fresh',
+  category: 'snowConditions',
+  label: 'Świeży śnieg',
+  evaluate: ({ weather }) => {
+    if (!weather || weather.freshSnow24h <= 0) return null;
+    const label = `Świeży śnieg ${weather.freshSnow24h} cm`;
+
+    if (weather.freshSnow24h < 15) return { points: 20, label };
+    if (weather.freshSnow24h < 30) return { points: 10, label }; // Settling needed
+    return { points: 5, label }; // Lots of snow - avalanche concern
+  },
+};
+
+/**
+ * Snow base depth
+ */
+export const snowBaseRule: ScoringRule = {
+  id: 'snow.base',
+  category: 'snowConditions',
+  label: 'Pokrywa śnieżna',
+  evaluate: ({ weather }) => {
+    if (!weather) return null;
+    const label = `Pokrywa ${weather.snowBase} cm`;
+
+    if (weather.snowBase >= 100) return { points: 10, label };
+    if (weather.snowBase >= 50) return { points: 5, label };
+    if (weather.snowBase < 30) return { points: -15, label: 'Za mało śniegu' };
+    return null;
+  },
+};
+
+/**
+ * Temperature affects snow quality - warm is bad for north, corn potential on south
+ */
+export const snowTemperatureRule: ScoringRule = {
+  id: 'snow.temperature',
+  category: 'snowConditions',
+  label: 'Temperatura a jakość śniegu',
+  evaluate: ({ weather, route }) => {
+    if (!weather) return null;
+
+    if (weather.temperature < -5) {
+      return { points: 5, label: 'Mróz konserwuje śnieg' };
+    }
+    if (weather.temperature > 3) {
+      if (isNorthFacing(route)) return { points: -10, label: 'Ciepło - mokry śnieg' };
+      if (isSouthFacing(route)) return { points: 5, label: 'Szansa na firn' };
+    }
+    return null;
+  },
+};
+
+/**
+ * Higher altitude = generally better snow
+ */
+export const altitudeRule: ScoringRule = {
+  id: 'snow.altitude',
+  category: 'snowConditions',
+  label: 'Wysokość',
+  evaluate: ({ weather, route }) => {
+    if (!weather) return null;
+    if (route.summit.altitude > 1500) return { points: 5, label: 'Wysoko położona trasa' };
+    if (route.summit.altitude < 1000) return { points: -5, label: 'Nisko położona trasa' };
+    return null;
+  },
+};
+
+/**
+ * Surface from the multi-day snowpack history: crusts after refreeze,
+ * powder kept cold or aging since the last snowfall
+ */
+export const snowSurfaceRule: ScoringRule = {
+  id: 'snow.surface',
+  category: 'snowConditions',
+  label: 'Powierzchnia śniegu',
+  evaluate: ({ snowpack, route }) => {
+    if (!snowpack) return null;
+    const find = (type: SnowpackIndicatorType) => snowpack.indicators.find((indicator) => indicator.type === type);
+
+    const rainCrust = find('rain_crust');
+    if (rainCrust) return { points: -20, label: rainCrust.label };
+
+    const crust = find('melt_freeze_crust');
+    if (crust) {
+      // South aspects soften into corn by late morning
+      if (isSouthFacing(route) && !isNorthFacing(route)) {
+        return { points: 5, label: 'Cykle odwilż-mróz - szansa na firn' };
+      }
+      return { points: -10, label: crust.label };
+    }
+
+    const powder = find('fresh_powder');
+    if (powder) return { points: 5, label: powder.label };
+
+    const aging = find('powder_aging');
+    if (aging) return { points: -5, label: aging.label };
+
+    return null;
+  },
+};
+
+export const SNOW_RULES: ScoringRule[] = [
+  aspectRule,
+  freshSnowRule,
+  snowBaseRule,
+  snowTemperatureRule,
+  altitudeRule,
+  snowSurfaceRule,
+];
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { EnsembleDay, WeatherData } from '@/types';
+import {
+  conditionRule,
+  forecastSpreadRule,
+  freezingLevelRule,
+  temperatureRule,
+  visibilityRule,
+  windRule,
+} from './weatherRules';
+import { makeContext, makeRoute, makeWeather } from '../testFixtures';
+import type { ScoringRule } from '../types';
+
+function points(rule: ScoringRule, weather: Partial<WeatherData>, summitAltitude = 1200): number | null {
+  const route = makeRoute({ summit: { lat: 49.55, lng: 19.55, altitude: summitAltitude } });
+  return rule.evaluate(makeContext({ route, weather: makeWeather(weather) }))?.points ?? null;
+}
+
+describe('weather rules', () => {
+  it('skip without weather', () => {
+    for (const rule of [conditionRule, windRule, visibilityRule, temperatureRule, freezingLevelRule, forecastSpreadRule]) {
+      expect(rule.evaluate(makeContext())).toBeNull();
+    }
+  });
+
+  it('score each sky condition', () => {
+    expect(points(conditionRule, { condition: 'clear' })).toBe(25);
+    expect(points(conditionRule, { condition: 'partly_cloudy' })).toBe(15);
+    expect(points(conditionRule, { condition: 'cloudy' })).toBe(5);
+    expect(points(conditionRule, { condition: 'snow' })).toBe(-5);
+    expect(points(conditionRule, { condition: 'heavy_snow' })).toBe(-20);
+    expect(points(conditionRule, { condition: 'fog' })).toBe(-25);
+    expect(points(conditionRule, { condition: 'rain' })).toBe(-30);
+  });
+
+  it('score wind at each threshold', () => {
+    expect(points(windRule, { windSpeed: 9 })).toBe(15);
+    expect(points(windRule, { windSpeed: 10 })).toBe(10);
+    expect(points(windRule, { windSpeed: 19 })).toBe(10);
+    // 1200 m summit: factor 0.8
+    expect(points(windRule, { windSpeed: 20 })).toBeCloseTo(-4);
+    expect(points(windRule, { windSpeed: 30 })).toBeCloseTo(-12);
+    expect(points(windRule, { windSpeed: 40 })).toBeCloseTo(-20);
+  });
+
+  it('caps the wind altitude factor at 1.5', () => {
+    expect(points(windRule, { windSpeed: 40 }, 2250)).toBeCloseTo(-37.5);
+    expect(points(windRule, { windSpeed: 40 }, 2655)).toBeCloseTo(-37.5);
+  });
+
+  it('score visibility at each threshold', () => {
+    expect(points(visibilityRule, { visibility: 15 })).toBe(10);
+    expect(points(visibilityRule, { visibility: 14.9 })).toBe(5);
+    expect(points(visibilityRule, { visibility: 10 })).toBe(5);
+    expect(points(visibilityRule, { visibility: 9.9 })).toBeNull();
+    expect(points(visibilityRule, { visibility: 5 })).toBeNull();
+    expect(points(visibilityRule, { visibility: 4.9 })).toBe(-10);
+    expect(points(visibilityRule, { visibility: 2 })).toBe(-10);
+  });
+
+  it('gives fog-level visibility below 2 km the larger deduction', () => {
+    // Checked before < 5 km; the baseline order never reached it
+    expect(points(visibilityRule, { visibility: 1.9 })).toBe(-20);
+    expect(points(visibilityRule, { visibility: 0.2 })).toBe(-20);
+  });
+
+  it('score temperature at each threshold', () => {
+    expect(points(temperatureRule, { temperature: -10 })).toBe(5);
+    expect(points(temperatureRule, { temperature: 0 })).toBe(5);
+    expect(points(temperatureRule, { temperature: -15 })).toBeNull();
+    expect(points(temperatureRule, { temperature: -15.1 })).toBe(-10);
+    expect(points(temperatureRule, { temperature: 5 })).toBeNull();
+    expect(points(temperatureRule, { temperature: 5.1 })).toBe(-10);
+  });
+
+  it('score the freezing level against the summit', () => {
+    expect(points(freezingLevelRule, { freezingLevel: 1199 })).toBe(5);
+    expect(points(freezingLevelRule, { freezingLevel: 1200 })).toBeNull();
+    expect(points(freezingLevelRule, { freezingLevel: 1400 })).toBeNull();
+    expect(points(freezingLevelRule, { freezingLevel: 1401 })).toBe(-10);
+  });
+
+  it('score forecast model agreement', () => {
+    const ensemble = (confidence: EnsembleDay['confidence']): EnsembleDay => {
+      const stat = { mean: 0, min: 0, max: 0, spread: 0 };
+      return {
+        date: '2024-02-10',
+        models: ['icon', 'gfs', 'ecmwf'],
+        snowfall: stat,
+        windSpeed: stat,
+        freezingLevel: stat,
+        confidence,
+      };
+    };
+
+    expect(points(forecastSpreadRule, {})).toBeNull();
+    expect(points(forecastSpreadRule, { ensemble: ensemble('low') })).toBe(-10);
+    expect(points(forecastSpreadRule, { ensemble: ensemble('medium') })).toBe(-5);
+    expect(points(forecastSpreadRule, { ensemble: ensemble('high') })).toBe(5);
+  });
+});
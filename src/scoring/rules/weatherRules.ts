@@ -0,0 +1,158 @@
+/**
+ * Weather Scoring Rules
+ *
+ * Rules contributing to the weather category (0-100, base 50).
+ *
+ * @module scoring/rules/weatherRules
+ */
+
+import type { WeatherCondition } from '@/types';
+import type { ScoringRule } from '../types';
+
+/** Points per weather condition */
+const CONDITION_POINTS: Partial<Record<WeatherCondition, number>> = {
+  clear: 25,
+  partly_cloudy: 15,
+  cloudy: 5,
+  snow: -5, // Light snow can be ok
+  heavy_snow: -20,
+  fog: -25,
+  rain: -30,
+};
+
+const CONDITION_LABELS: Partial<Record<WeatherCondition, string>> = {
+  clear: 'Bezchmurnie',
+  partly_cloudy: 'Częściowe zachmurzenie',
+  cloudy: 'Pochmurno',
+  snow: 'Opady śniegu',
+  heavy_snow: 'Intensywne opady śniegu',
+  fog: 'Mgła',
+  rain: 'Deszcz',
+};
+
+/**
+ * Sky/precipitation condition
+ */
+export const conditionRule: ScoringRule = {
+  id: 'weather.condition',
+  category: 'weather',
+  label: 'Warunki pogodowe',
+  evaluate: ({ weather }) => {
+    if (!weather) return null;
+    const points = CONDITION_POINTS[weather.condition];
+    if (points === undefined) return null;
+    return { points, label: CONDITION_LABELS[weather.condition] };
+  },
+};
+
+/**
+ * Wind - more impactful at higher altitudes
+ */
+export const windRule: ScoringRule = {
+  id: 'weather.wind',
+  category: 'weather',
+  label: 'Wiatr',
+  evaluate: ({ weather, route }) => {
+    if (!weather) return null;
+    const altitudeFactor = Math.min(1.5, route.summit.altitude / 1500);
+    const label = `Wiatr ${weather.windSpeed} km/h`;
+
+    if (weather.windSpeed < 10) return { points: 15, label };
+    if (weather.windSpeed < 20) return { points: 10, label };
+    if (weather.windSpeed < 30) return { points: -5 * altitudeFactor, label };
+    if (weather.windSpeed < 40) return { points: -15 * altitudeFactor, label };
+    return { points: -25 * altitudeFactor, label };
+  },
+};
+
+/**
+ * Visibility
+ */
+export const visibilityRule: ScoringRule = {
+  id: 'weather.visibility',
+  category: 'weather',
+  label: 'Widoczność',
+  evaluate: ({ weather }) => {
+    if (!weather) return null;
+    const label = `Widoczność ${weather.visibility} km`;
+
+    if (weather.visibility >= 15) return { points: 10, label };
+    if (weather.visibility >= 10) return { points: 5, label };
+    if (weather.visibility < 2) return { points: -20, label };
+    if (weather.visibility < 5) return { points: -10, label };
+    return null;
+  },
+};
+
+/**
+ * Temperature comfort - very cold (<-15°C) or warm (>5°C) is less ideal
+ */
+export const temperatureRule: ScoringRule = {
+  id: 'weather.temperature',
+  category: 'weather',
+  label: 'Temperatura',
+  evaluate: ({ weather }) => {
+    if (!weather) return null;
+
+    if (weather.temperature >= -10 && weather.temperature <= 0) {
+      return { points: 5, label: 'Idealna temperatura' };
+    }
+    if (weather.temperature < -15) {
+      return { points: -10, label: 'Bardzo zimno' };
+    }
+    if (weather.temperature > 5) {
+      return { points: -10, label: 'Ciepło - mokry śnieg' };
+    }
+    return null;
+  },
+};
+
+/**
+ * Freezing level vs route altitude (affects snow quality)
+ */
+export const freezingLevelRule: ScoringRule = {
+  id: 'weather.freezingLevel',
+  category: 'weather',
+  label: 'Poziom 0°C',
+  evaluate: ({ weather, route }) => {
+    if (!weather) return null;
+
+    if (weather.freezingLevel < route.summit.altitude) {
+      return { points: 5, label: 'Szczyt poniżej 0°C' };
+    }
+    if (weather.freezingLevel > route.summit.altitude + 200) {
+      return { points: -10, label: 'Odwilż na szczycie' };
+    }
+    return null;
+  },
+};
+
+/**
+ * Model agreement - a good score means less when the models disagree
+ */
+export const forecastSpreadRule: ScoringRule = {
+  id: 'weather.forecastSpread',
+  category: 'weather',
+  label: 'Zgodność modeli',
+  evaluate: ({ weather }) => {
+    const ensemble = weather?.ensemble;
+    if (!ensemble) return null;
+
+    if (ensemble.confidence === 'low') {
+      return { points: -10, label: `Duża rozbieżność ${ensemble.models.length} modeli pogodowych` };
+    }
+    if (ensemble.confidence === 'medium') {
+      return { points: -5, label: 'Umiarkowana rozbieżność modeli pogodowych' };
+    }
+    return { points: 5, label: `${ensemble.models.length} modele pogodowe zgodne` };
+  },
+};
+
+export const WEATHER_RULES: ScoringRule[] = [
+  conditionRule,
+  windRule,
+  visibilityRule,
+  temperatureRule,
+  freezingLevelRule,
+  forecastSpreadRule,
+];
@@ -0,0 +1,100 @@
+/**
+ * Scoring Test Fixtures
+ *
+ * Neutral route, weather, bulletin, terrain and snowpack for the scoring tests;
+ * each test overrides only the fields it is about.
+ *
+ * @module scoring/testFixtures
+ */
+
+import type {
+  AvalancheReport,
+  Route,
+  SnowpackHistory,
+  SnowpackIndicator,
+  TerrainProfile,
+  WeatherData,
+} from '@/types';
+import type { ScoringContext } from './types';
+
+export function makeRoute(overrides: Partial<Route> = {}): Route {
+  return {
+    id: 'test-route',
+    name: 'Test',
+    region: 'Beskidy',
+    startPoint: { lat: 49.5, lng: 19.5, altitude: 800 },
+    summit: { lat: 49.55, lng: 19.55, altitude: 1200 },
+    elevation: 400,
+    distance: 6,
+    difficulty: 'moderate',
+    ates: 'simple',
+    aspects: ['E'],
+    duration: 3,
+    ...overrides,
+  };
+}
+
+export function makeWeather(overrides: Partial<WeatherData> = {}): WeatherData {
+  return {
+    temperature: -3,
+    feelsLike: -6,
+    condition: 'cloudy',
+    windSpeed: 15,
+    windDirection: 'W',
+    humidity: 80,
+    visibility: 7,
+    freshSnow24h: 0,
+    snowBase: 40,
+    freezingLevel: 1300,
+    timestamp: '2024-02-10T08:00:00Z',
+    source: 'test',
+    ...overrides,
+  };
+}
+
+export function makeAvalanche(overrides: Partial<AvalancheReport> = {}): AvalancheReport {
+  return {
+    level: 2,
+    trend: 'stable',
+    problemAspects: [],
+    altitudeRange: { from: 1500, to: 2500 },
+    problems: [],
+    validUntil: '2024-02-10T20:00:00Z',
+    source: 'test',
+    ...overrides,
+  };
+}
+
+export function makeTerrain(overrides: Partial<TerrainProfile> = {}): TerrainProfile {
+  return {
+    samples: 100,
+    maxSlope: 25,
+    steepLength: { 30: 0, 35: 0, 40: 0 },
+    steepAspects: [],
+    segments: [],
+    source: 'test',
+    ...overrides,
+  };
+}
+
+export function makeSnowpack(indicators: SnowpackIndicator[]): SnowpackHistory {
+  return {
+    name: 'Test',
+    latitude: 49.5,
+    longitude: 19.5,
+    days: 7,
+    snowfallTotal: 0,
+    snowfall72h: 0,
+    snowDepth: 40,
+    maxWind: 0,
+    maxWindDirection: 0,
+    meltFreezeCycles: 0,
+    rainEvents: 0,
+    indicators,
+    updatedAt: '2024-02-10T08:00:00Z',
+  };
+}
+
+export function makeContext(overrides: Partial<ScoringContext> = {}): ScoringContext {
+  return { route: makeRoute(), ...overrides };
+}
@@ -0,0 +1,90 @@
+/**
+ * Scoring Types
+ *
+ * Contracts shared by the scoring engine, its rules and weight presets.
+ *
+ * @module scoring/types
+ */
+
+import type {
+  Route,
+  WeatherData,
+  AvalancheReport,
+  ScoreCategory,
+  TerrainProfile,
+  SnowpackHistory,
+} from '@/types';
+
+/**
+ * Conditions a route is scored against
+ */
+export interface ScoringConditions {
+  /** Current weather (undefined when the weather fetch failed) */
+  weather?: WeatherData;
+  /** Avalanche bulletin (undefined when no service covers the region) */
+  avalanche?: AvalancheReport;
+  /** DEM slope profile of the route being scored (undefined without a tile) */
+  terrain?: TerrainProfile;
+  /** Multi-day snowpack history nearest to the route (current conditions only) */
+  snowpack?: SnowpackHistory;
+}
+
+/**
+ * Everything a rule may inspect
+ */
+export interface ScoringContext extends ScoringConditions {
+  route: Route;
+}
+
+/**
+ * Result of a rule that fired
+ */
+export interface RuleOutcome {
+  /** Points to add (negative to deduct) before weighting */
+  points: number;
+  /** Optional explanation overriding the rule label */
+  label?: string;
+}
+
+/**
+ * A named, individually testable scoring rule
+ *
+ * Rules are pure functions of the context. Returning null means the
+ * rule does not apply and it will not appear in the breakdown.
+ */
+export interface ScoringRule {
+  /** Unique identifier, prefixed with the category (e.g. "weather.wind") */
+  id: string;
+  /** Category the points are added to */
+  category: ScoreCategory;
+  /** Default explanation shown in the breakdown (Polish) */
+  label: string;
+  /** Evaluate the rule */
+  evaluate: (context: ScoringContext) => RuleOutcome | null;
+}
+
+/**
+ * Weights used to combine rules and categories
+ */
+export interface ScoringWeights {
+  /** Relative weight of each category in the overall score */
+  categories: Record<ScoreCategory, number>;
+  /** Multipliers applied to individual rule points, keyed by rule id */
+  rules: Record<string, number>;
+}
+
+/** Built-in user scoring profiles */
+export type ScoringProfileId = 'balanced' | 'safety' | 'powder';
+
+/**
+ * User scoring profile preset
+ */
+export interface ScoringProfile {
+  id: ScoringProfileId;
+  /** Display name (Polish) */
+  label: string;
+  /** Short description (Polish) */
+  description: string;
+  /** Weight adjustments relative to the neutral weights */
+  weights: Partial<ScoringWeights>;
+}
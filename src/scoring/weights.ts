@@ -0,0 +1,110 @@
+/**
+ * Scoring Weights
+ *
+ * Neutral weights plus per-region and per-profile adjustments.
+ * Region and profile weights are multiplied together.
+ *
+ * @module scoring/weights
+ */
+
+import type { ScoreCategory } from '@/types';
+import type { ScoringWeights, ScoringProfile, ScoringProfileId } from './types';
+
+/**
+ * Neutral weights - equal categories, rules at face value
+ */
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  categories: {
+    weather: 1,
+    avalanche: 1,
+    snowConditions: 1,
+  },
+  rules: {},
+};
+
+/**
+ * Region-specific adjustments
+ * Tatry has alpine avalanche terrain, so safety weighs more there.
+ */
+export const REGION_WEIGHTS: Record<string, Partial<ScoringWeights>> = {
+  'Tatry': {
+    categories: { weather: 1, avalanche: 1.5, snowConditions: 1 },
+    rules: { 'weather.wind': 1.25 },
+  },
+  'Karkonosze': {
+    rules: { 'weather.wind': 1.25, 'weather.visibility': 1.25 },
+  },
+};
+
+/**
+ * User scoring profiles
+ */
+export const SCORING_PROFILES: Record<ScoringProfileId, ScoringProfile> = {
+  balanced: {
+    id: 'balanced',
+    label: 'Zrównoważony',
+    description: 'Pogoda, bezpieczeństwo i śnieg mają równą wagę',
+    weights: {},
+  },
+  safety: {
+    id: 'safety',
+    label: 'Bezpieczeństwo',
+    description: 'Większa waga zagrożenia lawinowego i widoczności',
+    weights: {
+      categories: { weather: 1, avalanche: 2, snowConditions: 0.75 },
+      rules: { 'avalanche.aspect': 1.5, 'avalanche.windSlab': 1.5, 'weather.visibility': 1.5 },
+    },
+  },
+  powder: {
+    id: 'powder',
+    label: 'Puch',
+    description: 'Większa waga jakości śniegu i świeżych opadów',
+    weights: {
+      categories: { weather: 0.75, avalanche: 1, snowConditions: 2 },
+      rules: { 'snow.fresh': 1.5 },
+    },
+  },
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfileId = 'balanced';
+
+/**
+ * Check if a value is a known scoring profile id
+ */
+export function isScoringProfileId(value: unknown): value is ScoringProfileId {
+  return typeof value === 'string' && value in SCORING_PROFILES;
+}
+
+/**
+ * Multiply two partial weight sets on top of the neutral weights
+ */
+function combineWeights(...layers: Partial<ScoringWeights>[]): ScoringWeights {
+  const categories = { ...DEFAULT_WEIGHTS.categories };
+  const rules: Record<string, number> = { ...DEFAULT_WEIGHTS.rules };
+
+  for (const layer of layers) {
+    if (layer.categories) {
+      for (const key of Object.keys(layer.categories) as ScoreCategory[]) {
+        categories[key] *= layer.categories[key];
+      }
+    }
+    if (layer.rules) {
+      for (const [ruleId, multiplier] of Object.entries(layer.rules)) {
+        rules[ruleId] = (rules[ruleId] ?? 1) * multiplier;
+      }
+    }
+  }
+
+  return { categories, rules };
+}
+
+/**
+ * Resolve effective weights for a route region and user profile
+ */
+export function resolveWeights(
+  region: string,
+  profileId: ScoringProfileId = DEFAULT_SCORING_PROFILE
+): ScoringWeights {
+  const profile = SCORING_PROFILES[profileId] ?? SCORING_PROFILES[DEFAULT_SCORING_PROFILE];
+  return combineWeights(REGION_WEIGHTS[region] ?? {}, profile.weights);
+}
@@ -0,0 +1,144 @@
+/**
+ * Agent Response Cache
+ *
+ * Persists successful agent results in IndexedDB so they survive reloads.
+ * BaseAgent keeps an in-memory copy on top and decides freshness.
+ */
+
+const DB_NAME = 'skitour-agent-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+/** Entries older than this are removed on first access (ms) */
+const MAX_ENTRY_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export interface CachedResponse<T = unknown> {
+  /** Agent id + serialized input */
+  key: string;
+  agentId: string;
+  data: T;
+  /** When the data was fetched (epoch ms) */
+  storedAt: number;
+}
+
+let pruned = false;
+
+/**
+ * Open IndexedDB for the agent cache
+ */
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('agentId', 'agentId', { unique: false });
+        store.createIndex('storedAt', 'storedAt', { unique: false });
+      }
+    };
+  });
+}
+
+/**
+ * Remove entries older than MAX_ENTRY_AGE (once per session)
+ */
+async function pruneExpired(db: IDBDatabase): Promise<void> {
+  if (pruned) return;
+  pruned = true;
+
+  const cutoff = Date.now() - MAX_ENTRY_AGE;
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const request = tx.objectStore(STORE_NAME).index('storedAt').openCursor(IDBKeyRange.upperBound(cutoff));
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    request.onerror = () => reject(request.error);
+    tx.oncomplete = () => resolve();
+  });
+}
+
+/**
+ * Get a cached response
+ */
+export async function getCachedResponse<T>(key: string): Promise<CachedResponse<T> | null> {
+  const db = await openDB();
+  await pruneExpired(db);
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const store = tx.objectStore(STORE_NAME);
+    const request = store.get(key);
+
+    request.onsuccess = () => resolve((request.result as CachedResponse<T>) ?? null);
+    request.onerror = () => reject(request.error);
+
+    tx.oncomplete = () => db.close();
+  });
+}
+
+/**
+ * Store a response (replaces an older one with the same key)
+ */
+export async function setCachedResponse<T>(entry: CachedResponse<T>): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const request = store.put(entry);
+
+    request.onerror = () => reject(request.error);
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+  });
+}
+
+/**
+ * Clear cached responses of one agent, or all of them
+ */
+export async function clearAgentCache(agentId?: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+
+    if (agentId) {
+      const request = store.index('agentId').openCursor(IDBKeyRange.only(agentId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      request.onerror = () => reject(request.error);
+    } else {
+      const request = store.clear();
+      request.onerror = () => reject(request.error);
+    }
+
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Avalanche Bulletin Archive Service
+ *
+ * Reads past bulletins stored by the topr-archive edge function
+ * (avalanche_bulletins table, publicly readable).
+ */
+
+import { isSupabaseConfigured, supabase, type AvalancheBulletinRow } from '@/lib/supabase';
+import type { Aspect, AvalancheLevel, BulletinHistoryEntry, BulletinProvider } from '@/types';
+
+/** First day of the avalanche season (month is 0-based) */
+const SEASON_START = { month: 10, day: 1 }; // 1 November
+
+/**
+ * First day of the season containing the date (YYYY-MM-DD)
+ */
+export function seasonStart(date: Date = new Date()): string {
+  const year = date.getMonth() >= SEASON_START.month ? date.getFullYear() : date.getFullYear() - 1;
+  const month = String(SEASON_START.month + 1).padStart(2, '0');
+  const day = String(SEASON_START.day).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function toEntry(row: AvalancheBulletinRow): BulletinHistoryEntry {
+  return {
+    provider: row.provider,
+    date: row.bulletin_date,
+    level: Math.min(5, Math.max(1, row.level)) as AvalancheLevel,
+    trend: row.trend ?? undefined,
+    problemAspects: row.problem_aspects as Aspect[],
+    problems: row.problems,
+    issuedAt: row.issued_at ?? undefined,
+  };
+}
+
+/**
+ * Archived bulletins, oldest first
+ *
+ * @param options.from - First day (YYYY-MM-DD), defaults to the season start
+ * @param options.to - Last day (YYYY-MM-DD), defaults to no limit
+ * @returns Empty list when Supabase is not configured or the query fails
+ */
+export async function fetchBulletinHistory(
+  options: { provider?: BulletinProvider; from?: string; to?: string } = {}
+): Promise<BulletinHistoryEntry[]> {
+  if (!isSupabaseConfigured()) return [];
+
+  const { provider = 'topr', from = seasonStart(), to } = options;
+
+  let query = supabase
+    .from('avalanche_bulletins')
+    .select('*')
+    .eq('provider', provider)
+    .gte('bulletin_date', from);
+  if (to) {
+    query = query.lte('bulletin_date', to);
+  }
+
+  const { data, error } = await query.order('bulletin_date', { ascending: true });
+  if (error) {
+    console.warn('Failed to load bulletin history:', error.message);
+    return [];
+  }
+
+  return (data ?? []).map(toEntry);
+}
@@ -0,0 +1,137 @@
+/**
+ * Push Notification Service
+ *
+ * Subscribes this browser to Web Push and stores the subscription with its
+ * opt-ins in push_subscriptions; the send-push edge function delivers to it.
+ * Needs the service worker registered by the PWA build (not active in dev).
+ */
+
+import { isSupabaseConfigured, supabase, type PushSubscriptionInsert, type PushSubscriptionRow, type PushSubscriptionUpdate } from '@/lib/supabase';
+import type { PushPreferences } from '@/types';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+export type PushEnableResult = 'enabled' | 'denied' | 'unsupported';
+
+/**
+ * Browser supports push and a VAPID key is configured
+ */
+export function isPushSupported(): boolean {
+  return (
+    Boolean(VAPID_PUBLIC_KEY) &&
+    isSupabaseConfigured() &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+async function currentSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Opt-ins stored for this browser's subscription
+ *
+ * @returns null when this browser is not subscribed
+ */
+export async function getPushPreferences(): Promise<PushPreferences | null> {
+  const subscription = await currentSubscription();
+  if (!subscription) return null;
+
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('*')
+    .eq('endpoint', subscription.endpoint)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Failed to load push subscription:', error);
+    return null;
+  }
+  const row = data as PushSubscriptionRow | null;
+  return row ? { regions: row.regions, types: row.types } : null;
+}
+
+/**
+ * Ask for permission, subscribe and store the subscription
+ *
+ * @throws When the user is not logged in or the subscription cannot be saved
+ */
+export async function enablePush(preferences: PushPreferences): Promise<PushEnableResult> {
+  if (!isPushSupported()) return 'unsupported';
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) return 'unsupported';
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return 'denied';
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not logged in');
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      // Browsers accept the base64url key as is
+      applicationServerKey: VAPID_PUBLIC_KEY,
+    }));
+  const { endpoint, keys } = subscription.toJSON();
+
+  const row: PushSubscriptionInsert = {
+    user_id: user.id,
+    endpoint: endpoint!,
+    p256dh: keys!.p256dh,
+    auth: keys!.auth,
+    regions: preferences.regions,
+    types: preferences.types,
+    failure_count: 0,
+    last_error: null,
+    updated_at: new Date().toISOString(),
+  };
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert(row, { onConflict: 'endpoint' });
+  if (error) throw error;
+
+  return 'enabled';
+}
+
+/**
+ * Change the opt-ins of this browser's subscription
+ */
+export async function updatePushPreferences(preferences: PushPreferences): Promise<void> {
+  const subscription = await currentSubscription();
+  if (!subscription) return;
+
+  const changes: PushSubscriptionUpdate = {
+    regions: preferences.regions,
+    types: preferences.types,
+    updated_at: new Date().toISOString(),
+  };
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .update(changes)
+    .eq('endpoint', subscription.endpoint);
+  if (error) throw error;
+}
+
+/**
+ * Unsubscribe this browser and delete its subscription
+ */
+export async function disablePush(): Promise<void> {
+  const subscription = await currentSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', subscription.endpoint);
+  if (error) {
+    console.warn('Failed to delete push subscription:', error);
+  }
+  await subscription.unsubscribe();
+}
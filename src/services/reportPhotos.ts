@@ -0,0 +1,167 @@
+/**
+ * Report Photos Service
+ *
+ * Prepares photos for community reports on the device and uploads them to
+ * Supabase Storage. Each photo is redrawn on a canvas into a compressed
+ * JPEG and a thumbnail; the re-encode drops all EXIF, so capture time and
+ * GPS are read from the original first. Uploads that fail wait in the
+ * retry queue until the device is back online.
+ */
+
+import { supabase } from '../lib/supabase';
+import { readExif } from '../utils/exif';
+import { queueOperation } from './retryQueue';
+import type { ReportPhoto } from '../types';
+
+export const REPORT_PHOTOS_BUCKET = 'report-photos';
+
+/**
+ * Photo limits and encoding
+ */
+export const PHOTO_CONFIG = {
+  /** Photos per report (also enforced by the database) */
+  MAX_PHOTOS: 4,
+  /** Longest edge of the uploaded photo (px) */
+  MAX_EDGE: 1600,
+  /** Longest edge of the thumbnail (px) */
+  THUMB_EDGE: 320,
+  QUALITY: 0.82,
+  THUMB_QUALITY: 0.7,
+} as const;
+
+/**
+ * Photo compressed on the device, waiting to be attached to a report
+ */
+export interface PreparedPhoto {
+  id: string;
+  image: Blob;
+  thumb: Blob;
+  width: number;
+  height: number;
+  /** Capture time from EXIF */
+  takenAt?: string;
+  /** Capture position from EXIF */
+  coordinates?: { lat: number; lng: number };
+}
+
+/**
+ * Queued upload; Blobs are stored as-is in IndexedDB
+ */
+export interface PhotoUploadPayload {
+  path: string;
+  thumbPath: string;
+  image: Blob;
+  thumb: Blob;
+}
+
+/**
+ * Scale the image to fit maxEdge and encode it as JPEG
+ */
+async function encodeJpeg(
+  bitmap: ImageBitmap,
+  maxEdge: number,
+  quality: number
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D not available');
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) throw new Error('JPEG encoding failed');
+  return { blob, width, height };
+}
+
+/**
+ * Read EXIF, then compress a picked photo and build its thumbnail
+ */
+export async function preparePhoto(file: File): Promise<PreparedPhoto> {
+  const exif = readExif(await file.arrayBuffer());
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const image = await encodeJpeg(bitmap, PHOTO_CONFIG.MAX_EDGE, PHOTO_CONFIG.QUALITY);
+    const thumb = await encodeJpeg(bitmap, PHOTO_CONFIG.THUMB_EDGE, PHOTO_CONFIG.THUMB_QUALITY);
+    return {
+      id: crypto.randomUUID(),
+      image: image.blob,
+      thumb: thumb.blob,
+      width: image.width,
+      height: image.height,
+      ...exif,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Storage paths and metadata saved on the report
+ */
+export function photoMetadata(userId: string, photo: PreparedPhoto): ReportPhoto {
+  return {
+    path: `${userId}/${photo.id}.jpg`,
+    thumbPath: `${userId}/${photo.id}_thumb.jpg`,
+    width: photo.width,
+    height: photo.height,
+    takenAt: photo.takenAt,
+  };
+}
+
+/**
+ * Public URL of a stored photo or thumbnail
+ */
+export function getPhotoUrl(path: string): string {
+  return supabase.storage.from(REPORT_PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/**
+ * Upload a photo and its thumbnail
+ *
+ * @throws When either upload fails
+ */
+export async function uploadPhoto(payload: PhotoUploadPayload): Promise<void> {
+  const files: [string, Blob][] = [
+    [payload.path, payload.image],
+    [payload.thumbPath, payload.thumb],
+  ];
+
+  for (const [path, blob] of files) {
+    // upsert: a retried upload may find the first attempt's file
+    const { error } = await supabase.storage
+      .from(REPORT_PHOTOS_BUCKET)
+      .upload(path, blob, { contentType: 'image/jpeg', cacheControl: '31536000', upsert: true });
+    if (error) throw new Error(error.message);
+  }
+}
+
+/**
+ * Upload the photos of a report, queueing those that cannot be sent now
+ *
+ * @returns Number of photos left in the retry queue
+ */
+export async function uploadReportPhotos(userId: string, photos: PreparedPhoto[]): Promise<number> {
+  let queued = 0;
+
+  for (const photo of photos) {
+    const { path, thumbPath } = photoMetadata(userId, photo);
+    const payload: PhotoUploadPayload = { path, thumbPath, image: photo.image, thumb: photo.thumb };
+
+    try {
+      if (!navigator.onLine) throw new Error('Offline');
+      await uploadPhoto(payload);
+    } catch (error) {
+      console.warn('Photo upload failed, queued for retry:', error);
+      await queueOperation('upload_photo', payload);
+      queued++;
+    }
+  }
+
+  return queued;
+}
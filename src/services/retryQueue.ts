@@ -9,7 +9,7 @@ const DB_NAME = 'skitour-retry-queue';
 const DB_VERSION = 1;
 const STORE_NAME = 'pending_operations';
 
-export type OperationType = 'add_report' | 'delete_report' | 'sync_reports';
+export type OperationType = 'add_report' | 'delete_report' | 'sync_reports' | 'upload_photo';
 
 export interface PendingOperation {
   id: string;
@@ -178,7 +178,7 @@ export async function clearQueue(): Promise<void> {
  * Process retry queue with provided handlers
  */
 export async function processQueue(
-  handlers: Record<OperationType, (payload: unknown) => Promise<void>>,
+  handlers: Partial<Record<OperationType, (payload: unknown) => Promise<void>>>,
   options: { maxAttempts?: number; onProgress?: (completed: number, total: number) => void } = {}
 ): Promise<{ success: number; failed: number }> {
   const { maxAttempts = 3, onProgress } = options;
@@ -227,7 +227,7 @@ export async function processQueue(
 let isProcessing = false;
 
 export function setupAutoRetry(
-  handlers: Record<OperationType, (payload: unknown) => Promise<void>>
+  handlers: Partial<Record<OperationType, (payload: unknown) => Promise<void>>>
 ): () => void {
   const handleOnline = async () => {
     if (isProcessing) return;
@@ -0,0 +1,57 @@
+/**
+ * Snowpack History Service
+ *
+ * Keeps the last 14 days of hourly summit weather per elevation pair and
+ * summarizes it into snowpack histories (see utils/snowpack).
+ */
+
+import { WeatherAgent } from '@/agents/WeatherAgent';
+import type { SnowpackHistory, WeatherHistoryPoint } from '@/types';
+import { analyzeSnowpack, SNOWPACK_CONFIG } from '@/utils/snowpack';
+
+// Series per pair name; the history only changes hourly
+const seriesCache: Record<string, { series: WeatherHistoryPoint[]; timestamp: number }> = {};
+const CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Hourly series for one pair, from the cache when still fresh
+ */
+export async function getSnowpackSeries(
+  pair: { name: string; summit: { latitude: number; longitude: number; altitude?: number } },
+  signal?: AbortSignal
+): Promise<WeatherHistoryPoint[]> {
+  const cached = seriesCache[pair.name];
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.series;
+  }
+
+  const series = await new WeatherAgent().fetchWeatherHistory(
+    pair.summit,
+    SNOWPACK_CONFIG.DAYS * 24,
+    signal
+  );
+  seriesCache[pair.name] = { series, timestamp: Date.now() };
+  return series;
+}
+
+/**
+ * Snowpack histories for every elevation pair of a region
+ * Pairs whose history cannot be fetched are skipped.
+ */
+export async function fetchSnowpackHistory(
+  region: string,
+  signal?: AbortSignal
+): Promise<SnowpackHistory[]> {
+  const pairs = WeatherAgent.getElevationPairs(region);
+
+  const results = await Promise.allSettled(
+    pairs.map(async (pair) => analyzeSnowpack(await getSnowpackSeries(pair, signal), pair))
+  );
+
+  return results.flatMap((result, i) => {
+    if (result.status === 'fulfilled') return [result.value];
+    if (result.reason instanceof Error && result.reason.name === 'AbortError') throw result.reason;
+    console.warn(`Failed to fetch snowpack history for ${pairs[i].name}:`, result.reason);
+    return [];
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Trip Check-in Link Service
+ *
+ * Check-ins of party members who open the plan owner's link
+ * (?checkin=<token>) instead of having the plan on their phone. Both calls
+ * go through the trip-check-in edge function; members need no account.
+ */
+
+import { callEdgeFunction, isSupabaseConfigured } from '@/lib/supabase';
+import type { TripPosition, TripStatus } from '@/types';
+
+/** URL parameter carrying the check-in token */
+export const CHECK_IN_PARAM = 'checkin';
+
+/**
+ * What a member sees of the plan (no emergency contact)
+ */
+export interface SharedTripPlan {
+  routeName: string;
+  region: string;
+  party: string[];
+  expectedReturn: string;
+  status: TripStatus;
+}
+
+interface CheckInResponse {
+  success: boolean;
+  plan: SharedTripPlan;
+}
+
+/**
+ * Check-in token from the current URL, if any
+ */
+export function checkInTokenFromUrl(search: string = window.location.search): string | null {
+  return new URLSearchParams(search).get(CHECK_IN_PARAM);
+}
+
+/**
+ * Plan behind a check-in link
+ *
+ * @throws When Supabase is not configured or the link is invalid
+ */
+export async function fetchSharedTrip(token: string): Promise<SharedTripPlan> {
+  if (!isSupabaseConfigured()) throw new Error('Supabase not configured');
+
+  const { data, error } = await callEdgeFunction<CheckInResponse>('trip-check-in', { token });
+  if (error || !data) throw new Error(error ?? 'Empty response');
+  return data.plan;
+}
+
+/**
+ * Check in through a link; the server stamps the time
+ *
+ * @returns The plan after the check-in
+ * @throws When the request fails or the plan is closed
+ */
+export async function sendSharedCheckIn(
+  token: string,
+  checkIn: { by: string; note?: string; position?: TripPosition; expectedReturn?: string }
+): Promise<SharedTripPlan> {
+  if (!isSupabaseConfigured()) throw new Error('Supabase not configured');
+
+  const { data, error } = await callEdgeFunction<CheckInResponse>('trip-check-in', { token, checkIn });
+  if (error || !data) throw new Error(error ?? 'Empty response');
+  return data.plan;
+}
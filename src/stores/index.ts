@@ -16,3 +16,14 @@ export {
   type AscentData,
   type DescentData,
 } from './useReportsStore';
+export {
+  useCustomRoutesStore,
+  type CustomRoute,
+} from './useCustomRoutesStore';
+export { useWatchlistStore } from './useWatchlistStore';
+export {
+  useTripPlanStore,
+  type StoredTripPlan,
+  type NewTripPlan,
+} from './useTripPlanStore';
+export { useGearChecklistStore } from './useGearChecklistStore';
@@ -9,10 +9,15 @@
 
 import { create } from 'zustand';
 import type {
+  AgentInfo,
   DashboardState,
   ElevationWeather,
+  RouteForecastDay,
+  MunterGroup,
+  SnowpackHistory,
 } from '@/types';
 import {
+  BaseAgent,
   Orchestrator,
   WeatherAgent,
   WebSearchAgent,
@@ -21,7 +26,17 @@ import {
 } from '@/agents';
 import { isSupabaseConfigured } from '@/lib/supabase';
 import { useReportsStore } from './useReportsStore';
+import { useCustomRoutesStore } from './useCustomRoutesStore';
+import { useWatchlistStore } from './useWatchlistStore';
+import { useTripPlanStore } from './useTripPlanStore';
+import { useGearChecklistStore } from './useGearChecklistStore';
 import { getRoutesForRegion } from '@/data/routes';
+import {
+  DEFAULT_SCORING_PROFILE,
+  DEFAULT_MUNTER_GROUP,
+  isScoringProfileId,
+  type ScoringProfileId,
+} from '@/scoring';
 
 /**
  * Simplified app configuration (LLM config moved to server-side)
@@ -30,6 +45,20 @@ export interface AppConfig {
   region: string;
   refreshInterval: number;
   enabledAgents: string[];
+  /** Route scoring profile (weights for weather/safety/snow) */
+  scoringProfile: ScoringProfileId;
+  /** Touring party for the Munter reduction method */
+  group: MunterGroup;
+}
+
+/**
+ * Health of the data sources after the last refresh, explaining stale data
+ */
+export interface DataStatus {
+  /** Agent state, including circuit breakers */
+  agents: AgentInfo[];
+  /** Age (ms) of results served from cache, by agent */
+  cacheAges: Record<string, number>;
 }
 
 /**
@@ -62,8 +91,14 @@ interface AppState extends DashboardState {
   searchStatus: SearchStatus;
   /** Multi-elevation weather data */
   elevationWeather: ElevationWeather[];
+  /** Route scores for the upcoming forecast days */
+  routeForecast: RouteForecastDay[];
+  /** Multi-day snowpack history per elevation pair */
+  snowpack: SnowpackHistory[];
   /** Error state for user feedback */
   error: AppError | null;
+  /** Source health after the last refresh */
+  dataStatus: DataStatus | null;
 }
 
 /**
@@ -86,6 +121,8 @@ const defaultConfig: AppConfig = {
   region: 'Wszystkie',
   refreshInterval: 30,
   enabledAgents: ['weather', 'safety', 'social'],
+  scoringProfile: DEFAULT_SCORING_PROFILE,
+  group: DEFAULT_MUNTER_GROUP,
 };
 
 /**
@@ -112,7 +149,10 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
   searchingWeb: false,
   searchStatus: { status: 'idle' },
   elevationWeather: [],
+  routeForecast: [],
+  snowpack: [],
   error: null,
+  dataStatus: null,
   ...initialDashboardState,
   config: defaultConfig,
   initialized: false,
@@ -121,7 +161,7 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
   initialize: async () => {
     const { refreshAll } = get();
 
-    // Try to load saved config from localStorage (region, refresh interval only)
+    // Try to load saved config from localStorage (region, refresh interval, scoring profile, group)
     try {
       const savedConfig = localStorage.getItem('app_config');
       if (savedConfig) {
@@ -131,6 +171,12 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
             ...state.config,
             region: parsed.region || state.config.region,
             refreshInterval: parsed.refreshInterval || state.config.refreshInterval,
+            scoringProfile: isScoringProfileId(parsed.scoringProfile)
+              ? parsed.scoringProfile
+              : state.config.scoringProfile,
+            group: parsed.group?.size > 0
+              ? { size: parsed.group.size, spacing: !!parsed.group.spacing }
+              : state.config.group,
           },
         }));
       }
@@ -140,6 +186,13 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
 
     set({ initialized: true });
 
+    // Imported routes must be loaded before they can be scored
+    await useCustomRoutesStore.getState().initialize();
+    await useWatchlistStore.getState().initialize();
+    // Trip plans do not affect scoring, no need to wait
+    void useTripPlanStore.getState().initialize();
+    useGearChecklistStore.getState().initialize();
+
     // Initial data fetch
     await refreshAll();
   },
@@ -159,7 +212,10 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
     const regionLocations = WeatherAgent.getLocationsByRegion(config.region);
     const locationNames = Object.keys(regionLocations);
     const primaryLocation = regionLocations[locationNames[0]];
-    const regionRoutes = getRoutesForRegion(config.region);
+    const regionRoutes = [
+      ...getRoutesForRegion(config.region),
+      ...useCustomRoutesStore.getState().getRoutesForRegion(config.region),
+    ];
 
     // LLM is enabled if Supabase is configured (server handles the API key)
     const context: AgentContext = {
@@ -174,13 +230,15 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
       const [result, elevationData] = await Promise.allSettled([
         orchestrator.run(
           {
-            location: primaryLocation,
+            location: { ...primaryLocation, ensemble: true },
             fetchAvalanche: true,
             routes: regionRoutes,
+            scoringProfile: config.scoringProfile,
+            group: config.group,
           },
           context
         ),
-        weatherAgent.fetchElevationWeather(config.region),
+        weatherAgent.fetchElevationWeather(config.region, undefined, { ensemble: true }),
       ]);
 
       // Handle orchestrator result
@@ -189,6 +247,7 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
           weather: result.value.data.weather ?? null,
           avalancheReport: result.value.data.avalanche ?? null,
           routes: result.value.data.routes ?? [],
+          snowpack: result.value.data.snowpack ?? [],
           lastRefresh: new Date().toISOString(),
           error: null, // Clear any previous error on success
         });
@@ -203,17 +262,50 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
         });
       }
 
+      const orchestratorData = result.status === 'fulfilled' ? result.value.data : undefined;
+
+      // Source health for the status line; read from the agents when the run failed
+      set({
+        dataStatus: {
+          agents: orchestratorData?.summary.agents ?? orchestrator.getAgents().map((agent) => agent.getInfo()),
+          cacheAges: orchestratorData?.summary.cacheAges ?? {},
+        },
+      });
+
       // Handle elevation weather result
       if (elevationData.status === 'fulfilled') {
         set({ elevationWeather: elevationData.value });
 
-        // Recalculate relevance scores with new weather data
+        // Recalculate relevance scores with new weather data and snowpack history
         const currentWeather = elevationData.value[0];
-        useReportsStore.getState().calculateAllRelevance(currentWeather);
+        useReportsStore.getState().calculateAllRelevance(currentWeather, orchestratorData?.snowpack);
+
+        // Score routes for the upcoming days from the daily forecast
+        set({
+          routeForecast: orchestrator.evaluateForecastDays({
+            routes: regionRoutes,
+            elevationWeather: elevationData.value,
+            weather: orchestratorData?.weather,
+            avalanche: orchestratorData?.avalanche,
+            scoringProfile: config.scoringProfile,
+            group: config.group,
+            hourly: orchestratorData?.hourly,
+            forecastAltitude: primaryLocation.altitude,
+          }),
+        });
       } else {
         console.error('Elevation weather failed:', elevationData.reason);
         // Don't overwrite more critical errors
       }
+
+      // Alert rules on watched routes, the region's bulletin and new reports
+      useWatchlistStore.getState().evaluate({
+        region: config.region,
+        routes: orchestratorData?.routes,
+        routeForecast: elevationData.status === 'fulfilled' ? get().routeForecast : undefined,
+        avalanche: orchestratorData?.avalanche,
+        reports: useReportsStore.getState().reports,
+      });
     } catch (error) {
       console.error('Failed to refresh data:', error);
       set({
@@ -246,7 +338,7 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
     const defaultLocation = WeatherAgent.getDefaultLocations()['Kasprowy Wierch'];
 
     try {
-      const result = await weatherAgent.run(defaultLocation, {
+      const result = await weatherAgent.run({ ...defaultLocation, ensemble: true }, {
         region: config.region,
       });
 
@@ -358,7 +450,8 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
   },
 
   clearData: () => {
-    set({ ...initialDashboardState, webReports: [] });
+    set({ ...initialDashboardState, webReports: [], routeForecast: [], snowpack: [], dataStatus: null });
+    void BaseAgent.clearCache();
   },
 
   updateConfig: (newConfig: Partial<AppConfig>) => {
@@ -370,6 +463,8 @@ export const useAppStore = create<AppState & AppActions>((set, get) => ({
         localStorage.setItem('app_config', JSON.stringify({
           region: updated.region,
           refreshInterval: updated.refreshInterval,
+          scoringProfile: updated.scoringProfile,
+          group: updated.group,
         }));
       } catch {
         // localStorage not available
@@ -0,0 +1,324 @@
+/**
+ * Custom Routes Store
+ *
+ * Manages user routes imported from GPX/KML tracks. Routes are kept in
+ * IndexedDB and synced to Supabase for authenticated users.
+ *
+ * @module stores/useCustomRoutesStore
+ */
+
+import { create } from 'zustand';
+import { supabase, isSupabaseConfigured, CustomRouteRow, CustomRouteInsert } from '../lib/supabase';
+import type { Aspect, Route } from '../types';
+import { REGION_GROUPS } from '../constants';
+import { suggestAtesClass } from '../scoring';
+
+/**
+ * Imported route with sync metadata
+ */
+export interface CustomRoute extends Route {
+  /** Import timestamp */
+  createdAt: string;
+  /** Owner (for Supabase routes) */
+  userId?: string;
+  /** Synced to Supabase */
+  synced?: boolean;
+}
+
+interface CustomRoutesState {
+  routes: CustomRoute[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  initialize: () => Promise<void>;
+  addRoute: (route: Route) => Promise<CustomRoute>;
+  deleteRoute: (id: string) => Promise<void>;
+  syncWithSupabase: () => Promise<void>;
+  getRoutesForRegion: (region: string) => CustomRoute[];
+  clearError: () => void;
+}
+
+const DB_NAME = 'skitour-scout-routes';
+const DB_VERSION = 1;
+const STORE_NAME = 'routes';
+
+/**
+ * Open IndexedDB connection
+ */
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('region', 'region', { unique: false });
+        store.createIndex('userId', 'userId', { unique: false });
+      }
+    };
+  });
+}
+
+/**
+ * Replace the contents of the IndexedDB store
+ */
+async function saveAll(routes: CustomRoute[]): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+
+  store.clear();
+  for (const route of routes) {
+    store.put(route);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  db.close();
+}
+
+/**
+ * Convert Supabase row to CustomRoute
+ */
+function fromSupabaseRoute(row: CustomRouteRow): CustomRoute {
+  return {
+    id: row.id,
+    name: row.name,
+    region: row.region,
+    startPoint: row.start_point,
+    summit: row.summit,
+    elevation: row.elevation,
+    distance: Number(row.distance),
+    difficulty: row.difficulty,
+    ates: row.ates,
+    aspects: row.aspects as Aspect[],
+    duration: Number(row.duration),
+    description: row.description || undefined,
+    track: row.track,
+    isCustom: true,
+    createdAt: row.created_at,
+    userId: row.user_id,
+    synced: true,
+  };
+}
+
+/**
+ * Convert CustomRoute to Supabase insert
+ */
+function toSupabaseInsert(route: CustomRoute, userId: string): CustomRouteInsert {
+  return {
+    id: route.id,
+    user_id: userId,
+    name: route.name,
+    region: route.region,
+    difficulty: route.difficulty,
+    ates: route.ates,
+    start_point: route.startPoint,
+    summit: route.summit,
+    elevation: route.elevation,
+    distance: route.distance,
+    aspects: route.aspects,
+    duration: route.duration,
+    description: route.description ?? null,
+    track: route.track ?? [],
+    created_at: route.createdAt,
+  };
+}
+
+export const useCustomRoutesStore = create<CustomRoutesState>((set, get) => ({
+  routes: [],
+  isLoading: false,
+  error: null,
+
+  initialize: async () => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const db = await openDB();
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const store = tx.objectStore(STORE_NAME);
+
+      const localRoutes: CustomRoute[] = await new Promise((resolve, reject) => {
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      db.close();
+      // Routes imported before ATES classes existed
+      set({
+        routes: localRoutes.map((route) => ({
+          ...route,
+          ates: route.ates ?? suggestAtesClass(route.difficulty),
+        })),
+      });
+
+      if (isSupabaseConfigured()) {
+        await get().syncWithSupabase();
+      }
+    } catch (error) {
+      console.error('Failed to initialize custom routes store:', error);
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  syncWithSupabase: async () => {
+    if (!isSupabaseConfigured()) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Push routes imported while offline or logged out
+      const { routes: localRoutes } = get();
+      const pushed = new Map<string, CustomRoute>();
+      for (const route of localRoutes.filter((r) => !r.synced)) {
+        const { error } = await supabase
+          .from('custom_routes')
+          .insert(toSupabaseInsert(route, user.id));
+
+        if (error) {
+          console.warn('Failed to sync custom route to server:', error);
+        } else {
+          pushed.set(route.id, { ...route, userId: user.id, synced: true });
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('custom_routes')
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Custom routes sync error:', error);
+        return;
+      }
+
+      // Server is the source of truth for synced routes; keep local unsynced ones
+      const serverRoutes = (data || []).map((row: CustomRouteRow) => fromSupabaseRoute(row));
+      const serverIds = new Set(serverRoutes.map((r) => r.id));
+      const unsynced = localRoutes
+        .map((r) => pushed.get(r.id) ?? r)
+        .filter((r) => !r.synced && !serverIds.has(r.id));
+
+      const merged = [...unsynced, ...serverRoutes];
+      await saveAll(merged);
+      set({ routes: merged });
+    } catch (error) {
+      console.error('Failed to sync custom routes with Supabase:', error);
+    }
+  },
+
+  addRoute: async (route: Route) => {
+    set({ error: null });
+
+    const customRoute: CustomRoute = {
+      ...route,
+      isCustom: true,
+      createdAt: new Date().toISOString(),
+      synced: false,
+    };
+
+    if (isSupabaseConfigured()) {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { error } = await supabase
+          .from('custom_routes')
+          .insert(toSupabaseInsert(customRoute, user.id));
+
+        if (error) {
+          // Keep it local, it will be pushed on the next sync
+          console.warn('Failed to save custom route to Supabase:', error);
+        } else {
+          customRoute.userId = user.id;
+          customRoute.synced = true;
+        }
+      }
+    }
+
+    try {
+      const db = await openDB();
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(customRoute);
+
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+
+      db.close();
+    } catch (error) {
+      console.error('Failed to save custom route:', error);
+      set({ error: 'Nie udało się zapisać trasy' });
+      throw error;
+    }
+
+    set((state) => ({ routes: [customRoute, ...state.routes] }));
+    return customRoute;
+  },
+
+  deleteRoute: async (id: string) => {
+    set({ error: null });
+
+    const route = get().routes.find((r) => r.id === id);
+    if (!route) {
+      throw new Error('Route not found');
+    }
+
+    if (route.synced && isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('custom_routes')
+        .update({ deleted_at: new Date().toISOString() } as never)
+        .eq('id', id);
+
+      if (error) {
+        console.error('Failed to delete custom route from Supabase:', error);
+        set({ error: 'Nie udało się usunąć trasy' });
+        throw new Error('Failed to delete route');
+      }
+    }
+
+    try {
+      const db = await openDB();
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).delete(id);
+
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+      db.close();
+    } catch (error) {
+      console.error('Failed to delete from IndexedDB:', error);
+    }
+
+    set((state) => ({ routes: state.routes.filter((r) => r.id !== id) }));
+  },
+
+  getRoutesForRegion: (region: string) => {
+    const { routes } = get();
+    if (region === 'Wszystkie') {
+      return routes;
+    }
+    if (region === 'Beskidy') {
+      return routes.filter((r) => (REGION_GROUPS.BESKIDY as readonly string[]).includes(r.region));
+    }
+    return routes.filter((r) => r.region === region);
+  },
+
+  clearError: () => {
+    set({ error: null });
+  },
+}));
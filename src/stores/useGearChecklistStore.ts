@@ -0,0 +1,75 @@
+/**
+ * Gear Checklist Store
+ *
+ * Packed items per route, kept in localStorage so the checklist can be
+ * ticked off at the trailhead without coverage. Lists untouched for two
+ * weeks are dropped.
+ *
+ * @module stores/useGearChecklistStore
+ */
+
+import { create } from 'zustand';
+import type { GearItemId } from '../types';
+
+const STORAGE_KEY = 'gear-checklists';
+
+/** Lists older than this are dropped on load (ms) */
+const MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+interface PackedList {
+  items: GearItemId[];
+  updatedAt: string;
+}
+
+interface GearChecklistState {
+  /** Packed items by route id */
+  packed: Record<string, PackedList>;
+
+  // Actions
+  initialize: () => void;
+  togglePacked: (routeId: string, item: GearItemId) => void;
+  resetPacked: (routeId: string) => void;
+}
+
+function saveLocal(packed: Record<string, PackedList>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packed));
+  } catch {
+    // localStorage not available
+  }
+}
+
+export const useGearChecklistStore = create<GearChecklistState>((set, get) => ({
+  packed: {},
+
+  initialize: () => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (!saved) return;
+
+      const cutoff = Date.now() - MAX_AGE_MS;
+      const packed = Object.fromEntries(
+        Object.entries(JSON.parse(saved) as Record<string, PackedList>).filter(
+          ([, list]) => Date.parse(list.updatedAt) >= cutoff
+        )
+      );
+      set({ packed });
+    } catch {
+      // localStorage not available or invalid JSON
+    }
+  },
+
+  togglePacked: (routeId, item) => {
+    const current = get().packed[routeId]?.items ?? [];
+    const items = current.includes(item) ? current.filter((i) => i !== item) : [...current, item];
+    const packed = { ...get().packed, [routeId]: { items, updatedAt: new Date().toISOString() } };
+    set({ packed });
+    saveLocal(packed);
+  },
+
+  resetPacked: (routeId) => {
+    const packed = Object.fromEntries(Object.entries(get().packed).filter(([id]) => id !== routeId));
+    set({ packed });
+    saveLocal(packed);
+  },
+}));
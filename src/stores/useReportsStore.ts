@@ -8,15 +8,37 @@
  */
 
 import { create } from 'zustand';
-import { supabase, isSupabaseConfigured, getEdgeFunctionUrl, getAuthHeaders, Report, AdminReport, ReportInsert } from '../lib/supabase';
-import { queueOperation, getPendingCount } from '../services/retryQueue';
-import type { WeatherSnapshot, RelevanceFactors, ElevationWeather } from '../types';
+import {
+  supabase,
+  isSupabaseConfigured,
+  getEdgeFunctionUrl,
+  getAuthHeaders,
+  Report,
+  AdminReport,
+  ReportVoteRow,
+  ReportVoteCount,
+  Profile,
+} from '../lib/supabase';
+import { queueOperation, getPendingCount, setupAutoRetry } from '../services/retryQueue';
+import { photoMetadata, uploadPhoto, uploadReportPhotos, type PhotoUploadPayload, type PreparedPhoto } from '../services/reportPhotos';
+import { useWatchlistStore } from './useWatchlistStore';
+import type {
+  WeatherSnapshot,
+  RelevanceFactors,
+  ElevationWeather,
+  SnowpackHistory,
+  ReportPhoto,
+  ReportVote,
+  ReportVotes,
+  ContributorReputation,
+} from '../types';
 import {
   calculateRelevanceScore,
   calculateBaseRelevanceScore,
   calculateReportWeight,
   isReportArchived,
 } from '../utils/relevanceScore';
+import { findNearestSnowpack } from '../utils/snowpack';
 
 /**
  * Report type: Ascent or Descent
@@ -73,6 +95,14 @@ export interface CommunityReport {
   notes?: string;
   /** GPS coordinates if available */
   coordinates?: { lat: number; lng: number };
+  /** Attached photos (Supabase Storage) */
+  photos?: ReportPhoto[];
+  /** Photos of an unsynced copy, uploaded once submit-report accepts it */
+  pendingPhotos?: PreparedPhoto[];
+  /** "Still accurate?" confirmations and disputes */
+  votes?: ReportVotes;
+  /** Reputation of the author (from profiles) */
+  authorReputation?: ContributorReputation;
   /** Submission timestamp */
   timestamp: string;
   /** Is this user's own report */
@@ -178,11 +208,14 @@ interface ReportsState {
 
   // Actions
   initialize: () => Promise<void>;
-  addReport: (report: NewReportInput) => Promise<void>;
+  /** Photos are uploaded (or queued) after the report is accepted */
+  addReport: (report: NewReportInput, photos?: PreparedPhoto[]) => Promise<void>;
   deleteReport: (id: string) => Promise<void>;
+  /** Confirm or dispute another user's report; null withdraws the vote */
+  voteOnReport: (id: string, vote: ReportVote | null) => Promise<void>;
   syncWithSupabase: () => Promise<void>;
   refreshPendingCount: () => Promise<void>;
-  calculateAllRelevance: (currentWeather: ElevationWeather | undefined) => void;
+  calculateAllRelevance: (currentWeather: ElevationWeather | undefined, snowpack?: SnowpackHistory[]) => void;
   getReportsForRegion: (region: string) => CommunityReport[];
   getReportsForLocation: (location: string) => CommunityReport[];
   getReportsWithCoordinates: () => CommunityReport[];
@@ -230,10 +263,59 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+/**
+ * Vote tallies per report, with the signed-in user's own votes
+ */
+function summarizeVotes(
+  counts: ReportVoteCount[],
+  ownVotes: Pick<ReportVoteRow, 'report_id' | 'vote'>[]
+): Map<string, ReportVotes> {
+  const tallies = new Map<string, ReportVotes>(
+    counts.map((count) => [
+      count.report_id,
+      {
+        confirms: count.confirms,
+        disputes: count.disputes,
+        lastConfirmedAt: count.last_confirmed_at ?? undefined,
+      },
+    ])
+  );
+
+  for (const row of ownVotes) {
+    const votes = tallies.get(row.report_id) ?? { confirms: 0, disputes: 0 };
+    votes.own = row.vote;
+    tallies.set(row.report_id, votes);
+  }
+
+  return tallies;
+}
+
+/**
+ * Apply the user's new vote to a tally
+ */
+function applyVote(votes: ReportVotes | undefined, vote: ReportVote | null): ReportVotes {
+  const next = { confirms: 0, disputes: 0, ...votes };
+  if (next.own === 'confirm') next.confirms--;
+  if (next.own === 'dispute') next.disputes--;
+
+  next.own = vote ?? undefined;
+  if (vote === 'confirm') {
+    next.confirms++;
+    next.lastConfirmedAt = new Date().toISOString();
+  }
+  if (vote === 'dispute') next.disputes++;
+  return next;
+}
+
 /**
  * Convert Supabase report to CommunityReport
  */
-function fromSupabaseReport(report: Report, currentUserId?: string): CommunityReport {
+function fromSupabaseReport(
+  report: Report,
+  currentUserId?: string,
+  votes?: ReportVotes,
+  authorReputation?: ContributorReputation
+): CommunityReport {
   const communityReport: CommunityReport = {
     id: report.id,
     type: report.type,
@@ -241,6 +323,9 @@ function fromSupabaseReport(report: Report, currentUserId?: string): CommunityRe
     region: report.region,
     coordinates: report.coordinates || undefined,
     notes: report.notes || undefined,
+    photos: report.photos?.length ? report.photos : undefined,
+    votes,
+    authorReputation,
     timestamp: report.created_at,
     isOwn: report.user_id === currentUserId,
     userId: report.user_id,
@@ -278,6 +363,57 @@ function migrateReport(report: CommunityReport): CommunityReport {
   };
 }
 
+/**
+ * submit-report answer
+ */
+interface SubmitReportResult {
+  ok: boolean;
+  status: number;
+  data: { report?: Report; message?: string; minutes_remaining?: number };
+}
+
+/**
+ * Send a report through the submit-report Edge Function, which enforces
+ * the rate limit and validates the fields and photos
+ *
+ * @throws When the function cannot be reached
+ */
+async function submitReport(
+  report: Pick<CommunityReport, 'type' | 'location' | 'region' | 'coordinates' | 'notes' | 'ascent' | 'descent'>,
+  photos: ReportPhoto[] | undefined
+): Promise<SubmitReportResult> {
+  const body: Record<string, unknown> = {
+    type: report.type,
+    location: report.location,
+    region: report.region,
+    coordinates: report.coordinates,
+    notes: report.notes,
+    photos,
+  };
+
+  if (report.type === 'ascent') {
+    body.track_status = report.ascent?.trackStatus;
+    body.gear_needed = report.ascent?.gearNeeded;
+  } else {
+    body.snow_condition = report.descent?.snowCondition;
+    body.quality_rating = report.descent?.qualityRating;
+  }
+
+  const response = await fetch(getEdgeFunctionUrl('submit-report')!, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify(body),
+  });
+
+  return { ok: response.ok, status: response.status, data: await response.json() };
+}
+
+/** Retry queue listener, registered once */
+let autoRetryStarted = false;
+
+/** Inputs of the last relevance pass, reused when a vote changes a score */
+let relevanceInputs: { currentWeather: ElevationWeather | undefined; snowpack: SnowpackHistory[] } | null = null;
+
 // ============================================================
 // DEV MOCK DATA - Remove this entire section before committing
 // ============================================================
@@ -490,6 +626,17 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
         await get().syncWithSupabase();
       }
 
+      // Replay operations queued while offline
+      if (!autoRetryStarted) {
+        autoRetryStarted = true;
+        setupAutoRetry({
+          // Unsynced local copies are pushed by the sync itself
+          add_report: () => get().syncWithSupabase(),
+          sync_reports: () => get().syncWithSupabase(),
+          upload_photo: (payload) => uploadPhoto(payload as PhotoUploadPayload),
+        });
+      }
+
       // Refresh pending operations count
       await get().refreshPendingCount();
 
@@ -532,7 +679,50 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
       }
 
       if (supabaseReports) {
-        const serverReports = supabaseReports.map((r: Report) => fromSupabaseReport(r, user?.id));
+        // Vote tallies of the fetched reports; voters are only visible to themselves
+        const reportIds = supabaseReports.map((r: Report) => r.id);
+        const { data: voteCounts, error: votesError } = await supabase
+          .rpc('report_vote_counts', { p_report_ids: reportIds });
+
+        if (votesError) {
+          console.error('Report votes sync error:', votesError);
+        }
+
+        const { data: ownVotes, error: ownVotesError } = user
+          ? await supabase
+              .from('report_votes')
+              .select('report_id, vote')
+              .eq('user_id', user.id)
+              .in('report_id', reportIds)
+          : { data: [], error: null };
+
+        if (ownVotesError) {
+          console.error('Own report votes sync error:', ownVotesError);
+        }
+
+        const votesByReport = summarizeVotes(voteCounts || [], ownVotes || []);
+
+        // Author reputations (profiles are public)
+        const authorIds = [...new Set(supabaseReports.map((r: Report) => r.user_id))];
+        const { data: authorProfiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, reputation, reputation_reports')
+          .in('id', authorIds);
+
+        if (profilesError) {
+          console.error('Author reputation sync error:', profilesError);
+        }
+
+        const reputationByAuthor = new Map<string, ContributorReputation>(
+          (authorProfiles || []).map((p: Pick<Profile, 'id' | 'reputation' | 'reputation_reports'>) => [
+            p.id,
+            { score: p.reputation, reports: p.reputation_reports },
+          ])
+        );
+
+        const serverReports = supabaseReports.map((r: Report) =>
+          fromSupabaseReport(r, user?.id, votesByReport.get(r.id), reputationByAuthor.get(r.user_id))
+        );
         const { reports: localReports } = get();
 
         // === TWO-WAY SYNC WITH CONFLICT RESOLUTION ===
@@ -544,48 +734,36 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
         // 2. Find local unsynced reports to push to server
         const localUnsyncedReports = localReports.filter(r => !r.synced && user);
 
-        // 3. Push unsynced local reports to Supabase
+        // 3. Push unsynced local reports through submit-report (rate limit, validation)
         for (const localReport of localUnsyncedReports) {
           try {
-            // Build the report data for Supabase insert
-            const insertData: ReportInsert = {
-              user_id: user!.id,
-              type: localReport.type,
-              location: localReport.location,
-              region: localReport.region,
-              coordinates: localReport.coordinates,
-              notes: localReport.notes,
-            };
+            const { ok, status, data } = await submitReport(localReport, localReport.photos);
 
-            // Add type-specific fields
-            if (localReport.type === 'ascent' && localReport.ascent) {
-              insertData.track_status = localReport.ascent.trackStatus;
-              insertData.gear_needed = localReport.ascent.gearNeeded;
-            } else if (localReport.type === 'descent' && localReport.descent) {
-              insertData.snow_condition = localReport.descent.snowCondition;
-              insertData.quality_rating = localReport.descent.qualityRating;
+            if (!ok || !data.report) {
+              // Rate limited or rejected: keep the copy (and its photos) on this device
+              console.warn(`Report not accepted (${status}), kept locally:`, data.message);
+              continue;
             }
 
-            // Insert to Supabase (type assertion needed due to generated types)
-            const { data: insertedReport, error: insertError } = await supabase
-              .from('reports')
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              .insert(insertData as any)
-              .select()
-              .single();
-
-            if (!insertError && insertedReport) {
-              // Update local report with server ID and mark as synced
-              const syncedReport = { ...localReport };
-              syncedReport.id = (insertedReport as Report).id;
-              syncedReport.synced = true;
-              syncedReport.userId = user!.id;
-              serverReportMap.set(syncedReport.id, syncedReport);
-              // Update in local map too
-              localReportMap.set(syncedReport.id, syncedReport);
-              // Remove old local ID
-              localReportMap.delete(localReport.id);
+            // Photos go up only once the report is accepted
+            if (localReport.pendingPhotos?.length) {
+              await uploadReportPhotos(user!.id, localReport.pendingPhotos);
+              await get().refreshPendingCount();
             }
+
+            // Update local report with server ID and mark as synced
+            const syncedReport: CommunityReport = {
+              ...localReport,
+              id: data.report.id,
+              synced: true,
+              userId: user!.id,
+              pendingPhotos: undefined,
+            };
+            serverReportMap.set(syncedReport.id, syncedReport);
+            // Update in local map too
+            localReportMap.set(syncedReport.id, syncedReport);
+            // Remove old local ID
+            localReportMap.delete(localReport.id);
           } catch (err) {
             console.warn('Failed to sync local report to server:', err);
             // Keep as unsynced for next attempt
@@ -661,6 +839,9 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
           adminReports: verifiedReports,
           lastSync: new Date().toISOString(),
         });
+
+        // New reports may match report alerts
+        useWatchlistStore.getState().evaluate({ reports: allReports });
       }
     } catch (error) {
       console.error('Failed to sync with Supabase:', error);
@@ -676,8 +857,9 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
     }
   },
 
-  calculateAllRelevance: (currentWeather: ElevationWeather | undefined) => {
+  calculateAllRelevance: (currentWeather: ElevationWeather | undefined, snowpack: SnowpackHistory[] = []) => {
     const { reports } = get();
+    relevanceInputs = { currentWeather, snowpack };
 
     // Group reports by location for consistency calculation
     const byLocation = new Map<string, CommunityReport[]>();
@@ -696,6 +878,11 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
         (r) => new Date(r.timestamp).getTime() > cutoff24h
       ).length;
 
+      // Snowpack nearest to the report, by coordinates or location name
+      const reportSnowpack = report.coordinates
+        ? findNearestSnowpack(report.coordinates, snowpack)
+        : snowpack.find((history) => history.name === report.location) ?? snowpack[0];
+
       let relevanceFactors: RelevanceFactors;
 
       if (report.weatherSnapshot) {
@@ -704,11 +891,19 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
           report.timestamp,
           report.weatherSnapshot,
           currentWeather,
-          similarReportCount
+          similarReportCount,
+          reportSnowpack,
+          report.votes,
+          report.authorReputation
         );
       } else {
         // Base calculation for reports without weather data
-        relevanceFactors = calculateBaseRelevanceScore(report.timestamp);
+        relevanceFactors = calculateBaseRelevanceScore(
+          report.timestamp,
+          reportSnowpack,
+          report.votes,
+          report.authorReputation
+        );
       }
 
       return {
@@ -721,8 +916,9 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
     set({ reports: updatedReports });
   },
 
-  addReport: async (reportInput) => {
+  addReport: async (reportInput, photos = []) => {
     set({ error: null });
+    let reportPhotos: ReportPhoto[] | undefined;
 
     // If Supabase is configured, try to submit via Edge Function
     if (isSupabaseConfigured()) {
@@ -738,37 +934,15 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
         throw new Error('Authentication required');
       }
 
-      try {
-        const edgeFunctionUrl = getEdgeFunctionUrl('submit-report');
-        const headers = await getAuthHeaders();
-
-        // Build request body
-        const body: Record<string, unknown> = {
-          type: reportInput.type,
-          location: reportInput.location,
-          region: reportInput.region,
-          coordinates: reportInput.coordinates,
-          notes: reportInput.notes,
-        };
-
-        if (reportInput.type === 'ascent') {
-          body.track_status = reportInput.ascent.trackStatus;
-          body.gear_needed = reportInput.ascent.gearNeeded;
-        } else {
-          body.snow_condition = reportInput.descent.snowCondition;
-          body.quality_rating = reportInput.descent.qualityRating;
-        }
-
-        const response = await fetch(edgeFunctionUrl!, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(body),
-        });
+      if (photos.length > 0) {
+        reportPhotos = photos.map((photo) => photoMetadata(user.id, photo));
+      }
 
-        const data = await response.json();
+      try {
+        const { ok, status, data } = await submitReport(reportInput, reportPhotos);
 
-        if (!response.ok) {
-          if (response.status === 429) {
+        if (!ok || !data.report) {
+          if (status === 429) {
             set({
               error: {
                 type: 'rate_limit',
@@ -778,7 +952,7 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
             });
             throw new Error(data.message);
           }
-          if (response.status === 401) {
+          if (status === 401) {
             set({
               error: {
                 type: 'auth_required',
@@ -790,9 +964,15 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
           throw new Error(data.message || 'Failed to submit report');
         }
 
+        if (photos.length > 0) {
+          await uploadReportPhotos(user.id, photos);
+          await get().refreshPendingCount();
+        }
+
         // Add to local state
         const report: CommunityReport = {
           ...reportInput,
+          photos: reportPhotos,
           id: data.report.id,
           timestamp: data.report.created_at,
           isOwn: true,
@@ -830,16 +1010,19 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
         if (isNetworkError) {
           // Queue for retry when back online
           await queueOperation('add_report', reportInput);
-          await get().refreshPendingCount();
         }
+        await get().refreshPendingCount();
 
         // Fall through to local-only submission
       }
     }
 
-    // Local-only submission (fallback or when Supabase not configured)
+    // Local-only submission (fallback or when Supabase not configured).
+    // Photos stay on the device until the sync gets the report accepted.
     const report: CommunityReport = {
       ...reportInput,
+      photos: reportPhotos,
+      pendingPhotos: reportPhotos ? photos : undefined,
       id: generateId(),
       timestamp: new Date().toISOString(),
       isOwn: true,
@@ -923,6 +1106,44 @@ export const useReportsStore = create<ReportsState>((set, get) => ({
     }));
   },
 
+  voteOnReport: async (id, vote) => {
+    const report = get().reports.find((r) => r.id === id);
+    if (!report || !report.synced || report.isOwn || !isSupabaseConfigured()) {
+      throw new Error('Report cannot be voted on');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Authentication required');
+    }
+
+    const setVotes = (votes: ReportVotes | undefined) => {
+      set((state) => ({
+        reports: state.reports.map((r) => (r.id === id ? { ...r, votes } : r)),
+      }));
+      if (relevanceInputs) {
+        get().calculateAllRelevance(relevanceInputs.currentWeather, relevanceInputs.snowpack);
+      }
+    };
+
+    // Optimistic update, rolled back when the write fails
+    const previous = report.votes;
+    setVotes(applyVote(previous, vote));
+
+    const { error } = vote
+      ? await supabase
+          .from('report_votes')
+          // updated_at is set by the database when the vote changes
+          .upsert({ report_id: id, user_id: user.id, vote })
+      : await supabase.from('report_votes').delete().eq('report_id', id).eq('user_id', user.id);
+
+    if (error) {
+      console.error('Failed to save report vote:', error);
+      setVotes(previous);
+      throw new Error('Failed to save vote');
+    }
+  },
+
   getReportsForRegion: (region: string) => {
     const { reports } = get();
     // Return all reports for "Wszystkie" (All)
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TripPlanRow } from '@/lib/supabase';
+import { applyCheckIn, appendCheckIns } from '../../supabase/functions/_shared/tripPlan.ts';
+import { useTripPlanStore } from './useTripPlanStore';
+
+/**
+ * In-memory trip_plans table behind the few query shapes the store uses,
+ * and trip-check-in appending the owner's queued check-ins
+ */
+const server = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  const rows = new Map<string, Row>();
+  let clock = 0;
+
+  const state = {
+    rows,
+    online: true,
+    /** trip-check-in unreachable while signed in */
+    checkInDown: false,
+    /** Runs once right after trip-check-in saved, before the store continues */
+    afterAppend: null as (() => void) | null,
+    tick: () => new Date(Date.UTC(2024, 1, 10, 12, 0, clock++)).toISOString(),
+  };
+
+  class Query implements PromiseLike<{ data: unknown; error: unknown }> {
+    private filters: [string, unknown][] = [];
+    private op: 'select' | 'insert' | 'update' = 'select';
+    private payload: Row = {};
+    private one = false;
+
+    insert(row: Row) { this.op = 'insert'; this.payload = row; return this; }
+    update(changes: Row) { this.op = 'update'; this.payload = changes; return this; }
+    select() { return this; }
+    eq(column: string, value: unknown) { this.filters.push([column, value]); return this; }
+    order() { return this; }
+    limit() { return this; }
+    single() { this.one = true; return this; }
+
+    then<A, B>(
+      resolve?: ((value: { data: unknown; error: unknown }) => A | PromiseLike<A>) | null,
+      reject?: ((reason: unknown) => B | PromiseLike<B>) | null
+    ): PromiseLike<A | B> {
+      return Promise.resolve(this.run()).then(resolve, reject);
+    }
+
+    private run(): { data: unknown; error: unknown } {
+      if (this.op === 'insert') {
+        if (rows.has(this.payload.id as string)) return { data: null, error: { code: '23505' } };
+        const row: Row = {
+          overdue_at: null, escalated_at: null, all_clear_at: null, escalation_error: null,
+          ...this.payload,
+          check_in_token: `token-${this.payload.id}`,
+          updated_at: state.tick(),
+        };
+        rows.set(row.id as string, row);
+        return { data: { ...row }, error: null };
+      }
+
+      const matching = [...rows.values()].filter((row) => this.filters.every(([c, v]) => row[c] === v));
+      if (this.op === 'update') {
+        for (const row of matching) Object.assign(row, this.payload);
+      }
+      const data = matching.map((row) => ({ ...row }));
+      if (!this.one) return { data, error: null };
+      return data[0] ? { data: data[0], error: null } : { data: null, error: { code: 'PGRST116' } };
+    }
+  }
+
+  return { state, Query };
+});
+
+vi.mock('../lib/supabase', () => ({
+  isSupabaseConfigured: () => true,
+  supabase: {
+    auth: {
+      getUser: async () => ({ data: { user: server.state.online ? { id: 'owner' } : null } }),
+    },
+    from: () => new server.Query(),
+  },
+  callEdgeFunction: async (_name: string, body: { token: string; checkIns: { expectedReturn?: string }[] }) => {
+    if (!server.state.online || server.state.checkInDown) return { data: null, error: 'offline' };
+    const row = [...server.state.rows.values()].find((r) => r.check_in_token === body.token) as unknown as TripPlanRow;
+    const queued = body.checkIns.map(({ expectedReturn, ...checkIn }) => ({
+      checkIn: checkIn as TripPlanRow['check_ins'][number],
+      expectedReturn,
+    }));
+    const updatedAt = server.state.tick();
+    Object.assign(row, appendCheckIns(row, queued), { updated_at: updatedAt });
+
+    const after = server.state.afterAppend;
+    server.state.afterAppend = null;
+    after?.();
+    return { data: { success: true, updatedAt }, error: null };
+  },
+}));
+
+const at = (time: string) => new Date(`2024-02-10T${time}:00Z`);
+
+/** Kuba checks in through the shared link (server time) */
+function memberCheckIn(planId: string, time: string) {
+  const row = server.state.rows.get(planId) as unknown as TripPlanRow;
+  const checkIn = { at: at(time).toISOString(), by: 'Kuba', position: { lat: 49.24, lng: 19.99 } };
+  Object.assign(row, applyCheckIn(row, checkIn), { updated_at: server.state.tick() });
+}
+
+async function fileTrip(): Promise<string> {
+  vi.setSystemTime(at('06:00'));
+  const plan = useTripPlanStore.getState().createPlan({
+    routeId: 'kasprowy',
+    routeName: 'Kasprowy Wierch',
+    region: 'Tatry',
+    party: ['Ola', 'Kuba'],
+    plannedStart: at('07:00').toISOString(),
+    turnaroundAt: at('09:00').toISOString(),
+    expectedReturn: at('10:00').toISOString(),
+    emergencyContact: { name: 'Ania', phone: '+48 600 000 000' },
+  });
+  await vi.waitFor(() => expect(useTripPlanStore.getState().plans[0].synced).toBe(true));
+  return plan.id;
+}
+
+describe('trip plan sync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    server.state.rows.clear();
+    server.state.online = true;
+    server.state.checkInDown = false;
+    useTripPlanStore.setState({ plans: [] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps a member check-in when the owner device syncs later', async () => {
+    const id = await fileTrip();
+
+    // Ola checks in without signal; Kuba checks in through the link later
+    server.state.online = false;
+    vi.setSystemTime(at('10:40'));
+    useTripPlanStore.getState().checkIn(id, { by: 'Ola', position: { lat: 49.23, lng: 19.98 } });
+    memberCheckIn(id, '10:50');
+    vi.setSystemTime(at('12:00'));
+    useTripPlanStore.getState().markReturned(id);
+
+    server.state.online = true;
+    await useTripPlanStore.getState().syncWithSupabase();
+
+    const row = server.state.rows.get(id) as unknown as TripPlanRow;
+    expect(row.check_ins.map((c) => c.by)).toEqual(['Ola', 'Kuba']);
+    expect(row.last_position?.at).toBe(at('10:50').toISOString());
+    expect(row.status).toBe('returned');
+
+    const [local] = useTripPlanStore.getState().plans;
+    expect(local.synced).toBe(true);
+    expect(local.checkIns.map((c) => c.by)).toEqual(['Ola', 'Kuba']);
+    expect(local.status).toBe('returned');
+  });
+
+  it('reads the plan again when a member checks in during the sync', async () => {
+    const id = await fileTrip();
+
+    server.state.online = false;
+    vi.setSystemTime(at('10:40'));
+    useTripPlanStore.getState().checkIn(id, { by: 'Ola' });
+    useTripPlanStore.getState().markReturned(id);
+
+    // Lands between the appended check-ins and the status update
+    server.state.afterAppend = () => memberCheckIn(id, '10:45');
+    server.state.online = true;
+    await useTripPlanStore.getState().syncWithSupabase();
+
+    const row = server.state.rows.get(id) as unknown as TripPlanRow;
+    expect(row.check_ins.map((c) => c.by)).toEqual(['Ola', 'Kuba']);
+    expect(row.status).toBe('returned');
+    expect(useTripPlanStore.getState().plans[0].checkIns).toHaveLength(2);
+  });
+
+  it('shows member check-ins on top of changes that could not be saved', async () => {
+    const id = await fileTrip();
+
+    server.state.online = false;
+    vi.setSystemTime(at('10:40'));
+    useTripPlanStore.getState().checkIn(id, { by: 'Ola' });
+    memberCheckIn(id, '10:50');
+
+    // Signed in, but trip-check-in is unreachable
+    server.state.online = true;
+    server.state.checkInDown = true;
+    await useTripPlanStore.getState().syncWithSupabase();
+
+    const [local] = useTripPlanStore.getState().plans;
+    expect(local.synced).toBe(false);
+    expect(local.checkIns.map((c) => c.by)).toEqual(['Ola', 'Kuba']);
+    expect((server.state.rows.get(id) as unknown as TripPlanRow).check_ins.map((c) => c.by)).toEqual(['Kuba']);
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * Trip Plan Store
+ *
+ * Trip plans with check-ins from the field. Kept in localStorage so a plan
+ * can be filed and checked into offline, and synced to the trip_plans table
+ * for authenticated users - only synced plans are watched by the server and
+ * escalated to the emergency contact when overdue. Members check in on the
+ * server through the plan's link, so after the first save the device only
+ * sends its own changes and never overwrites the server's check-ins.
+ *
+ * @module stores/useTripPlanStore
+ */
+
+import { create } from 'zustand';
+import { supabase, isSupabaseConfigured, callEdgeFunction, TripPlanRow, TripPlanInsert } from '../lib/supabase';
+import type { PendingTripChanges, TripCheckIn, TripPlan, TripPosition } from '../types';
+import { isTripOpen, mergeTripPlan, returnAfterCheckIn } from '../utils/tripPlan';
+
+const STORAGE_KEY = 'trip-plans';
+
+/** Plans kept on the device, newest first */
+const MAX_PLANS = 20;
+
+/** Status updates retried when members keep checking in meanwhile */
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Plan with sync metadata
+ */
+export interface StoredTripPlan extends TripPlan {
+  /** Latest local change is on the server */
+  synced: boolean;
+  /** Server updated_at of the copy this one is based on (unset until first saved) */
+  serverUpdatedAt?: string;
+  /** Local changes the server does not have yet */
+  pending?: PendingTripChanges;
+}
+
+export interface NewTripPlan {
+  routeId: string;
+  routeName: string;
+  region: string;
+  party: string[];
+  plannedStart: string;
+  turnaroundAt: string;
+  expectedReturn: string;
+  emergencyContact: { name: string; phone: string };
+}
+
+interface TripPlanState {
+  plans: StoredTripPlan[];
+
+  // Actions
+  initialize: () => Promise<void>;
+  syncWithSupabase: () => Promise<void>;
+  createPlan: (input: NewTripPlan) => StoredTripPlan;
+  checkIn: (
+    id: string,
+    checkIn: { by: string; note?: string; position?: TripPosition; expectedReturn?: string }
+  ) => void;
+  markReturned: (id: string) => void;
+  cancelPlan: (id: string) => void;
+  getActivePlan: () => StoredTripPlan | undefined;
+}
+
+function saveLocal(plans: StoredTripPlan[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(plans));
+  } catch {
+    // localStorage not available
+  }
+}
+
+/**
+ * Convert Supabase row to StoredTripPlan
+ */
+function fromSupabasePlan(row: TripPlanRow): StoredTripPlan {
+  return {
+    id: row.id,
+    routeId: row.route_id,
+    routeName: row.route_name,
+    region: row.region,
+    party: row.party,
+    plannedStart: row.planned_start,
+    turnaroundAt: row.turnaround_at,
+    expectedReturn: row.expected_return,
+    emergencyContact: { name: row.emergency_contact_name, phone: row.emergency_contact_phone },
+    status: row.status,
+    checkIns: row.check_ins,
+    lastPosition: row.last_position ?? undefined,
+    escalatedAt: row.escalated_at ?? undefined,
+    checkInToken: row.check_in_token,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    synced: true,
+    serverUpdatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convert a new plan to its first insert (server-managed escalation columns left out)
+ */
+function toSupabaseInsert(plan: TripPlan, userId: string): TripPlanInsert {
+  return {
+    id: plan.id,
+    user_id: userId,
+    route_id: plan.routeId,
+    route_name: plan.routeName,
+    region: plan.region,
+    party: plan.party,
+    planned_start: plan.plannedStart,
+    turnaround_at: plan.turnaroundAt,
+    expected_return: plan.expectedReturn,
+    emergency_contact_name: plan.emergencyContact.name,
+    emergency_contact_phone: plan.emergencyContact.phone,
+    status: plan.status,
+    check_ins: plan.checkIns,
+    last_position: plan.lastPosition ?? null,
+    created_at: plan.createdAt,
+    updated_at: plan.updatedAt,
+  };
+}
+
+/**
+ * Changes the server does not have yet; plans stored before changes were
+ * tracked resend all their check-ins (the server skips known ones)
+ */
+function pendingChanges(plan: StoredTripPlan): PendingTripChanges {
+  if (plan.pending) return plan.pending;
+  if (plan.synced) return { checkIns: [] };
+  return {
+    checkIns: plan.checkIns.map((checkIn) => ({ checkIn })),
+    ...((plan.status === 'returned' || plan.status === 'cancelled') && { status: plan.status }),
+  };
+}
+
+async function fetchPlan(id: string): Promise<TripPlanRow> {
+  const { data, error } = await supabase.from('trip_plans').select('*').eq('id', id).single();
+  if (error || !data) throw error ?? new Error('Trip plan not found');
+  return data;
+}
+
+/**
+ * Save a plan's local changes
+ *
+ * A new plan is inserted whole. After that its check-ins go through
+ * trip-check-in, which appends them next to members' check-ins, and a
+ * return or cancellation is a status update applied only to the server copy
+ * the device last saw; when the plan changed meanwhile it is read again and
+ * the update retried.
+ *
+ * @returns The server copy, null when logged out or the request fails
+ */
+async function pushPlan(plan: StoredTripPlan): Promise<StoredTripPlan | null> {
+  if (!isSupabaseConfigured()) return null;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  try {
+    if (!plan.serverUpdatedAt) {
+      const { data, error } = await supabase
+        .from('trip_plans')
+        .insert(toSupabaseInsert(plan, user.id))
+        .select('*')
+        .single();
+      if (data) return fromSupabasePlan(data);
+      // Saved before the server copy was tracked: send the changes instead
+      if (error?.code !== UNIQUE_VIOLATION) throw error;
+    }
+
+    const pending = pendingChanges(plan);
+    let server: Pick<TripPlanRow, 'updated_at' | 'check_in_token'> | null = plan.serverUpdatedAt && plan.checkInToken
+      ? { updated_at: plan.serverUpdatedAt, check_in_token: plan.checkInToken }
+      : null;
+
+    if (pending.checkIns.length > 0) {
+      server ??= await fetchPlan(plan.id);
+      const { data, error } = await callEdgeFunction<{ updatedAt: string }>('trip-check-in', {
+        token: server.check_in_token,
+        checkIns: pending.checkIns.map(({ checkIn, expectedReturn }) => ({ ...checkIn, expectedReturn })),
+      });
+      if (error || !data) throw new Error(error ?? 'Empty response');
+      server = { ...server, updated_at: data.updatedAt };
+    }
+
+    for (let attempt = 1; pending.status; attempt++) {
+      server ??= await fetchPlan(plan.id);
+      const { data, error } = await supabase
+        .from('trip_plans')
+        .update({ status: pending.status, updated_at: new Date().toISOString() })
+        .eq('id', plan.id)
+        .eq('updated_at', server.updated_at)
+        .select('*');
+      if (error) throw error;
+      if (data.length > 0) return fromSupabasePlan(data[0]);
+
+      // Changed on the server meanwhile (a member checked in): read it again
+      const row = await fetchPlan(plan.id);
+      if (row.status === pending.status) return fromSupabasePlan(row);
+      if (attempt === MAX_UPDATE_ATTEMPTS) throw new Error('Trip plan keeps changing');
+      server = row;
+    }
+
+    return fromSupabasePlan(await fetchPlan(plan.id));
+  } catch (error) {
+    console.warn('Failed to save trip plan to Supabase:', error);
+    return null;
+  }
+}
+
+export const useTripPlanStore = create<TripPlanState>((set, get) => {
+  /** Replace one plan, persist locally, then try the server */
+  const commit = (plan: Omit<StoredTripPlan, 'synced'>) => {
+    const stored: StoredTripPlan = { ...plan, updatedAt: new Date().toISOString(), synced: false };
+    const plans = [stored, ...get().plans.filter((p) => p.id !== plan.id)]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, MAX_PLANS);
+    set({ plans });
+    saveLocal(plans);
+
+    void pushPlan(stored).then((saved) => {
+      if (!saved) return;
+      const synced = get().plans.map((p) => {
+        if (p.id !== stored.id) return p;
+        // Changed again meanwhile: that change is pushed on its own
+        return p.updatedAt === stored.updatedAt
+          ? saved
+          : { ...p, serverUpdatedAt: saved.serverUpdatedAt, checkInToken: saved.checkInToken };
+      });
+      set({ plans: synced });
+      saveLocal(synced);
+    });
+    return stored;
+  };
+
+  const update = (id: string, change: (plan: StoredTripPlan) => Omit<StoredTripPlan, 'synced'>) => {
+    const plan = get().plans.find((p) => p.id === id);
+    if (plan) commit(change(plan));
+  };
+
+  return {
+    plans: [],
+
+    initialize: async () => {
+      try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) {
+          set({ plans: JSON.parse(saved) as StoredTripPlan[] });
+        }
+      } catch {
+        // localStorage not available or invalid JSON
+      }
+
+      if (isSupabaseConfigured()) {
+        await get().syncWithSupabase();
+      }
+    },
+
+    syncWithSupabase: async () => {
+      if (!isSupabaseConfigured()) return;
+
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        // Push plans changed while offline or logged out
+        const saved = new Map<string, StoredTripPlan>();
+        const pushedVersion = new Map<string, string>();
+        for (const plan of get().plans.filter((p) => !p.synced)) {
+          const copy = await pushPlan(plan);
+          if (copy) {
+            saved.set(plan.id, copy);
+            pushedVersion.set(plan.id, plan.updatedAt);
+          }
+        }
+
+        const { data, error } = await supabase
+          .from('trip_plans')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(MAX_PLANS);
+
+        if (error) {
+          console.error('Trip plans sync error:', error);
+          return;
+        }
+
+        // The server copy wins (members' check-ins, overdue status); changes
+        // that could not be saved stay on top of it
+        const merged = new Map<string, StoredTripPlan>();
+        for (const row of data || []) {
+          merged.set(row.id, fromSupabasePlan(row));
+        }
+        for (const local of get().plans) {
+          const server = merged.get(local.id);
+          const unsaved = !local.synced && pushedVersion.get(local.id) !== local.updatedAt;
+          if (!unsaved) {
+            if (!server) merged.set(local.id, saved.get(local.id) ?? local);
+            continue;
+          }
+
+          const pending = pendingChanges(local);
+          merged.set(
+            local.id,
+            server
+              ? { ...mergeTripPlan(server, pending), updatedAt: local.updatedAt, synced: false, pending }
+              : local
+          );
+        }
+
+        const plans = [...merged.values()]
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(0, MAX_PLANS);
+        set({ plans });
+        saveLocal(plans);
+      } catch (error) {
+        console.error('Failed to sync trip plans with Supabase:', error);
+      }
+    },
+
+    createPlan: (input) => {
+      const now = new Date().toISOString();
+      return commit({
+        ...input,
+        id: crypto.randomUUID(),
+        status: 'planned',
+        checkIns: [],
+        createdAt: now,
+        updatedAt: now,
+        pending: { checkIns: [] },
+      });
+    },
+
+    checkIn: (id, { by, note, position, expectedReturn }) => {
+      const entry: TripCheckIn = {
+        at: new Date().toISOString(),
+        by,
+        ...(note && { note }),
+        ...(position && { position }),
+      };
+      update(id, (plan) => {
+        const pending = pendingChanges(plan);
+        return {
+          ...plan,
+          // A check-in from an overdue party means they are fine
+          status: 'active',
+          checkIns: [...plan.checkIns, entry],
+          lastPosition: position ? { ...position, at: entry.at } : plan.lastPosition,
+          expectedReturn: returnAfterCheckIn(plan.expectedReturn, entry.at, expectedReturn),
+          pending: { ...pending, checkIns: [...pending.checkIns, { checkIn: entry, expectedReturn }] },
+        };
+      });
+    },
+
+    markReturned: (id) => {
+      update(id, (plan) => ({ ...plan, status: 'returned', pending: { ...pendingChanges(plan), status: 'returned' } }));
+    },
+
+    cancelPlan: (id) => {
+      update(id, (plan) => ({ ...plan, status: 'cancelled', pending: { ...pendingChanges(plan), status: 'cancelled' } }));
+    },
+
+    getActivePlan: () => get().plans.find(isTripOpen),
+  };
+});
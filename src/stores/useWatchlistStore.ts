@@ -0,0 +1,212 @@
+/**
+ * Watchlist Store
+ *
+ * Starred routes and locations with alert rules and the in-app
+ * notifications they raised. Kept in localStorage and synced to the
+ * profile_watchlists table for authenticated users; notifications stay
+ * on the device.
+ *
+ * @module stores/useWatchlistStore
+ */
+
+import { create } from 'zustand';
+import { supabase, isSupabaseConfigured, ProfileWatchlistRow, ProfileWatchlistInsert } from '../lib/supabase';
+import type { AlertCondition, AlertNotification, AlertRule, WatchItem } from '../types';
+import { evaluateAlertRules, type AlertContext } from '../utils/alerts';
+
+const STORAGE_KEY = 'watchlist';
+
+/** Notifications kept in the list */
+const MAX_NOTIFICATIONS = 50;
+
+interface WatchlistState {
+  items: WatchItem[];
+  rules: AlertRule[];
+  notifications: AlertNotification[];
+  /** Last change of items or rules, compared with the server copy on sync */
+  updatedAt: string | null;
+
+  // Actions
+  initialize: () => Promise<void>;
+  syncWithSupabase: () => Promise<void>;
+  toggleWatch: (item: Omit<WatchItem, 'addedAt'>) => void;
+  isWatched: (id: string) => boolean;
+  addRule: (rule: { target: string; targetName: string; condition: AlertCondition }) => void;
+  removeRule: (id: string) => void;
+  toggleRule: (id: string) => void;
+  evaluate: (context: AlertContext) => void;
+  markAllRead: () => void;
+  clearNotifications: () => void;
+}
+
+type StoredWatchlist = Pick<WatchlistState, 'items' | 'rules' | 'notifications' | 'updatedAt'>;
+
+function saveLocal(state: StoredWatchlist): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      items: state.items,
+      rules: state.rules,
+      notifications: state.notifications,
+      updatedAt: state.updatedAt,
+    }));
+  } catch {
+    // localStorage not available
+  }
+}
+
+/**
+ * Push items and rules to the profile (no-op when logged out)
+ */
+async function pushToSupabase(state: StoredWatchlist): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const row: ProfileWatchlistInsert = {
+    user_id: user.id,
+    items: state.items,
+    rules: state.rules,
+    updated_at: state.updatedAt ?? new Date().toISOString(),
+  };
+  const { error } = await supabase
+    .from('profile_watchlists')
+    .upsert(row);
+
+  if (error) {
+    console.warn('Failed to save watchlist to Supabase:', error);
+  }
+}
+
+export const useWatchlistStore = create<WatchlistState>((set, get) => {
+  /** Apply a change to items/rules, then persist locally and remotely */
+  const commit = (change: Partial<Pick<WatchlistState, 'items' | 'rules'>>) => {
+    set({ ...change, updatedAt: new Date().toISOString() });
+    saveLocal(get());
+    void pushToSupabase(get());
+  };
+
+  return {
+    items: [],
+    rules: [],
+    notifications: [],
+    updatedAt: null,
+
+    initialize: async () => {
+      try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) {
+          const parsed = JSON.parse(saved) as Partial<StoredWatchlist>;
+          set({
+            items: parsed.items ?? [],
+            rules: parsed.rules ?? [],
+            notifications: parsed.notifications ?? [],
+            updatedAt: parsed.updatedAt ?? null,
+          });
+        }
+      } catch {
+        // localStorage not available or invalid JSON
+      }
+
+      if (isSupabaseConfigured()) {
+        await get().syncWithSupabase();
+      }
+    },
+
+    syncWithSupabase: async () => {
+      if (!isSupabaseConfigured()) return;
+
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const { data, error } = await supabase
+          .from('profile_watchlists')
+          .select('*')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Watchlist sync error:', error);
+          return;
+        }
+
+        // Newer copy wins; a device that never changed anything takes the server's
+        const server = data as ProfileWatchlistRow | null;
+        const { updatedAt } = get();
+        if (server && (!updatedAt || server.updated_at > updatedAt)) {
+          set({ items: server.items, rules: server.rules, updatedAt: server.updated_at });
+          saveLocal(get());
+        } else if (updatedAt) {
+          await pushToSupabase(get());
+        }
+      } catch (error) {
+        console.error('Failed to sync watchlist with Supabase:', error);
+      }
+    },
+
+    toggleWatch: (item) => {
+      const { items, rules } = get();
+      if (items.some((i) => i.id === item.id)) {
+        // Unstarring drops the alerts on it as well
+        commit({
+          items: items.filter((i) => i.id !== item.id),
+          rules: rules.filter((r) => r.target !== item.id),
+        });
+      } else {
+        commit({ items: [...items, { ...item, addedAt: new Date().toISOString() }] });
+      }
+    },
+
+    isWatched: (id) => get().items.some((i) => i.id === id),
+
+    addRule: ({ target, targetName, condition }) => {
+      const rule: AlertRule = {
+        id: crypto.randomUUID(),
+        target,
+        targetName,
+        condition,
+        enabled: true,
+        createdAt: new Date().toISOString(),
+      };
+      commit({ rules: [...get().rules, rule] });
+    },
+
+    removeRule: (id) => {
+      commit({ rules: get().rules.filter((r) => r.id !== id) });
+    },
+
+    toggleRule: (id) => {
+      commit({
+        rules: get().rules.map((r) => (r.id === id ? { ...r, enabled: !r.enabled } : r)),
+      });
+    },
+
+    evaluate: (context) => {
+      const { rules, notifications } = get();
+      if (rules.length === 0) return;
+
+      const result = evaluateAlertRules(rules, context);
+      const changed = result.rules.some((rule, i) => rule !== rules[i]);
+      if (!changed) return;
+
+      if (result.notifications.length > 0) {
+        set({
+          notifications: [...result.notifications, ...notifications].slice(0, MAX_NOTIFICATIONS),
+        });
+      }
+      // Trigger state is synced so other devices do not repeat the notification
+      commit({ rules: result.rules });
+    },
+
+    markAllRead: () => {
+      set({ notifications: get().notifications.map((n) => ({ ...n, read: true })) });
+      saveLocal(get());
+    },
+
+    clearNotifications: () => {
+      set({ notifications: [] });
+      saveLocal(get());
+    },
+  };
+});
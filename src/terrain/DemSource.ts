@@ -0,0 +1,145 @@
+/**
+ * DEM Source
+ *
+ * Loads SRTM .hgt tiles from the app's static files (public/dem) or a
+ * configured URL, keeps them in the browser Cache Storage for offline
+ * use, and answers elevation/slope queries across tile borders.
+ *
+ * @module terrain/DemSource
+ */
+
+import { HgtTile, hgtTileName } from './hgt';
+
+/** Meters per degree of latitude */
+const METERS_PER_DEGREE = 111_320;
+
+/** Cache Storage bucket for downloaded tiles */
+const CACHE_NAME = 'skitour-scout-dem';
+
+/**
+ * Slope and aspect at a point
+ */
+export interface SlopeSample {
+  /** Slope angle in degrees */
+  slope: number;
+  /** Downslope direction in compass degrees (0 = N), NaN on flat ground */
+  aspect: number;
+  /** Elevation in meters */
+  elevation: number;
+}
+
+/**
+ * Elevation model backed by SRTM tiles
+ */
+export class DemSource {
+  private readonly baseUrl: string;
+  /** Loaded tiles; null marks a tile known to be unavailable */
+  private tiles = new Map<string, HgtTile | null>();
+  private pending = new Map<string, Promise<HgtTile | null>>();
+
+  constructor(baseUrl: string = import.meta.env.VITE_DEM_URL || '/dem') {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  /**
+   * Load a tile by name (cached, concurrent requests share one fetch)
+   */
+  loadTile(name: string): Promise<HgtTile | null> {
+    if (this.tiles.has(name)) {
+      return Promise.resolve(this.tiles.get(name) ?? null);
+    }
+
+    let request = this.pending.get(name);
+    if (!request) {
+      request = this.fetchTile(name)
+        .then((buffer) => (buffer ? new HgtTile(name, buffer) : null))
+        .catch((error) => {
+          console.warn(`[DemSource] Tile ${name} unavailable:`, error);
+          return null;
+        })
+        .then((tile) => {
+          this.tiles.set(name, tile);
+          this.pending.delete(name);
+          return tile;
+        });
+      this.pending.set(name, request);
+    }
+
+    return request;
+  }
+
+  /**
+   * Load every tile touched by the given points
+   * Returns false when any of them is unavailable.
+   */
+  async loadTilesFor(points: { lat: number; lng: number }[]): Promise<boolean> {
+    const names = new Set(points.map((p) => hgtTileName(p.lat, p.lng)));
+    const tiles = await Promise.all([...names].map((name) => this.loadTile(name)));
+    return tiles.every((tile) => tile !== null);
+  }
+
+  /**
+   * Names of the tiles covering the given points
+   */
+  tileNamesFor(points: { lat: number; lng: number }[]): string[] {
+    return [...new Set(points.map((p) => hgtTileName(p.lat, p.lng)))];
+  }
+
+  /**
+   * Elevation at a point from already loaded tiles (NaN when not loaded)
+   */
+  elevationAt(lat: number, lng: number): number {
+    const tile = this.tiles.get(hgtTileName(lat, lng));
+    return tile ? tile.elevationAt(lat, lng) : NaN;
+  }
+
+  /**
+   * Slope and aspect at a point (Horn's method over a 3×3 window of
+   * grid cells). Returns null when elevations are missing.
+   */
+  slopeAt(lat: number, lng: number): SlopeSample | null {
+    const tile = this.tiles.get(hgtTileName(lat, lng));
+    if (!tile) return null;
+
+    const step = tile.cellSize;
+    const dy = step * METERS_PER_DEGREE;
+    const dx = step * METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180);
+
+    // z[row][col], row 0 = north
+    const z = [1, 0, -1].map((r) =>
+      [-1, 0, 1].map((c) => this.elevationAt(lat + r * step, lng + c * step))
+    );
+    if (z.flat().some((v) => Number.isNaN(v))) {
+      return null;
+    }
+
+    const dzdx = ((z[0][2] + 2 * z[1][2] + z[2][2]) - (z[0][0] + 2 * z[1][0] + z[2][0])) / (8 * dx);
+    const dzdy = ((z[0][0] + 2 * z[0][1] + z[0][2]) - (z[2][0] + 2 * z[2][1] + z[2][2])) / (8 * dy);
+    const gradient = Math.hypot(dzdx, dzdy);
+
+    return {
+      slope: (Math.atan(gradient) * 180) / Math.PI,
+      aspect: gradient > 0 ? ((Math.atan2(-dzdx, -dzdy) * 180) / Math.PI + 360) % 360 : NaN,
+      elevation: z[1][1],
+    };
+  }
+
+  private async fetchTile(name: string): Promise<ArrayBuffer | null> {
+    const url = `${this.baseUrl}/${name}.hgt`;
+    const cache = typeof caches !== 'undefined' ? await caches.open(CACHE_NAME) : undefined;
+
+    const cached = await cache?.match(url);
+    if (cached) {
+      return cached.arrayBuffer();
+    }
+
+    const response = await fetch(url);
+    // SPA fallback serves index.html for missing static files
+    if (!response.ok || response.headers.get('content-type')?.includes('text/html')) {
+      return null;
+    }
+
+    await cache?.put(url, response.clone());
+    return response.arrayBuffer();
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Terrain Analyzer
+ *
+ * Samples slope angle and aspect along a route's track and flags
+ * stretches steeper than 30°, 35° and 40°. Routes without a track are
+ * not analyzed: the straight start-summit line crosses terrain the route
+ * does not, so its slopes would mislead the avalanche rules.
+ *
+ * SRTM resolution (30-90 m) smooths short steep steps, so the profile
+ * describes the slopes a route crosses rather than every rollover.
+ *
+ * @module terrain/TerrainAnalyzer
+ */
+
+import type { Aspect, Route, SlopeThreshold, SteepSegment, TerrainProfile } from '@/types';
+import { DemSource } from './DemSource';
+
+/**
+ * Terrain analysis settings
+ */
+export const TERRAIN_CONFIG = {
+  /** Distance between sampled points (m) */
+  SAMPLE_SPACING_M: 30,
+  /** Slope thresholds flagged, ascending */
+  THRESHOLDS: [30, 35, 40] as SlopeThreshold[],
+} as const;
+
+const ASPECTS: Aspect[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+interface SampledPoint {
+  lat: number;
+  lng: number;
+  slope: number;
+  /** Downslope direction in degrees, NaN on flat ground */
+  aspect: number;
+}
+
+function toAspect(degrees: number): Aspect {
+  return ASPECTS[Math.round(degrees / 45) % 8];
+}
+
+/**
+ * Distance between two points in meters (equirectangular)
+ */
+function distanceM(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = Math.PI / 180;
+  const x = (b.lng - a.lng) * toRad * Math.cos(((a.lat + b.lat) / 2) * toRad);
+  const y = (b.lat - a.lat) * toRad;
+  return Math.sqrt(x * x + y * y) * 6_371_000;
+}
+
+/**
+ * Points every SAMPLE_SPACING_M along the route track, null without a track
+ */
+export function sampleRouteTrack(route: Route): { lat: number; lng: number }[] | null {
+  const line = route.track;
+  if (!line || line.length < 2) return null;
+
+  const points: { lat: number; lng: number }[] = [{ lat: line[0].lat, lng: line[0].lng }];
+  let carried = 0;
+
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1];
+    const b = line[i];
+    const length = distanceM(a, b);
+    let position = TERRAIN_CONFIG.SAMPLE_SPACING_M - carried;
+
+    while (position <= length) {
+      const f = position / length;
+      points.push({ lat: a.lat + (b.lat - a.lat) * f, lng: a.lng + (b.lng - a.lng) * f });
+      position += TERRAIN_CONFIG.SAMPLE_SPACING_M;
+    }
+    carried = length - (position - TERRAIN_CONFIG.SAMPLE_SPACING_M);
+  }
+
+  return points;
+}
+
+/**
+ * Dominant aspect of a set of samples (circular mean)
+ */
+function meanAspect(samples: SampledPoint[]): Aspect {
+  let x = 0;
+  let y = 0;
+  for (const s of samples) {
+    if (Number.isNaN(s.aspect)) continue;
+    x += Math.sin((s.aspect * Math.PI) / 180);
+    y += Math.cos((s.aspect * Math.PI) / 180);
+  }
+  return toAspect(((Math.atan2(x, y) * 180) / Math.PI + 360) % 360);
+}
+
+/**
+ * Highest threshold a slope reaches, or null below the lowest one
+ */
+function thresholdFor(slope: number): SlopeThreshold | null {
+  let reached: SlopeThreshold | null = null;
+  for (const threshold of TERRAIN_CONFIG.THRESHOLDS) {
+    if (slope >= threshold) reached = threshold;
+  }
+  return reached;
+}
+
+/**
+ * Build a terrain profile from slope samples
+ */
+export function buildTerrainProfile(samples: SampledPoint[], source: string): TerrainProfile {
+  const spacing = TERRAIN_CONFIG.SAMPLE_SPACING_M;
+  const steepLength = { 30: 0, 35: 0, 40: 0 } as Record<SlopeThreshold, number>;
+  const aspectCounts = new Map<Aspect, number>();
+  const segments: SteepSegment[] = [];
+  let run: SampledPoint[] = [];
+
+  const closeRun = () => {
+    if (run.length === 0) return;
+    const maxSlope = Math.max(...run.map((s) => s.slope));
+    segments.push({
+      threshold: thresholdFor(maxSlope)!,
+      from: { lat: run[0].lat, lng: run[0].lng },
+      to: { lat: run[run.length - 1].lat, lng: run[run.length - 1].lng },
+      length: run.length * spacing,
+      maxSlope: Math.round(maxSlope),
+      aspect: meanAspect(run),
+    });
+    run = [];
+  };
+
+  for (const sample of samples) {
+    const threshold = thresholdFor(sample.slope);
+    if (threshold === null) {
+      closeRun();
+      continue;
+    }
+
+    for (const t of TERRAIN_CONFIG.THRESHOLDS) {
+      if (sample.slope >= t) steepLength[t] += spacing;
+    }
+    if (!Number.isNaN(sample.aspect)) {
+      const aspect = toAspect(sample.aspect);
+      aspectCounts.set(aspect, (aspectCounts.get(aspect) ?? 0) + 1);
+    }
+    run.push(sample);
+  }
+  closeRun();
+
+  return {
+    samples: samples.length,
+    maxSlope: Math.round(Math.max(0, ...samples.map((s) => s.slope))),
+    steepLength,
+    steepAspects: [...aspectCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([aspect]) => aspect),
+    segments,
+    source,
+  };
+}
+
+/**
+ * Computes and caches terrain profiles for routes
+ *
+ * @example
+ * ```typescript
+ * const analyzer = new TerrainAnalyzer();
+ * await analyzer.analyzeRoutes(routes);
+ * const terrain = analyzer.getProfile(route);
+ * ```
+ */
+export class TerrainAnalyzer {
+  private dem: DemSource;
+  private profiles = new Map<string, TerrainProfile | null>();
+
+  constructor(dem: DemSource = new DemSource()) {
+    this.dem = dem;
+  }
+
+  /**
+   * Analyze a route; null when it has no track or the DEM does not cover it
+   */
+  async analyze(route: Route): Promise<TerrainProfile | null> {
+    const cached = this.profiles.get(this.cacheKey(route));
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const points = sampleRouteTrack(route);
+    let profile: TerrainProfile | null = null;
+
+    if (points && (await this.dem.loadTilesFor(points))) {
+      const samples: SampledPoint[] = [];
+      for (const point of points) {
+        const slope = this.dem.slopeAt(point.lat, point.lng);
+        if (slope) {
+          samples.push({ ...point, slope: slope.slope, aspect: slope.aspect });
+        }
+      }
+      if (samples.length > 0) {
+        const source = `SRTM ${this.dem.tileNamesFor(points).join(', ')}`;
+        profile = buildTerrainProfile(samples, source);
+      }
+    }
+
+    this.profiles.set(this.cacheKey(route), profile);
+    return profile;
+  }
+
+  /**
+   * Analyze all routes; missing tiles leave routes without a profile
+   */
+  async analyzeRoutes(routes: Route[]): Promise<void> {
+    await Promise.all(routes.map((route) => this.analyze(route)));
+  }
+
+  /**
+   * Cached profile for a route (undefined if not analyzed or not covered)
+   */
+  getProfile(route: Route): TerrainProfile | undefined {
+    return this.profiles.get(this.cacheKey(route)) ?? undefined;
+  }
+
+  /** Geometry changes (re-imported track) invalidate the profile */
+  private cacheKey(route: Route): string {
+    return `${route.id}:${route.track?.length ?? 0}`;
+  }
+}
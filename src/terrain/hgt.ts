@@ -0,0 +1,98 @@
+/**
+ * SRTM .hgt Tile
+ *
+ * An .hgt file covers one 1°×1° cell named after its south-west corner
+ * (e.g. N49E019). It holds a square grid of big-endian signed 16-bit
+ * elevations in meters, rows from north to south: 1201×1201 for
+ * 3-arc-second tiles, 3601×3601 for 1-arc-second tiles.
+ *
+ * @module terrain/hgt
+ */
+
+/** Marker for missing data in SRTM tiles */
+const VOID_VALUE = -32768;
+
+/**
+ * Tile name for the cell containing a point (e.g. "N49E019")
+ */
+export function hgtTileName(lat: number, lng: number): string {
+  const latFloor = Math.floor(lat);
+  const lngFloor = Math.floor(lng);
+  const ns = latFloor >= 0 ? 'N' : 'S';
+  const ew = lngFloor >= 0 ? 'E' : 'W';
+  return `${ns}${String(Math.abs(latFloor)).padStart(2, '0')}${ew}${String(Math.abs(lngFloor)).padStart(3, '0')}`;
+}
+
+/**
+ * Parsed elevation tile
+ */
+export class HgtTile {
+  readonly name: string;
+  /** South-west corner */
+  readonly lat: number;
+  readonly lng: number;
+  /** Samples per row/column */
+  readonly size: number;
+  private readonly data: Int16Array;
+
+  constructor(name: string, buffer: ArrayBuffer) {
+    const match = /^([NS])(\d{2})([EW])(\d{3})$/i.exec(name);
+    if (!match) {
+      throw new Error(`Invalid HGT tile name: ${name}`);
+    }
+
+    const size = Math.sqrt(buffer.byteLength / 2);
+    if (!Number.isInteger(size)) {
+      throw new Error(`Invalid HGT tile size: ${buffer.byteLength} bytes`);
+    }
+
+    this.name = name.toUpperCase();
+    this.lat = parseInt(match[2], 10) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+    this.lng = parseInt(match[4], 10) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+    this.size = size;
+
+    // Convert from big-endian once
+    const view = new DataView(buffer);
+    this.data = new Int16Array(size * size);
+    for (let i = 0; i < this.data.length; i++) {
+      this.data[i] = view.getInt16(i * 2, false);
+    }
+  }
+
+  /** Grid spacing in degrees */
+  get cellSize(): number {
+    return 1 / (this.size - 1);
+  }
+
+  /**
+   * Whether the point falls inside this tile
+   */
+  contains(lat: number, lng: number): boolean {
+    return lat >= this.lat && lat <= this.lat + 1 && lng >= this.lng && lng <= this.lng + 1;
+  }
+
+  private sample(row: number, col: number): number {
+    const value = this.data[row * this.size + col];
+    return value === VOID_VALUE ? NaN : value;
+  }
+
+  /**
+   * Bilinearly interpolated elevation (NaN for voids or points outside the tile)
+   */
+  elevationAt(lat: number, lng: number): number {
+    if (!this.contains(lat, lng)) {
+      return NaN;
+    }
+
+    const row = (this.lat + 1 - lat) * (this.size - 1);
+    const col = (lng - this.lng) * (this.size - 1);
+    const r0 = Math.min(Math.floor(row), this.size - 2);
+    const c0 = Math.min(Math.floor(col), this.size - 2);
+    const dr = row - r0;
+    const dc = col - c0;
+
+    const top = this.sample(r0, c0) * (1 - dc) + this.sample(r0, c0 + 1) * dc;
+    const bottom = this.sample(r0 + 1, c0) * (1 - dc) + this.sample(r0 + 1, c0 + 1) * dc;
+    return top * (1 - dr) + bottom * dr;
+  }
+}
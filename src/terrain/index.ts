@@ -0,0 +1,13 @@
+/**
+ * Terrain Analysis Exports
+ * @module terrain
+ */
+
+export { HgtTile, hgtTileName } from './hgt';
+export { DemSource, type SlopeSample } from './DemSource';
+export {
+  TerrainAnalyzer,
+  TERRAIN_CONFIG,
+  sampleRouteTrack,
+  buildTerrainProfile,
+} from './TerrainAnalyzer';
@@ -141,6 +141,20 @@ export function searchConfidence(
   };
 }
 
+/**
+ * Create confidence metadata for values derived from other data (Polish)
+ */
+export function calculatedConfidence(sourceName: string, notes?: string): DataConfidence {
+  return {
+    level: calculateConfidence('calculated', 0),
+    sourceType: 'calculated',
+    sourceName,
+    fetchedAt: new Date().toISOString(),
+    ageHours: 0,
+    notes: notes ?? 'Wartość wyliczona, nie pochodzi z oficjalnego źródła',
+  };
+}
+
 /**
  * Create confidence metadata for AI-generated content (Polish)
  */
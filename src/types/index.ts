@@ -5,6 +5,7 @@
 
 // Re-export confidence types
 export * from './confidence';
+import type { ConfidenceLevel, DataConfidence } from './confidence';
 
 // Re-export resort types
 export * from './resort';
@@ -26,6 +27,17 @@ export type WeatherCondition =
 /** Route difficulty grades */
 export type RouteDifficulty = 'easy' | 'moderate' | 'difficult' | 'expert';
 
+/**
+ * Avalanche Terrain Exposure Scale class
+ * simple: mostly low-angle or forested, little avalanche terrain
+ * challenging: well-defined avalanche paths, options to avoid them
+ * complex: multiple overlapping paths, few options to reduce exposure
+ */
+export type AtesClass = 'simple' | 'challenging' | 'complex';
+
+/** Outcome of the danger level × ATES decision matrix */
+export type AtesDecision = 'go' | 'careful' | 'no-go';
+
 /** Aspect/exposure of slopes */
 export type Aspect = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
 
@@ -57,6 +69,57 @@ export interface WeatherData {
   timestamp: string;
   /** Data source */
   source: string;
+  /** Model agreement for the day (ensemble mode only) */
+  ensemble?: EnsembleDay;
+  /** Confidence, set from the model spread in ensemble mode */
+  confidence?: DataConfidence;
+  /** Nearest river gauge (IMGW hydro stations) */
+  hydro?: HydroReading;
+}
+
+/**
+ * River gauge reading near a weather point
+ */
+export interface HydroReading {
+  /** Gauge station name */
+  station: string;
+  /** River name */
+  river?: string;
+  /** Water level in cm */
+  waterLevel: number;
+  /** Water temperature in Celsius */
+  waterTemperature?: number;
+  /** Measurement time as reported by the station */
+  measuredAt: string;
+}
+
+/**
+ * Mean and spread of one variable across forecast models
+ */
+export interface EnsembleStat {
+  mean: number;
+  min: number;
+  max: number;
+  /** max - min */
+  spread: number;
+}
+
+/**
+ * Multi-model forecast for one day at one point
+ */
+export interface EnsembleDay {
+  /** Date (YYYY-MM-DD, local) */
+  date: string;
+  /** Models with complete data for the day */
+  models: string[];
+  /** Daily snowfall (cm) */
+  snowfall: EnsembleStat;
+  /** Daily maximum wind (km/h) */
+  windSpeed: EnsembleStat;
+  /** Daily maximum freezing level (m) */
+  freezingLevel: EnsembleStat;
+  /** Worst rating of the three spreads */
+  confidence: ConfidenceLevel;
 }
 
 /**
@@ -65,6 +128,10 @@ export interface WeatherData {
 export interface ElevationWeatherPoint {
   /** Location name */
   name: string;
+  /** Latitude */
+  latitude: number;
+  /** Longitude */
+  longitude: number;
   /** Altitude in meters */
   altitude: number;
   /** Temperature in Celsius */
@@ -80,7 +147,7 @@ export interface ElevationWeatherPoint {
 }
 
 /**
- * Daily forecast point (simplified for tomorrow)
+ * Daily forecast point
  */
 export interface DailyForecastPoint {
   /** Temperature high */
@@ -96,7 +163,7 @@ export interface DailyForecastPoint {
 }
 
 /**
- * Tomorrow's forecast for elevation pair
+ * Daily forecast for elevation pair
  */
 export interface ElevationForecast {
   /** Valley forecast */
@@ -129,8 +196,163 @@ export interface ElevationWeather {
   source: string;
   /** Tomorrow's forecast */
   tomorrow?: ElevationForecast;
+  /** Daily forecast for the next days (index 0 = today) */
+  forecast?: ElevationForecast[];
+  /** Multi-model summit forecast for the first days (ensemble mode only) */
+  ensemble?: EnsembleDay[];
+  /** River gauge near the valley point */
+  hydro?: HydroReading;
+}
+
+/**
+ * Hourly forecast point (Open-Meteo hourly data)
+ */
+export interface HourlyForecastPoint {
+  /** Local time as returned by the API ("2026-02-01T06:00") */
+  time: string;
+  /** Temperature in Celsius at the requested elevation */
+  temperature: number;
+  /** Freezing level (m) */
+  freezingLevel: number;
+  /** Wind speed in km/h */
+  windSpeed: number;
+  /** Wind gusts in km/h */
+  windGusts: number;
+  /** Total cloud cover percentage */
+  cloudCover: number;
 }
 
+/**
+ * Past hourly weather (Open-Meteo past_days), used for hazard estimates
+ */
+export interface WeatherHistoryPoint {
+  /** UTC time ("2026-02-01T06:00") */
+  time: string;
+  /** Temperature in Celsius */
+  temperature: number;
+  /** Snowfall in cm */
+  snowfall: number;
+  /** Rain in mm */
+  rain: number;
+  /** Wind speed in km/h */
+  windSpeed: number;
+  /** Direction the wind blows from, in degrees */
+  windDirection: number;
+  /** Snow depth in cm */
+  snowDepth: number;
+}
+
+/** Snowpack condition derived from the multi-day weather history */
+export type SnowpackIndicatorType =
+  | 'fresh_powder'
+  | 'powder_aging'
+  | 'wind_slab'
+  | 'melt_freeze_crust'
+  | 'rain_crust';
+
+/**
+ * Condition indicator, e.g. "wind slab likely on lee aspects"
+ */
+export interface SnowpackIndicator {
+  type: SnowpackIndicatorType;
+  /** Explanation (Polish) */
+  label: string;
+  /** Aspects the indicator applies to (unset = all) */
+  aspects?: Aspect[];
+  /** When the condition formed (UTC ISO) */
+  since: string;
+}
+
+/**
+ * Which aspects recent wind has loaded with drifted snow
+ */
+export interface WindLoading {
+  /** Hours of history analyzed */
+  hours: number;
+  /** Hours with wind able to move snow */
+  driftHours: number;
+  /** Snowfall in the analyzed period (cm) */
+  snowfall: number;
+  /** Relative loading per aspect (0-1, 1 = most loaded) */
+  loading: Record<Aspect, number>;
+  /** Aspects with significant loading, empty when no snow was moved */
+  loadedAspects: Aspect[];
+  /** Prevailing direction of the drifting wind (where it blows from) */
+  windFrom?: Aspect;
+  severity: 'none' | 'moderate' | 'strong';
+}
+
+/**
+ * Snowpack history at one elevation pair summit over the past days
+ */
+export interface SnowpackHistory {
+  /** Elevation pair name (e.g. "Kasprowy Wierch") */
+  name: string;
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  /** Days covered */
+  days: number;
+  /** Total snowfall over the period (cm) */
+  snowfallTotal: number;
+  /** Snowfall in the last 72h (cm) */
+  snowfall72h: number;
+  /** Current snow depth (cm) */
+  snowDepth: number;
+  /** Strongest hourly wind (km/h) and its direction (degrees, from) */
+  maxWind: number;
+  maxWindDirection: number;
+  /** Thaw followed by refreeze */
+  meltFreezeCycles: number;
+  /** Separate rain episodes */
+  rainEvents: number;
+  /** End of the last snowfall of at least 5 cm (UTC ISO) */
+  lastSnowfall?: string;
+  indicators: SnowpackIndicator[];
+  /** Lee-slope loading over the last 48h */
+  windLoading?: WindLoading;
+  updatedAt: string;
+}
+
+/** Why a tour window is flagged */
+export type TourWindowFlagType = 'solar_warming' | 'wind' | 'visibility' | 'short_window';
+
+/**
+ * Warning attached to a tour time window
+ */
+export interface TourWindowFlag {
+  type: TourWindowFlagType;
+  /** 'unsafe' means the window should not be used as planned */
+  severity: 'caution' | 'unsafe';
+  /** Explanation (Polish) */
+  message: string;
+}
+
+/**
+ * Planned start/turnaround/descent times for a route on a given day
+ * Times are local "HH:MM" strings for the given date.
+ */
+export interface TourWindow {
+  /** Date the window applies to (YYYY-MM-DD) */
+  date: string;
+  /** Recommended start time */
+  start: string;
+  /** Turnaround time (latest summit/top time) */
+  turnaround: string;
+  /** Window in which to ski the descent */
+  descentWindow: {
+    from: string;
+    to: string;
+  };
+  /** Warnings for this window */
+  flags: TourWindowFlag[];
+  /** False when any flag is 'unsafe' */
+  safe: boolean;
+}
+
+/** Avalanche warning service that issued a bulletin */
+export type BulletinProvider = 'topr' | 'slp' | 'hs';
+
 /**
  * Avalanche report data
  */
@@ -156,6 +378,37 @@ export interface AvalancheReport {
   source: string;
   /** Full report URL */
   reportUrl?: string;
+  /** Issuing service (unset for merged reports) */
+  provider?: BulletinProvider;
+  /** Individual bulletins when this report merges several services */
+  bulletins?: AvalancheReport[];
+  /** Provenance; sourceType 'calculated' marks an unofficial estimate */
+  confidence?: DataConfidence;
+}
+
+/**
+ * Archived bulletin for one day
+ */
+export interface BulletinHistoryEntry {
+  provider: BulletinProvider;
+  /** Day the bulletin is valid for (YYYY-MM-DD) */
+  date: string;
+  level: AvalancheLevel;
+  /** Unset for days backfilled from the bulletin page history */
+  trend?: 'increasing' | 'stable' | 'decreasing';
+  problemAspects: Aspect[];
+  problems: string[];
+  issuedAt?: string;
+}
+
+/**
+ * Point of a recorded track
+ */
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  /** Altitude in meters */
+  altitude: number;
 }
 
 /**
@@ -184,14 +437,87 @@ export interface Route {
   elevation: number;
   /** Distance in km */
   distance: number;
-  /** Difficulty grade */
+  /** Difficulty grade (physical/technical) */
   difficulty: RouteDifficulty;
+  /** Avalanche terrain exposure (ATES) */
+  ates: AtesClass;
   /** Main aspects of the route */
   aspects: Aspect[];
   /** Estimated duration in hours */
   duration: number;
   /** Route description */
   description?: string;
+  /** Track geometry (imported GPX/KML routes); required for DEM terrain analysis */
+  track?: TrackPoint[];
+  /** User-imported route (not part of the built-in route list) */
+  isCustom?: boolean;
+}
+
+/** Slope-angle thresholds flagged by terrain analysis (degrees) */
+export type SlopeThreshold = 30 | 35 | 40;
+
+/**
+ * Contiguous stretch of a route at or above a slope threshold
+ */
+export interface SteepSegment {
+  /** Highest threshold reached on this stretch */
+  threshold: SlopeThreshold;
+  /** Segment start/end coordinates */
+  from: { lat: number; lng: number };
+  to: { lat: number; lng: number };
+  /** Length along the route in meters */
+  length: number;
+  /** Steepest slope on the segment (degrees) */
+  maxSlope: number;
+  /** Dominant aspect of the segment */
+  aspect: Aspect;
+}
+
+/**
+ * Slope and aspect profile of a route computed from a DEM
+ */
+export interface TerrainProfile {
+  /** Number of points sampled along the route */
+  samples: number;
+  /** Steepest slope along the route (degrees) */
+  maxSlope: number;
+  /** Meters of route at or above each threshold */
+  steepLength: Record<SlopeThreshold, number>;
+  /** Aspects of slopes at or above 30° (avalanche terrain) */
+  steepAspects: Aspect[];
+  /** Steep stretches along the route */
+  segments: SteepSegment[];
+  /** DEM source (e.g. "SRTM N49E019") */
+  source: string;
+}
+
+/** Score categories combined into the overall condition score */
+export type ScoreCategory = 'weather' | 'avalanche' | 'snowConditions';
+
+/**
+ * Points contributed by a single scoring rule that fired
+ */
+export interface RuleContribution {
+  /** Rule identifier (e.g. "weather.wind") */
+  ruleId: string;
+  /** Human-readable explanation (Polish) */
+  label: string;
+  /** Points added (positive) or deducted (negative), after rule weighting */
+  points: number;
+}
+
+/**
+ * Score for one category with the rules that produced it
+ */
+export interface CategoryScore {
+  /** Final category score (0-100) */
+  score: number;
+  /** Starting score before any rules were applied */
+  base: number;
+  /** Rules that fired, in evaluation order */
+  contributions: RuleContribution[];
+  /** Weight of this category in the overall score (normalized, 0-1) */
+  weight: number;
 }
 
 /**
@@ -200,23 +526,80 @@ export interface Route {
 export interface EvaluatedRoute extends Route {
   /** Overall condition score (0-100) */
   conditionScore: number;
-  /** Score breakdown */
-  scoreBreakdown: {
-    weather: number;
-    avalanche: number;
-    snowConditions: number;
-    crowding: number;
-  };
+  /** Score breakdown per category */
+  scoreBreakdown: Record<ScoreCategory, CategoryScore>;
   /** AI-generated recommendation */
   recommendation: string;
   /** Risk factors identified */
   riskFactors: string[];
   /** Best time to go */
   optimalTime?: string;
+  /** Planned start/turnaround/descent window from the hourly forecast */
+  timeWindow?: TourWindow;
+  /** Slope/aspect profile from the DEM (unset when no elevation tile is available) */
+  terrain?: TerrainProfile;
+  /** Danger level × ATES decision (unset without an avalanche bulletin) */
+  atesDecision?: AtesDecision;
+  /** Munter residual risk (unset without an avalanche bulletin) */
+  munter?: MunterResult;
+  /** Bulletin the route was scored against (differs per route across the PL-SK border) */
+  avalancheSource?: string;
+  /** Forecast day this evaluation applies to (YYYY-MM-DD); unset = current conditions */
+  forecastDate?: string;
   /** Last evaluation timestamp */
   evaluatedAt: string;
 }
 
+/**
+ * Touring party used for Munter group reduction factors
+ */
+export interface MunterGroup {
+  /** Number of people */
+  size: number;
+  /** Relief spacing kept on ascent (10 m+) and descent (one at a time) */
+  spacing: boolean;
+}
+
+/**
+ * Single reduction factor of the Munter method
+ */
+export interface MunterFactor {
+  /** Factor class */
+  type: 'steepness' | 'aspect' | 'group';
+  /** Reduction value (1 = no reduction) */
+  value: number;
+  /** Explanation (Polish) */
+  label: string;
+  /** Derived from route metadata instead of measured terrain */
+  estimated?: boolean;
+}
+
+/**
+ * Residual risk from the Munter reduction method
+ * residualRisk = dangerPotential / product of factors; <= 1 is acceptable.
+ */
+export interface MunterResult {
+  /** Danger potential for the bulletin level (2, 4, 8, 16, 32) */
+  dangerPotential: number;
+  /** Reduction factors applied */
+  factors: MunterFactor[];
+  /** Product of all factors */
+  reduction: number;
+  /** Danger potential divided by the reduction */
+  residualRisk: number;
+  acceptable: boolean;
+}
+
+/**
+ * Route evaluations for a single forecast day
+ */
+export interface RouteForecastDay {
+  /** Date (YYYY-MM-DD) */
+  date: string;
+  /** Routes scored against that day's forecast */
+  routes: EvaluatedRoute[];
+}
+
 /**
  * Social media post/intel
  */
@@ -253,7 +636,7 @@ export interface AgentResult<T = unknown> {
   success: boolean;
   /** Result data if successful */
   data?: T;
-  /** Error message if failed */
+  /** Error message if failed, or why cached data was served instead */
   error?: string;
   /** Execution duration in ms */
   duration: number;
@@ -261,6 +644,12 @@ export interface AgentResult<T = unknown> {
   timestamp: string;
   /** Agent that produced the result */
   agentId: string;
+  /** Data was served from the response cache */
+  fromCache?: boolean;
+  /** Age of the cached data in ms (0 when just fetched) */
+  cacheAge?: number;
+  /** Cached data past its TTL, served while a refresh runs in the background */
+  stale?: boolean;
 }
 
 /**
@@ -268,6 +657,27 @@ export interface AgentResult<T = unknown> {
  */
 export type AgentStatus = 'idle' | 'running' | 'error' | 'disabled';
 
+/**
+ * Circuit breaker state: closed (calls pass), open (calls skipped until
+ * the cooldown ends), half_open (the next call decides)
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker of an agent's upstream
+ */
+export interface CircuitBreakerInfo {
+  state: CircuitState;
+  /** Consecutive failed runs */
+  failures: number;
+  /** When the breaker last opened */
+  openedAt?: string;
+  /** When calls are tried again */
+  retryAt?: string;
+  /** Error that opened the breaker */
+  lastError?: string;
+}
+
 /**
  * Agent metadata
  */
@@ -284,6 +694,8 @@ export interface AgentInfo {
   lastRun?: string;
   /** Last error if any */
   lastError?: string;
+  /** Circuit breaker state, when the agent has one */
+  circuit?: CircuitBreakerInfo;
 }
 
 // Note: AppConfig is now defined in useAppStore.ts with a simpler structure
@@ -358,8 +770,14 @@ export interface RelevanceFactors {
   freezingLevelPenalty: number;
   /** Weather event penalty (rain, wind): 0-20 points */
   weatherEventPenalty: number;
+  /** Snowpack changed since the report (new snow, crust, slab): 0-20 points */
+  snowpackPenalty: number;
   /** Consistency bonus for similar reports: 0-5 points */
   consistencyBonus: number;
+  /** Confirm/dispute votes: -30 to +10 points */
+  voteDelta: number;
+  /** Author reputation multiplier: 0.8-1.15 (1 for newcomers) */
+  reputationWeight: number;
   /** Final calculated score: 0-100 */
   finalScore: number;
 }
@@ -368,3 +786,223 @@ export interface RelevanceFactors {
  * Relevance tier for display purposes
  */
 export type RelevanceTier = 'excellent' | 'good' | 'fair' | 'stale' | 'outdated';
+
+/**
+ * Starred route or location
+ */
+export interface WatchItem {
+  kind: 'route' | 'location';
+  /** Route id, or the location name for locations */
+  id: string;
+  name: string;
+  region: string;
+  addedAt: string;
+}
+
+/**
+ * Condition an alert rule waits for
+ * - score: route score at or above minScore (on the given weekday, 0 = Sunday)
+ * - avalanche: danger level in the region at or below maxLevel
+ * - report: new community report at the location
+ */
+export type AlertCondition =
+  | { type: 'score'; minScore: number; weekday?: number }
+  | { type: 'avalanche'; maxLevel: AvalancheLevel }
+  | { type: 'report'; reportType?: 'ascent' | 'descent' };
+
+/**
+ * User-defined alert on a watched route, location or region
+ */
+export interface AlertRule {
+  id: string;
+  /** Route id (score), region (avalanche) or location name (report) */
+  target: string;
+  /** Display name of the target */
+  targetName: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  createdAt: string;
+  /**
+   * What the last notification was for: forecast date (score), 'active'
+   * while the level stays low (avalanche), newest report time (report)
+   */
+  lastTriggered?: string;
+}
+
+/**
+ * In-app notification raised by an alert rule
+ */
+export interface AlertNotification {
+  id: string;
+  ruleId: string;
+  title: string;
+  message: string;
+  /** Route id or location name the notification is about */
+  target: string;
+  createdAt: string;
+  read: boolean;
+}
+
+/**
+ * Events a push subscription can opt into
+ */
+export type PushEventType = 'bulletin' | 'verified_report' | 'community_report';
+
+/**
+ * Push opt-ins of this device
+ */
+export interface PushPreferences {
+  regions: string[];
+  types: PushEventType[];
+}
+
+/**
+ * Trip plan lifecycle; 'overdue' is set once the expected return has passed
+ */
+export type TripStatus = 'planned' | 'active' | 'overdue' | 'returned' | 'cancelled';
+
+/**
+ * GPS fix attached to a check-in
+ */
+export interface TripPosition {
+  lat: number;
+  lng: number;
+  /** Accuracy radius in meters */
+  accuracy?: number;
+}
+
+/**
+ * Check-in sent from the field
+ */
+export interface TripCheckIn {
+  at: string;
+  /** Party member who checked in */
+  by: string;
+  note?: string;
+  position?: TripPosition;
+}
+
+/**
+ * Changes to a trip plan made on the device that the server does not have yet
+ */
+export interface PendingTripChanges {
+  /** Check-ins, each with the return time given with it */
+  checkIns: { checkIn: TripCheckIn; expectedReturn?: string }[];
+  /** Returned or cancelled on the device */
+  status?: 'returned' | 'cancelled';
+}
+
+/**
+ * Filed trip plan for one route
+ */
+export interface TripPlan {
+  id: string;
+  routeId: string;
+  routeName: string;
+  region: string;
+  /** Party member names */
+  party: string[];
+  plannedStart: string;
+  turnaroundAt: string;
+  expectedReturn: string;
+  emergencyContact: {
+    name: string;
+    phone: string;
+  };
+  status: TripStatus;
+  checkIns: TripCheckIn[];
+  /** Newest check-in position */
+  lastPosition?: TripPosition & { at: string };
+  /** Emergency contact was notified by the server */
+  escalatedAt?: string;
+  /** Token of the members' check-in link, known once the plan is synced */
+  checkInToken?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Items of the pre-tour gear checklist
+ */
+export type GearItemId =
+  | 'avalanche_kit'
+  | 'airbag'
+  | 'skins'
+  | 'ski_crampons'
+  | 'crampons'
+  | 'ice_axe'
+  | 'extra_layers';
+
+/**
+ * Checklist entry with the conditions that call for it
+ */
+export interface GearItem {
+  id: GearItemId;
+  priority: 'required' | 'recommended';
+  /** Why the item is on the list (Polish) */
+  reasons: string[];
+}
+
+/**
+ * Photo attached to a community report, stored in Supabase Storage
+ */
+export interface ReportPhoto {
+  /** Storage path of the compressed photo ({userId}/{photoId}.jpg) */
+  path: string;
+  /** Storage path of the thumbnail */
+  thumbPath: string;
+  width: number;
+  height: number;
+  /** Capture time from EXIF */
+  takenAt?: string;
+}
+
+/**
+ * "Still accurate?" vote on a community report
+ */
+export type ReportVote = 'confirm' | 'dispute';
+
+/**
+ * Vote tally of a community report
+ */
+export interface ReportVotes {
+  confirms: number;
+  disputes: number;
+  /** Newest confirmation */
+  lastConfirmedAt?: string;
+  /** Vote of the signed-in user */
+  own?: ReportVote;
+}
+
+/**
+ * Inputs behind a contributor's reputation (last 90 days)
+ */
+export interface ReputationFactors {
+  reports: number;
+  /** Votes other users gave the reports */
+  confirms: number;
+  disputes: number;
+  /** Later reports at the same location that matched or contradicted */
+  agreements: number;
+  disagreements: number;
+  /** Reports checked against the weather before them, and those that fit */
+  weatherChecked: number;
+  weatherConsistent: number;
+  /** Reports removed by an admin */
+  removed: number;
+}
+
+/**
+ * Contributor reputation, rebuilt server-side by update-reputation
+ */
+export interface ContributorReputation {
+  /** 0-100, 50 is neutral */
+  score: number;
+  /** Reports behind the score */
+  reports: number;
+}
+
+/**
+ * Trust badge shown next to a contributor
+ */
+export type ReputationTier = 'trusted' | 'regular' | 'low' | 'new';
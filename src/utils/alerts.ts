@@ -0,0 +1,218 @@
+/**
+ * Watchlist Alert Evaluation
+ *
+ * Checks alert rules against freshly loaded data and returns the
+ * notifications to raise. Every rule remembers what it last fired for
+ * (lastTriggered), so a condition that stays true is reported once.
+ *
+ * @module utils/alerts
+ */
+
+import type {
+  AlertCondition,
+  AlertNotification,
+  AlertRule,
+  AvalancheReport,
+  EvaluatedRoute,
+  RouteForecastDay,
+} from '@/types';
+import type { CommunityReport } from '@/stores/useReportsStore';
+
+/** Weekday names in the accusative ("w sobotę"), 0 = Sunday */
+export const ALERT_WEEKDAYS = ['niedzielę', 'poniedziałek', 'wtorek', 'środę', 'czwartek', 'piątek', 'sobotę'];
+
+/**
+ * Data available for evaluation; rules whose data is missing are skipped
+ */
+export interface AlertContext {
+  /** Region the data below was loaded for */
+  region?: string;
+  /** Current route evaluations */
+  routes?: EvaluatedRoute[];
+  /** Route evaluations for the upcoming days */
+  routeForecast?: RouteForecastDay[];
+  avalanche?: AvalancheReport | null;
+  reports?: CommunityReport[];
+}
+
+/** Local date (YYYY-MM-DD) */
+function localDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function dayLabel(date: string, today: string): string {
+  if (date === today) return 'Dziś';
+  return new Date(`${date}T12:00:00`).toLocaleDateString('pl-PL', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'numeric',
+  });
+}
+
+/**
+ * Same place: one name contains the other ("Pilsko" ~ "Pilsko - Hala Miziowa")
+ */
+export function matchesLocation(location: string, target: string): boolean {
+  const a = location.toLowerCase();
+  const b = target.toLowerCase();
+  return a.includes(b) || b.includes(a);
+}
+
+/**
+ * Human-readable condition (Polish)
+ */
+export function describeAlertCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'score':
+      return `Ocena ≥ ${condition.minScore}${
+        condition.weekday !== undefined ? ` w ${ALERT_WEEKDAYS[condition.weekday]}` : ''
+      }`;
+    case 'avalanche':
+      return `Zagrożenie lawinowe spada do ${condition.maxLevel}`;
+    case 'report':
+      return condition.reportType === 'descent'
+        ? 'Nowy raport ze zjazdu'
+        : condition.reportType === 'ascent'
+          ? 'Nowy raport z podejścia'
+          : 'Nowy raport';
+  }
+}
+
+type Evaluation = { lastTriggered?: string; notification?: Pick<AlertNotification, 'title' | 'message'> };
+
+/**
+ * Earliest day not notified yet with the route scoring at least minScore
+ */
+function evaluateScore(
+  rule: AlertRule,
+  condition: Extract<AlertCondition, { type: 'score' }>,
+  context: AlertContext,
+  today: string
+): Evaluation | null {
+  if (!context.routes && !context.routeForecast) return null;
+
+  // Current conditions count for today and win over a forecast for the same day
+  const days = new Map<string, EvaluatedRoute | undefined>();
+  if (context.routes) days.set(today, context.routes.find((r) => r.id === rule.target));
+  for (const day of context.routeForecast ?? []) {
+    if (!days.has(day.date)) days.set(day.date, day.routes.find((r) => r.id === rule.target));
+  }
+
+  const match = [...days.entries()]
+    .filter(([date]) => date > (rule.lastTriggered ?? ''))
+    .filter(([date]) => condition.weekday === undefined || new Date(`${date}T12:00:00`).getDay() === condition.weekday)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .find(([, route]) => route && route.conditionScore >= condition.minScore);
+  if (!match) return null;
+
+  const [date, route] = match;
+  return {
+    lastTriggered: date,
+    notification: {
+      title: `${rule.targetName}: ocena ${route!.conditionScore}`,
+      message: `${dayLabel(date, today)} - warunki powyżej progu ${condition.minScore}`,
+    },
+  };
+}
+
+/**
+ * Fires when the level first falls to maxLevel or below, re-arms when it rises again
+ */
+function evaluateAvalanche(
+  rule: AlertRule,
+  condition: Extract<AlertCondition, { type: 'avalanche' }>,
+  context: AlertContext
+): Evaluation | null {
+  if (!context.avalanche || context.region !== rule.target) return null;
+
+  const { level } = context.avalanche;
+  if (level > condition.maxLevel) {
+    return rule.lastTriggered ? { lastTriggered: undefined } : null;
+  }
+  if (rule.lastTriggered === 'active') return null;
+
+  return {
+    lastTriggered: 'active',
+    notification: {
+      title: `${rule.targetName}: stopień zagrożenia ${level}`,
+      message: `Zagrożenie lawinowe spadło do ${level} (${context.avalanche.source})`,
+    },
+  };
+}
+
+/**
+ * Other users' reports at the location newer than the last notified one
+ */
+function evaluateReport(
+  rule: AlertRule,
+  condition: Extract<AlertCondition, { type: 'report' }>,
+  context: AlertContext
+): Evaluation | null {
+  if (!context.reports) return null;
+
+  const since = new Date(rule.lastTriggered ?? rule.createdAt).getTime();
+  const fresh = context.reports
+    .filter((report) => !report.isOwn && new Date(report.timestamp).getTime() > since)
+    .filter((report) => !condition.reportType || report.type === condition.reportType)
+    .filter((report) => matchesLocation(report.location, rule.target))
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  if (fresh.length === 0) return null;
+
+  const latest = fresh[0];
+  const kind = latest.type === 'descent' ? 'zjazd' : 'podejście';
+  const details = latest.descent
+    ? `${latest.descent.snowCondition}, ${latest.descent.qualityRating}/5`
+    : latest.ascent?.trackStatus;
+  return {
+    lastTriggered: latest.timestamp,
+    notification: {
+      title: fresh.length > 1
+        ? `${rule.targetName}: nowe raporty (${fresh.length})`
+        : `${rule.targetName}: nowy raport`,
+      message: `${latest.location} - ${kind}${details ? ` (${details})` : ''}`,
+    },
+  };
+}
+
+/**
+ * Evaluate enabled rules against the context
+ *
+ * @returns Rules with updated lastTriggered and the notifications to show
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  context: AlertContext,
+  now: Date = new Date()
+): { rules: AlertRule[]; notifications: AlertNotification[] } {
+  const today = localDate(now);
+  const notifications: AlertNotification[] = [];
+
+  const updated = rules.map((rule) => {
+    if (!rule.enabled) return rule;
+
+    const { condition } = rule;
+    const result =
+      condition.type === 'score'
+        ? evaluateScore(rule, condition, context, today)
+        : condition.type === 'avalanche'
+          ? evaluateAvalanche(rule, condition, context)
+          : evaluateReport(rule, condition, context);
+    if (!result) return rule;
+
+    if (result.notification) {
+      notifications.push({
+        id: crypto.randomUUID(),
+        ruleId: rule.id,
+        target: rule.target,
+        createdAt: now.toISOString(),
+        read: false,
+        ...result.notification,
+      });
+    }
+    return { ...rule, lastTriggered: result.lastTriggered };
+  });
+
+  return { rules: updated, notifications };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { AvalancheReport } from '@/types';
+import { mergeBulletins, selectBulletin } from './avalancheBulletins';
+import { makeAvalanche, makeRoute } from '@/scoring/testFixtures';
+
+const topr = makeAvalanche({
+  level: 2,
+  source: 'TOPR - Umiarkowane',
+  provider: 'topr',
+  validUntil: '2024-02-10T20:00:00+01:00',
+});
+const slp = makeAvalanche({
+  level: 3,
+  source: 'SLP - Vysoké Tatry',
+  provider: 'slp',
+  validUntil: '2024-02-10T18:00:00Z',
+});
+
+// One route on each side of the main ridge
+const polishRoute = makeRoute({
+  region: 'Tatry',
+  startPoint: { lat: 49.27, lng: 19.98, altitude: 1010 },
+  summit: { lat: 49.245, lng: 19.98, altitude: 1700 },
+});
+const slovakRoute = makeRoute({
+  region: 'Tatry',
+  startPoint: { lat: 49.12, lng: 20.06, altitude: 1350 },
+  summit: { lat: 49.15, lng: 20.06, altitude: 2000 },
+});
+
+describe('avalanche bulletins', () => {
+  it('keeps the earliest expiry across time zones', () => {
+    expect(mergeBulletins([topr, slp]).validUntil).toBe('2024-02-10T18:00:00Z');
+    // 16:00Z, though "T17:00" sorts after "T16:30" as a string
+    const toprEarly = { ...topr, validUntil: '2024-02-10T17:00:00+01:00' };
+    const slpLate = { ...slp, validUntil: '2024-02-10T16:30:00Z' };
+    expect(mergeBulletins([slpLate, toprEarly]).validUntil).toBe('2024-02-10T17:00:00+01:00');
+  });
+
+  it('picks the bulletin for the route side', () => {
+    const merged = mergeBulletins([topr, slp]);
+    expect(selectBulletin(polishRoute, merged)?.source).toBe(topr.source);
+    expect(selectBulletin(slovakRoute, merged)?.source).toBe(slp.source);
+  });
+
+  it('names the missing service when the other side stands in', () => {
+    const onlyTopr = mergeBulletins([topr]);
+    const selected = selectBulletin(slovakRoute, onlyTopr);
+    expect(selected?.level).toBe(2);
+    expect(selected?.source).toBe('TOPR - Umiarkowane (brak komunikatu SLP dla tej trasy)');
+    expect(selectBulletin(polishRoute, onlyTopr)?.source).toBe(topr.source);
+  });
+
+  it('leaves reports of other services alone', () => {
+    const hs: AvalancheReport = makeAvalanche({ provider: 'hs', source: 'HS Krkonoše' });
+    const estimate = makeAvalanche({ source: 'Szacunek' });
+    expect(selectBulletin(polishRoute, hs)).toBe(hs);
+    expect(selectBulletin(polishRoute, estimate)).toBe(estimate);
+    expect(selectBulletin(polishRoute, undefined)).toBeUndefined();
+  });
+});
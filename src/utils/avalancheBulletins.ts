@@ -0,0 +1,173 @@
+/**
+ * Avalanche Bulletin Selection
+ *
+ * The Tatra main ridge is the Polish-Slovak border: TOPR covers the north
+ * side, the Slovak Avalanche Prevention Center (SLP, laviny.sk) the south.
+ * Routes get the bulletin for the side they are on, or a conservative merge
+ * of both when they cross or touch the border.
+ *
+ * @module utils/avalancheBulletins
+ */
+
+import type { AvalancheReport, BulletinProvider, Route } from '@/types';
+
+/**
+ * Approximate PL-SK border along the Tatra main ridge, west to east
+ * [lat, lng]; accurate to a few hundred meters.
+ */
+const TATRA_BORDER: [number, number][] = [
+  [49.2700, 19.7280], // Chochołowska valley mouth
+  [49.2355, 19.7452], // Grześ
+  [49.2076, 19.7627], // Wołowiec
+  [49.1985, 19.8200], // Starorobociański Wierch
+  [49.2036, 19.8629], // Kamienista
+  [49.2323, 19.9103], // Krzesanica
+  [49.2342, 19.9453], // Kopa Kondracka
+  [49.2317, 19.9817], // Kasprowy Wierch
+  [49.2194, 20.0094], // Świnica
+  [49.1967, 20.0396], // Szpiglasowy Wierch
+  [49.1869, 20.0603], // Mięguszowiecki Szczyt
+  [49.1794, 20.0881], // Rysy
+  [49.2000, 20.1000], // Żabia Grań
+  [49.2655, 20.1167], // Łysa Polana
+];
+
+/** Area in which the border line applies (Tatra massif) */
+const TATRA_BOUNDS = { minLat: 49.05, maxLat: 49.35, minLng: 19.6, maxLng: 20.35 };
+
+/** Points closer than this to the border count for both sides (km) */
+const BORDER_TOLERANCE_KM = 0.3;
+
+/** Country whose service covers each side */
+const PROVIDER_BY_SIDE: Record<'PL' | 'SK', BulletinProvider> = {
+  PL: 'topr',
+  SK: 'slp',
+};
+
+/**
+ * Side of the border a point lies on; null when within the tolerance
+ */
+function borderSide(point: { lat: number; lng: number }): 'PL' | 'SK' | null {
+  const { minLat, maxLat, minLng, maxLng } = TATRA_BOUNDS;
+  if (point.lat < minLat || point.lat > maxLat || point.lng < minLng || point.lng > maxLng) {
+    return 'PL';
+  }
+
+  // West of Chochołowska and east of the Białka the border runs north-south
+  const first = TATRA_BORDER[0];
+  const last = TATRA_BORDER[TATRA_BORDER.length - 1];
+  if (point.lng < first[1]) return 'SK';
+  if (point.lng > last[1]) return 'SK';
+
+  for (let i = 1; i < TATRA_BORDER.length; i++) {
+    const [lat1, lng1] = TATRA_BORDER[i - 1];
+    const [lat2, lng2] = TATRA_BORDER[i];
+    if (point.lng > lng2) continue;
+
+    const borderLat = lat1 + ((lat2 - lat1) * (point.lng - lng1)) / (lng2 - lng1);
+    const offsetKm = (point.lat - borderLat) * 111.2;
+    if (Math.abs(offsetKm) < BORDER_TOLERANCE_KM) return null;
+    return offsetKm > 0 ? 'PL' : 'SK';
+  }
+
+  return 'PL';
+}
+
+/**
+ * Bulletin providers covering the route's start, summit and track
+ */
+export function routeProviders(route: Route): BulletinProvider[] {
+  const points = [route.startPoint, route.summit, ...(route.track ?? [])];
+  const sides = new Set<'PL' | 'SK'>();
+
+  for (const point of points) {
+    const side = borderSide(point);
+    if (side) {
+      sides.add(side);
+    } else {
+      sides.add('PL');
+      sides.add('SK');
+    }
+  }
+
+  return [...sides].map((side) => PROVIDER_BY_SIDE[side]);
+}
+
+/** Service names used when a route's side has no bulletin */
+const PROVIDER_NAMES: Record<BulletinProvider, string> = {
+  topr: 'TOPR',
+  slp: 'SLP',
+  hs: 'HS Krkonoše',
+};
+
+/**
+ * Earliest expiry; feeds mix offsets and date-only values, so compare
+ * parsed times rather than strings
+ */
+function earliestValidUntil(reports: AvalancheReport[]): string {
+  const dated = reports.filter((r) => !Number.isNaN(Date.parse(r.validUntil)));
+  if (dated.length === 0) return reports[0].validUntil;
+  return dated.reduce((a, b) => (Date.parse(b.validUntil) < Date.parse(a.validUntil) ? b : a)).validUntil;
+}
+
+/**
+ * Conservative merge: highest level, union of aspects, problems and
+ * altitude band, earliest expiry
+ */
+export function mergeBulletins(reports: AvalancheReport[]): AvalancheReport {
+  if (reports.length === 1) return reports[0];
+
+  const worst = reports.reduce((a, b) => (b.level > a.level ? b : a));
+  const trend = reports.some((r) => r.trend === 'increasing')
+    ? 'increasing'
+    : reports.every((r) => r.trend === 'decreasing')
+      ? 'decreasing'
+      : 'stable';
+
+  return {
+    level: worst.level,
+    trend,
+    problemAspects: [...new Set(reports.flatMap((r) => r.problemAspects))],
+    altitudeRange: {
+      from: Math.min(...reports.map((r) => r.altitudeRange.from)),
+      to: Math.max(...reports.map((r) => r.altitudeRange.to)),
+    },
+    problems: [...new Set(reports.flatMap((r) => r.problems))],
+    validUntil: earliestValidUntil(reports),
+    issuedAt: worst.issuedAt,
+    source: reports.map((r) => r.source).join(' + '),
+    reportUrl: worst.reportUrl,
+    bulletins: reports,
+  };
+}
+
+/**
+ * Bulletin for a route: the one for its side of the border, or a merge
+ * when it crosses it. When a side has no bulletin today the other side's
+ * is used and the source says which service is missing. Reports not
+ * issued by the Tatra services are returned unchanged.
+ */
+export function selectBulletin(
+  route: Route,
+  avalanche: AvalancheReport | undefined
+): AvalancheReport | undefined {
+  if (!avalanche) return undefined;
+
+  const bulletins = avalanche.bulletins ?? [avalanche];
+  const tatraProviders = Object.values(PROVIDER_BY_SIDE);
+  if (!bulletins.every((bulletin) => bulletin.provider && tatraProviders.includes(bulletin.provider))) {
+    return avalanche;
+  }
+
+  const providers = routeProviders(route);
+  const matching = bulletins.filter((bulletin) => providers.includes(bulletin.provider!));
+  const missing = providers.filter((provider) => !bulletins.some((bulletin) => bulletin.provider === provider));
+
+  const selected = matching.length === 0
+    ? avalanche
+    : matching.length === bulletins.length ? avalanche : mergeBulletins(matching);
+  if (missing.length === 0) return selected;
+
+  const names = missing.map((provider) => PROVIDER_NAMES[provider]).join(', ');
+  return { ...selected, source: `${selected.source} (brak komunikatu ${names} dla tej trasy)` };
+}
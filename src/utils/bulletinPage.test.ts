@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { findLevel, pageText, parseBulletinPage } from '../../supabase/functions/_shared/bulletinPage.ts';
+import { SLP_PAGE } from '../../supabase/functions/slp-proxy/page.ts';
+import { HS_PAGE } from '../../supabase/functions/krkonose-proxy/page.ts';
+
+const now = new Date('2024-02-10T07:00:00Z');
+
+/** Trimmed laviny.sk front page: levels as map icons and in the text */
+const SLP_FIXTURE = `
+<html><head>
+  <style>.level-3 { color: orange; }</style>
+  <script>var regions = ["Vysoké Tatry", "5. stupeň"];</script>
+</head><body>
+  <h1>Lavínová predpoveď</h1>
+  <div class="region">
+    <h2>Západné Tatry</h2>
+    <img src="/img/level2.png" alt="2. stupeň - mierne lavínové nebezpečenstvo">
+    <p>Hlavným problémom je naviaty sneh na záveterných svahoch.</p>
+  </div>
+  <div class="region">
+    <h2>Vysoké Tatry</h2>
+    <p>Zvýšené lavínové nebezpečenstvo&nbsp;nad hranicou lesa.
+      Nový sneh a naviaty sneh, v nižších polohách mokrý sneh.</p>
+  </div>
+  <div class="region">
+    <h2>Belianske Tatry</h2>
+    <p>Veľmi vysoké lavínové nebezpečenstvo, perzistentné slabé vrstvy.</p>
+  </div>
+</body></html>`;
+
+/** Trimmed laviny.cz front page */
+const HS_FIXTURE = `
+<html><body>
+  <table>
+    <tr><th>Oblast</th><th>Stupeň</th></tr>
+    <tr><td>Krkonoše</td><td><img src="/img/3.png" title="Značné lavinové nebezpečí"></td>
+      <td>Čerstvě navátý sníh v závětrných žlabech, klouzavé laviny na travnatých svazích.</td></tr>
+    <tr><td>Jeseníky</td><td>stupeň 1 &#8211; nízké</td></tr>
+  </table>
+</body></html>`;
+
+describe('bulletin page parser', () => {
+  it('reads text, image descriptions and entities but not scripts', () => {
+    const text = pageText('<script>var x = "2. stupeň";</script><img alt="3. stupeň"> a&nbsp;b &#8211; c &amp; d');
+    expect(text).not.toContain('2. stupeň');
+    expect(text).toContain('3. stupeň');
+    expect(text).toContain('a b – c & d');
+  });
+
+  it('finds the first stated level in any of the supported forms', () => {
+    expect(findLevel('2. stupeň', SLP_PAGE)).toBe(2);
+    expect(findLevel('stupeň nebezpečenstva: 4', SLP_PAGE)).toBe(4);
+    expect(findLevel('miestami zvýšené lavínové nebezpečenstvo', SLP_PAGE)).toBe(3);
+    // "veľmi vysoké" contains "vysoké" a few characters later
+    expect(findLevel('veľmi vysoké lavínové nebezpečenstvo', SLP_PAGE)).toBe(5);
+    expect(findLevel('bez lavínovej predpovede', SLP_PAGE)).toBeNull();
+  });
+
+  it('parses every Tatra region of the laviny.sk page', () => {
+    const bulletins = parseBulletinPage(SLP_FIXTURE, SLP_PAGE, now);
+
+    expect(bulletins.map((b) => [b.regions[0].name, b.dangerRatings[0].mainValue])).toEqual([
+      ['Vysoké Tatry', 'considerable'],
+      ['Západné Tatry', 'moderate'],
+      ['Belianske Tatry', 'very_high'],
+    ]);
+    expect(bulletins[0].avalancheProblems.map((p) => p.problemType)).toEqual(['new_snow', 'wind_slab', 'wet_snow']);
+    expect(bulletins[1].avalancheProblems.map((p) => p.problemType)).toEqual(['wind_slab']);
+    expect(bulletins[2].avalancheProblems.map((p) => p.problemType)).toEqual(['persistent_weak_layers']);
+  });
+
+  it('keeps each region to its own part of the page', () => {
+    // Západné Tatry must not pick up the level stated under Vysoké Tatry
+    const html = '<h2>Západné Tatry</h2><p>bez predpovede</p><h2>Vysoké Tatry</h2><p>4. stupeň</p>';
+    const bulletins = parseBulletinPage(html, SLP_PAGE, now);
+    expect(bulletins.map((b) => b.regions[0].name)).toEqual(['Vysoké Tatry']);
+  });
+
+  it('parses the Krkonoše row of the laviny.cz page', () => {
+    const [bulletin, ...rest] = parseBulletinPage(HS_FIXTURE, HS_PAGE, now);
+
+    expect(rest).toHaveLength(0);
+    expect(bulletin.regions[0].regionID).toBe('Krkonoše');
+    expect(bulletin.dangerRatings[0].mainValue).toBe('considerable');
+    expect(bulletin.avalancheProblems.map((p) => p.problemType)).toEqual(['wind_slab', 'gliding_snow']);
+    expect(bulletin.validTime).toEqual({
+      startTime: '2024-02-10T07:00:00.000Z',
+      endTime: '2024-02-11T07:00:00.000Z',
+    });
+  });
+
+  it('returns nothing when the page no longer names a level', () => {
+    expect(parseBulletinPage('<h2>Krkonoše</h2><p>Předpověď není k dispozici.</p>', HS_PAGE, now)).toEqual([]);
+    expect(parseBulletinPage('<p>Údržba stránky</p>', SLP_PAGE, now)).toEqual([]);
+  });
+});
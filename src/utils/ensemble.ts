@@ -0,0 +1,129 @@
+/**
+ * Forecast Model Ensemble
+ *
+ * Summarizes hourly forecasts of several weather models into daily
+ * mean and spread. Where the models disagree the forecast is uncertain,
+ * which lowers the confidence of the weather data.
+ *
+ * @module utils/ensemble
+ */
+
+import type { ConfidenceLevel, DataConfidence, EnsembleDay, EnsembleStat } from '@/types';
+
+/**
+ * Spread thresholds (max - min across models) for each variable
+ */
+export const ENSEMBLE_CONFIG = {
+  /** Daily snowfall (cm) */
+  SNOWFALL: { medium: 4, low: 10 },
+  /** Daily maximum wind (km/h) */
+  WIND: { medium: 15, low: 30 },
+  /** Daily maximum freezing level (m) */
+  FREEZING_LEVEL: { medium: 400, low: 800 },
+  /** Fewer models than this give no ensemble for the day */
+  MIN_MODELS: 2,
+} as const;
+
+/**
+ * Hourly series of one model (null where the model has no data)
+ */
+export interface ModelSeries {
+  snowfall: (number | null)[];
+  windSpeed: (number | null)[];
+  freezingLevel: (number | null)[];
+}
+
+const CONFIDENCE_ORDER: ConfidenceLevel[] = ['high', 'medium', 'low'];
+
+function stat(values: number[], decimals = 0): EnsembleStat {
+  const factor = 10 ** decimals;
+  const round = (value: number) => Math.round(value * factor) / factor;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return {
+    mean: round(values.reduce((a, b) => a + b, 0) / values.length),
+    min: round(min),
+    max: round(max),
+    spread: round(max - min),
+  };
+}
+
+function rateSpread(spread: number, thresholds: { medium: number; low: number }): ConfidenceLevel {
+  if (spread >= thresholds.low) return 'low';
+  if (spread >= thresholds.medium) return 'medium';
+  return 'high';
+}
+
+/**
+ * Confidence of a day: the worst of the snowfall, wind and freezing level ratings
+ */
+export function ensembleConfidence(day: Pick<EnsembleDay, 'snowfall' | 'windSpeed' | 'freezingLevel'>): ConfidenceLevel {
+  const ratings = [
+    rateSpread(day.snowfall.spread, ENSEMBLE_CONFIG.SNOWFALL),
+    rateSpread(day.windSpeed.spread, ENSEMBLE_CONFIG.WIND),
+    rateSpread(day.freezingLevel.spread, ENSEMBLE_CONFIG.FREEZING_LEVEL),
+  ];
+  return CONFIDENCE_ORDER[Math.max(...ratings.map((r) => CONFIDENCE_ORDER.indexOf(r)))];
+}
+
+/**
+ * Daily ensemble from hourly model series
+ *
+ * A model counts for a day only with all 24 hours present (ICON-D2 ends
+ * after 48h, AROME returns nothing outside its domain).
+ *
+ * @param times - Local hourly times ("2026-02-01T06:00"), shared by all models
+ * @param series - Hourly series by model name
+ */
+export function summarizeEnsemble(times: string[], series: Record<string, ModelSeries>): EnsembleDay[] {
+  const dates = [...new Set(times.map((time) => time.slice(0, 10)))];
+
+  return dates.flatMap((date) => {
+    const hours = times.flatMap((time, i) => (time.startsWith(date) ? [i] : []));
+    if (hours.length < 24) return [];
+
+    const daily = Object.entries(series).flatMap(([model, s]) => {
+      const pick = (values: (number | null)[]) => hours.map((i) => values[i]);
+      const snowfall = pick(s.snowfall);
+      const wind = pick(s.windSpeed);
+      const freezing = pick(s.freezingLevel);
+      if ([...snowfall, ...wind, ...freezing].some((v) => v === null || v === undefined)) return [];
+
+      return [{
+        model,
+        snowfall: (snowfall as number[]).reduce((a, b) => a + b, 0),
+        windSpeed: Math.max(...(wind as number[])),
+        freezingLevel: Math.max(...(freezing as number[])),
+      }];
+    });
+    if (daily.length < ENSEMBLE_CONFIG.MIN_MODELS) return [];
+
+    const stats = {
+      snowfall: stat(daily.map((d) => d.snowfall), 1),
+      windSpeed: stat(daily.map((d) => d.windSpeed)),
+      freezingLevel: stat(daily.map((d) => d.freezingLevel)),
+    };
+    return [{ date, models: daily.map((d) => d.model), ...stats, confidence: ensembleConfidence(stats) }];
+  });
+}
+
+/**
+ * Short Polish description of the model spread
+ */
+export function describeEnsemble(day: EnsembleDay): string {
+  return (
+    `Rozrzut ${day.models.length} modeli (${day.models.join(', ')}): ` +
+    `śnieg ${day.snowfall.min}-${day.snowfall.max} cm, ` +
+    `wiatr ${day.windSpeed.min}-${day.windSpeed.max} km/h, ` +
+    `izoterma 0°C ${day.freezingLevel.min}-${day.freezingLevel.max} m`
+  );
+}
+
+/**
+ * Confidence of forecast data; the level follows the model spread when an
+ * ensemble day is given (only for real API data, not fixtures)
+ */
+export function forecastConfidence(base: DataConfidence, day?: EnsembleDay): DataConfidence {
+  if (!day || base.sourceType !== 'api') return base;
+  return { ...base, level: day.confidence, notes: describeEnsemble(day) };
+}
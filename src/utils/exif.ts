@@ -0,0 +1,142 @@
+/**
+ * EXIF Reader
+ *
+ * Minimal JPEG EXIF parser for what report photos need: when the photo
+ * was taken (DateTimeOriginal) and where (GPS latitude/longitude).
+ * Anything malformed yields an empty result.
+ *
+ * @module utils/exif
+ */
+
+/**
+ * Metadata read from a photo
+ */
+export interface PhotoExif {
+  /** Capture time (ISO); EXIF stores camera-local time, read as device time */
+  takenAt?: string;
+  coordinates?: { lat: number; lng: number };
+}
+
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+/** Byte size of each TIFF field type */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Offset of the value from the TIFF header */
+  offset: number;
+}
+
+function ascii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+/**
+ * Parse "YYYY:MM:DD HH:MM:SS"
+ */
+function parseExifDate(value: string): string | undefined {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  if (year === 0 || month === 0) return undefined;
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function parseTiff(view: DataView, start: number): PhotoExif {
+  const little = view.getUint16(start) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(start + offset, little);
+  const u32 = (offset: number) => view.getUint32(start + offset, little);
+  if (u16(2) !== 42) return {};
+
+  const readIfd = (offset: number): Map<number, IfdEntry> => {
+    const entries = new Map<number, IfdEntry>();
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const type = u16(entry + 2);
+      const valueCount = u32(entry + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      entries.set(u16(entry), { type, count: valueCount, offset: size <= 4 ? entry + 8 : u32(entry + 8) });
+    }
+    return entries;
+  };
+
+  const readAscii = (entry: IfdEntry | undefined) =>
+    entry?.type === 2 ? ascii(view, start + entry.offset, entry.count) : undefined;
+
+  const readDegrees = (entry: IfdEntry | undefined): number | undefined => {
+    if (!entry || entry.type !== 5 || entry.count < 3) return undefined;
+    const [deg, min, sec] = [0, 1, 2].map((i) => {
+      const denominator = u32(entry.offset + i * 8 + 4);
+      return denominator === 0 ? NaN : u32(entry.offset + i * 8) / denominator;
+    });
+    const value = deg + min / 60 + sec / 3600;
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const result: PhotoExif = {};
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  const exifIfd = exifPointer ? readIfd(u32(exifPointer.offset)) : undefined;
+  const dateTime = readAscii(exifIfd?.get(TAG_DATETIME_ORIGINAL)) ?? readAscii(ifd0.get(TAG_DATETIME));
+  if (dateTime) result.takenAt = parseExifDate(dateTime);
+
+  const gpsPointer = ifd0.get(TAG_GPS_IFD);
+  if (gpsPointer) {
+    const gps = readIfd(u32(gpsPointer.offset));
+    const lat = readDegrees(gps.get(TAG_GPS_LAT));
+    const lng = readDegrees(gps.get(TAG_GPS_LNG));
+    if (lat !== undefined && lng !== undefined && (lat !== 0 || lng !== 0) && lat <= 90 && lng <= 180) {
+      result.coordinates = {
+        lat: readAscii(gps.get(TAG_GPS_LAT_REF)) === 'S' ? -lat : lat,
+        lng: readAscii(gps.get(TAG_GPS_LNG_REF)) === 'W' ? -lng : lng,
+      };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read capture time and GPS position from a JPEG file
+ */
+export function readExif(buffer: ArrayBuffer): PhotoExif {
+  const view = new DataView(buffer);
+
+  try {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Metadata segments end where the image data starts
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return {};
+
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xffe1 && ascii(view, offset + 4, 4) === 'Exif') {
+        return parseTiff(view, offset + 10);
+      }
+      offset += 2 + length;
+    }
+  } catch {
+    // Truncated or corrupt EXIF
+  }
+  return {};
+}
@@ -0,0 +1,166 @@
+/**
+ * GPX Export
+ *
+ * Serializes routes and community reports to GPX 1.1 for GPS watches
+ * and other mapping tools.
+ */
+
+import type { Route } from '@/types';
+import type { CommunityReport } from '@/stores/useReportsStore';
+import { SNOW_CONDITIONS, TRACK_STATUS, GEAR_OPTIONS } from '@/constants';
+
+interface Waypoint {
+  lat: number;
+  lng: number;
+  altitude?: number;
+  name: string;
+  description?: string;
+  time?: string;
+}
+
+/**
+ * Escape text for XML content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function waypointXml(wpt: Waypoint): string {
+  const lines = [`  <wpt lat="${wpt.lat}" lon="${wpt.lng}">`];
+  if (wpt.altitude !== undefined) lines.push(`    <ele>${Math.round(wpt.altitude)}</ele>`);
+  if (wpt.time) lines.push(`    <time>${wpt.time}</time>`);
+  lines.push(`    <name>${escapeXml(wpt.name)}</name>`);
+  if (wpt.description) lines.push(`    <desc>${escapeXml(wpt.description)}</desc>`);
+  lines.push('  </wpt>');
+  return lines.join('\n');
+}
+
+/**
+ * Wrap GPX body in the document envelope
+ */
+function gpxDocument(name: string, body: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="SkitourScout" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...body,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Export a route as GPX
+ * Always includes start and summit waypoints, plus the full track when one exists.
+ */
+export function routeToGpx(route: Route): string {
+  const body = [
+    waypointXml({
+      ...route.startPoint,
+      name: `${route.name} - start`,
+    }),
+    waypointXml({
+      ...route.summit,
+      name: `${route.name} - szczyt`,
+      description: `+${route.elevation}m, ${route.distance} km, ekspozycje: ${route.aspects.join(', ')}`,
+    }),
+  ];
+
+  if (route.track && route.track.length > 1) {
+    body.push(
+      '  <trk>',
+      `    <name>${escapeXml(route.name)}</name>`,
+      ...(route.description ? [`    <desc>${escapeXml(route.description)}</desc>`] : []),
+      '    <trkseg>',
+      ...route.track.map(
+        (p) => `      <trkpt lat="${p.lat}" lon="${p.lng}"><ele>${Math.round(p.altitude)}</ele></trkpt>`
+      ),
+      '    </trkseg>',
+      '  </trk>'
+    );
+  }
+
+  return gpxDocument(route.name, body);
+}
+
+/**
+ * Condition summary for a report waypoint description
+ */
+function describeReport(report: CommunityReport): string {
+  const parts: string[] = [];
+
+  if (report.type === 'ascent' && report.ascent) {
+    parts.push(`Podejście: ${TRACK_STATUS[report.ascent.trackStatus]?.label ?? report.ascent.trackStatus}`);
+    if (report.ascent.gearNeeded.length > 0) {
+      parts.push(`Sprzęt: ${report.ascent.gearNeeded.map((g) => GEAR_OPTIONS[g]?.label ?? g).join(', ')}`);
+    }
+  } else if (report.descent) {
+    parts.push(`Zjazd: ${SNOW_CONDITIONS[report.descent.snowCondition]?.label ?? report.descent.snowCondition}`);
+    parts.push(`Ocena: ${report.descent.qualityRating}/5`);
+  }
+
+  if (report.notes) {
+    parts.push(report.notes);
+  }
+  parts.push(new Date(report.timestamp).toLocaleDateString('pl-PL'));
+
+  return parts.join(' • ');
+}
+
+/**
+ * Export community reports as GPX waypoints
+ * Reports without coordinates are skipped.
+ */
+export function reportsToGpx(reports: CommunityReport[], name: string): string {
+  const body = reports
+    .filter((r) => r.coordinates)
+    .map((report) =>
+      waypointXml({
+        lat: report.coordinates!.lat,
+        lng: report.coordinates!.lng,
+        name: report.location,
+        description: describeReport(report),
+        time: report.timestamp,
+      })
+    );
+
+  return gpxDocument(name, body);
+}
+
+/**
+ * File-system safe name for an export
+ */
+export function gpxFileName(name: string): string {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ł/g, 'l')
+    .replace(/Ł/g, 'L')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase();
+  return `${slug || 'export'}.gpx`;
+}
+
+/**
+ * Trigger a browser download of a GPX document
+ */
+export function downloadGpx(content: string, fileName: string): void {
+  const blob = new Blob([content], { type: 'application/gpx+xml' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,200 @@
+/**
+ * Synthetic Avalanche Hazard Estimate
+ *
+ * Beskidy have no avalanche warning service. This derives an unofficial
+ * 1-5 estimate from the last 72 hours of summit weather: new snow, wind
+ * transport, warming and rain on snow. It is a heuristic, not a
+ * bulletin, and is always marked with 'calculated' confidence.
+ *
+ * @module utils/hazardEstimate
+ */
+
+import type { Aspect, AvalancheLevel, AvalancheReport, WeatherHistoryPoint } from '@/types';
+import { calculatedConfidence } from '@/types/confidence';
+
+/**
+ * Estimate thresholds
+ */
+export const HAZARD_CONFIG = {
+  /** Wind able to move loose snow (km/h) */
+  DRIFT_WIND: 25,
+  /** Wind building slabs quickly (km/h) */
+  STRONG_WIND: 40,
+  /** Snow depth below which there is no avalanche hazard (cm) */
+  MIN_SNOW_DEPTH: 10,
+  /** Hours the estimate is shown as valid */
+  VALID_HOURS: 12,
+  /** Lower limit of avalanche terrain in Beskidy (m) */
+  MIN_ALTITUDE: 1000,
+} as const;
+
+const ASPECTS: Aspect[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * Points contributed by each factor, with the problem it indicates
+ */
+interface HazardFactor {
+  points: number;
+  problem?: string;
+  aspects?: Aspect[];
+}
+
+function sum(points: WeatherHistoryPoint[], key: 'snowfall' | 'rain'): number {
+  return points.reduce((total, p) => total + p[key], 0);
+}
+
+/**
+ * Lee side of the mean (circular) wind direction: the opposite sector
+ * and its neighbours
+ */
+export function leeAspects(points: WeatherHistoryPoint[]): Aspect[] {
+  let x = 0;
+  let y = 0;
+  for (const p of points) {
+    x += Math.sin((p.windDirection * Math.PI) / 180);
+    y += Math.cos((p.windDirection * Math.PI) / 180);
+  }
+  const from = ((Math.atan2(x, y) * 180) / Math.PI + 360) % 360;
+  const lee = Math.round(((from + 180) % 360) / 45) % 8;
+  return [ASPECTS[(lee + 7) % 8], ASPECTS[lee], ASPECTS[(lee + 1) % 8]];
+}
+
+/**
+ * New snow over 72h (cm)
+ */
+function newSnowFactor(history: WeatherHistoryPoint[]): HazardFactor {
+  const snow = Math.round(sum(history, 'snowfall'));
+  const points = snow >= 60 ? 4 : snow >= 40 ? 3 : snow >= 20 ? 2 : snow >= 10 ? 1 : 0;
+  return points > 0
+    ? { points, problem: `Świeży śnieg: ${snow} cm w 72h`, aspects: ASPECTS }
+    : { points: 0 };
+}
+
+/**
+ * Hours of drifting wind while loose snow is available; slabs form on
+ * the lee side of the prevailing wind
+ */
+function windTransportFactor(history: WeatherHistoryPoint[]): HazardFactor {
+  if (sum(history, 'snowfall') < 5) return { points: 0 };
+
+  const drifting = history.filter((p) => p.windSpeed >= HAZARD_CONFIG.DRIFT_WIND);
+  const strong = drifting.filter((p) => p.windSpeed >= HAZARD_CONFIG.STRONG_WIND);
+  const points = strong.length >= 12 ? 2 : drifting.length >= 6 ? 1 : 0;
+  if (points === 0) return { points: 0 };
+
+  return {
+    points,
+    problem: `Śnieg nawiewany (${drifting.length} h wiatru ≥ ${HAZARD_CONFIG.DRIFT_WIND} km/h)`,
+    aspects: leeAspects(drifting),
+  };
+}
+
+/**
+ * Warming over the last 24h after a colder period
+ */
+function warmingFactor(history: WeatherHistoryPoint[]): HazardFactor {
+  const last24 = history.slice(-24);
+  const before = history.slice(0, -24);
+  if (last24.length === 0) return { points: 0 };
+
+  const maxRecent = Math.max(...last24.map((p) => p.temperature));
+  const minBefore = before.length > 0 ? Math.min(...before.map((p) => p.temperature)) : maxRecent;
+  const wetAspects: Aspect[] = ['SE', 'S', 'SW'];
+
+  if (maxRecent > 5) {
+    return { points: 2, problem: `Silne ocieplenie (do ${Math.round(maxRecent)}°C)`, aspects: wetAspects };
+  }
+  if (maxRecent > 1 && maxRecent - minBefore >= 8) {
+    return { points: 1, problem: `Ocieplenie o ${Math.round(maxRecent - minBefore)}°C`, aspects: wetAspects };
+  }
+  return { points: 0 };
+}
+
+/**
+ * Rain falling on an existing snowpack
+ */
+function rainOnSnowFactor(history: WeatherHistoryPoint[]): HazardFactor {
+  const rainOnSnow = history
+    .filter((p) => p.snowDepth >= HAZARD_CONFIG.MIN_SNOW_DEPTH)
+    .reduce((total, p) => total + p.rain, 0);
+  const points = rainOnSnow >= 10 ? 2 : rainOnSnow >= 2 ? 1 : 0;
+  return points > 0
+    ? { points, problem: `Deszcz na pokrywę śnieżną: ${Math.round(rainOnSnow)} mm`, aspects: ASPECTS }
+    : { points: 0 };
+}
+
+/**
+ * Map accumulated points to a danger level
+ */
+function levelFromPoints(points: number): AvalancheLevel {
+  if (points >= 7) return 5;
+  if (points >= 5) return 4;
+  if (points >= 3) return 3;
+  if (points >= 1) return 2;
+  return 1;
+}
+
+/**
+ * Estimate avalanche hazard from 72h of hourly weather history
+ *
+ * @param history - Hourly points, oldest first
+ * @param summitAltitude - Highest point of the region (top of the danger band)
+ * @returns Report marked as calculated, or null without history
+ */
+export function estimateHazard(
+  history: WeatherHistoryPoint[],
+  summitAltitude: number
+): AvalancheReport | null {
+  if (history.length === 0) return null;
+
+  const now = new Date();
+  const validUntil = new Date(now.getTime() + HAZARD_CONFIG.VALID_HOURS * 60 * 60 * 1000);
+  const base = {
+    altitudeRange: { from: HAZARD_CONFIG.MIN_ALTITUDE, to: summitAltitude },
+    validUntil: validUntil.toISOString(),
+    issuedAt: now.toISOString(),
+    source: 'Szacunek (Open-Meteo, 72h)',
+    confidence: calculatedConfidence(
+      'Szacunek z danych pogodowych',
+      'Nieoficjalny szacunek - Beskidy nie mają komunikatu lawinowego'
+    ),
+  };
+
+  // No snowpack and no new snow - nothing can slide
+  const latestDepth = history[history.length - 1].snowDepth;
+  if (latestDepth < HAZARD_CONFIG.MIN_SNOW_DEPTH && sum(history, 'snowfall') < 5) {
+    return {
+      ...base,
+      level: 1,
+      trend: 'stable',
+      problemAspects: [],
+      problems: ['Brak pokrywy śnieżnej'],
+    };
+  }
+
+  const factors = [
+    newSnowFactor(history),
+    windTransportFactor(history),
+    warmingFactor(history),
+    rainOnSnowFactor(history),
+  ];
+  const points = factors.reduce((total, f) => total + f.points, 0);
+
+  // Trend: loading in the last 24h vs a quiet, cold last day
+  const last24 = history.slice(-24);
+  const loading = sum(last24, 'snowfall') >= 10 || sum(last24, 'rain') >= 2;
+  const quiet = sum(last24, 'snowfall') < 2 && Math.max(...last24.map((p) => p.temperature)) < 0;
+
+  const aspects = [...new Set(factors.flatMap((f) => f.aspects ?? []))];
+  const problems = factors
+    .map((f) => f.problem)
+    .filter((problem): problem is string => !!problem);
+
+  return {
+    ...base,
+    level: levelFromPoints(points),
+    trend: loading ? 'increasing' : quiet ? 'decreasing' : 'stable',
+    problemAspects: aspects.length > 0 ? ASPECTS.filter((a) => aspects.includes(a)) : ['N', 'NE', 'NW'],
+    problems: problems.length > 0 ? problems : ['Brak opadów, wiatru i ocieplenia w ostatnich 72h'],
+  };
+}
@@ -2,7 +2,8 @@
  * Report Relevance Score Calculator
  *
  * Calculates a 0-100 relevance score for community ski condition reports
- * based on age decay, weather changes, and report consistency.
+ * based on age decay, weather changes, snowpack changes since the report,
+ * report consistency, "still accurate?" votes and the author's reputation.
  *
  * @module utils/relevanceScore
  */
@@ -13,7 +14,12 @@ import type {
   RelevanceTier,
   WeatherCondition,
   ElevationWeather,
+  SnowpackHistory,
+  SnowpackIndicatorType,
+  ReportVotes,
+  ContributorReputation,
 } from '@/types';
+import { reputationWeight as calculateReputationWeight } from './reputation';
 
 /**
  * Age-based depreciation configuration
@@ -64,12 +70,34 @@ const WEIGHTS = {
   /** Wind speed threshold for penalty (km/h) */
   HIGH_WIND_THRESHOLD: 40,
 
+  /** Maximum penalty for snowpack changes since the report */
+  MAX_SNOWPACK_PENALTY: 20,
+
   /** Maximum consistency bonus */
   MAX_CONSISTENCY_BONUS: 5,
   /** Minimum reports needed for consistency bonus */
   MIN_REPORTS_FOR_BONUS: 2,
+
+  /** Points per confirmation beyond the disputes */
+  CONFIRM_BONUS: 3,
+  /** Maximum confirmation bonus */
+  MAX_CONFIRM_BONUS: 10,
+  /** Points per dispute beyond the confirmations */
+  DISPUTE_PENALTY: 10,
+  /** Maximum dispute penalty */
+  MAX_DISPUTE_PENALTY: 30,
 } as const;
 
+/**
+ * Penalty per snowpack change that formed after the report
+ * New snow is already covered by the fresh snow delta.
+ */
+const SNOWPACK_CHANGE_PENALTY: Partial<Record<SnowpackIndicatorType, number>> = {
+  wind_slab: 10,
+  melt_freeze_crust: 10,
+  rain_crust: 15,
+};
+
 /**
  * Relevance tier thresholds
  */
@@ -217,6 +245,26 @@ function calculateWeatherEventPenalty(
   return Math.min(penalty, WEIGHTS.MAX_WEATHER_EVENT_PENALTY);
 }
 
+/**
+ * Calculate penalty for crusts and wind slabs that formed after the report
+ * @param reportTimestamp - When the report was submitted
+ * @param snowpack - Snowpack history nearest to the report
+ * @returns Snowpack penalty (0 to MAX_SNOWPACK_PENALTY)
+ */
+function calculateSnowpackPenalty(
+  reportTimestamp: string,
+  snowpack: SnowpackHistory | undefined
+): number {
+  if (!snowpack) return 0;
+
+  const reportTime = new Date(reportTimestamp).getTime();
+  const penalty = snowpack.indicators
+    .filter((indicator) => new Date(indicator.since).getTime() > reportTime)
+    .reduce((sum, indicator) => sum + (SNOWPACK_CHANGE_PENALTY[indicator.type] ?? 0), 0);
+
+  return Math.min(penalty, WEIGHTS.MAX_SNOWPACK_PENALTY);
+}
+
 /**
  * Calculate consistency bonus for similar reports
  * @param similarReportCount - Number of similar reports at same location within 24h
@@ -232,25 +280,67 @@ function calculateConsistencyBonus(similarReportCount: number): number {
   return Math.min(bonus, WEIGHTS.MAX_CONSISTENCY_BONUS);
 }
 
+/**
+ * Time the report was last known to hold
+ * While confirmations outnumber disputes, the newest confirmation re-dates
+ * the report, so age and later snowpack changes count from there.
+ * @param reportTimestamp - When the report was submitted
+ * @param votes - Vote tally of the report
+ * @returns Report timestamp or the newest confirmation
+ */
+function lastAccurateAt(reportTimestamp: string, votes: ReportVotes | undefined): string {
+  if (!votes?.lastConfirmedAt || votes.confirms <= votes.disputes) {
+    return reportTimestamp;
+  }
+  return new Date(votes.lastConfirmedAt).getTime() > new Date(reportTimestamp).getTime()
+    ? votes.lastConfirmedAt
+    : reportTimestamp;
+}
+
+/**
+ * Calculate the vote bonus or penalty
+ * @param votes - Vote tally of the report
+ * @returns Vote delta (-MAX_DISPUTE_PENALTY to +MAX_CONFIRM_BONUS)
+ */
+function calculateVoteDelta(votes: ReportVotes | undefined): number {
+  if (!votes) return 0;
+
+  const net = votes.confirms - votes.disputes;
+  if (net > 0) {
+    return Math.min(net * WEIGHTS.CONFIRM_BONUS, WEIGHTS.MAX_CONFIRM_BONUS);
+  }
+  if (net < 0) {
+    return -Math.min(-net * WEIGHTS.DISPUTE_PENALTY, WEIGHTS.MAX_DISPUTE_PENALTY);
+  }
+  return 0;
+}
+
 /**
  * Calculate the complete relevance score for a report
  * @param reportTimestamp - When the report was submitted
  * @param weatherSnapshot - Weather conditions at report time
  * @param currentWeather - Current weather conditions
  * @param similarReportCount - Number of similar reports at location
+ * @param snowpack - Snowpack history nearest to the report
+ * @param votes - Confirm/dispute tally of the report
+ * @param reputation - Reputation of the report's author
  * @returns RelevanceFactors with breakdown and final score
  */
 export function calculateRelevanceScore(
   reportTimestamp: string,
   weatherSnapshot: WeatherSnapshot | undefined,
   currentWeather: ElevationWeather | undefined,
-  similarReportCount: number = 1
+  similarReportCount: number = 1,
+  snowpack?: SnowpackHistory,
+  votes?: ReportVotes,
+  reputation?: ContributorReputation
 ): RelevanceFactors {
   // Base score starts at 100
   let score = 100;
+  const accurateAt = lastAccurateAt(reportTimestamp, votes);
 
   // Calculate age penalty (always applies)
-  const agePenalty = calculateAgePenalty(reportTimestamp);
+  const agePenalty = calculateAgePenalty(accurateAt);
   score -= agePenalty;
 
   // Calculate weather-related penalties (only if we have snapshot)
@@ -279,10 +369,20 @@ export function calculateRelevanceScore(
   );
   score -= weatherEventPenalty;
 
+  const snowpackPenalty = calculateSnowpackPenalty(accurateAt, snowpack);
+  score -= snowpackPenalty;
+
   // Calculate consistency bonus
   const consistencyBonus = calculateConsistencyBonus(similarReportCount);
   score += consistencyBonus;
 
+  const voteDelta = calculateVoteDelta(votes);
+  score += voteDelta;
+
+  // Trusted authors' reports hold up longer, doubtful ones fade faster
+  const reputationWeight = calculateReputationWeight(reputation);
+  score *= reputationWeight;
+
   // Clamp final score to 0-100
   const finalScore = Math.max(0, Math.min(100, Math.round(score)));
 
@@ -292,23 +392,41 @@ export function calculateRelevanceScore(
     freshSnowDelta,
     freezingLevelPenalty,
     weatherEventPenalty,
+    snowpackPenalty,
     consistencyBonus,
+    voteDelta,
+    reputationWeight,
     finalScore,
   };
 }
 
 /**
  * Calculate a base relevance score for reports without weather snapshots
- * Uses a default base of 60 with age penalty
+ * Uses a default base of 60 with age, snowpack, vote and reputation adjustments
  * @param reportTimestamp - When the report was submitted
+ * @param snowpack - Snowpack history nearest to the report
+ * @param votes - Confirm/dispute tally of the report
+ * @param reputation - Reputation of the report's author
  * @returns RelevanceFactors with limited breakdown
  */
-export function calculateBaseRelevanceScore(reportTimestamp: string): RelevanceFactors {
-  const agePenalty = calculateAgePenalty(reportTimestamp);
+export function calculateBaseRelevanceScore(
+  reportTimestamp: string,
+  snowpack?: SnowpackHistory,
+  votes?: ReportVotes,
+  reputation?: ContributorReputation
+): RelevanceFactors {
+  const accurateAt = lastAccurateAt(reportTimestamp, votes);
+  const agePenalty = calculateAgePenalty(accurateAt);
+  const snowpackPenalty = calculateSnowpackPenalty(accurateAt, snowpack);
+  const voteDelta = calculateVoteDelta(votes);
+  const reputationWeight = calculateReputationWeight(reputation);
 
   // Reports without weather data start at 60 (middle ground)
   const baseScore = 60;
-  const finalScore = Math.max(0, Math.min(100, baseScore - agePenalty));
+  const finalScore = Math.max(
+    0,
+    Math.min(100, Math.round((baseScore - agePenalty - snowpackPenalty + voteDelta) * reputationWeight))
+  );
 
   return {
     agePenalty,
@@ -316,7 +434,10 @@ export function calculateBaseRelevanceScore(reportTimestamp: string): RelevanceF
     freshSnowDelta: 0,
     freezingLevelPenalty: 0,
     weatherEventPenalty: 0,
+    snowpackPenalty,
     consistencyBonus: 0,
+    voteDelta,
+    reputationWeight,
     finalScore,
   };
 }
@@ -0,0 +1,62 @@
+/**
+ * Contributor Reputation
+ *
+ * Turns the reputation stored on profiles (rebuilt by the update-reputation
+ * edge function) into a relevance multiplier and a trust tier. Contributors
+ * with too few reports count as newcomers and stay neutral.
+ *
+ * @module utils/reputation
+ */
+
+import type { ContributorReputation, ReputationTier } from '@/types';
+
+/**
+ * Reputation thresholds and weighting
+ */
+export const REPUTATION_CONFIG = {
+  /** Neutral score of newcomers */
+  NEUTRAL: 50,
+  /** Reports needed before the score counts */
+  MIN_REPORTS: 3,
+  /** Score from which a contributor is trusted */
+  TRUSTED: 75,
+  /** Score below which a contributor's reports are flagged */
+  LOW: 35,
+  /** Multiplier at score 100 */
+  MAX_WEIGHT: 1.15,
+  /** Multiplier at score 0 */
+  MIN_WEIGHT: 0.8,
+} as const;
+
+function isEstablished(reputation: ContributorReputation | undefined): reputation is ContributorReputation {
+  return reputation !== undefined && reputation.reports >= REPUTATION_CONFIG.MIN_REPORTS;
+}
+
+/**
+ * Relevance multiplier for a report by this contributor
+ * Scales linearly from MIN_WEIGHT (0) through 1 (neutral) to MAX_WEIGHT (100).
+ * @param reputation - Author reputation, undefined for unknown authors
+ * @returns Multiplier between MIN_WEIGHT and MAX_WEIGHT
+ */
+export function reputationWeight(reputation: ContributorReputation | undefined): number {
+  if (!isEstablished(reputation)) return 1;
+
+  const { NEUTRAL, MAX_WEIGHT, MIN_WEIGHT } = REPUTATION_CONFIG;
+  const weight =
+    reputation.score >= NEUTRAL
+      ? 1 + ((reputation.score - NEUTRAL) / (100 - NEUTRAL)) * (MAX_WEIGHT - 1)
+      : 1 - ((NEUTRAL - reputation.score) / NEUTRAL) * (1 - MIN_WEIGHT);
+  return Math.round(weight * 100) / 100;
+}
+
+/**
+ * Trust tier for the badge
+ * @param reputation - Author reputation
+ * @returns ReputationTier
+ */
+export function getReputationTier(reputation: ContributorReputation | undefined): ReputationTier {
+  if (!isEstablished(reputation)) return 'new';
+  if (reputation.score >= REPUTATION_CONFIG.TRUSTED) return 'trusted';
+  if (reputation.score < REPUTATION_CONFIG.LOW) return 'low';
+  return 'regular';
+}
@@ -0,0 +1,230 @@
+/**
+ * Snowpack History Analysis
+ *
+ * Turns 7-14 days of hourly summit weather into snowpack metrics
+ * (cumulative snowfall, strongest wind, melt-freeze cycles, rain events)
+ * and condition indicators used by route scoring and report relevance.
+ *
+ * @module utils/snowpack
+ */
+
+import type { SnowpackHistory, SnowpackIndicator, WeatherHistoryPoint } from '@/types';
+import { leeAspects } from './hazardEstimate';
+import { analyzeWindLoading } from './windLoading';
+
+/**
+ * Analysis thresholds
+ */
+export const SNOWPACK_CONFIG = {
+  /** Days of history kept per elevation pair */
+  DAYS: 14,
+  /** Snowfall in 24h that counts as a snowfall event (cm) */
+  SNOWFALL_EVENT: 5,
+  /** Wind able to move loose snow (km/h) */
+  DRIFT_WIND: 25,
+  /** Hours of drifting wind needed for slabs */
+  SLAB_HOURS: 6,
+  /** Days after which wind slabs are no longer flagged */
+  SLAB_DAYS: 7,
+  /** Temperature above which the surface melts (°C) */
+  THAW: 0.5,
+  /** Temperature below which melted snow refreezes (°C) */
+  REFREEZE: -1,
+  /** Hourly rain that counts as rain (mm) */
+  RAIN: 0.2,
+  /** Snow depth below which nothing is derived (cm) */
+  MIN_SNOW_DEPTH: 10,
+  /** Hours after which untouched powder is considered aging */
+  POWDER_AGING_HOURS: 72,
+} as const;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** "2026-02-01T06:00" (UTC) -> ISO timestamp */
+function toIso(time: string): string {
+  return new Date(`${time}Z`).toISOString();
+}
+
+function hoursAgo(point: WeatherHistoryPoint, now: number): number {
+  return (now - new Date(`${point.time}Z`).getTime()) / HOUR_MS;
+}
+
+function snowfallSum(points: WeatherHistoryPoint[]): number {
+  return points.reduce((total, p) => total + p.snowfall, 0);
+}
+
+/**
+ * Index of the last hour closing a 24h window with a snowfall event
+ */
+function lastSnowfallIndex(series: WeatherHistoryPoint[]): number {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i].snowfall <= 0) continue;
+    if (snowfallSum(series.slice(Math.max(0, i - 23), i + 1)) >= SNOWPACK_CONFIG.SNOWFALL_EVENT) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Thaw/refreeze cycles with the hour of each refreeze and whether rain
+ * fell during the thaw
+ */
+function meltFreezeCycles(series: WeatherHistoryPoint[]): { refreeze: number; rain: boolean }[] {
+  const cycles: { refreeze: number; rain: boolean }[] = [];
+  let thawed = false;
+  let rain = false;
+
+  series.forEach((point, i) => {
+    if (point.temperature >= SNOWPACK_CONFIG.THAW) thawed = true;
+    if (thawed && point.rain >= SNOWPACK_CONFIG.RAIN) rain = true;
+    if (thawed && point.temperature <= SNOWPACK_CONFIG.REFREEZE) {
+      cycles.push({ refreeze: i, rain });
+      thawed = false;
+      rain = false;
+    }
+  });
+
+  return cycles;
+}
+
+/**
+ * Number of separate rain episodes
+ */
+function rainEvents(series: WeatherHistoryPoint[]): number {
+  return series.filter(
+    (point, i) => point.rain >= SNOWPACK_CONFIG.RAIN && (i === 0 || series[i - 1].rain < SNOWPACK_CONFIG.RAIN)
+  ).length;
+}
+
+/**
+ * Derive condition indicators from the series
+ */
+function deriveIndicators(series: WeatherHistoryPoint[], now: number): SnowpackIndicator[] {
+  const indicators: SnowpackIndicator[] = [];
+  const cycles = meltFreezeCycles(series);
+  const snowIndex = lastSnowfallIndex(series);
+
+  // Wind slab: drifting wind during or after the last snowfall, within a week
+  if (snowIndex >= 0 && hoursAgo(series[snowIndex], now) <= SNOWPACK_CONFIG.SLAB_DAYS * 24) {
+    const drifting = series
+      .slice(Math.max(0, snowIndex - 23))
+      .filter((p) => p.windSpeed >= SNOWPACK_CONFIG.DRIFT_WIND);
+    if (drifting.length >= SNOWPACK_CONFIG.SLAB_HOURS) {
+      const aspects = leeAspects(drifting);
+      indicators.push({
+        type: 'wind_slab',
+        label: `Prawdopodobne deski śnieżne na stokach zawietrznych (${aspects.join(', ')})`,
+        aspects,
+        since: toIso(drifting[0].time),
+      });
+    }
+  }
+
+  // Crust: the latest refreeze within 72h; rain during the thaw makes it icy
+  const lastCycle = cycles[cycles.length - 1];
+  if (lastCycle && hoursAgo(series[lastCycle.refreeze], now) <= 72) {
+    indicators.push(
+      lastCycle.rain
+        ? {
+            type: 'rain_crust',
+            label: 'Lodoszreń po deszczu i ponownym zamarznięciu',
+            since: toIso(series[lastCycle.refreeze].time),
+          }
+        : {
+            type: 'melt_freeze_crust',
+            label: `Skoryna po ponownym zamarznięciu (cykle odwilż-mróz: ${cycles.length})`,
+            since: toIso(series[lastCycle.refreeze].time),
+          }
+    );
+  }
+
+  if (snowIndex >= 0) {
+    const sinceSnow = series.slice(snowIndex);
+    const hoursSinceSnow = hoursAgo(series[snowIndex], now);
+    const stayedCold = Math.max(...sinceSnow.map((p) => p.temperature)) < SNOWPACK_CONFIG.THAW;
+
+    if (stayedCold && hoursSinceSnow < SNOWPACK_CONFIG.POWDER_AGING_HOURS) {
+      const storm = Math.round(snowfallSum(series.slice(Math.max(0, snowIndex - 47), snowIndex + 1)));
+      indicators.push({
+        type: 'fresh_powder',
+        label: `Świeży puch: ${storm} cm, bez odwilży`,
+        since: toIso(series[snowIndex].time),
+      });
+    } else if (stayedCold) {
+      indicators.push({
+        type: 'powder_aging',
+        label: `Puch się starzeje - ${Math.floor(hoursSinceSnow / 24)} dni od ostatniego opadu`,
+        since: toIso(series[snowIndex].time),
+      });
+    }
+  }
+
+  return indicators;
+}
+
+/**
+ * Summarize an hourly series for one elevation pair
+ *
+ * @param series - Hourly summit weather, oldest first
+ * @param pair - Elevation pair name and summit location
+ */
+export function analyzeSnowpack(
+  series: WeatherHistoryPoint[],
+  pair: { name: string; summit: { latitude: number; longitude: number; altitude?: number } }
+): SnowpackHistory {
+  const now = Date.now();
+  const last72h = series.filter((point) => hoursAgo(point, now) <= 72);
+  const windiest = series.reduce<WeatherHistoryPoint | undefined>(
+    (max, point) => (!max || point.windSpeed > max.windSpeed ? point : max),
+    undefined
+  );
+  const snowIndex = lastSnowfallIndex(series);
+  const snowDepth = series[series.length - 1]?.snowDepth ?? 0;
+  const hasSnow = snowDepth >= SNOWPACK_CONFIG.MIN_SNOW_DEPTH || snowfallSum(last72h) >= SNOWPACK_CONFIG.SNOWFALL_EVENT;
+
+  return {
+    name: pair.name,
+    latitude: pair.summit.latitude,
+    longitude: pair.summit.longitude,
+    altitude: pair.summit.altitude,
+    days: Math.round(series.length / 24),
+    snowfallTotal: Math.round(snowfallSum(series)),
+    snowfall72h: Math.round(snowfallSum(last72h)),
+    snowDepth,
+    maxWind: Math.round(windiest?.windSpeed ?? 0),
+    maxWindDirection: Math.round(windiest?.windDirection ?? 0),
+    meltFreezeCycles: meltFreezeCycles(series).length,
+    rainEvents: rainEvents(series),
+    lastSnowfall: snowIndex >= 0 ? toIso(series[snowIndex].time) : undefined,
+    // Without a snowpack there is nothing to form slabs or crusts
+    indicators: hasSnow ? deriveIndicators(series, now) : [],
+    windLoading: analyzeWindLoading(series),
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Snowpack history of the pair nearest to a point (within 40 km)
+ */
+export function findNearestSnowpack(
+  point: { lat: number; lng: number },
+  snowpack: SnowpackHistory[]
+): SnowpackHistory | undefined {
+  const toRad = Math.PI / 180;
+  let nearest: SnowpackHistory | undefined;
+  let nearestDistance = 40;
+
+  for (const history of snowpack) {
+    // Equirectangular approximation, fine at these distances
+    const x = (history.longitude - point.lng) * toRad * Math.cos(((history.latitude + point.lat) / 2) * toRad);
+    const y = (history.latitude - point.lat) * toRad;
+    const distance = Math.sqrt(x * x + y * y) * 6371;
+    if (distance <= nearestDistance) {
+      nearest = history;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
@@ -0,0 +1,316 @@
+/**
+ * GPX/KML Track Import
+ *
+ * Parses recorded tracks and derives route metrics (distance,
+ * vertical gain, dominant aspects, duration) for custom routes.
+ */
+
+import type { AtesClass, Aspect, Route, RouteDifficulty, TrackPoint } from '@/types';
+import { ALL_REGIONS, REGION_COORDS } from '@/constants';
+
+/**
+ * Import thresholds
+ */
+const IMPORT_CONFIG = {
+  /** Points kept after simplification (storage and map drawing) */
+  MAX_POINTS: 500,
+  /** Altitude change ignored as GPS noise when summing gain (m) */
+  GAIN_HYSTERESIS: 5,
+  /** Segments flatter than this don't count towards aspects (rise/run) */
+  MIN_ASPECT_GRADIENT: 0.05,
+  /** Aspect share needed to count as dominant */
+  DOMINANT_ASPECT_SHARE: 0.25,
+  /** Ascent rate for duration estimate (m/h) */
+  ASCENT_RATE: 400,
+  /** Horizontal speed for duration estimate (km/h) */
+  HORIZONTAL_SPEED: 4,
+} as const;
+
+const ASPECTS: Aspect[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * Track read from a GPX/KML file
+ */
+export interface ParsedTrack {
+  /** Track name from the file, if any */
+  name?: string;
+  points: TrackPoint[];
+}
+
+/**
+ * Metrics derived from a track
+ */
+export interface TrackStats {
+  /** Distance in km */
+  distance: number;
+  /** Cumulative vertical gain in meters */
+  elevationGain: number;
+  /** First track point */
+  start: TrackPoint;
+  /** Highest track point */
+  summit: TrackPoint;
+  /** Dominant slope aspects */
+  aspects: Aspect[];
+  /** Estimated duration in hours */
+  duration: number;
+}
+
+/**
+ * Distance between two track points in km (haversine)
+ */
+function distanceKm(a: TrackPoint, b: TrackPoint): number {
+  const toRad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * toRad;
+  const dLng = (b.lng - a.lng) * toRad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * toRad) * Math.cos(b.lat * toRad) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Compass bearing from a to b in degrees (0 = N)
+ */
+function bearing(a: TrackPoint, b: TrackPoint): number {
+  const toRad = Math.PI / 180;
+  const y = Math.sin((b.lng - a.lng) * toRad) * Math.cos(b.lat * toRad);
+  const x =
+    Math.cos(a.lat * toRad) * Math.sin(b.lat * toRad) -
+    Math.sin(a.lat * toRad) * Math.cos(b.lat * toRad) * Math.cos((b.lng - a.lng) * toRad);
+  return (Math.atan2(y, x) / toRad + 360) % 360;
+}
+
+function bearingToAspect(degrees: number): Aspect {
+  return ASPECTS[Math.round(degrees / 45) % 8];
+}
+
+/**
+ * Parse GPX track points (falls back to route points)
+ */
+function parseGpx(doc: Document): ParsedTrack {
+  let nodes = Array.from(doc.getElementsByTagName('trkpt'));
+  if (nodes.length === 0) {
+    nodes = Array.from(doc.getElementsByTagName('rtept'));
+  }
+
+  const points = nodes.map((node) => ({
+    lat: parseFloat(node.getAttribute('lat') ?? ''),
+    lng: parseFloat(node.getAttribute('lon') ?? ''),
+    altitude: parseFloat(node.getElementsByTagName('ele')[0]?.textContent ?? ''),
+  }));
+
+  const trk = doc.getElementsByTagName('trk')[0] ?? doc.getElementsByTagName('rte')[0];
+  const name =
+    trk?.getElementsByTagName('name')[0]?.textContent ??
+    doc.getElementsByTagName('name')[0]?.textContent ??
+    undefined;
+
+  return { name: name?.trim() || undefined, points };
+}
+
+/**
+ * Parse KML LineString coordinates or gx:Track points
+ */
+function parseKml(doc: Document): ParsedTrack {
+  const points: TrackPoint[] = [];
+
+  for (const line of Array.from(doc.getElementsByTagName('LineString'))) {
+    const text = line.getElementsByTagName('coordinates')[0]?.textContent ?? '';
+    for (const tuple of text.trim().split(/\s+/)) {
+      const [lng, lat, altitude] = tuple.split(',').map(parseFloat);
+      points.push({ lat, lng, altitude });
+    }
+  }
+
+  // Google Earth tracks: <gx:coord>lng lat alt</gx:coord>
+  if (points.length === 0) {
+    for (const coord of Array.from(doc.getElementsByTagNameNS('*', 'coord'))) {
+      const [lng, lat, altitude] = (coord.textContent ?? '').trim().split(/\s+/).map(parseFloat);
+      points.push({ lat, lng, altitude });
+    }
+  }
+
+  const placemark = doc.getElementsByTagName('Placemark')[0];
+  const name =
+    placemark?.getElementsByTagName('name')[0]?.textContent ??
+    doc.getElementsByTagName('name')[0]?.textContent ??
+    undefined;
+
+  return { name: name?.trim() || undefined, points };
+}
+
+/**
+ * Parse a GPX or KML file
+ * Throws an Error with a Polish message when the file can't be used.
+ */
+export function parseTrackFile(content: string, fileName: string): ParsedTrack {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension !== 'gpx' && extension !== 'kml') {
+    throw new Error('Nieobsługiwany format pliku - wybierz plik GPX lub KML');
+  }
+
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Nie udało się odczytać pliku - uszkodzony XML');
+  }
+
+  const parsed = extension === 'gpx' ? parseGpx(doc) : parseKml(doc);
+  const validPoints = parsed.points.filter(
+    (p) => Number.isFinite(p.lat) && Number.isFinite(p.lng)
+  );
+
+  if (validPoints.length < 2) {
+    throw new Error('Plik nie zawiera śladu trasy');
+  }
+  if (!validPoints.every((p) => Number.isFinite(p.altitude))) {
+    throw new Error('Ślad nie zawiera wysokości - wyeksportuj go z danymi wysokościowymi');
+  }
+
+  return { name: parsed.name, points: simplifyTrack(validPoints) };
+}
+
+/**
+ * Reduce a track to at most MAX_POINTS, keeping the ends and the highest point
+ */
+export function simplifyTrack(
+  points: TrackPoint[],
+  maxPoints: number = IMPORT_CONFIG.MAX_POINTS
+): TrackPoint[] {
+  if (points.length <= maxPoints) {
+    return points;
+  }
+
+  const highest = points.reduce((max, p, i) => (p.altitude > points[max].altitude ? i : max), 0);
+  const step = (points.length - 1) / (maxPoints - 1);
+  const indices = new Set<number>([highest]);
+  for (let i = 0; i < maxPoints; i++) {
+    indices.add(Math.round(i * step));
+  }
+
+  return [...indices].sort((a, b) => a - b).map((i) => points[i]);
+}
+
+/**
+ * Derive route metrics from a track
+ *
+ * Aspects are weighted by the altitude change of each segment: a
+ * descending segment faces its direction of travel, an ascending one
+ * the opposite way.
+ */
+export function analyzeTrack(points: TrackPoint[]): TrackStats {
+  let distance = 0;
+  let elevationGain = 0;
+  let reference = points[0].altitude;
+  const aspectWeights = new Map<Aspect, number>();
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    const segment = distanceKm(prev, point);
+    distance += segment;
+
+    // Gain with hysteresis to ignore GPS altitude noise
+    const sinceReference = point.altitude - reference;
+    if (sinceReference >= IMPORT_CONFIG.GAIN_HYSTERESIS) {
+      elevationGain += sinceReference;
+      reference = point.altitude;
+    } else if (sinceReference < 0) {
+      reference = point.altitude;
+    }
+
+    const rise = point.altitude - prev.altitude;
+    if (segment > 0 && Math.abs(rise) / (segment * 1000) >= IMPORT_CONFIG.MIN_ASPECT_GRADIENT) {
+      const direction = bearing(prev, point);
+      const aspect = bearingToAspect(rise < 0 ? direction : (direction + 180) % 360);
+      aspectWeights.set(aspect, (aspectWeights.get(aspect) ?? 0) + Math.abs(rise));
+    }
+  }
+
+  const totalWeight = [...aspectWeights.values()].reduce((sum, w) => sum + w, 0);
+  const ranked = [...aspectWeights.entries()].sort((a, b) => b[1] - a[1]);
+  const aspects = ranked
+    .filter(([, weight]) => weight >= totalWeight * IMPORT_CONFIG.DOMINANT_ASPECT_SHARE)
+    .slice(0, 3)
+    .map(([aspect]) => aspect);
+  if (aspects.length === 0 && ranked.length > 0) {
+    aspects.push(ranked[0][0]);
+  }
+
+  const summit = points.reduce((max, p) => (p.altitude > max.altitude ? p : max), points[0]);
+
+  // DIN 33466: longer of vertical/horizontal time plus half of the shorter
+  const verticalHours = elevationGain / IMPORT_CONFIG.ASCENT_RATE;
+  const horizontalHours = distance / IMPORT_CONFIG.HORIZONTAL_SPEED;
+  const duration =
+    Math.max(verticalHours, horizontalHours) + Math.min(verticalHours, horizontalHours) / 2;
+
+  return {
+    distance: Math.round(distance * 10) / 10,
+    elevationGain: Math.round(elevationGain),
+    start: points[0],
+    summit,
+    aspects,
+    duration: Math.max(0.5, Math.round(duration * 2) / 2),
+  };
+}
+
+/**
+ * Difficulty suggestion from vertical gain (user can override)
+ */
+export function suggestDifficulty(elevationGain: number): RouteDifficulty {
+  if (elevationGain < 500) return 'easy';
+  if (elevationGain < 1000) return 'moderate';
+  if (elevationGain < 1500) return 'difficult';
+  return 'expert';
+}
+
+/**
+ * Region whose map center is closest to a point
+ */
+export function nearestRegion(point: { lat: number; lng: number }): string {
+  let nearest: string = ALL_REGIONS[0];
+  let nearestDistance = Infinity;
+
+  for (const region of ALL_REGIONS) {
+    const [lat, lng] = REGION_COORDS[region].center;
+    const distance = distanceKm({ lat, lng, altitude: 0 }, { ...point, altitude: 0 });
+    if (distance < nearestDistance) {
+      nearest = region;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Build a custom route from an imported track
+ */
+export function routeFromTrack(input: {
+  id: string;
+  name: string;
+  region: string;
+  difficulty: RouteDifficulty;
+  ates: AtesClass;
+  points: TrackPoint[];
+  description?: string;
+}): Route {
+  const stats = analyzeTrack(input.points);
+
+  return {
+    id: input.id,
+    name: input.name,
+    region: input.region,
+    startPoint: { ...stats.start },
+    summit: { ...stats.summit },
+    elevation: stats.elevationGain,
+    distance: stats.distance,
+    difficulty: input.difficulty,
+    ates: input.ates,
+    aspects: stats.aspects,
+    duration: stats.duration,
+    description: input.description,
+    track: input.points,
+    isCustom: true,
+  };
+}
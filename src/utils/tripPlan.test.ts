@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import type { PendingTripChanges, TripPlan } from '@/types';
+import { mergeTripPlan, returnAfterCheckIn } from './tripPlan';
+import {
+  appendCheckIns,
+  applyCheckIn,
+  isOverdue,
+  needsAllClear,
+  needsEscalation,
+  type TripPlanState,
+} from '../../supabase/functions/_shared/tripPlan.ts';
+
+const at = (time: string) => new Date(`2024-02-10T${time}:00Z`);
+
+/**
+ * One trip-overdue run on a single plan, in the function's order
+ */
+function runCron(plan: TripPlanState, now: Date): { plan: TripPlanState; sms: 'overdue' | 'all-clear' | null } {
+  let next = plan;
+  if (isOverdue(next, now)) {
+    next = { ...next, status: 'overdue', overdue_at: now.toISOString() };
+  }
+  if (needsEscalation(next)) {
+    return { plan: { ...next, escalated_at: now.toISOString() }, sms: 'overdue' };
+  }
+  if (needsAllClear(next)) {
+    return { plan: { ...next, all_clear_at: now.toISOString() }, sms: 'all-clear' };
+  }
+  return { plan: next, sms: null };
+}
+
+/**
+ * Check-in as useTripPlanStore.checkIn writes it before the upsert
+ */
+function deviceCheckIn(plan: TripPlanState, now: Date, expectedReturn?: string): TripPlanState {
+  const entry = { at: now.toISOString(), by: 'Ola' };
+  return {
+    ...plan,
+    status: 'active',
+    check_ins: [...plan.check_ins, entry],
+    expected_return: returnAfterCheckIn(plan.expected_return, entry.at, expectedReturn),
+  };
+}
+
+const plan: TripPlanState = {
+  status: 'active',
+  expected_return: at('10:00').toISOString(),
+  check_ins: [],
+  last_position: null,
+  overdue_at: null,
+  escalated_at: null,
+  all_clear_at: null,
+};
+
+describe('overdue trip plans', () => {
+  it('escalates once the grace period has passed', () => {
+    expect(runCron(plan, at('10:20')).sms).toBeNull();
+
+    const late = runCron(plan, at('10:31'));
+    expect(late.sms).toBe('overdue');
+    expect(late.plan.status).toBe('overdue');
+
+    // Already escalated since it turned overdue
+    expect(runCron(late.plan, at('10:36')).sms).toBeNull();
+  });
+
+  it('sends the all-clear after a check-in instead of escalating again', () => {
+    const escalated = runCron(plan, at('10:31')).plan;
+    const checkedIn = deviceCheckIn(escalated, at('10:45'));
+
+    const next = runCron(checkedIn, at('10:50'));
+    expect(next.sms).toBe('all-clear');
+    expect(next.plan.status).toBe('active');
+
+    expect(runCron(next.plan, at('10:55')).sms).toBeNull();
+  });
+
+  it('treats a late check-in as all-clear even when the return was not moved', () => {
+    const escalated = runCron(plan, at('10:31')).plan;
+    const oldClient: TripPlanState = {
+      ...escalated,
+      status: 'active',
+      check_ins: [{ at: at('10:45').toISOString(), by: 'Ola' }],
+    };
+
+    expect(runCron(oldClient, at('10:50')).sms).toBe('all-clear');
+  });
+
+  it('escalates again when the party misses the moved return', () => {
+    let state = runCron(plan, at('10:31')).plan;
+    state = runCron(deviceCheckIn(state, at('10:45')), at('10:50')).plan;
+
+    // Moved to 11:45, plus 30 minutes grace
+    expect(runCron(state, at('12:10')).sms).toBeNull();
+    const again = runCron(state, at('12:20'));
+    expect(again.sms).toBe('overdue');
+
+    // A second check-in clears the second alert
+    expect(runCron(deviceCheckIn(again.plan, at('12:30')), at('12:35')).sms).toBe('all-clear');
+  });
+
+  it('keeps a new return time given with the check-in', () => {
+    const escalated = runCron(plan, at('10:31')).plan;
+    const checkedIn = applyCheckIn(
+      escalated,
+      { at: at('10:45').toISOString(), by: 'Kuba', position: { lat: 49.23, lng: 19.98 } },
+      at('14:00').toISOString()
+    );
+
+    expect(checkedIn.expected_return).toBe(at('14:00').toISOString());
+    expect(checkedIn.last_position).toEqual({ lat: 49.23, lng: 19.98, at: at('10:45').toISOString() });
+    expect(runCron(checkedIn, at('14:20')).sms).toBe('all-clear');
+    expect(runCron({ ...checkedIn, all_clear_at: at('14:20').toISOString() }, at('14:31')).sms).toBe('overdue');
+  });
+});
+
+/**
+ * Device copy of a server row, as fromSupabasePlan reads it
+ */
+function devicePlan(state: TripPlanState): TripPlan {
+  return {
+    id: 'plan-1',
+    routeId: 'kasprowy',
+    routeName: 'Kasprowy Wierch',
+    region: 'Tatry',
+    party: ['Ola', 'Kuba'],
+    plannedStart: at('07:00').toISOString(),
+    turnaroundAt: at('09:00').toISOString(),
+    expectedReturn: state.expected_return,
+    emergencyContact: { name: 'Ania', phone: '+48 600 000 000' },
+    status: state.status,
+    checkIns: state.check_ins,
+    lastPosition: state.last_position ?? undefined,
+    createdAt: at('06:00').toISOString(),
+    updatedAt: at('06:00').toISOString(),
+  };
+}
+
+describe('owner sync after member check-ins', () => {
+  // Ola checked in offline at 10:40 and marked the trip returned at 11:30;
+  // meanwhile Kuba checked in through the link at 10:50
+  const ownerCheckIn = { at: at('10:40').toISOString(), by: 'Ola', position: { lat: 49.23, lng: 19.98 } };
+  const pending: PendingTripChanges = {
+    checkIns: [{ checkIn: ownerCheckIn, expectedReturn: at('13:00').toISOString() }],
+    status: 'returned',
+  };
+  const memberCheckIn = { at: at('10:50').toISOString(), by: 'Kuba', position: { lat: 49.24, lng: 19.99 } };
+  const server = applyCheckIn(runCron(plan, at('10:31')).plan, memberCheckIn);
+
+  it('appends the owner check-ins next to the member check-in on the server', () => {
+    const saved = appendCheckIns(server, pending.checkIns);
+
+    expect(saved.check_ins.map((c) => c.by)).toEqual(['Ola', 'Kuba']);
+    // Kuba's check-in is newer: his position and moved return stay
+    expect(saved.last_position).toEqual({ ...memberCheckIn.position, at: memberCheckIn.at });
+    expect(saved.expected_return).toBe(at('11:50').toISOString());
+
+    // A retried sync adds nothing twice
+    expect(appendCheckIns(saved, pending.checkIns)).toEqual(saved);
+  });
+
+  it('keeps the member check-in when the owner device merges the server copy', () => {
+    const serverCopy = devicePlan(appendCheckIns(server, pending.checkIns));
+    const merged = mergeTripPlan(serverCopy, pending);
+
+    expect(merged.checkIns.map((c) => c.by)).toEqual(['Ola', 'Kuba']);
+    expect(merged.lastPosition?.at).toBe(memberCheckIn.at);
+    expect(merged.status).toBe('returned');
+  });
+
+  it('merges unsaved owner check-ins into a newer server copy', () => {
+    const merged = mergeTripPlan(devicePlan(server), { checkIns: pending.checkIns });
+
+    expect(merged.checkIns).toEqual([ownerCheckIn, memberCheckIn]);
+    expect(merged.status).toBe('active');
+    expect(merged.expectedReturn).toBe(at('11:50').toISOString());
+  });
+
+  it('does not reopen a plan closed on the server', () => {
+    const closed = { ...server, status: 'cancelled' as const };
+    expect(appendCheckIns(closed, pending.checkIns).status).toBe('cancelled');
+    expect(mergeTripPlan(devicePlan(closed), { checkIns: pending.checkIns }).status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Trip Plan Helpers
+ *
+ * Default times for a new plan, overdue state and the emergency message.
+ * The trip-overdue edge function uses the same grace period and message.
+ */
+
+import type { EvaluatedRoute, PendingTripChanges, TripPlan, TripStatus } from '@/types';
+
+/** TOPR emergency numbers (985 also reaches GOPR outside the Tatry) */
+export const TOPR_PHONE = '985';
+export const TOPR_PHONE_MOBILE = '+48 601 100 300';
+
+/** Minutes after the expected return before the emergency contact is texted */
+export const OVERDUE_GRACE_MINUTES = 30;
+
+/**
+ * A check-in after the expected return moves it this far past the check-in
+ * (same as supabase/functions/_shared/tripPlan.ts)
+ */
+export const LATE_CHECK_IN_MINUTES = 60;
+
+/** Plan still needs attention (not returned or cancelled) */
+export function isTripOpen(plan: TripPlan): boolean {
+  return plan.status === 'planned' || plan.status === 'active' || plan.status === 'overdue';
+}
+
+/**
+ * Status as of now; plans turn overdue locally as soon as the expected
+ * return passes, before the server escalates
+ */
+export function tripStatus(plan: TripPlan, now: Date = new Date()): TripStatus {
+  if ((plan.status === 'planned' || plan.status === 'active') && now.getTime() > Date.parse(plan.expectedReturn)) {
+    return 'overdue';
+  }
+  return plan.status;
+}
+
+/**
+ * Expected return after a check-in: the new time when given, otherwise a
+ * return already in the past moves LATE_CHECK_IN_MINUTES past the check-in,
+ * so the server does not mark the plan overdue again right away
+ */
+export function returnAfterCheckIn(expectedReturn: string, at: string, requested?: string): string {
+  if (requested) return requested;
+  const late = Date.parse(at) + LATE_CHECK_IN_MINUTES * 60_000;
+  return Date.parse(expectedReturn) < Date.parse(at) ? new Date(late).toISOString() : expectedReturn;
+}
+
+/**
+ * Server copy of a plan with the device's unsaved changes on top, by the
+ * rules trip-check-in appends queued check-ins with: known check-ins are
+ * skipped, an older check-in neither replaces a newer position nor sets the
+ * return, and check-ins do not reopen a closed plan
+ */
+export function mergeTripPlan<T extends TripPlan>(server: T, pending: PendingTripChanges): T {
+  const ordered = [...pending.checkIns].sort((a, b) => Date.parse(a.checkIn.at) - Date.parse(b.checkIn.at));
+
+  let plan = server;
+  for (const { checkIn, expectedReturn } of ordered) {
+    if (plan.checkIns.some((c) => c.at === checkIn.at && c.by === checkIn.by)) continue;
+
+    const at = Date.parse(checkIn.at);
+    const newest = plan.checkIns.every((c) => Date.parse(c.at) <= at);
+    const newerPosition = !plan.lastPosition || Date.parse(plan.lastPosition.at) <= at;
+    plan = {
+      ...plan,
+      status: isTripOpen(plan) ? 'active' : plan.status,
+      checkIns: [...plan.checkIns, checkIn].sort((a, b) => Date.parse(a.at) - Date.parse(b.at)),
+      lastPosition: checkIn.position && newerPosition ? { ...checkIn.position, at: checkIn.at } : plan.lastPosition,
+      expectedReturn: returnAfterCheckIn(plan.expectedReturn, checkIn.at, newest ? expectedReturn : undefined),
+    };
+  }
+
+  return pending.status ? { ...plan, status: pending.status } : plan;
+}
+
+/**
+ * Link party members open to check in without the plan on their phone
+ */
+export function checkInLink(plan: TripPlan, origin: string = window.location.origin): string | undefined {
+  return plan.checkInToken ? `${origin}/?checkin=${plan.checkInToken}` : undefined;
+}
+
+/**
+ * Minutes left until the emergency contact is notified (0 once due)
+ */
+export function minutesUntilEscalation(plan: TripPlan, now: Date = new Date()): number {
+  const escalation = Date.parse(plan.expectedReturn) + OVERDUE_GRACE_MINUTES * 60_000;
+  return Math.max(0, Math.ceil((escalation - now.getTime()) / 60_000));
+}
+
+/**
+ * "YYYY-MM-DDTHH:MM" for a datetime-local input, in local time
+ */
+export function toLocalInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Start, turnaround and return for a route: the time window when the route
+ * has one, otherwise its duration from the next full hour
+ */
+export function defaultTripTimes(
+  route: EvaluatedRoute,
+  now: Date = new Date()
+): { plannedStart: Date; turnaroundAt: Date; expectedReturn: Date } {
+  if (route.timeWindow) {
+    const { date, start, turnaround, descentWindow } = route.timeWindow;
+    return {
+      plannedStart: new Date(`${date}T${start}`),
+      turnaroundAt: new Date(`${date}T${turnaround}`),
+      expectedReturn: new Date(`${date}T${descentWindow.to}`),
+    };
+  }
+
+  const plannedStart = new Date(now);
+  plannedStart.setHours(now.getHours() + 1, 0, 0, 0);
+  // Ascent takes about two thirds of the tour
+  const turnaroundAt = new Date(plannedStart.getTime() + route.duration * (2 / 3) * 3_600_000);
+  const expectedReturn = new Date(plannedStart.getTime() + route.duration * 3_600_000);
+  return { plannedStart, turnaroundAt, expectedReturn };
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('pl-PL', {
+    day: 'numeric',
+    month: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Text to send to the emergency contact or rescue service
+ */
+export function emergencyMessage(plan: TripPlan): string {
+  const party = plan.party.length > 0 ? plan.party.join(', ') : 'Grupa';
+  const lines = [
+    `${party} nie wrócili z wyjścia: ${plan.routeName} (${plan.region}).`,
+    `Planowany powrót: ${formatTime(plan.expectedReturn)}.`,
+  ];
+  if (plan.lastPosition) {
+    const { lat, lng, at } = plan.lastPosition;
+    lines.push(
+      `Ostatnia pozycja (${formatTime(at)}): ${lat.toFixed(5)}, ${lng.toFixed(5)} https://www.google.com/maps?q=${lat.toFixed(5)},${lng.toFixed(5)}`
+    );
+  } else {
+    lines.push('Brak pozycji GPS.');
+  }
+  lines.push(`TOPR: ${TOPR_PHONE} lub ${TOPR_PHONE_MOBILE}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,121 @@
+/**
+ * Wind Loading Analysis
+ *
+ * Estimates which aspects recent wind has loaded with drifted snow.
+ * Every hour of drifting wind deposits snow on the lee side of its
+ * direction (and partly on the neighbouring, cross-loaded aspects);
+ * transport grows steeply with wind speed.
+ *
+ * @module utils/windLoading
+ */
+
+import type { Aspect, Route, SnowpackHistory, TerrainProfile, WeatherHistoryPoint, WindLoading } from '@/types';
+
+const ASPECTS: Aspect[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * Analysis thresholds
+ */
+export const WIND_LOADING_CONFIG = {
+  /** Hours of history analyzed */
+  HOURS: 48,
+  /** Wind able to move loose snow (km/h) */
+  DRIFT_WIND: 20,
+  /** Snowfall in the period needed for snow to drift (cm) */
+  MIN_SNOWFALL: 5,
+  /** Share of the lee load deposited on each neighbouring aspect */
+  CROSS_LOADING: 0.5,
+  /** Relative load above which an aspect counts as loaded */
+  LOADED: 0.5,
+  /** Transport (drift-wind hours equivalent) for moderate and strong loading */
+  MODERATE: 6,
+  STRONG: 18,
+} as const;
+
+/**
+ * Snow moved in one hour, relative to an hour at the drift threshold
+ * (transport grows roughly with the cube of wind speed)
+ */
+function transport(windSpeed: number): number {
+  if (windSpeed < WIND_LOADING_CONFIG.DRIFT_WIND) return 0;
+  return Math.min(8, (windSpeed / WIND_LOADING_CONFIG.DRIFT_WIND) ** 3);
+}
+
+function sector(degrees: number): number {
+  return Math.round((((degrees % 360) + 360) % 360) / 45) % 8;
+}
+
+/**
+ * Loaded aspects from hourly wind and snowfall
+ *
+ * @param history - Hourly weather, oldest first; the last 48h are used
+ */
+export function analyzeWindLoading(history: WeatherHistoryPoint[]): WindLoading {
+  const recent = history.slice(-WIND_LOADING_CONFIG.HOURS);
+  const snowfall = Math.round(recent.reduce((total, p) => total + p.snowfall, 0));
+  const drifting = recent.filter((p) => p.windSpeed >= WIND_LOADING_CONFIG.DRIFT_WIND);
+
+  const load = ASPECTS.map(() => 0);
+  const fromLoad = ASPECTS.map(() => 0);
+  for (const point of drifting) {
+    const amount = transport(point.windSpeed);
+    const from = sector(point.windDirection);
+    const lee = (from + 4) % 8;
+    load[lee] += amount;
+    load[(lee + 1) % 8] += amount * WIND_LOADING_CONFIG.CROSS_LOADING;
+    load[(lee + 7) % 8] += amount * WIND_LOADING_CONFIG.CROSS_LOADING;
+    fromLoad[from] += amount;
+  }
+
+  const total = fromLoad.reduce((a, b) => a + b, 0);
+  const max = Math.max(...load);
+  const hasSnow = snowfall >= WIND_LOADING_CONFIG.MIN_SNOWFALL;
+  const severity: WindLoading['severity'] = !hasSnow || total < WIND_LOADING_CONFIG.MODERATE
+    ? 'none'
+    : total >= WIND_LOADING_CONFIG.STRONG
+      ? 'strong'
+      : 'moderate';
+
+  const loading = Object.fromEntries(
+    ASPECTS.map((aspect, i) => [aspect, max > 0 ? Math.round((load[i] / max) * 100) / 100 : 0])
+  ) as Record<Aspect, number>;
+
+  return {
+    hours: recent.length,
+    driftHours: drifting.length,
+    snowfall,
+    loading,
+    loadedAspects: severity === 'none' ? [] : ASPECTS.filter((aspect) => loading[aspect] >= WIND_LOADING_CONFIG.LOADED),
+    windFrom: total > 0 ? ASPECTS[fromLoad.indexOf(Math.max(...fromLoad))] : undefined,
+    severity,
+  };
+}
+
+/**
+ * Loaded aspects a route crosses - the steep DEM aspects when a terrain
+ * profile is available, otherwise the route's declared aspects
+ */
+export function loadedRouteAspects(
+  route: Route,
+  windLoading: WindLoading,
+  terrain?: TerrainProfile
+): Aspect[] {
+  const aspects = terrain ? terrain.steepAspects : route.aspects;
+  return windLoading.loadedAspects.filter((aspect) => aspects.includes(aspect));
+}
+
+const SEVERITY_ORDER: WindLoading['severity'][] = ['none', 'moderate', 'strong'];
+
+/**
+ * Most severe loading among the region's elevation pairs (the higher
+ * summit on ties), for a region-wide display
+ */
+export function strongestWindLoading(snowpack: SnowpackHistory[]): WindLoading | undefined {
+  return snowpack
+    .filter((history) => history.windLoading)
+    .sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(b.windLoading!.severity) - SEVERITY_ORDER.indexOf(a.windLoading!.severity) ||
+        (b.altitude ?? 0) - (a.altitude ?? 0)
+    )[0]?.windLoading;
+}
@@ -5,6 +5,16 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_ANON_KEY: string;
   readonly VITE_DEFAULT_REGION: string;
   readonly VITE_REFRESH_INTERVAL: string;
+  /** Base URL for SRTM .hgt tiles (defaults to /dem) */
+  readonly VITE_DEM_URL?: string;
+  /** Weather providers in priority order, joined with "+" (defaults to open-meteo) */
+  readonly VITE_WEATHER_PROVIDER?: string;
+  /** Fixture file for the fixture weather provider (defaults to /fixtures/weather.json) */
+  readonly VITE_WEATHER_FIXTURE_URL?: string;
+  /** "false" keeps fixture dates as recorded instead of shifting them to today */
+  readonly VITE_WEATHER_FIXTURE_SHIFT?: string;
+  /** VAPID public key for Web Push (push notifications are off without it) */
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,107 @@
+/**
+ * Combined Weather Provider
+ *
+ * Chains providers in priority order. Current conditions are merged: each
+ * provider contributes the fields it measures, earlier providers winning,
+ * so station observations can sit on top of a model forecast. Every other
+ * capability comes from the first provider that offers it and succeeds.
+ *
+ * @module weather/CombinedWeatherProvider
+ */
+
+import type {
+  WeatherData,
+  HourlyForecastPoint,
+  WeatherHistoryPoint,
+  EnsembleDay,
+} from '@/types';
+import type {
+  DailyForecast,
+  WeatherCapability,
+  WeatherPoint,
+  WeatherProvider,
+} from './WeatherProvider';
+
+export class CombinedWeatherProvider implements WeatherProvider {
+  readonly id: string;
+  readonly name: string;
+
+  constructor(private readonly providers: WeatherProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('CombinedWeatherProvider needs at least one provider');
+    }
+    this.id = providers.map((p) => p.id).join('+');
+    this.name = providers.map((p) => p.name).join(' + ');
+  }
+
+  async fetchCurrent(point: WeatherPoint, signal?: AbortSignal): Promise<WeatherData> {
+    const results = await Promise.allSettled(this.providers.map((p) => p.fetchCurrent(point, signal)));
+
+    let merged: WeatherData | undefined;
+    const sources: string[] = [];
+
+    // Lowest priority first, so higher-priority measurements overwrite
+    for (let i = results.length - 1; i >= 0; i--) {
+      const result = results[i];
+      if (result.status !== 'fulfilled') continue;
+
+      const measured = this.providers[i].measured;
+      if (!merged) {
+        merged = { ...result.value };
+      } else if (measured) {
+        for (const field of measured) {
+          (merged as unknown as Record<string, unknown>)[field] = result.value[field];
+        }
+      } else {
+        merged = { ...result.value };
+        sources.length = 0;
+      }
+      sources.unshift(result.value.source);
+    }
+
+    if (!merged) {
+      const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      throw failure?.reason ?? new Error('No weather provider returned data');
+    }
+
+    return { ...merged, source: sources.join(' + ') };
+  }
+
+  /**
+   * First provider offering the capability that succeeds
+   */
+  private async firstSupporting<T>(
+    capability: WeatherCapability,
+    call: (provider: WeatherProvider) => Promise<T>
+  ): Promise<T> {
+    let lastError: unknown = new Error(`No weather provider supports ${capability}`);
+
+    for (const provider of this.providers) {
+      if (!provider[capability]) continue;
+      try {
+        return await call(provider);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') throw error;
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  fetchDailyForecast(point: WeatherPoint, days: number, signal?: AbortSignal): Promise<DailyForecast> {
+    return this.firstSupporting('fetchDailyForecast', (p) => p.fetchDailyForecast!(point, days, signal));
+  }
+
+  fetchHourlyForecast(point: WeatherPoint, days: number, signal?: AbortSignal): Promise<HourlyForecastPoint[]> {
+    return this.firstSupporting('fetchHourlyForecast', (p) => p.fetchHourlyForecast!(point, days, signal));
+  }
+
+  fetchHistory(point: WeatherPoint, hours: number, signal?: AbortSignal): Promise<WeatherHistoryPoint[]> {
+    return this.firstSupporting('fetchHistory', (p) => p.fetchHistory!(point, hours, signal));
+  }
+
+  fetchEnsemble(point: WeatherPoint, days: number, signal?: AbortSignal): Promise<EnsembleDay[]> {
+    return this.firstSupporting('fetchEnsemble', (p) => p.fetchEnsemble!(point, days, signal));
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Fixture Weather Provider
+ *
+ * Serves weather from a JSON fixture (public/fixtures/weather.json by
+ * default) for deterministic offline runs and demos. Each request is
+ * answered from the fixture point nearest in position and altitude.
+ *
+ * @module weather/FixtureWeatherProvider
+ */
+
+import type {
+  WeatherData,
+  HourlyForecastPoint,
+  WeatherHistoryPoint,
+  EnsembleDay,
+} from '@/types';
+import type { DailyForecast, WeatherPoint, WeatherProvider } from './WeatherProvider';
+
+/**
+ * One location of the fixture
+ */
+export interface WeatherFixturePoint extends WeatherPoint {
+  name?: string;
+  current: WeatherData;
+  daily?: DailyForecast;
+  /** Local times ("2026-02-01T06:00") */
+  hourly?: HourlyForecastPoint[];
+  /** UTC times, oldest first */
+  history?: WeatherHistoryPoint[];
+  ensemble?: EnsembleDay[];
+}
+
+/**
+ * Fixture file contents
+ */
+export interface WeatherFixture {
+  /** Day the fixture was recorded (YYYY-MM-DD); dates are shifted from it */
+  baseDate: string;
+  points: WeatherFixturePoint[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Shift the date part of "YYYY-MM-DD..." strings by whole days
+ */
+function shiftDate(value: string, days: number): string {
+  if (days === 0) return value;
+  const shifted = new Date(Date.parse(`${value.slice(0, 10)}T00:00:00Z`) + days * DAY_MS);
+  return shifted.toISOString().slice(0, 10) + value.slice(10);
+}
+
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly id = 'fixture';
+  readonly name = 'Dane testowe';
+
+  private fixture?: Promise<WeatherFixture>;
+
+  /**
+   * @param source - Fixture URL or the fixture itself
+   * @param options.shiftToToday - Move all dates so baseDate becomes today
+   *   (keeps demos current); disable for fully reproducible runs
+   */
+  constructor(
+    private readonly source: string | WeatherFixture = import.meta.env.VITE_WEATHER_FIXTURE_URL || '/fixtures/weather.json',
+    private readonly options: { shiftToToday?: boolean } = {}
+  ) {}
+
+  private load(): Promise<WeatherFixture> {
+    if (!this.fixture) {
+      this.fixture =
+        typeof this.source === 'string'
+          ? fetch(this.source).then((response) => {
+              if (!response.ok) {
+                throw new Error(`Weather fixture not found: ${this.source}`);
+              }
+              return response.json() as Promise<WeatherFixture>;
+            })
+          : Promise.resolve(this.source);
+      // Allow a retry after a failed load
+      this.fixture.catch(() => {
+        this.fixture = undefined;
+      });
+    }
+    return this.fixture;
+  }
+
+  private shiftDays(fixture: WeatherFixture): number {
+    if (this.options.shiftToToday === false) return 0;
+    const today = Date.parse(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`);
+    return Math.round((today - Date.parse(`${fixture.baseDate}T00:00:00Z`)) / DAY_MS);
+  }
+
+  /**
+   * Fixture point nearest to the request (1 km ~ 100 m of altitude)
+   */
+  private async nearest(point: WeatherPoint): Promise<{ entry: WeatherFixturePoint; shift: number }> {
+    const fixture = await this.load();
+    if (fixture.points.length === 0) {
+      throw new Error('Weather fixture has no points');
+    }
+
+    const toRad = Math.PI / 180;
+    const cost = (entry: WeatherFixturePoint) => {
+      const x = (entry.longitude - point.longitude) * toRad * Math.cos(((entry.latitude + point.latitude) / 2) * toRad);
+      const y = (entry.latitude - point.latitude) * toRad;
+      const altitude = point.altitude !== undefined && entry.altitude !== undefined
+        ? Math.abs(entry.altitude - point.altitude) / 100
+        : 0;
+      return Math.sqrt(x * x + y * y) * 6371 + altitude;
+    };
+
+    const entry = fixture.points.reduce((best, candidate) => (cost(candidate) < cost(best) ? candidate : best));
+    return { entry, shift: this.shiftDays(fixture) };
+  }
+
+  async fetchCurrent(point: WeatherPoint): Promise<WeatherData> {
+    const { entry } = await this.nearest(point);
+    return {
+      ...entry.current,
+      source: entry.name ? `${this.name} (${entry.name})` : this.name,
+      timestamp: this.options.shiftToToday === false ? entry.current.timestamp : new Date().toISOString(),
+      confidence: {
+        level: 'unknown',
+        sourceType: 'static',
+        sourceName: this.name,
+        fetchedAt: new Date().toISOString(),
+        notes: 'Dane z pliku testowego, nie pochodzą z prawdziwego źródła',
+      },
+    };
+  }
+
+  async fetchDailyForecast(point: WeatherPoint, days: number): Promise<DailyForecast> {
+    const { entry, shift } = await this.nearest(point);
+    if (!entry.daily) {
+      throw new Error('Weather fixture has no daily forecast');
+    }
+    return {
+      dates: entry.daily.dates.slice(0, days).map((date) => shiftDate(date, shift)),
+      days: entry.daily.days.slice(0, days),
+      freezingLevels: entry.daily.freezingLevels.slice(0, days),
+    };
+  }
+
+  async fetchHourlyForecast(point: WeatherPoint, days: number): Promise<HourlyForecastPoint[]> {
+    const { entry, shift } = await this.nearest(point);
+    return (entry.hourly ?? [])
+      .slice(0, days * 24)
+      .map((hour) => ({ ...hour, time: shiftDate(hour.time, shift) }));
+  }
+
+  async fetchHistory(point: WeatherPoint, hours: number): Promise<WeatherHistoryPoint[]> {
+    const { entry, shift } = await this.nearest(point);
+    return (entry.history ?? [])
+      .slice(-hours)
+      .map((hour) => ({ ...hour, time: shiftDate(hour.time, shift) }));
+  }
+
+  async fetchEnsemble(point: WeatherPoint, days: number): Promise<EnsembleDay[]> {
+    const { entry, shift } = await this.nearest(point);
+    return (entry.ensemble ?? [])
+      .slice(0, days)
+      .map((day) => ({ ...day, date: shiftDate(day.date, shift) }));
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * IMGW Weather Provider
+ *
+ * Current observations from the synoptic stations of the Polish
+ * meteorological service (IMGW-PIB public data API). Stations measure
+ * temperature, wind, humidity and precipitation only, so this provider is
+ * meant to be combined with a forecast provider (see CombinedWeatherProvider).
+ * The water level of the nearest hydrological station (river gauge) is
+ * attached when one is close enough.
+ *
+ * @module weather/ImgwProvider
+ */
+
+import type { HydroReading, WeatherCondition, WeatherData } from '@/types';
+import { compassDirection, windChill, type WeatherPoint, type WeatherProvider } from './WeatherProvider';
+
+/**
+ * Synoptic station record (all values are strings, null when missing)
+ */
+interface ImgwSynopRecord {
+  id_stacji: string;
+  stacja: string;
+  data_pomiaru: string;
+  godzina_pomiaru: string;
+  temperatura: string | null;
+  /** m/s */
+  predkosc_wiatru: string | null;
+  /** Degrees, from */
+  kierunek_wiatru: string | null;
+  wilgotnosc_wzgledna: string | null;
+  /** mm */
+  suma_opadu: string | null;
+}
+
+/**
+ * Hydrological station record (all values are strings, null when missing)
+ */
+interface ImgwHydroRecord {
+  id_stacji: string;
+  stacja: string;
+  rzeka: string | null;
+  /** cm */
+  stan_wody: string | null;
+  /** "2026-01-31 10:00:00" */
+  stan_wody_data_pomiaru: string | null;
+  temperatura_wody: string | null;
+  /** Station position; records without it cannot be matched */
+  lon?: string | null;
+  lat?: string | null;
+}
+
+interface ImgwStation {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+}
+
+/** Synoptic stations in or near the supported regions */
+const STATIONS: ImgwStation[] = [
+  { id: '12650', name: 'Kasprowy Wierch', latitude: 49.2325, longitude: 19.9818, altitude: 1991 },
+  { id: '12625', name: 'Zakopane', latitude: 49.2940, longitude: 19.9602, altitude: 855 },
+  { id: '12600', name: 'Bielsko-Biała', latitude: 49.8070, longitude: 19.0003, altitude: 396 },
+  { id: '12510', name: 'Śnieżka', latitude: 50.7362, longitude: 15.7398, altitude: 1603 },
+  { id: '12500', name: 'Jelenia Góra', latitude: 50.9003, longitude: 15.7887, altitude: 342 },
+];
+
+/**
+ * Station matching thresholds
+ */
+export const IMGW_CONFIG = {
+  /** Maximum distance from the point (km) */
+  MAX_DISTANCE_KM: 15,
+  /** Maximum altitude difference when the point has an altitude (m) */
+  MAX_ALTITUDE_DIFF: 400,
+  /** Maximum distance of a river gauge from the point (km) */
+  MAX_HYDRO_DISTANCE_KM: 10,
+  /** How long the hydro station list is reused (ms) */
+  HYDRO_TTL: 10 * 60 * 1000,
+  /** Standard atmosphere lapse rate used to estimate the freezing level (°C/m) */
+  LAPSE_RATE: 0.0065,
+} as const;
+
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = Math.PI / 180;
+  const x = (lng2 - lng1) * toRad * Math.cos(((lat1 + lat2) / 2) * toRad);
+  const y = (lat2 - lat1) * toRad;
+  return Math.sqrt(x * x + y * y) * 6371;
+}
+
+function toNumber(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Weather provider backed by IMGW synoptic station observations
+ */
+export class ImgwProvider implements WeatherProvider {
+  readonly id = 'imgw';
+  readonly name = 'IMGW';
+  readonly measured: (keyof WeatherData)[] = [
+    'temperature',
+    'feelsLike',
+    'windSpeed',
+    'windDirection',
+    'humidity',
+    'hydro',
+  ];
+
+  private static readonly API_BASE = 'https://danepubliczne.imgw.pl/api/data/synop/id';
+  private static readonly HYDRO_URL = 'https://danepubliczne.imgw.pl/api/data/hydro/';
+
+  /** All hydro stations come in one list, shared by the points of a refresh */
+  private hydroStations?: { fetchedAt: number; records: Promise<ImgwHydroRecord[]> };
+
+  /**
+   * Nearest station close enough to stand for the point
+   */
+  static findStation(point: WeatherPoint): ImgwStation | undefined {
+    let nearest: ImgwStation | undefined;
+    let nearestDistance: number = IMGW_CONFIG.MAX_DISTANCE_KM;
+
+    for (const station of STATIONS) {
+      const distance = distanceKm(point.latitude, point.longitude, station.latitude, station.longitude);
+      const altitudeOk =
+        point.altitude === undefined || Math.abs(point.altitude - station.altitude) <= IMGW_CONFIG.MAX_ALTITUDE_DIFF;
+      if (altitudeOk && distance <= nearestDistance) {
+        nearest = station;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+
+  private loadHydroStations(signal?: AbortSignal): Promise<ImgwHydroRecord[]> {
+    if (!this.hydroStations || Date.now() - this.hydroStations.fetchedAt > IMGW_CONFIG.HYDRO_TTL) {
+      const records = fetch(ImgwProvider.HYDRO_URL, { signal }).then((response) => {
+        if (!response.ok) {
+          throw new Error(`IMGW hydro API error: ${response.status}`);
+        }
+        return response.json() as Promise<ImgwHydroRecord[]>;
+      });
+      this.hydroStations = { fetchedAt: Date.now(), records };
+      // Allow a retry after a failed load
+      records.catch(() => {
+        this.hydroStations = undefined;
+      });
+    }
+    return this.hydroStations.records;
+  }
+
+  /**
+   * Water level of the nearest river gauge, undefined when none is close
+   * enough or the hydro API is unavailable
+   */
+  async fetchHydro(point: WeatherPoint, signal?: AbortSignal): Promise<HydroReading | undefined> {
+    let records: ImgwHydroRecord[];
+    try {
+      records = await this.loadHydroStations(signal);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+      console.warn('[ImgwProvider] Hydro stations unavailable:', error);
+      return undefined;
+    }
+
+    let nearest: { record: ImgwHydroRecord; waterLevel: number } | undefined;
+    let nearestDistance: number = IMGW_CONFIG.MAX_HYDRO_DISTANCE_KM;
+
+    for (const record of records) {
+      const lat = toNumber(record.lat ?? null);
+      const lon = toNumber(record.lon ?? null);
+      const waterLevel = toNumber(record.stan_wody);
+      if (lat === undefined || lon === undefined || waterLevel === undefined) continue;
+
+      const distance = distanceKm(point.latitude, point.longitude, lat, lon);
+      if (distance <= nearestDistance) {
+        nearest = { record, waterLevel };
+        nearestDistance = distance;
+      }
+    }
+
+    if (!nearest) return undefined;
+    return {
+      station: nearest.record.stacja,
+      river: nearest.record.rzeka ?? undefined,
+      waterLevel: nearest.waterLevel,
+      waterTemperature: toNumber(nearest.record.temperatura_wody),
+      measuredAt: nearest.record.stan_wody_data_pomiaru?.replace(' ', 'T') ?? '',
+    };
+  }
+
+  async fetchCurrent(point: WeatherPoint, signal?: AbortSignal): Promise<WeatherData> {
+    const station = ImgwProvider.findStation(point);
+    if (!station) {
+      throw new Error(`No IMGW station near ${point.latitude}, ${point.longitude}`);
+    }
+
+    const [response, hydro] = await Promise.all([
+      fetch(`${ImgwProvider.API_BASE}/${station.id}`, { signal }),
+      this.fetchHydro(point, signal),
+    ]);
+    if (!response.ok) {
+      throw new Error(`IMGW API error: ${response.status}`);
+    }
+
+    const record: ImgwSynopRecord = await response.json();
+    const temperature = toNumber(record.temperatura);
+    if (temperature === undefined) {
+      throw new Error(`IMGW station ${station.name} reported no temperature`);
+    }
+
+    const windSpeed = Math.round((toNumber(record.predkosc_wiatru) ?? 0) * 3.6);
+    const precipitation = toNumber(record.suma_opadu) ?? 0;
+    // Observation hour is UTC
+    const observedAt = new Date(
+      `${record.data_pomiaru}T${record.godzina_pomiaru.padStart(2, '0')}:00:00Z`
+    ).toISOString();
+    const ageHours = (Date.now() - new Date(observedAt).getTime()) / (60 * 60 * 1000);
+
+    // Stations report no cloud cover - only precipitation can be inferred
+    const condition: WeatherCondition = precipitation > 0 ? (temperature <= 1 ? 'snow' : 'rain') : 'cloudy';
+
+    return {
+      temperature: Math.round(temperature),
+      feelsLike: Math.round(windChill(temperature, windSpeed)),
+      condition,
+      windSpeed,
+      windDirection: compassDirection(toNumber(record.kierunek_wiatru) ?? 0),
+      humidity: Math.round(toNumber(record.wilgotnosc_wzgledna) ?? 0),
+      visibility: 10,
+      freshSnow24h: 0,
+      snowBase: 0,
+      freezingLevel: Math.round(station.altitude + temperature / IMGW_CONFIG.LAPSE_RATE),
+      timestamp: observedAt,
+      source: `${this.name} (${station.name})`,
+      confidence: {
+        level: ageHours < 3 ? 'high' : 'medium',
+        sourceType: 'api',
+        sourceName: `IMGW - stacja ${station.name}`,
+        fetchedAt: new Date().toISOString(),
+        sourceDate: observedAt,
+        ageHours: Math.round(ageHours),
+        notes: 'Pomiar stacji synoptycznej; zachmurzenie, widoczność i śnieg nie są mierzone',
+        sourceUrl: 'https://danepubliczne.imgw.pl/',
+      },
+      hydro,
+    };
+  }
+}
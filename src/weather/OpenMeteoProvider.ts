@@ -0,0 +1,306 @@
+/**
+ * Open-Meteo Weather Provider
+ *
+ * Forecast model data from the Open-Meteo API (free, no API key required).
+ * Supports every capability, including the multi-model ensemble.
+ *
+ * @module weather/OpenMeteoProvider
+ */
+
+import type {
+  WeatherData,
+  WeatherCondition,
+  HourlyForecastPoint,
+  WeatherHistoryPoint,
+  EnsembleDay,
+} from '@/types';
+import { apiConfidence } from '@/types/confidence';
+import { summarizeEnsemble, type ModelSeries } from '@/utils/ensemble';
+import {
+  compassDirection,
+  type DailyForecast,
+  type WeatherPoint,
+  type WeatherProvider,
+} from './WeatherProvider';
+
+/**
+ * Open-Meteo API response structure (current conditions request)
+ */
+interface OpenMeteoResponse {
+  current: {
+    temperature_2m: number;
+    apparent_temperature: number;
+    weather_code: number;
+    wind_speed_10m: number;
+    wind_direction_10m: number;
+    relative_humidity_2m: number;
+    visibility: number;
+    snowfall: number;
+    snow_depth: number;
+  };
+  daily: {
+    snowfall_sum: number[];
+  };
+  hourly?: {
+    freezing_level_height: number[];
+  };
+}
+
+/**
+ * Map Open-Meteo weather codes to our condition types
+ */
+export function mapWeatherCode(code: number): WeatherCondition {
+  // WMO Weather interpretation codes
+  // https://open-meteo.com/en/docs
+  if (code === 0) return 'clear';
+  if (code <= 3) return 'partly_cloudy';
+  if (code <= 48) return 'fog';
+  if (code <= 55) return 'rain';
+  if (code <= 65) return 'rain';
+  if (code <= 67) return 'rain';
+  if (code <= 75) return 'snow';
+  if (code <= 77) return 'snow';
+  if (code <= 82) return 'rain';
+  if (code <= 86) return 'heavy_snow';
+  if (code >= 95) return 'rain'; // Thunderstorm
+  return 'cloudy';
+}
+
+/**
+ * Weather provider backed by the Open-Meteo forecast API
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly id = 'open-meteo';
+  readonly name = 'Open-Meteo';
+
+  private static readonly API_BASE = 'https://api.open-meteo.com/v1/forecast';
+
+  /**
+   * Models compared in ensemble mode (Open-Meteo id -> label)
+   * AROME only covers France and its borders, so it usually drops out here.
+   */
+  static readonly ENSEMBLE_MODELS: Record<string, string> = {
+    icon_d2: 'ICON-D2',
+    ecmwf_ifs025: 'ECMWF IFS',
+    gfs_seamless: 'GFS',
+    meteofrance_arome_france_hd: 'AROME',
+  };
+
+  /**
+   * Request parameters for a point, altitude-corrected when it has one
+   */
+  private pointParams(point: WeatherPoint, params: Record<string, string>): URLSearchParams {
+    const search = new URLSearchParams({
+      latitude: point.latitude.toString(),
+      longitude: point.longitude.toString(),
+      ...params,
+    });
+    if (point.altitude) {
+      search.set('elevation', point.altitude.toString());
+    }
+    return search;
+  }
+
+  private async request<T>(params: URLSearchParams, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(`${OpenMeteoProvider.API_BASE}?${params}`, { signal });
+
+    if (!response.ok) {
+      throw new Error(`Weather API error: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async fetchCurrent(point: WeatherPoint, signal?: AbortSignal): Promise<WeatherData> {
+    const params = this.pointParams(point, {
+      current: [
+        'temperature_2m',
+        'apparent_temperature',
+        'weather_code',
+        'wind_speed_10m',
+        'wind_direction_10m',
+        'relative_humidity_2m',
+        'visibility',
+        'snowfall',
+        'snow_depth',
+      ].join(','),
+      daily: 'snowfall_sum',
+      hourly: 'freezing_level_height',
+      timezone: 'auto',
+      forecast_days: '1',
+    });
+
+    const data = await this.request<OpenMeteoResponse>(params, signal);
+    return this.transformResponse(data);
+  }
+
+  /**
+   * Transform API response to our WeatherData format
+   */
+  private transformResponse(response: OpenMeteoResponse): WeatherData {
+    const current = response.current;
+
+    // Get freezing level from hourly data (current hour)
+    const freezingLevel = response.hourly?.freezing_level_height?.[
+      new Date().getHours()
+    ] ?? 2500;
+
+    // Calculate fresh snow (sum of last 24h)
+    const freshSnow24h = response.daily?.snowfall_sum?.[0] ?? 0;
+
+    return {
+      temperature: Math.round(current.temperature_2m),
+      feelsLike: Math.round(current.apparent_temperature),
+      condition: mapWeatherCode(current.weather_code),
+      windSpeed: Math.round(current.wind_speed_10m),
+      windDirection: compassDirection(current.wind_direction_10m),
+      humidity: current.relative_humidity_2m,
+      visibility: Math.round((current.visibility || 10000) / 1000), // Convert to km
+      freshSnow24h: Math.round(freshSnow24h * 10) / 10, // cm
+      snowBase: Math.round((current.snow_depth || 0) * 100), // Convert m to cm
+      freezingLevel: Math.round(freezingLevel),
+      timestamp: new Date().toISOString(),
+      source: this.name,
+      confidence: apiConfidence(this.name, 'https://open-meteo.com/'),
+    };
+  }
+
+  async fetchDailyForecast(point: WeatherPoint, days: number, signal?: AbortSignal): Promise<DailyForecast> {
+    const params = this.pointParams(point, {
+      daily: [
+        'temperature_2m_max',
+        'temperature_2m_min',
+        'weather_code',
+        'wind_speed_10m_max',
+        'snowfall_sum',
+      ].join(','),
+      hourly: 'freezing_level_height',
+      timezone: 'auto',
+      forecast_days: days.toString(),
+    });
+
+    const data = await this.request<{
+      daily: Record<string, number[]> & { time?: string[] };
+      hourly?: { time?: string[]; freezing_level_height?: number[] };
+    }>(params, signal);
+    const daily = data.daily;
+
+    const dates: string[] = daily.time ?? [];
+    const forecastDays = dates.map((_, i) => ({
+      tempMax: Math.round(daily.temperature_2m_max[i]),
+      tempMin: Math.round(daily.temperature_2m_min[i]),
+      condition: mapWeatherCode(daily.weather_code[i]),
+      windSpeed: Math.round(daily.wind_speed_10m_max[i]),
+      snowfall: Math.round((daily.snowfall_sum[i] || 0) * 10) / 10,
+    }));
+
+    // Daily maximum of the hourly freezing level
+    const hourlyTimes = data.hourly?.time ?? [];
+    const freezing = data.hourly?.freezing_level_height ?? [];
+    const freezingLevels = dates.map((date) => {
+      const levels = hourlyTimes.flatMap((time, i) =>
+        time.startsWith(date) && freezing[i] !== null && freezing[i] !== undefined ? [freezing[i]] : []
+      );
+      return levels.length > 0 ? Math.round(Math.max(...levels)) : 1500;
+    });
+
+    return { dates, days: forecastDays, freezingLevels };
+  }
+
+  async fetchHourlyForecast(point: WeatherPoint, days: number, signal?: AbortSignal): Promise<HourlyForecastPoint[]> {
+    const params = this.pointParams(point, {
+      hourly: [
+        'temperature_2m',
+        'freezing_level_height',
+        'wind_speed_10m',
+        'wind_gusts_10m',
+        'cloud_cover',
+      ].join(','),
+      timezone: 'auto',
+      forecast_days: days.toString(),
+    });
+
+    const data = await this.request<{ hourly?: Record<string, number[]> & { time?: string[] } }>(params, signal);
+    const hourly = data.hourly;
+    if (!hourly?.time) {
+      return [];
+    }
+
+    return hourly.time.map((time, i) => ({
+      time,
+      temperature: Math.round(hourly.temperature_2m?.[i] ?? 0),
+      freezingLevel: Math.round(hourly.freezing_level_height?.[i] ?? 1500),
+      windSpeed: Math.round(hourly.wind_speed_10m?.[i] ?? 0),
+      windGusts: Math.round(hourly.wind_gusts_10m?.[i] ?? 0),
+      cloudCover: Math.round(hourly.cloud_cover?.[i] ?? 0),
+    }));
+  }
+
+  async fetchHistory(point: WeatherPoint, hours: number, signal?: AbortSignal): Promise<WeatherHistoryPoint[]> {
+    const params = this.pointParams(point, {
+      hourly: [
+        'temperature_2m',
+        'snowfall',
+        'rain',
+        'wind_speed_10m',
+        'wind_direction_10m',
+        'snow_depth',
+      ].join(','),
+      timezone: 'GMT',
+      past_days: Math.ceil(hours / 24).toString(),
+      forecast_days: '1',
+    });
+
+    const data = await this.request<{ hourly?: Record<string, number[]> & { time?: string[] } }>(params, signal);
+    const hourly = data.hourly;
+    if (!hourly?.time) {
+      return [];
+    }
+
+    const now = Date.now();
+    return hourly.time
+      .map((time, i) => ({
+        time,
+        temperature: hourly.temperature_2m?.[i] ?? 0,
+        snowfall: hourly.snowfall?.[i] ?? 0,
+        rain: hourly.rain?.[i] ?? 0,
+        windSpeed: hourly.wind_speed_10m?.[i] ?? 0,
+        windDirection: hourly.wind_direction_10m?.[i] ?? 0,
+        // Open-Meteo reports snow depth in meters
+        snowDepth: Math.round((hourly.snow_depth?.[i] ?? 0) * 100),
+      }))
+      .filter((point) => new Date(`${point.time}Z`).getTime() <= now)
+      .slice(-hours);
+  }
+
+  async fetchEnsemble(point: WeatherPoint, days: number, signal?: AbortSignal): Promise<EnsembleDay[]> {
+    const models = Object.keys(OpenMeteoProvider.ENSEMBLE_MODELS);
+    const params = this.pointParams(point, {
+      hourly: 'snowfall,wind_speed_10m,freezing_level_height',
+      models: models.join(','),
+      timezone: 'auto',
+      forecast_days: days.toString(),
+    });
+
+    const data = await this.request<{ hourly?: Record<string, (number | null)[]> & { time?: string[] } }>(
+      params,
+      signal
+    );
+    const hourly = data.hourly;
+    if (!hourly?.time) {
+      return [];
+    }
+
+    // With several models every variable is suffixed with the model id
+    const series: Record<string, ModelSeries> = {};
+    for (const model of models) {
+      series[OpenMeteoProvider.ENSEMBLE_MODELS[model]] = {
+        snowfall: hourly[`snowfall_${model}`] ?? [],
+        windSpeed: hourly[`wind_speed_10m_${model}`] ?? [],
+        freezingLevel: hourly[`freezing_level_height_${model}`] ?? [],
+      };
+    }
+
+    return summarizeEnsemble(hourly.time, series);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Weather Provider Interface
+ *
+ * A provider turns one upstream (forecast API, station network, fixture
+ * file) into the app's weather types. WeatherAgent builds everything else,
+ * including ElevationWeather, from these calls, so providers can be swapped
+ * or combined without touching the agent.
+ *
+ * @module weather/WeatherProvider
+ */
+
+import type {
+  WeatherData,
+  DailyForecastPoint,
+  HourlyForecastPoint,
+  WeatherHistoryPoint,
+  EnsembleDay,
+} from '@/types';
+
+/**
+ * Location to fetch weather for
+ */
+export interface WeatherPoint {
+  latitude: number;
+  longitude: number;
+  /** Altitude in meters; providers correct temperatures to it when set */
+  altitude?: number;
+}
+
+/**
+ * Daily forecast of one point (index 0 = today)
+ */
+export interface DailyForecast {
+  /** Local dates (YYYY-MM-DD) */
+  dates: string[];
+  days: DailyForecastPoint[];
+  /** Daily maximum freezing level (m), same order as dates */
+  freezingLevels: number[];
+}
+
+/**
+ * Source of weather data
+ *
+ * Only current conditions are required; the other capabilities are
+ * optional and callers must check for them (see requireCapability).
+ */
+export interface WeatherProvider {
+  /** Stable identifier (used in cache keys and configuration) */
+  readonly id: string;
+  /** Name shown as the data source */
+  readonly name: string;
+  /**
+   * WeatherData fields the provider actually measures; unset means all.
+   * Used when combining providers so estimated fields never override
+   * measured ones.
+   */
+  readonly measured?: (keyof WeatherData)[];
+
+  /** Current conditions at a point */
+  fetchCurrent(point: WeatherPoint, signal?: AbortSignal): Promise<WeatherData>;
+  /** Daily forecast for the next days */
+  fetchDailyForecast?(point: WeatherPoint, days: number, signal?: AbortSignal): Promise<DailyForecast>;
+  /** Hourly forecast from the start of today */
+  fetchHourlyForecast?(point: WeatherPoint, days: number, signal?: AbortSignal): Promise<HourlyForecastPoint[]>;
+  /** Past hours of weather (UTC, oldest first) */
+  fetchHistory?(point: WeatherPoint, hours: number, signal?: AbortSignal): Promise<WeatherHistoryPoint[]>;
+  /** Multi-model forecast summarized per day */
+  fetchEnsemble?(point: WeatherPoint, days: number, signal?: AbortSignal): Promise<EnsembleDay[]>;
+}
+
+/** Optional provider capabilities */
+export type WeatherCapability = 'fetchDailyForecast' | 'fetchHourlyForecast' | 'fetchHistory' | 'fetchEnsemble';
+
+/**
+ * Return the capability bound to its provider, or throw when the provider
+ * does not offer it
+ */
+export function requireCapability<K extends WeatherCapability>(
+  provider: WeatherProvider,
+  capability: K
+): NonNullable<WeatherProvider[K]> {
+  const method = provider[capability];
+  if (!method) {
+    throw new Error(`Weather provider ${provider.name} does not support ${capability}`);
+  }
+  return method.bind(provider) as NonNullable<WeatherProvider[K]>;
+}
+
+/**
+ * Compass direction (16 points) for a direction in degrees
+ */
+export function compassDirection(degrees: number): string {
+  const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+                      'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+  const index = Math.round(degrees / 22.5) % 16;
+  return directions[index];
+}
+
+/**
+ * Wind chill (°C) for temperatures ≤ 10°C and wind ≥ 5 km/h
+ */
+export function windChill(temperature: number, windKmh: number): number {
+  if (temperature > 10 || windKmh < 5) return temperature;
+  const v = windKmh ** 0.16;
+  return 13.12 + 0.6215 * temperature - 11.37 * v + 0.3965 * temperature * v;
+}
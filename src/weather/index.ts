@@ -0,0 +1,79 @@
+/**
+ * Weather Provider Exports
+ * @module weather
+ */
+
+import type { WeatherProvider } from './WeatherProvider';
+import { OpenMeteoProvider } from './OpenMeteoProvider';
+import { ImgwProvider } from './ImgwProvider';
+import { FixtureWeatherProvider } from './FixtureWeatherProvider';
+import { CombinedWeatherProvider } from './CombinedWeatherProvider';
+
+export {
+  requireCapability,
+  compassDirection,
+  windChill,
+  type WeatherProvider,
+  type WeatherPoint,
+  type WeatherCapability,
+  type DailyForecast,
+} from './WeatherProvider';
+export { OpenMeteoProvider, mapWeatherCode } from './OpenMeteoProvider';
+export { ImgwProvider, IMGW_CONFIG } from './ImgwProvider';
+export {
+  FixtureWeatherProvider,
+  type WeatherFixture,
+  type WeatherFixturePoint,
+} from './FixtureWeatherProvider';
+export { CombinedWeatherProvider } from './CombinedWeatherProvider';
+
+/**
+ * Provider construction options
+ */
+export interface WeatherProviderOptions {
+  /** Shift fixture dates to today (default true); false for reproducible runs */
+  shiftFixtureToToday?: boolean;
+}
+
+const PROVIDER_FACTORIES: Record<string, (options: WeatherProviderOptions) => WeatherProvider> = {
+  'open-meteo': () => new OpenMeteoProvider(),
+  imgw: () => new ImgwProvider(),
+  fixture: (options) => new FixtureWeatherProvider(undefined, { shiftToToday: options.shiftFixtureToToday }),
+};
+
+/**
+ * Build a provider from a spec such as "open-meteo" or "imgw+open-meteo"
+ * (providers in priority order). Unknown ids are skipped.
+ */
+export function createWeatherProvider(
+  spec: string = 'open-meteo',
+  options: WeatherProviderOptions = {}
+): WeatherProvider {
+  const providers = spec
+    .split('+')
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => {
+      if (PROVIDER_FACTORIES[id]) return true;
+      console.warn(`Unknown weather provider "${id}" ignored`);
+      return false;
+    })
+    .map((id) => PROVIDER_FACTORIES[id](options));
+
+  if (providers.length === 0) return new OpenMeteoProvider();
+  return providers.length === 1 ? providers[0] : new CombinedWeatherProvider(providers);
+}
+
+let defaultProvider: WeatherProvider | undefined;
+
+/**
+ * Provider configured by VITE_WEATHER_PROVIDER, shared by all agents
+ * (VITE_WEATHER_FIXTURE_SHIFT=false keeps fixture dates as recorded)
+ */
+export function getDefaultWeatherProvider(): WeatherProvider {
+  if (!defaultProvider) {
+    defaultProvider = createWeatherProvider(import.meta.env.VITE_WEATHER_PROVIDER || 'open-meteo', {
+      shiftFixtureToToday: import.meta.env.VITE_WEATHER_FIXTURE_SHIFT !== 'false',
+    });
+  }
+  return defaultProvider;
+}
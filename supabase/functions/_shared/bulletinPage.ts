@@ -0,0 +1,112 @@
+/**
+ * Avalanche bulletin page parser
+ *
+ * Reads the current danger level per region from the text of a public
+ * bulletin page (laviny.sk, laviny.cz) and returns CAAML v6 bulletins, the
+ * format SafetyAgent parses for every feed. Only the text is used, with
+ * image alt/title attributes kept, so markup changes do not break it as
+ * long as the page still names the region and its level.
+ */
+
+type DangerValue = 'low' | 'moderate' | 'considerable' | 'high' | 'very_high';
+
+const DANGER_VALUES: DangerValue[] = ['low', 'moderate', 'considerable', 'high', 'very_high'];
+
+/**
+ * Language-specific wording of a bulletin page
+ */
+export interface BulletinPageConfig {
+  /** Regions to read, in order of preference */
+  regions: string[];
+  /** Level names ("mierne lavínové nebezpečenstvo") from 5 down to 1 */
+  levelWords: [RegExp, number][];
+  /** Avalanche problem keywords mapped to CAAML problem types */
+  problemWords: [RegExp, string][];
+  /** Bulletin validity when the page does not state it (hours) */
+  validHours: number;
+}
+
+/**
+ * CAAML v6 bulletin as produced by this parser
+ */
+export interface PageBulletin {
+  publicationTime: string;
+  validTime: { startTime: string; endTime: string };
+  regions: { regionID: string; name: string }[];
+  dangerRatings: { mainValue: DangerValue }[];
+  avalancheProblems: { problemType: string }[];
+}
+
+/**
+ * Visible text of an HTML page, image descriptions included
+ */
+export function pageText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<img[^>]*?(?:alt|title)="([^"]*)"[^>]*>/gi, ' $1 ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * First danger level stated in a piece of text ("2. stupeň", "stupeň 3",
+ * or the level name), null when none
+ */
+export function findLevel(text: string, config: BulletinPageConfig): number | null {
+  const patterns: [RegExp, number | null][] = [
+    [/([1-5])\s*\.?\s*stupe[nň]/i, null],
+    [/stupe[nň][^0-9]{0,40}?([1-5])\b/i, null],
+    ...config.levelWords,
+  ];
+
+  let first: { index: number; level: number } | null = null;
+  for (const [pattern, level] of patterns) {
+    const match = pattern.exec(text);
+    // Earliest match wins: "veľmi vysoké" starts before its "vysoké"
+    if (match && (first === null || match.index < first.index)) {
+      first = { index: match.index, level: level ?? Number(match[1]) };
+    }
+  }
+  return first?.level ?? null;
+}
+
+/**
+ * Parse a bulletin page into one bulletin per region with a level
+ */
+export function parseBulletinPage(html: string, config: BulletinPageConfig, now = new Date()): PageBulletin[] {
+  const text = pageText(html);
+  const lower = text.toLowerCase();
+  const bulletins: PageBulletin[] = [];
+
+  const starts = config.regions
+    .map((name) => ({ name, index: lower.indexOf(name.toLowerCase()) }))
+    .filter((r) => r.index >= 0);
+
+  for (const region of starts) {
+    // The region's part of the page ends where the next region starts
+    const from = region.index + region.name.length;
+    const next = starts.map((r) => r.index).filter((i) => i > region.index);
+    const section = text.slice(from, Math.min(from + 600, ...next));
+
+    const level = findLevel(section, config);
+    if (level === null) continue;
+
+    bulletins.push({
+      publicationTime: now.toISOString(),
+      validTime: {
+        startTime: now.toISOString(),
+        endTime: new Date(now.getTime() + config.validHours * 60 * 60 * 1000).toISOString(),
+      },
+      regions: [{ regionID: region.name, name: region.name }],
+      dangerRatings: [{ mainValue: DANGER_VALUES[level - 1] }],
+      avalancheProblems: config.problemWords
+        .filter(([pattern]) => pattern.test(section))
+        .map(([, problemType]) => ({ problemType })),
+    });
+  }
+
+  return bulletins;
+}
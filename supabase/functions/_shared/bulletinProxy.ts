@@ -0,0 +1,84 @@
+/**
+ * Avalanche bulletin proxy
+ *
+ * Request handling shared by the bulletin proxies (slp-proxy,
+ * krkonose-proxy): CORS, caching and errors. Each function only supplies
+ * its service's page and wording. A CAAML v6 JSON feed configured in the
+ * environment is passed through as is; without one the public page is
+ * parsed into the same format.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { parseBulletinPage, type BulletinPageConfig } from './bulletinPage.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Bulletins are issued once or twice a day
+const CACHE_SECONDS = 15 * 60;
+
+/**
+ * One avalanche service behind a proxy
+ */
+export interface BulletinProxyConfig {
+  /** Service name used in logs and errors ("SLP") */
+  name: string;
+  /** Public forecast page */
+  pageUrl: string;
+  /** Environment variable with an optional CAAML v6 feed URL */
+  feedEnv: string;
+  /** Accept-Language sent to the service */
+  language: string;
+  /** Wording of the page */
+  page: BulletinPageConfig;
+}
+
+export function serveBulletinProxy(config: BulletinProxyConfig): void {
+  const jsonHeaders = {
+    ...corsHeaders,
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': `public, max-age=${CACHE_SECONDS}`,
+  };
+
+  serve(async (req) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+      const feedUrl = Deno.env.get(config.feedEnv);
+
+      const response = await fetch(feedUrl || config.pageUrl, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; SkitourScout/1.0)',
+          'Accept': feedUrl ? 'application/json' : 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+          'Accept-Language': config.language,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`${config.name} returned ${response.status}`);
+      }
+
+      if (feedUrl) {
+        return new Response(await response.text(), { headers: jsonHeaders });
+      }
+
+      const bulletins = parseBulletinPage(await response.text(), config.page);
+      if (bulletins.length === 0) {
+        console.warn(`${config.name} page: no danger level found`);
+      }
+
+      return new Response(JSON.stringify({ bulletins }), { headers: jsonHeaders });
+    } catch (error) {
+      console.error(`${config.name} proxy error:`, error);
+      return new Response(
+        JSON.stringify({ error: `${config.name} fetch failed`, details: error.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+  });
+}
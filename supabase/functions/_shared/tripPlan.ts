@@ -0,0 +1,139 @@
+/**
+ * Trip plan rules
+ *
+ * When a plan turns overdue, when the emergency contact is texted and when
+ * it gets the all-clear. Shared by trip-overdue (cron) and trip-check-in
+ * (member check-in links and the owner's queued check-ins);
+ * src/utils/tripPlan.ts mirrors the check-in rules for plans checked into
+ * on the device.
+ */
+
+/** Same grace period as src/utils/tripPlan.ts */
+export const OVERDUE_GRACE_MINUTES = 30;
+
+/**
+ * A check-in after the expected return means the party is fine but late;
+ * the return moves this far past the check-in unless a new time is given
+ */
+export const LATE_CHECK_IN_MINUTES = 60;
+
+export type TripStatus = 'planned' | 'active' | 'overdue' | 'returned' | 'cancelled';
+
+export interface TripPosition {
+  lat: number;
+  lng: number;
+  accuracy?: number;
+}
+
+export interface TripCheckInEntry {
+  at: string;
+  by: string;
+  note?: string;
+  position?: TripPosition;
+}
+
+/**
+ * Columns of a trip_plans row the rules look at
+ */
+export interface TripPlanState {
+  status: TripStatus;
+  expected_return: string;
+  check_ins: TripCheckInEntry[];
+  last_position: (TripPosition & { at: string }) | null;
+  overdue_at: string | null;
+  escalated_at: string | null;
+  all_clear_at: string | null;
+}
+
+/**
+ * Expected return after a check-in: the new time when given, otherwise a
+ * return already in the past moves to LATE_CHECK_IN_MINUTES after the check-in
+ */
+export function returnAfterCheckIn(expectedReturn: string, at: string, requested?: string): string {
+  if (requested) return requested;
+  const late = Date.parse(at) + LATE_CHECK_IN_MINUTES * 60_000;
+  return Date.parse(expectedReturn) < Date.parse(at) ? new Date(late).toISOString() : expectedReturn;
+}
+
+/**
+ * Plan after a check-in; a check-in from an overdue party means they are fine
+ */
+export function applyCheckIn<T extends TripPlanState>(
+  plan: T,
+  checkIn: TripCheckInEntry,
+  expectedReturn?: string
+): T {
+  return {
+    ...plan,
+    status: 'active',
+    check_ins: [...plan.check_ins, checkIn],
+    last_position: checkIn.position ? { ...checkIn.position, at: checkIn.at } : plan.last_position,
+    expected_return: returnAfterCheckIn(plan.expected_return, checkIn.at, expectedReturn),
+  };
+}
+
+/**
+ * Check-in recorded on the owner's device, with the return time given with it
+ */
+export interface QueuedCheckIn {
+  checkIn: TripCheckInEntry;
+  expectedReturn?: string;
+}
+
+/**
+ * Plan after check-ins the owner's device queued, possibly offline and
+ * older than check-ins members sent meanwhile. Check-ins already on the plan
+ * (same time and name) are skipped, so a retried sync adds nothing twice;
+ * an older check-in neither replaces a newer position nor sets the return,
+ * and a returned or cancelled plan stays closed.
+ */
+export function appendCheckIns<T extends TripPlanState>(plan: T, queued: QueuedCheckIn[]): T {
+  const ordered = [...queued].sort((a, b) => Date.parse(a.checkIn.at) - Date.parse(b.checkIn.at));
+
+  let next = plan;
+  for (const { checkIn, expectedReturn } of ordered) {
+    if (next.check_ins.some((c) => c.at === checkIn.at && c.by === checkIn.by)) continue;
+
+    const at = Date.parse(checkIn.at);
+    const newest = next.check_ins.every((c) => Date.parse(c.at) <= at);
+    const newerPosition = !next.last_position || Date.parse(next.last_position.at) <= at;
+    const applied = applyCheckIn(next, checkIn, newest ? expectedReturn : undefined);
+    next = {
+      ...applied,
+      check_ins: [...applied.check_ins].sort((a, b) => Date.parse(a.at) - Date.parse(b.at)),
+      last_position: newerPosition ? applied.last_position : next.last_position,
+    };
+  }
+
+  const closed = plan.status === 'returned' || plan.status === 'cancelled';
+  return closed ? { ...next, status: plan.status } : next;
+}
+
+/**
+ * Planned or active plan whose return (plus grace) has passed. A check-in
+ * after the expected return counts as one from a late but safe party, also
+ * when the client did not move the return forward.
+ */
+export function isOverdue(plan: TripPlanState, now: Date): boolean {
+  if (plan.status !== 'planned' && plan.status !== 'active') return false;
+
+  const lastCheckIn = plan.check_ins.reduce((latest, c) => Math.max(latest, Date.parse(c.at)), 0);
+  const expectedReturn = Date.parse(returnAfterCheckIn(plan.expected_return, new Date(lastCheckIn).toISOString()));
+  return now.getTime() > expectedReturn + OVERDUE_GRACE_MINUTES * 60_000;
+}
+
+/**
+ * Overdue plan not yet escalated since it turned overdue
+ */
+export function needsEscalation(plan: TripPlanState): boolean {
+  if (plan.status !== 'overdue') return false;
+  return !(plan.escalated_at && plan.overdue_at && plan.escalated_at >= plan.overdue_at);
+}
+
+/**
+ * Escalated plan whose party checked in or returned since the last alert
+ */
+export function needsAllClear(plan: TripPlanState): boolean {
+  if ((plan.status !== 'active' && plan.status !== 'returned') || !plan.escalated_at) return false;
+  return !(plan.all_clear_at && plan.all_clear_at >= plan.escalated_at);
+}
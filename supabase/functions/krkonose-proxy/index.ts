@@ -0,0 +1,12 @@
+import { serveBulletinProxy } from '../_shared/bulletinProxy.ts';
+import { HS_PAGE } from './page.ts';
+
+// Public forecast page of the Czech mountain service (HS Krkonoše);
+// HS_BULLETIN_URL may point to its CAAML v6 JSON feed instead
+serveBulletinProxy({
+  name: 'HS Krkonoše',
+  pageUrl: 'https://www.laviny.cz/',
+  feedEnv: 'HS_BULLETIN_URL',
+  language: 'cs,pl;q=0.9,en;q=0.8',
+  page: HS_PAGE,
+});
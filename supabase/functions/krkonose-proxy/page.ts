@@ -0,0 +1,23 @@
+import type { BulletinPageConfig } from '../_shared/bulletinPage.ts';
+
+/**
+ * Wording of the Czech mountain service page (laviny.cz)
+ */
+export const HS_PAGE: BulletinPageConfig = {
+  regions: ['Krkonoše'],
+  levelWords: [
+    [/velmi vysok\S* (?:lavinov\S* )?nebezpe/i, 5],
+    [/vysok\S* (?:lavinov\S* )?nebezpe/i, 4],
+    [/značn\S* (?:lavinov\S* )?nebezpe/i, 3],
+    [/mírn\S* (?:lavinov\S* )?nebezpe/i, 2],
+    [/nízk\S* (?:lavinov\S* )?nebezpe/i, 1],
+  ],
+  problemWords: [
+    [/nov[ýého]+ sníh|nového sněhu/i, 'new_snow'],
+    [/(?:navát|vát)[^ ]* sn[íě]/i, 'wind_slab'],
+    [/perzistent|slab[éý]ch? vrstv/i, 'persistent_weak_layers'],
+    [/mokr[ýého]+ sn[íě]/i, 'wet_snow'],
+    [/klouzav/i, 'gliding_snow'],
+  ],
+  validHours: 24,
+};
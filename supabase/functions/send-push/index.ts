@@ -0,0 +1,250 @@
+/**
+ * Send Push Edge Function
+ *
+ * Delivers pending push_events (queued by database triggers on new
+ * bulletins, approved admin reports and community reports) to matching
+ * push_subscriptions. Meant to run from a cron job with the service role key.
+ *
+ * A subscription receives an event when it opted into the event type and
+ * region; report events additionally need the location on the user's
+ * watchlist. Subscriptions the push service reports as gone are removed.
+ *
+ * Test mode: POST { subscription, payload } sends one message directly,
+ * e.g. to the mock endpoint from scripts/mock-push-endpoint.mjs.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { sendWebPush, type PushTarget, type VapidKeys } from './webpush.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/** Events delivered per run */
+const BATCH_SIZE = 50;
+
+/** Subscriptions failing this many times in a row are dropped */
+const MAX_FAILURES = 5;
+
+interface PushEvent {
+  id: string;
+  type: 'bulletin' | 'verified_report' | 'community_report';
+  region: string;
+  location: string | null;
+  author_id: string | null;
+  title: string;
+  body: string;
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  regions: string[];
+  types: string[];
+  failure_count: number;
+}
+
+/**
+ * Same rule as the in-app alerts: one name contains the other
+ */
+function matchesLocation(location: string, target: string): boolean {
+  const a = location.toLowerCase();
+  const b = target.toLowerCase();
+  return a.includes(b) || b.includes(a);
+}
+
+function isRecipient(
+  event: PushEvent,
+  subscription: PushSubscriptionRow,
+  watchedLocations: Map<string, string[]>
+): boolean {
+  if (!subscription.types.includes(event.type) || !subscription.regions.includes(event.region)) return false;
+  if (event.type === 'bulletin') return true;
+  if (event.author_id === subscription.user_id) return false;
+  // An empty name would be contained in every watched location
+  const location = event.location?.trim();
+  if (!location) return false;
+  return (watchedLocations.get(subscription.user_id) ?? []).some((name) => matchesLocation(location, name));
+}
+
+function notificationPayload(event: Pick<PushEvent, 'type' | 'title' | 'body' | 'region'>): string {
+  return JSON.stringify({
+    title: event.title,
+    body: event.body,
+    // Newer bulletin notifications replace older ones for the same region
+    tag: event.type === 'bulletin' ? `bulletin-${event.region}` : undefined,
+    url: '/',
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    return jsonResponse({ error: 'SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set' }, 500);
+  }
+
+  const vapid: VapidKeys = {
+    publicKey: Deno.env.get('VAPID_PUBLIC_KEY') ?? '',
+    privateKey: Deno.env.get('VAPID_PRIVATE_KEY') ?? '',
+    subject: Deno.env.get('VAPID_SUBJECT') ?? 'mailto:admin@skitour-scout.app',
+  };
+  if (!vapid.publicKey || !vapid.privateKey) {
+    return jsonResponse({ error: 'VAPID_PUBLIC_KEY or VAPID_PRIVATE_KEY not set' }, 500);
+  }
+
+  // Only the cron job (service role) may send
+  const token = req.headers.get('authorization')?.replace('Bearer ', '');
+  if (token !== serviceRoleKey) {
+    return jsonResponse({ error: 'Service role key required' }, 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body.subscription) {
+      const target = body.subscription as PushTarget;
+      const response = await sendWebPush(
+        target,
+        notificationPayload({ type: 'bulletin', region: 'test', title: 'SkitourScout', body: 'Test', ...body.payload }),
+        vapid
+      );
+      return jsonResponse({ success: response.ok, status: response.status });
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: events, error: eventsError } = await supabase
+      .from('push_events')
+      .select('*')
+      .is('sent_at', null)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (eventsError) throw eventsError;
+    if (!events || events.length === 0) {
+      return jsonResponse({ success: true, events: 0, sent: 0 });
+    }
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from('push_subscriptions')
+      .select('*');
+    if (subscriptionsError) throw subscriptionsError;
+
+    // Watched locations per user, for report events
+    const { data: watchlists, error: watchlistsError } = await supabase
+      .from('profile_watchlists')
+      .select('user_id, items');
+    if (watchlistsError) throw watchlistsError;
+    const watchedLocations = new Map<string, string[]>(
+      (watchlists ?? []).map((row: { user_id: string; items: { kind: string; id: string }[] }) => [
+        row.user_id,
+        row.items.filter((item) => item.kind === 'location').map((item) => item.id),
+      ])
+    );
+
+    const gone = new Set<string>();
+    const failures = new Map<string, string>();
+    const reached = new Set<string>();
+    let sent = 0;
+
+    for (const event of events as PushEvent[]) {
+      const recipients = (subscriptions as PushSubscriptionRow[]).filter(
+        (subscription) => !gone.has(subscription.id) && isRecipient(event, subscription, watchedLocations)
+      );
+
+      const results = await Promise.allSettled(
+        recipients.map((subscription) =>
+          sendWebPush(
+            { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+            notificationPayload(event),
+            vapid,
+            { urgency: event.type === 'bulletin' ? 'high' : 'normal' }
+          )
+        )
+      );
+
+      let delivered = 0;
+      results.forEach((result, i) => {
+        const subscription = recipients[i];
+        if (result.status === 'fulfilled' && result.value.ok) {
+          delivered++;
+          reached.add(subscription.id);
+        } else if (result.status === 'fulfilled' && (result.value.status === 404 || result.value.status === 410)) {
+          gone.add(subscription.id);
+        } else {
+          failures.set(
+            subscription.id,
+            result.status === 'rejected' ? String(result.reason) : `HTTP ${result.value.status}`
+          );
+        }
+      });
+      sent += delivered;
+
+      const { error } = await supabase
+        .from('push_events')
+        .update({ sent_at: new Date().toISOString(), recipients: delivered })
+        .eq('id', event.id);
+      if (error) throw error;
+    }
+
+    if (gone.size > 0) {
+      await supabase.from('push_subscriptions').delete().in('id', [...gone]);
+    }
+    for (const [id, message] of failures) {
+      const subscription = (subscriptions as PushSubscriptionRow[]).find((s) => s.id === id)!;
+      if (subscription.failure_count + 1 >= MAX_FAILURES) {
+        await supabase.from('push_subscriptions').delete().eq('id', id);
+      } else {
+        await supabase
+          .from('push_subscriptions')
+          .update({ failure_count: subscription.failure_count + 1, last_error: message })
+          .eq('id', id);
+      }
+    }
+
+    // A delivery ends the run of failures; only consecutive ones count
+    const recovered = (subscriptions as PushSubscriptionRow[])
+      .filter((s) => s.failure_count > 0 && reached.has(s.id) && !failures.has(s.id) && !gone.has(s.id))
+      .map((s) => s.id);
+    if (recovered.length > 0) {
+      await supabase
+        .from('push_subscriptions')
+        .update({ failure_count: 0, last_error: null })
+        .in('id', recovered);
+    }
+
+    console.log(`Delivered ${events.length} push events: ${sent} sent, ${gone.size} gone, ${failures.size} failed`);
+
+    return jsonResponse({
+      success: true,
+      events: events.length,
+      sent,
+      removed: gone.size,
+      failed: failures.size,
+    });
+  } catch (error) {
+    console.error('Send push error:', error);
+    return jsonResponse({ error: 'Send push failed', details: error.message }, 500);
+  }
+});
@@ -0,0 +1,162 @@
+/**
+ * Web Push sender
+ *
+ * Encrypts payloads (RFC 8291, aes128gcm) and signs VAPID tokens (RFC 8292)
+ * with WebCrypto only, so it runs unchanged in Deno and in Node 20+.
+ */
+
+export interface PushTarget {
+  endpoint: string;
+  keys: {
+    /** Browser public key (base64url, uncompressed P-256 point) */
+    p256dh: string;
+    /** Browser auth secret (base64url, 16 bytes) */
+    auth: string;
+  };
+}
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key (base64url), as given to the browser */
+  publicKey: string;
+  /** Private key scalar (base64url) */
+  privateKey: string;
+  /** Contact for the push service, "mailto:..." or an https URL */
+  subject: string;
+}
+
+export interface PushOptions {
+  /** Seconds the push service keeps an undelivered message */
+  ttl?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+}
+
+/** Record size announced in the header; payloads stay far below it */
+const RECORD_SIZE = 4096;
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, data));
+}
+
+/**
+ * Encrypt a payload for one subscription (single aes128gcm record)
+ */
+export async function encryptPayload(payload: Uint8Array, target: PushTarget): Promise<Uint8Array> {
+  const uaPublic = base64UrlDecode(target.keys.p256dh);
+  const authSecret = base64UrlDecode(target.keys.auth);
+
+  // Ephemeral application server key pair, one per message
+  const asKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const asPublic = new Uint8Array(await crypto.subtle.exportKey('raw', asKeys.publicKey));
+  const uaKey = await crypto.subtle.importKey('raw', uaPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: uaKey }, asKeys.privateKey, 256)
+  );
+
+  // HKDF steps of RFC 8291 section 3.4; every output fits in one HMAC block
+  const prkKey = await hmac(authSecret, ecdhSecret);
+  const ikm = await hmac(prkKey, concat(encoder.encode('WebPush: info\0'), uaPublic, asPublic, new Uint8Array([1])));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const prk = await hmac(salt, ikm);
+  const cek = (await hmac(prk, concat(encoder.encode('Content-Encoding: aes128gcm\0'), new Uint8Array([1])))).slice(0, 16);
+  const nonce = (await hmac(prk, concat(encoder.encode('Content-Encoding: nonce\0'), new Uint8Array([1])))).slice(0, 12);
+
+  const key = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt']);
+  // 0x02 marks the last (and only) record
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, key, concat(payload, new Uint8Array([2])))
+  );
+
+  const header = new Uint8Array(21);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = asPublic.length;
+  return concat(header, asPublic, ciphertext);
+}
+
+/**
+ * VAPID Authorization header for the push service of the endpoint
+ */
+export async function vapidAuthorization(endpoint: string, vapid: VapidKeys): Promise<string> {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      x: base64UrlEncode(publicKey.slice(1, 33)),
+      y: base64UrlEncode(publicKey.slice(33, 65)),
+      d: vapid.privateKey,
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(
+    encoder.encode(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+        sub: vapid.subject,
+      })
+    )
+  );
+  // WebCrypto returns the raw r||s signature JWS expects
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, encoder.encode(`${header}.${claims}`))
+  );
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Send one push message
+ *
+ * @returns The push service response; 404/410 mean the subscription is gone
+ */
+export async function sendWebPush(
+  target: PushTarget,
+  payload: string,
+  vapid: VapidKeys,
+  options: PushOptions = {}
+): Promise<Response> {
+  const body = await encryptPayload(encoder.encode(payload), target);
+
+  return fetch(target.endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Encoding': 'aes128gcm',
+      TTL: String(options.ttl ?? 6 * 60 * 60),
+      Urgency: options.urgency ?? 'normal',
+      Authorization: await vapidAuthorization(target.endpoint, vapid),
+    },
+    body,
+  });
+}
@@ -0,0 +1,12 @@
+import { serveBulletinProxy } from '../_shared/bulletinProxy.ts';
+import { SLP_PAGE } from './page.ts';
+
+// Public forecast page of the Slovak Avalanche Prevention Center;
+// SLP_BULLETIN_URL may point to its CAAML v6 JSON feed instead
+serveBulletinProxy({
+  name: 'SLP',
+  pageUrl: 'https://www.laviny.sk/',
+  feedEnv: 'SLP_BULLETIN_URL',
+  language: 'sk,pl;q=0.9,en;q=0.8',
+  page: SLP_PAGE,
+});
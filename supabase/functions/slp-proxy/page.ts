@@ -0,0 +1,23 @@
+import type { BulletinPageConfig } from '../_shared/bulletinPage.ts';
+
+/**
+ * Wording of the Slovak Avalanche Prevention Center page (laviny.sk)
+ */
+export const SLP_PAGE: BulletinPageConfig = {
+  regions: ['Vysoké Tatry', 'Západné Tatry', 'Belianske Tatry'],
+  levelWords: [
+    [/veľmi vysok\S* (?:lavínov\S* )?nebezpe/i, 5],
+    [/vysok\S* (?:lavínov\S* )?nebezpe/i, 4],
+    [/zvýšen\S* (?:lavínov\S* )?nebezpe/i, 3],
+    [/miern\S* (?:lavínov\S* )?nebezpe/i, 2],
+    [/nízk\S* (?:lavínov\S* )?nebezpe/i, 1],
+  ],
+  problemWords: [
+    [/nov[ýého]+ sneh/i, 'new_snow'],
+    [/(?:naviat|zviat|vetr)[^ ]* sneh/i, 'wind_slab'],
+    [/perzistent|slab[éý]ch? vrstv/i, 'persistent_weak_layers'],
+    [/mokr[ýého]+ sneh/i, 'wet_snow'],
+    [/kĺzav/i, 'gliding_snow'],
+  ],
+  validHours: 24,
+};
@@ -16,6 +16,36 @@ interface ReportSubmission {
   snow_condition?: 'puch' | 'firn' | 'szren' | 'beton' | 'cukier' | 'kamienie' | 'mokry';
   quality_rating?: number;
   notes?: string;
+  photos?: ReportPhoto[];
+}
+
+interface ReportPhoto {
+  path: string;
+  thumbPath: string;
+  width: number;
+  height: number;
+  takenAt?: string;
+}
+
+/** Same limit as PHOTO_CONFIG.MAX_PHOTOS in src/services/reportPhotos.ts */
+const MAX_PHOTOS = 4;
+
+/**
+ * Photos must be JPEGs in the author's own storage folder
+ */
+function isValidPhotoList(photos: unknown, userId: string): photos is ReportPhoto[] {
+  if (!Array.isArray(photos) || photos.length > MAX_PHOTOS) return false;
+  const ownJpeg = (path: unknown) =>
+    typeof path === 'string' && path.startsWith(`${userId}/`) && path.endsWith('.jpg') && !path.includes('..');
+  return photos.every(
+    (photo) =>
+      photo &&
+      ownJpeg(photo.path) &&
+      ownJpeg(photo.thumbPath) &&
+      typeof photo.width === 'number' &&
+      typeof photo.height === 'number' &&
+      (photo.takenAt === undefined || typeof photo.takenAt === 'string')
+  );
 }
 
 serve(async (req) => {
@@ -96,6 +126,13 @@ serve(async (req) => {
       );
     }
 
+    if (body.photos !== undefined && !isValidPhotoList(body.photos, user.id)) {
+      return new Response(
+        JSON.stringify({ error: 'ValidationError', message: `Nieprawidłowe zdjęcia (maks. ${MAX_PHOTOS})` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Insert report
     const { data: report, error: insertError } = await supabase
       .from('reports')
@@ -110,6 +147,7 @@ serve(async (req) => {
         snow_condition: body.snow_condition || null,
         quality_rating: body.quality_rating || null,
         notes: body.notes || null,
+        photos: body.photos ?? [],
       })
       .select()
       .single();
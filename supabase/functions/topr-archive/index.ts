@@ -0,0 +1,186 @@
+/**
+ * TOPR Archive Edge Function
+ *
+ * Scrapes the current TOPR bulletin and stores it in avalanche_bulletins,
+ * one row per bulletin day. Days listed in the page's own level history
+ * that are missing from the archive are backfilled (level only).
+ * Meant to run from a cron job with the service role key.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Subset of the oLawReport object embedded in lawiny.topr.pl
+ */
+interface TOPRReport {
+  id: number;
+  iat: string; // "2026-01-31 18:01", Warsaw time
+  exp: string; // "2026-02-01 20:00", Warsaw time
+  mst: { lev: number; tnd?: number };
+  am?: TOPRPeriod;
+  pm?: TOPRPeriod;
+  history?: { date: string; lev: number }[];
+}
+
+interface TOPRPeriod {
+  lev: number;
+  prb?: string;
+  obj?: {
+    upper?: { exp?: string };
+    height?: number;
+  };
+}
+
+const ASPECTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+const PROBLEM_CODES: Record<string, string> = {
+  prwd: 'Śnieg nawiewany',
+  prnn: 'Brak wyraźnego problemu lawinowego',
+  prns: 'Świeży śnieg',
+  prps: 'Słabe warstwy',
+  prww: 'Mokry śnieg',
+  prgd: 'Śnieg ślizgowy',
+};
+
+/**
+ * "2026-01-31 18:01" (Warsaw local time) -> ISO timestamp with offset
+ */
+function warsawTimestamp(value: string): string | null {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})/);
+  if (!match) return null;
+
+  const noonUtc = new Date(`${match[1]}T12:00:00Z`);
+  const offsetName = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'Europe/Warsaw',
+    timeZoneName: 'shortOffset',
+  })
+    .formatToParts(noonUtc)
+    .find((part) => part.type === 'timeZoneName')?.value;
+  const hours = parseInt(offsetName?.replace('GMT', '') || '1', 10);
+
+  return `${match[1]}T${match[2]}:00+0${hours}:00`;
+}
+
+function parseReport(html: string): TOPRReport {
+  const jsonMatch = html.match(/(?:var|const)\s+oLawReport\s*=\s*(\{[\s\S]*?\});/);
+  if (!jsonMatch) {
+    throw new Error('oLawReport not found in TOPR page');
+  }
+  return JSON.parse(jsonMatch[1]);
+}
+
+function toRow(report: TOPRReport) {
+  const level = Math.min(5, Math.max(1, report.mst?.lev || 1));
+  const tnd = report.mst?.tnd;
+  const exp = report.am?.obj?.upper?.exp || report.pm?.obj?.upper?.exp;
+  const height = report.am?.obj?.height || report.pm?.obj?.height;
+
+  const problems = [report.am?.prb, report.pm?.prb]
+    .filter((code): code is string => !!code && !!PROBLEM_CODES[code])
+    .map((code) => PROBLEM_CODES[code]);
+
+  return {
+    provider: 'topr',
+    // The evening bulletin is valid for the next day, so the day comes from the expiry
+    bulletin_date: report.exp.slice(0, 10),
+    report_id: String(report.id),
+    level,
+    trend: tnd === undefined ? null : tnd > 0 ? 'increasing' : tnd < 0 ? 'decreasing' : 'stable',
+    problem_aspects: exp && exp.length === 8 ? ASPECTS.filter((_, i) => exp[i] === '1') : [],
+    altitude_from: height && height !== 999 ? height : 1800,
+    altitude_to: 2500,
+    problems: [...new Set(problems)],
+    issued_at: warsawTimestamp(report.iat),
+    valid_until: warsawTimestamp(report.exp),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    return jsonResponse({ error: 'SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set' }, 500);
+  }
+
+  // Only the cron job (service role) may write to the archive
+  const token = req.headers.get('authorization')?.replace('Bearer ', '');
+  if (token !== serviceRoleKey) {
+    return jsonResponse({ error: 'Service role key required' }, 401);
+  }
+
+  try {
+    const response = await fetch('https://lawiny.topr.pl/', {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; SkitourScout/1.0)',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'pl,en;q=0.9',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`TOPR returned ${response.status}`);
+    }
+
+    const report = parseReport(await response.text());
+    const row = toRow(report);
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Backfill days from the page history without overwriting archived bulletins
+    const backfill = (report.history ?? [])
+      .filter((entry) => /^\d{4}-\d{2}-\d{2}/.test(entry.date) && entry.lev >= 1 && entry.lev <= 5)
+      .map((entry) => ({
+        provider: 'topr',
+        bulletin_date: entry.date.slice(0, 10),
+        level: entry.lev,
+      }))
+      .filter((entry) => entry.bulletin_date !== row.bulletin_date);
+
+    if (backfill.length > 0) {
+      const { error } = await supabase
+        .from('avalanche_bulletins')
+        .upsert(backfill, { onConflict: 'provider,bulletin_date', ignoreDuplicates: true });
+      if (error) throw error;
+    }
+
+    // Updated bulletins for the same day replace the earlier one
+    const { error } = await supabase
+      .from('avalanche_bulletins')
+      .upsert(row, { onConflict: 'provider,bulletin_date' });
+    if (error) throw error;
+
+    console.log(`Archived TOPR bulletin ${row.report_id} for ${row.bulletin_date}: level ${row.level}`);
+
+    return jsonResponse({
+      success: true,
+      bulletinDate: row.bulletin_date,
+      level: row.level,
+      backfilled: backfill.length,
+    });
+  } catch (error) {
+    console.error('TOPR archive error:', error);
+    return jsonResponse({ error: 'TOPR archive failed', details: error.message }, 500);
+  }
+});
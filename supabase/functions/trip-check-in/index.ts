@@ -0,0 +1,238 @@
+/**
+ * Trip Check-in Edge Function
+ *
+ * Lets party members check in through the link the plan owner shares
+ * (?checkin=<token>); members need no account. The plan is looked up by
+ * trip_plans.check_in_token with the service role, and only the route,
+ * party and times are returned - never the emergency contact.
+ *
+ * POST { token }            plan summary for the check-in form
+ * POST { token, checkIn }   add a check-in { by, note?, position?, expectedReturn? }
+ * POST { token, checkIns }  plan owner only: check-ins queued on the owner's
+ *                           device, each with its own time { at, ... }
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  appendCheckIns,
+  applyCheckIn,
+  type QueuedCheckIn,
+  type TripCheckInEntry,
+  type TripPlanState,
+} from '../_shared/tripPlan.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MAX_NAME_LENGTH = 60;
+const MAX_NOTE_LENGTH = 500;
+const MAX_QUEUED_CHECK_INS = 50;
+
+/** Device clocks may run a little ahead of the server */
+const CLOCK_SKEW_MS = 5 * 60_000;
+
+interface TripPlanRow extends TripPlanState {
+  id: string;
+  user_id: string;
+  route_name: string;
+  region: string;
+  party: string[];
+  updated_at: string;
+}
+
+interface CheckInRequest {
+  at?: unknown;
+  by?: unknown;
+  note?: unknown;
+  position?: { lat?: unknown; lng?: unknown; accuracy?: unknown };
+  expectedReturn?: unknown;
+}
+
+function summary(plan: TripPlanRow) {
+  return {
+    routeName: plan.route_name,
+    region: plan.region,
+    party: plan.party,
+    expectedReturn: plan.expected_return,
+    status: plan.status,
+  };
+}
+
+/**
+ * Validated check-in, or an error message. Members' check-ins are stamped
+ * with the server time; the owner's queued ones keep the time they were
+ * made on the device.
+ */
+function parseCheckIn(body: CheckInRequest, now: Date, queued = false): QueuedCheckIn | string {
+  const by = typeof body.by === 'string' ? body.by.trim() : '';
+  if (!by || by.length > MAX_NAME_LENGTH) return 'Invalid name';
+  if (body.note !== undefined && (typeof body.note !== 'string' || body.note.length > MAX_NOTE_LENGTH)) {
+    return 'Invalid note';
+  }
+
+  let at = now;
+  if (queued) {
+    if (typeof body.at !== 'string' || Number.isNaN(Date.parse(body.at))) return 'Invalid check-in time';
+    at = new Date(body.at);
+    if (at.getTime() > now.getTime() + CLOCK_SKEW_MS) return 'Check-in time is in the future';
+  }
+
+  const checkIn: TripCheckInEntry = { at: at.toISOString(), by };
+  if (typeof body.note === 'string' && body.note.trim()) checkIn.note = body.note.trim();
+
+  if (body.position !== undefined) {
+    const { lat, lng, accuracy } = body.position ?? {};
+    if (typeof lat !== 'number' || typeof lng !== 'number' || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return 'Invalid position';
+    }
+    checkIn.position = { lat, lng, ...(typeof accuracy === 'number' && { accuracy }) };
+  }
+
+  if (body.expectedReturn === undefined) return { checkIn };
+  if (typeof body.expectedReturn !== 'string' || Number.isNaN(Date.parse(body.expectedReturn))) {
+    return 'Invalid expected return';
+  }
+  if (Date.parse(body.expectedReturn) <= at.getTime()) return 'Expected return must be in the future';
+  return { checkIn, expectedReturn: new Date(body.expectedReturn).toISOString() };
+}
+
+/**
+ * Save an updated plan unless it changed since it was read, so no
+ * check-in is lost
+ * @returns The new updated_at, null on a conflict
+ */
+async function savePlan(
+  supabase: ReturnType<typeof createClient>,
+  read: TripPlanRow,
+  updated: TripPlanRow,
+  now: Date
+): Promise<string | null> {
+  const updatedAt = now.toISOString();
+  const { data: saved, error } = await supabase
+    .from('trip_plans')
+    .update({
+      status: updated.status,
+      check_ins: updated.check_ins,
+      last_position: updated.last_position,
+      expected_return: updated.expected_return,
+      updated_at: updatedAt,
+    })
+    .eq('id', read.id)
+    .eq('updated_at', read.updated_at)
+    .select('id');
+  if (error) throw error;
+  return saved && saved.length > 0 ? updatedAt : null;
+}
+
+/**
+ * Check-ins the owner made on their device, appended next to the ones
+ * members sent meanwhile
+ */
+async function appendOwnerCheckIns(
+  req: Request,
+  supabase: ReturnType<typeof createClient>,
+  plan: TripPlanRow,
+  entries: unknown[]
+): Promise<Response> {
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const { data: { user } } = jwt ? await supabase.auth.getUser(jwt) : { data: { user: null } };
+  if (!user || user.id !== plan.user_id) {
+    return jsonResponse({ error: 'Only the plan owner can send queued check-ins' }, 403);
+  }
+  if (entries.length === 0 || entries.length > MAX_QUEUED_CHECK_INS) {
+    return jsonResponse({ error: 'Invalid check-ins' }, 400);
+  }
+
+  const now = new Date();
+  const queued: QueuedCheckIn[] = [];
+  for (const entry of entries) {
+    const parsed = parseCheckIn((entry ?? {}) as CheckInRequest, now, true);
+    if (typeof parsed === 'string') {
+      return jsonResponse({ error: parsed }, 400);
+    }
+    queued.push(parsed);
+  }
+
+  const updated = appendCheckIns(plan, queued);
+  const updatedAt = await savePlan(supabase, plan, updated, now);
+  if (!updatedAt) {
+    return jsonResponse({ error: 'Trip plan changed, try again' }, 409);
+  }
+
+  return jsonResponse({ success: true, plan: summary(updated), updatedAt });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    return jsonResponse({ error: 'SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set' }, 500);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (typeof body.token !== 'string' || !UUID_PATTERN.test(body.token)) {
+      return jsonResponse({ error: 'Invalid check-in link' }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const { data: plan, error } = await supabase
+      .from('trip_plans')
+      .select('*')
+      .eq('check_in_token', body.token)
+      .maybeSingle();
+    if (error) throw error;
+    if (!plan) {
+      return jsonResponse({ error: 'Trip plan not found' }, 404);
+    }
+
+    if (Array.isArray(body.checkIns)) {
+      return await appendOwnerCheckIns(req, supabase, plan as TripPlanRow, body.checkIns);
+    }
+
+    if (!body.checkIn) {
+      return jsonResponse({ success: true, plan: summary(plan as TripPlanRow) });
+    }
+
+    if (plan.status === 'returned' || plan.status === 'cancelled') {
+      return jsonResponse({ error: 'Trip plan is closed', plan: summary(plan as TripPlanRow) }, 409);
+    }
+
+    const now = new Date();
+    const parsed = parseCheckIn(body.checkIn as CheckInRequest, now);
+    if (typeof parsed === 'string') {
+      return jsonResponse({ error: parsed }, 400);
+    }
+
+    const updated = applyCheckIn(plan as TripPlanRow, parsed.checkIn, parsed.expectedReturn);
+    if (!(await savePlan(supabase, plan as TripPlanRow, updated, now))) {
+      return jsonResponse({ error: 'Trip plan changed, try again' }, 409);
+    }
+
+    return jsonResponse({ success: true, plan: summary(updated) });
+  } catch (error) {
+    console.error('Trip check-in error:', error);
+    return jsonResponse({ error: 'Trip check-in failed', details: error.message }, 500);
+  }
+});
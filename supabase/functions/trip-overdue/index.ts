@@ -0,0 +1,222 @@
+/**
+ * Trip Overdue Edge Function
+ *
+ * Runs from a cron job with the service role key. Marks trip plans overdue
+ * once the expected return plus a grace period has passed, texts the
+ * emergency contact (route, party, last GPS position, TOPR number) and
+ * sends an all-clear when an escalated party checks in or returns. A
+ * check-in after the expected return moves it forward (see _shared/tripPlan.ts),
+ * so the next run does not re-mark the plan overdue.
+ *
+ * SMS go through Twilio (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM).
+ * Without them the function still marks plans overdue and records the
+ * missing configuration in escalation_error.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  OVERDUE_GRACE_MINUTES,
+  isOverdue,
+  needsAllClear,
+  needsEscalation,
+  type TripPlanState,
+} from '../_shared/tripPlan.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const TOPR_PHONE = '985';
+const TOPR_PHONE_MOBILE = '+48 601 100 300';
+
+interface TripPlanRow extends TripPlanState {
+  id: string;
+  route_name: string;
+  region: string;
+  party: string[];
+  emergency_contact_name: string;
+  emergency_contact_phone: string;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('pl-PL', {
+    timeZone: 'Europe/Warsaw',
+    day: 'numeric',
+    month: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Overdue message; mirrors emergencyMessage() in src/utils/tripPlan.ts
+ */
+function overdueMessage(plan: TripPlanRow): string {
+  const party = plan.party.length > 0 ? plan.party.join(', ') : 'Grupa';
+  const lines = [
+    `SkitourScout: ${party} nie wrócili z wyjścia: ${plan.route_name} (${plan.region}).`,
+    `Planowany powrót: ${formatTime(plan.expected_return)}.`,
+  ];
+  if (plan.last_position) {
+    const { lat, lng, at } = plan.last_position;
+    lines.push(
+      `Ostatnia pozycja (${formatTime(at)}): https://www.google.com/maps?q=${lat.toFixed(5)},${lng.toFixed(5)}`
+    );
+  } else {
+    lines.push('Brak pozycji GPS.');
+  }
+  lines.push(`Jeśli nie masz z nimi kontaktu, zadzwoń do TOPR: ${TOPR_PHONE} lub ${TOPR_PHONE_MOBILE}`);
+  return lines.join('\n');
+}
+
+function allClearMessage(plan: TripPlanRow): string {
+  const party = plan.party.length > 0 ? plan.party.join(', ') : 'Grupa';
+  return plan.status === 'returned'
+    ? `SkitourScout: ${party} wrócili z wyjścia ${plan.route_name}. Alarm odwołany.`
+    : `SkitourScout: ${party} zameldowali się z trasy ${plan.route_name}. Alarm odwołany.`;
+}
+
+/**
+ * Send an SMS through Twilio
+ *
+ * @throws When Twilio is not configured or rejects the message
+ */
+async function sendSms(to: string, body: string): Promise<void> {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const from = Deno.env.get('TWILIO_FROM');
+  if (!accountSid || !authToken || !from) {
+    throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM not set');
+  }
+
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ To: to, From: from, Body: body }),
+  });
+  if (!response.ok) {
+    throw new Error(`Twilio HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    return jsonResponse({ error: 'SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set' }, 500);
+  }
+
+  // Only the cron job (service role) may run the check
+  const token = req.headers.get('authorization')?.replace('Bearer ', '');
+  if (token !== serviceRoleKey) {
+    return jsonResponse({ error: 'Service role key required' }, 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const now = new Date();
+    const deadline = new Date(now.getTime() - OVERDUE_GRACE_MINUTES * 60_000).toISOString();
+
+    // 1. Late plans become overdue, unless they checked in after the return
+    const { data: candidates, error: lateError } = await supabase
+      .from('trip_plans')
+      .select('*')
+      .in('status', ['planned', 'active'])
+      .lt('expected_return', deadline);
+    if (lateError) throw lateError;
+
+    const late = ((candidates ?? []) as TripPlanRow[]).filter((plan) => isOverdue(plan, now)).map((plan) => plan.id);
+    if (late.length > 0) {
+      // Filters repeated so a check-in since the select is not overwritten
+      const { error } = await supabase
+        .from('trip_plans')
+        .update({ status: 'overdue', overdue_at: now.toISOString(), updated_at: now.toISOString() })
+        .in('id', late)
+        .in('status', ['planned', 'active'])
+        .lt('expected_return', deadline);
+      if (error) throw error;
+    }
+
+    // 2. Overdue plans not escalated since they turned overdue
+    const { data: overdue, error: overdueError } = await supabase
+      .from('trip_plans')
+      .select('*')
+      .eq('status', 'overdue');
+    if (overdueError) throw overdueError;
+
+    let escalated = 0;
+    const failed: string[] = [];
+    for (const plan of (overdue ?? []) as TripPlanRow[]) {
+      if (!needsEscalation(plan)) continue;
+
+      try {
+        await sendSms(plan.emergency_contact_phone, overdueMessage(plan));
+        await supabase
+          .from('trip_plans')
+          .update({ escalated_at: new Date().toISOString(), escalation_error: null })
+          .eq('id', plan.id);
+        escalated++;
+      } catch (error) {
+        // Retried on the next run
+        console.error(`Escalation of trip ${plan.id} failed:`, error);
+        await supabase.from('trip_plans').update({ escalation_error: error.message }).eq('id', plan.id);
+        failed.push(plan.id);
+      }
+    }
+
+    // 3. All-clear for escalated plans that checked in or returned
+    const { data: cleared, error: clearedError } = await supabase
+      .from('trip_plans')
+      .select('*')
+      .in('status', ['active', 'returned'])
+      .not('escalated_at', 'is', null);
+    if (clearedError) throw clearedError;
+
+    let allClear = 0;
+    for (const plan of (cleared ?? []) as TripPlanRow[]) {
+      if (!needsAllClear(plan)) continue;
+
+      try {
+        await sendSms(plan.emergency_contact_phone, allClearMessage(plan));
+        await supabase.from('trip_plans').update({ all_clear_at: new Date().toISOString() }).eq('id', plan.id);
+        allClear++;
+      } catch (error) {
+        console.error(`All-clear for trip ${plan.id} failed:`, error);
+      }
+    }
+
+    console.log(`Trip check: ${late.length} overdue, ${escalated} escalated, ${allClear} all-clear, ${failed.length} failed`);
+
+    return jsonResponse({
+      success: true,
+      overdue: late.length,
+      escalated,
+      allClear,
+      failed,
+    });
+  } catch (error) {
+    console.error('Trip overdue check error:', error);
+    return jsonResponse({ error: 'Trip overdue check failed', details: error.message }, 500);
+  }
+});
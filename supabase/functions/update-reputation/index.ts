@@ -0,0 +1,428 @@
+/**
+ * Update Reputation Edge Function
+ *
+ * Runs from a cron job with the service role key. Rebuilds every
+ * contributor's reputation from their community reports of the last
+ * 90 days. The score and report count go on profiles (public, they weight
+ * reports in every client); the factors behind them go to
+ * reputation_factors, readable only by the contributor:
+ * - confirmations vs disputes other users gave the reports
+ * - agreement with later reports of the same type at the same location
+ * - whether the reported surface fits the Open-Meteo weather before it
+ * - reports removed by an admin (each costs a fixed penalty)
+ *
+ * Rates are smoothed towards 50%, so a few reports move a newcomer
+ * only a little away from the neutral 50.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const CONFIG = {
+  /** Reports older than this no longer count */
+  WINDOW_DAYS: 90,
+  /** A later report within this many hours is compared with the earlier one */
+  AGREEMENT_HOURS: 48,
+  /** Pseudo-observations at 50% added to every rate */
+  PRIOR: 3,
+  /** Component weights of the score */
+  CONFIRM_WEIGHT: 0.4,
+  AGREEMENT_WEIGHT: 0.35,
+  WEATHER_WEIGHT: 0.25,
+  /** Points per report removed by an admin, and their cap */
+  REMOVAL_PENALTY: 15,
+  MAX_REMOVAL_PENALTY: 45,
+  /** Weather grid cell (degrees) shared by nearby reports */
+  GRID: 0.1,
+  /** Grid cells per Open-Meteo request (90 days of hourly data each) */
+  WEATHER_BATCH: 20,
+  /** Rows per select; PostgREST returns at most 1000 per request */
+  PAGE_SIZE: 1000,
+};
+
+interface ReportRow {
+  id: string;
+  user_id: string;
+  type: 'ascent' | 'descent';
+  location: string;
+  coordinates: { lat: number; lng: number } | null;
+  track_status: string | null;
+  snow_condition: string | null;
+  created_at: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+}
+
+/** Stored in reputation_factors.factors */
+interface ReputationFactors {
+  reports: number;
+  confirms: number;
+  disputes: number;
+  agreements: number;
+  disagreements: number;
+  weatherChecked: number;
+  weatherConsistent: number;
+  removed: number;
+}
+
+interface HourlySeries {
+  time: number[];
+  temperature: number[];
+  snowfall: number[];
+  windSpeed: number[];
+}
+
+/** Weather before a report */
+interface ReportWeather {
+  snowfall24h: number;
+  snowfall72h: number;
+  maxTemp24h: number;
+  maxWind72h: number;
+}
+
+function emptyFactors(): ReputationFactors {
+  return {
+    reports: 0,
+    confirms: 0,
+    disputes: 0,
+    agreements: 0,
+    disagreements: 0,
+    weatherChecked: 0,
+    weatherConsistent: 0,
+    removed: 0,
+  };
+}
+
+/**
+ * Read every row of a select, one page at a time
+ *
+ * The query needs a stable order, or rows can move between pages.
+ */
+async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += CONFIG.PAGE_SIZE) {
+    const { data, error } = await page(from, from + CONFIG.PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < CONFIG.PAGE_SIZE) return rows;
+  }
+}
+
+function gridKey(coordinates: { lat: number; lng: number }): string {
+  const snap = (value: number) => (Math.round(value / CONFIG.GRID) * CONFIG.GRID).toFixed(2);
+  return `${snap(coordinates.lat)},${snap(coordinates.lng)}`;
+}
+
+/**
+ * Hourly history for grid cells from one Open-Meteo request
+ */
+async function fetchWeatherBatch(cells: string[]): Promise<Map<string, HourlySeries>> {
+  const series = new Map<string, HourlySeries>();
+
+  const params = new URLSearchParams({
+    latitude: cells.map((cell) => cell.split(',')[0]).join(','),
+    longitude: cells.map((cell) => cell.split(',')[1]).join(','),
+    hourly: 'temperature_2m,snowfall,wind_speed_10m',
+    timezone: 'GMT',
+    past_days: CONFIG.WINDOW_DAYS.toString(),
+    forecast_days: '1',
+  });
+  const response = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`);
+  if (!response.ok) {
+    throw new Error(`Open-Meteo HTTP ${response.status}`);
+  }
+
+  // A single location comes back as an object, several as an array
+  const data = await response.json();
+  const locations = Array.isArray(data) ? data : [data];
+  locations.forEach((location, i) => {
+    const hourly = location.hourly;
+    if (!hourly?.time) return;
+    series.set(cells[i], {
+      time: hourly.time.map((time: string) => new Date(`${time}Z`).getTime()),
+      temperature: hourly.temperature_2m ?? [],
+      snowfall: hourly.snowfall ?? [],
+      windSpeed: hourly.wind_speed_10m ?? [],
+    });
+  });
+  return series;
+}
+
+/**
+ * Hourly history for each grid cell, WEATHER_BATCH cells per request so
+ * the URL and the response stay small. A failed batch only leaves its
+ * cells unchecked; the first error is returned for the run summary.
+ */
+async function fetchWeather(cells: string[]): Promise<{ series: Map<string, HourlySeries>; error: string | null }> {
+  const series = new Map<string, HourlySeries>();
+  let error: string | null = null;
+
+  for (let i = 0; i < cells.length; i += CONFIG.WEATHER_BATCH) {
+    const batch = cells.slice(i, i + CONFIG.WEATHER_BATCH);
+    try {
+      for (const [cell, history] of await fetchWeatherBatch(batch)) series.set(cell, history);
+    } catch (batchError) {
+      console.error(`Weather batch ${i / CONFIG.WEATHER_BATCH + 1} failed:`, batchError);
+      error ??= batchError.message;
+    }
+  }
+  return { series, error };
+}
+
+function weatherBefore(series: HourlySeries, at: number): ReportWeather | undefined {
+  const weather: ReportWeather = { snowfall24h: 0, snowfall72h: 0, maxTemp24h: -Infinity, maxWind72h: 0 };
+  let hours = 0;
+
+  series.time.forEach((time, i) => {
+    const hoursBefore = (at - time) / 3_600_000;
+    if (hoursBefore < 0 || hoursBefore >= 72) return;
+    hours++;
+    weather.snowfall72h += series.snowfall[i] ?? 0;
+    weather.maxWind72h = Math.max(weather.maxWind72h, series.windSpeed[i] ?? 0);
+    if (hoursBefore < 24) {
+      weather.snowfall24h += series.snowfall[i] ?? 0;
+      weather.maxTemp24h = Math.max(weather.maxTemp24h, series.temperature[i] ?? -Infinity);
+    }
+  });
+
+  return hours >= 24 ? weather : undefined;
+}
+
+/**
+ * Does the reported surface fit the weather? undefined when no rule applies
+ */
+function fitsWeather(report: ReportRow, weather: ReportWeather): boolean | undefined {
+  if (report.type === 'descent') {
+    switch (report.snow_condition) {
+      case 'puch':
+        // Powder needs recent snow or cold
+        return weather.snowfall72h >= 1 || weather.maxTemp24h <= 2;
+      case 'mokry':
+      case 'firn':
+        // Wet snow and corn need a thaw
+        return weather.maxTemp24h > -3;
+      case 'szren':
+      case 'beton':
+        // A crust is buried under heavy fresh snow
+        return weather.snowfall24h < 15;
+      default:
+        return undefined;
+    }
+  }
+
+  switch (report.track_status) {
+    case 'zasypane':
+      // Tracks get covered by snowfall or drifting
+      return weather.snowfall72h >= 1 || weather.maxWind72h >= 30;
+    case 'lod':
+      return weather.snowfall24h < 15;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Rate smoothed towards 50%
+ */
+function smoothedRate(positive: number, total: number): number {
+  return (positive + CONFIG.PRIOR / 2) / (total + CONFIG.PRIOR);
+}
+
+function reputationScore(factors: ReputationFactors): number {
+  const base =
+    CONFIG.CONFIRM_WEIGHT * smoothedRate(factors.confirms, factors.confirms + factors.disputes) +
+    CONFIG.AGREEMENT_WEIGHT * smoothedRate(factors.agreements, factors.agreements + factors.disagreements) +
+    CONFIG.WEATHER_WEIGHT * smoothedRate(factors.weatherConsistent, factors.weatherChecked);
+  const removalPenalty = Math.min(factors.removed * CONFIG.REMOVAL_PENALTY, CONFIG.MAX_REMOVAL_PENALTY);
+  return Math.max(0, Math.min(100, Math.round(base * 100 - removalPenalty)));
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    return jsonResponse({ error: 'SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set' }, 500);
+  }
+
+  // Only the cron job (service role) may rebuild reputations
+  const token = req.headers.get('authorization')?.replace('Bearer ', '');
+  if (token !== serviceRoleKey) {
+    return jsonResponse({ error: 'Service role key required' }, 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const since = new Date(Date.now() - CONFIG.WINDOW_DAYS * 86_400_000).toISOString();
+
+    // 1. Reports of the window, removed ones included
+    const reports = await selectAll<ReportRow>((from, to) =>
+      supabase
+        .from('reports')
+        .select('id, user_id, type, location, coordinates, track_status, snow_condition, created_at, deleted_at, deleted_by')
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+
+    const factorsByUser = new Map<string, ReputationFactors>();
+    const factorsFor = (userId: string) => {
+      let factors = factorsByUser.get(userId);
+      if (!factors) {
+        factors = emptyFactors();
+        factorsByUser.set(userId, factors);
+      }
+      return factors;
+    };
+
+    const live: ReportRow[] = [];
+    for (const report of reports) {
+      const factors = factorsFor(report.user_id);
+      if (report.deleted_at) {
+        // Withdrawn by the author is not a moderation action
+        if (report.deleted_by && report.deleted_by !== report.user_id) factors.removed++;
+        continue;
+      }
+      factors.reports++;
+      live.push(report);
+    }
+    const liveById = new Map(live.map((report) => [report.id, report]));
+
+    // 2. Votes other users gave the reports
+    const votes = await selectAll<{ report_id: string; vote: 'confirm' | 'dispute' }>((from, to) =>
+      supabase
+        .from('report_votes')
+        .select('report_id, vote')
+        .gte('created_at', since)
+        .order('report_id', { ascending: true })
+        .order('user_id', { ascending: true })
+        .range(from, to)
+    );
+
+    for (const vote of votes) {
+      const report = liveById.get(vote.report_id);
+      if (!report) continue;
+      const factors = factorsFor(report.user_id);
+      if (vote.vote === 'confirm') factors.confirms++;
+      else factors.disputes++;
+    }
+
+    // 3. Agreement with later reports (sorted by time) from other users
+    live.forEach((report, i) => {
+      const reportTime = new Date(report.created_at).getTime();
+      const location = report.location.toLowerCase();
+
+      for (const later of live.slice(i + 1)) {
+        const hoursLater = (new Date(later.created_at).getTime() - reportTime) / 3_600_000;
+        if (hoursLater > CONFIG.AGREEMENT_HOURS) break;
+        if (later.user_id === report.user_id || later.type !== report.type) continue;
+        if (later.location.toLowerCase() !== location) continue;
+
+        const agrees =
+          report.type === 'descent'
+            ? later.snow_condition === report.snow_condition
+            : later.track_status === report.track_status;
+        const factors = factorsFor(report.user_id);
+        if (agrees) factors.agreements++;
+        else factors.disagreements++;
+      }
+    });
+
+    // 4. Weather fit for reports with coordinates; scores are still rebuilt
+    // from the other components for cells without weather
+    const located = live.filter((report) => report.coordinates);
+    const { series: weather, error: weatherError } = await fetchWeather([
+      ...new Set(located.map((report) => gridKey(report.coordinates!))),
+    ]);
+    for (const report of located) {
+      const series = weather.get(gridKey(report.coordinates!));
+      const before = series && weatherBefore(series, new Date(report.created_at).getTime());
+      if (!before) continue;
+      const fits = fitsWeather(report, before);
+      if (fits === undefined) continue;
+
+      const factors = factorsFor(report.user_id);
+      factors.weatherChecked++;
+      if (fits) factors.weatherConsistent++;
+    }
+
+    // 5. Contributors scored before but without reports in the window go back to neutral
+    const scored = await selectAll<{ user_id: string }>((from, to) =>
+      supabase
+        .from('reputation_factors')
+        .select('user_id')
+        .order('user_id', { ascending: true })
+        .range(from, to)
+    );
+    for (const row of scored) factorsFor(row.user_id);
+
+    const updatedAt = new Date().toISOString();
+    let updated = 0;
+    const active: { user_id: string; factors: ReputationFactors; updated_at: string }[] = [];
+    const neutral: string[] = [];
+    for (const [userId, factors] of factorsByUser) {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          reputation: reputationScore(factors),
+          reputation_reports: factors.reports,
+          reputation_updated_at: updatedAt,
+        })
+        .eq('id', userId);
+      if (error) {
+        console.error(`Reputation update for ${userId} failed:`, error);
+        continue;
+      }
+      updated++;
+      if (factors.reports + factors.removed > 0) {
+        active.push({ user_id: userId, factors, updated_at: updatedAt });
+      } else {
+        neutral.push(userId);
+      }
+    }
+
+    if (active.length > 0) {
+      const { error } = await supabase.from('reputation_factors').upsert(active);
+      if (error) throw error;
+    }
+    if (neutral.length > 0) {
+      const { error } = await supabase.from('reputation_factors').delete().in('user_id', neutral);
+      if (error) throw error;
+    }
+
+    console.log(`Reputation: ${reports.length} reports, ${updated}/${factorsByUser.size} profiles updated`);
+
+    return jsonResponse({
+      success: true,
+      reports: reports.length,
+      profiles: updated,
+      weatherError,
+    });
+  } catch (error) {
+    console.error('Reputation update error:', error);
+    return jsonResponse({ error: 'Reputation update failed', details: error.message }, 500);
+  }
+});
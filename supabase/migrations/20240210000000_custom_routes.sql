@@ -0,0 +1,40 @@
+-- Custom Routes
+-- Personal routes imported from GPX/KML tracks
+
+CREATE TABLE IF NOT EXISTS custom_routes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    region TEXT NOT NULL,
+    difficulty TEXT NOT NULL CHECK (difficulty IN ('easy', 'moderate', 'difficult', 'expert')),
+    start_point JSONB NOT NULL, -- {lat, lng, altitude}
+    summit JSONB NOT NULL, -- {lat, lng, altitude}
+    elevation INTEGER NOT NULL,
+    distance NUMERIC(6, 1) NOT NULL,
+    aspects TEXT[] NOT NULL DEFAULT '{}',
+    duration NUMERIC(4, 1) NOT NULL,
+    description TEXT,
+    track JSONB NOT NULL, -- [{lat, lng, altitude}], simplified to <= 500 points
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Soft delete support
+    deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_routes_user_id ON custom_routes(user_id);
+
+-- RLS: routes are personal
+ALTER TABLE custom_routes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own routes"
+    ON custom_routes FOR SELECT
+    USING (auth.uid() = user_id AND deleted_at IS NULL);
+
+CREATE POLICY "Users can create own routes"
+    ON custom_routes FOR INSERT
+    WITH CHECK (auth.uid() IS NOT NULL AND auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own routes"
+    ON custom_routes FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- Custom Routes: ATES class
+-- Avalanche Terrain Exposure Scale class chosen on import
+
+ALTER TABLE custom_routes
+    ADD COLUMN IF NOT EXISTS ates TEXT NOT NULL DEFAULT 'simple'
+    CHECK (ates IN ('simple', 'challenging', 'complex'));
@@ -0,0 +1,31 @@
+-- Avalanche Bulletin Archive
+-- One row per provider and bulletin day, written by the topr-archive function
+
+CREATE TABLE IF NOT EXISTS avalanche_bulletins (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider TEXT NOT NULL DEFAULT 'topr' CHECK (provider IN ('topr', 'slp', 'hs')),
+    bulletin_date DATE NOT NULL, -- day the bulletin is valid for
+    report_id TEXT, -- NULL for days backfilled from the page history
+    level SMALLINT NOT NULL CHECK (level BETWEEN 1 AND 5),
+    trend TEXT CHECK (trend IN ('increasing', 'stable', 'decreasing')),
+    problem_aspects TEXT[] NOT NULL DEFAULT '{}',
+    altitude_from INTEGER,
+    altitude_to INTEGER,
+    problems TEXT[] NOT NULL DEFAULT '{}',
+    issued_at TIMESTAMPTZ,
+    valid_until TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (provider, bulletin_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_avalanche_bulletins_date
+    ON avalanche_bulletins(provider, bulletin_date DESC);
+
+-- RLS: public history, writes only through the service role
+ALTER TABLE avalanche_bulletins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view bulletins"
+    ON avalanche_bulletins FOR SELECT
+    USING (true);
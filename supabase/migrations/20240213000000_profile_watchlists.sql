@@ -0,0 +1,26 @@
+-- Profile Watchlists
+-- Starred routes/locations and alert rules, one row per user.
+-- Kept out of profiles because profiles are readable by everyone.
+
+CREATE TABLE IF NOT EXISTS profile_watchlists (
+    user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+    items JSONB NOT NULL DEFAULT '[]', -- [{kind, id, name, region, addedAt}]
+    rules JSONB NOT NULL DEFAULT '[]', -- [{id, target, targetName, condition, enabled, createdAt, lastTriggered}]
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- RLS: watchlists are private
+ALTER TABLE profile_watchlists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own watchlist"
+    ON profile_watchlists FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own watchlist"
+    ON profile_watchlists FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own watchlist"
+    ON profile_watchlists FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
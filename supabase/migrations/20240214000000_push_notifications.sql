@@ -0,0 +1,164 @@
+-- Web Push Notifications
+-- Browser push subscriptions with per-region and per-type opt-ins, and an
+-- outbox of events filled by triggers and delivered by the send-push function
+
+-- ============================================
+-- PUSH SUBSCRIPTIONS
+-- ============================================
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL, -- browser public key (base64url)
+    auth TEXT NOT NULL, -- browser auth secret (base64url)
+    regions TEXT[] NOT NULL DEFAULT '{}',
+    types TEXT[] NOT NULL DEFAULT '{bulletin,verified_report,community_report}'
+        CHECK (types <@ ARRAY['bulletin', 'verified_report', 'community_report']),
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+-- RLS: subscriptions are personal
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+    ON push_subscriptions FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own push subscriptions"
+    ON push_subscriptions FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions"
+    ON push_subscriptions FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions"
+    ON push_subscriptions FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================
+-- PUSH EVENTS (outbox)
+-- ============================================
+CREATE TABLE IF NOT EXISTS push_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    type TEXT NOT NULL CHECK (type IN ('bulletin', 'verified_report', 'community_report')),
+    region TEXT NOT NULL,
+    location TEXT, -- report location, NULL for bulletins
+    author_id UUID, -- author of a community report (not notified about it)
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    sent_at TIMESTAMPTZ,
+    recipients INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_events_pending
+    ON push_events(created_at)
+    WHERE sent_at IS NULL;
+
+-- RLS without policies: only the service role reads and writes the outbox
+ALTER TABLE push_events ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+-- New bulletin with a level different from the previous day (or a same-day update changing it)
+CREATE OR REPLACE FUNCTION public.queue_bulletin_push()
+RETURNS TRIGGER AS $$
+DECLARE
+    previous_level SMALLINT;
+    bulletin_region TEXT := CASE NEW.provider WHEN 'hs' THEN 'Karkonosze' ELSE 'Tatry' END;
+BEGIN
+    -- Days backfilled from the bulletin page history are not new bulletins
+    IF NEW.report_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        previous_level := OLD.level;
+    ELSE
+        SELECT level INTO previous_level
+        FROM avalanche_bulletins
+        WHERE provider = NEW.provider AND bulletin_date < NEW.bulletin_date
+        ORDER BY bulletin_date DESC
+        LIMIT 1;
+    END IF;
+
+    IF previous_level IS NULL OR previous_level = NEW.level THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO push_events (type, region, title, body)
+    VALUES (
+        'bulletin',
+        bulletin_region,
+        format('%s: stopień zagrożenia %s', bulletin_region, NEW.level),
+        format('Nowy komunikat lawinowy na %s - stopień %s (poprzednio %s)',
+            to_char(NEW.bulletin_date, 'DD.MM'), NEW.level, previous_level)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_bulletin_level_change
+    AFTER INSERT OR UPDATE OF level ON avalanche_bulletins
+    FOR EACH ROW EXECUTE FUNCTION public.queue_bulletin_push();
+
+-- Verified report once it is approved (automatically or by an admin)
+CREATE OR REPLACE FUNCTION public.queue_admin_report_push()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.deleted_at IS NOT NULL OR NEW.review_status NOT IN ('approved', 'auto_approved') THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'UPDATE' AND OLD.review_status IN ('approved', 'auto_approved') THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO push_events (type, region, location, title, body)
+    VALUES (
+        'verified_report',
+        NEW.region,
+        NEW.location,
+        format('%s: zweryfikowany raport', NEW.location),
+        left(coalesce(NEW.snow_conditions, 'Nowy raport o warunkach'), 140)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_admin_report_approved
+    AFTER INSERT OR UPDATE OF review_status ON admin_reports
+    FOR EACH ROW EXECUTE FUNCTION public.queue_admin_report_push();
+
+-- Community report
+CREATE OR REPLACE FUNCTION public.queue_report_push()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO push_events (type, region, location, author_id, title, body)
+    VALUES (
+        'community_report',
+        NEW.region,
+        NEW.location,
+        NEW.user_id,
+        format('%s: nowy raport', NEW.location),
+        CASE NEW.type
+            WHEN 'descent' THEN format('Zjazd - %s, ocena %s/5',
+                coalesce(NEW.snow_condition, '?'), coalesce(NEW.quality_rating::TEXT, '?'))
+            ELSE format('Podejście - trasa %s', coalesce(NEW.track_status, '?'))
+        END
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_report_created
+    AFTER INSERT ON reports
+    FOR EACH ROW EXECUTE FUNCTION public.queue_report_push();
@@ -0,0 +1,57 @@
+-- Trip Plans
+-- Planned tours with expected return time and an emergency contact.
+-- The trip-overdue function marks late plans overdue and texts the contact.
+
+CREATE TABLE IF NOT EXISTS trip_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(), -- generated by the client so plans can be filed offline
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    route_id TEXT NOT NULL,
+    route_name TEXT NOT NULL,
+    region TEXT NOT NULL,
+    party TEXT[] NOT NULL DEFAULT '{}', -- member names
+    planned_start TIMESTAMPTZ NOT NULL,
+    turnaround_at TIMESTAMPTZ NOT NULL,
+    expected_return TIMESTAMPTZ NOT NULL,
+    emergency_contact_name TEXT NOT NULL,
+    emergency_contact_phone TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'planned'
+        CHECK (status IN ('planned', 'active', 'overdue', 'returned', 'cancelled')),
+    check_ins JSONB NOT NULL DEFAULT '[]', -- [{ at, by, note, position: { lat, lng, accuracy } }]
+    last_position JSONB, -- newest check-in position { lat, lng, accuracy, at }
+
+    -- Set by trip-overdue only
+    overdue_at TIMESTAMPTZ,
+    escalated_at TIMESTAMPTZ,
+    all_clear_at TIMESTAMPTZ,
+    escalation_error TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CHECK (planned_start < expected_return)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_plans_user_id ON trip_plans(user_id);
+CREATE INDEX IF NOT EXISTS idx_trip_plans_open
+    ON trip_plans(expected_return)
+    WHERE status IN ('planned', 'active', 'overdue');
+
+-- RLS: plans are personal (the emergency contact is reached by SMS, not by login)
+ALTER TABLE trip_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own trip plans"
+    ON trip_plans FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own trip plans"
+    ON trip_plans FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own trip plans"
+    ON trip_plans FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own trip plans"
+    ON trip_plans FOR DELETE
+    USING (auth.uid() = user_id);
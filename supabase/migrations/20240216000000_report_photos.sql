@@ -0,0 +1,36 @@
+-- Report Photos
+-- Photos attached to community reports. Files live in a public storage
+-- bucket, one folder per user; the report row keeps their metadata.
+
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS photos JSONB NOT NULL DEFAULT '[]' -- [{path, thumbPath, width, height, takenAt}]
+        CHECK (jsonb_typeof(photos) = 'array' AND jsonb_array_length(photos) <= 4);
+
+-- ============================================
+-- STORAGE BUCKET
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('report-photos', 'report-photos', true, 2097152, ARRAY['image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Public bucket: files are served by URL, listing stays policy-bound
+CREATE POLICY "Anyone can view report photos"
+    ON storage.objects FOR SELECT
+    USING (bucket_id = 'report-photos');
+
+-- Uploads go to the user's own folder ({user_id}/{photo_id}.jpg)
+CREATE POLICY "Users can upload own report photos"
+    ON storage.objects FOR INSERT
+    TO authenticated
+    WITH CHECK (bucket_id = 'report-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Needed for upsert when a queued upload is retried
+CREATE POLICY "Users can update own report photos"
+    ON storage.objects FOR UPDATE
+    TO authenticated
+    USING (bucket_id = 'report-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own report photos"
+    ON storage.objects FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'report-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
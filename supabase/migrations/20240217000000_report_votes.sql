@@ -0,0 +1,46 @@
+-- Report Votes
+-- "Still accurate?" confirmations and disputes on community reports.
+-- One vote per user and report; changing your mind updates the row.
+
+CREATE TABLE IF NOT EXISTS report_votes (
+    report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    vote TEXT NOT NULL CHECK (vote IN ('confirm', 'dispute')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (report_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_votes_user_id ON report_votes(user_id);
+
+-- RLS: tallies are public, votes are written by their owner only
+ALTER TABLE report_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view report votes"
+    ON report_votes FOR SELECT
+    USING (true);
+
+-- No votes on your own or deleted reports
+CREATE POLICY "Users can vote on others' reports"
+    ON report_votes FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM reports
+            WHERE reports.id = report_id
+              AND reports.user_id <> auth.uid()
+              AND reports.deleted_at IS NULL
+        )
+    );
+
+CREATE POLICY "Users can change own votes"
+    ON report_votes FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can withdraw own votes"
+    ON report_votes FOR DELETE
+    TO authenticated
+    USING (auth.uid() = user_id);
@@ -0,0 +1,24 @@
+-- Contributor Reputation
+-- Per-user trust score on profiles, rebuilt by the update-reputation
+-- function from votes, agreement with later reports, weather fit and
+-- reports removed by admins. 50 is the neutral newcomer score.
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS reputation SMALLINT NOT NULL DEFAULT 50 CHECK (reputation BETWEEN 0 AND 100),
+    ADD COLUMN IF NOT EXISTS reputation_factors JSONB, -- {reports, confirms, disputes, agreements, disagreements, weatherChecked, weatherConsistent, removed}
+    ADD COLUMN IF NOT EXISTS reputation_updated_at TIMESTAMPTZ;
+
+-- Reputation is written by the service role only: users keep editing
+-- their name and avatar, but the reputation columns must stay unchanged
+DROP POLICY IF EXISTS "Users can update own profile except admin flag" ON profiles;
+
+CREATE POLICY "Users can update own profile except admin flag and reputation"
+    ON profiles FOR UPDATE
+    USING (auth.uid() = id)
+    WITH CHECK (
+        auth.uid() = id
+        AND is_admin = (SELECT is_admin FROM profiles WHERE id = auth.uid())
+        AND reputation = (SELECT reputation FROM profiles WHERE id = auth.uid())
+        AND reputation_factors IS NOT DISTINCT FROM (SELECT reputation_factors FROM profiles WHERE id = auth.uid())
+        AND reputation_updated_at IS NOT DISTINCT FROM (SELECT reputation_updated_at FROM profiles WHERE id = auth.uid())
+    );
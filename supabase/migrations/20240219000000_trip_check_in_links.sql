@@ -0,0 +1,9 @@
+-- Trip Check-in Links
+-- Party members check in through a link the plan owner shares; the
+-- trip-check-in function finds the plan by this token with the service role,
+-- so members need no account and RLS on trip_plans stays owner-only.
+
+ALTER TABLE trip_plans
+    ADD COLUMN IF NOT EXISTS check_in_token UUID NOT NULL DEFAULT uuid_generate_v4();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_plans_check_in_token ON trip_plans(check_in_token);
@@ -0,0 +1,40 @@
+-- Report Votes Integrity
+-- updated_at dates a report's last confirmation (relevance age), so it is
+-- set by the database instead of the client, and only when the vote changes.
+-- Changing a vote gets the same checks as casting it.
+
+CREATE OR REPLACE FUNCTION public.set_report_vote_times()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.created_at := NOW();
+        NEW.updated_at := NOW();
+    ELSE
+        NEW.created_at := OLD.created_at;
+        -- Re-sending the same vote must not re-date the confirmation
+        NEW.updated_at := CASE WHEN NEW.vote IS DISTINCT FROM OLD.vote THEN NOW() ELSE OLD.updated_at END;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_report_vote_write ON report_votes;
+CREATE TRIGGER on_report_vote_write
+    BEFORE INSERT OR UPDATE ON report_votes
+    FOR EACH ROW EXECUTE FUNCTION public.set_report_vote_times();
+
+-- An update could otherwise move a vote onto your own or a deleted report
+DROP POLICY IF EXISTS "Users can change own votes" ON report_votes;
+CREATE POLICY "Users can change own votes"
+    ON report_votes FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM reports
+            WHERE reports.id = report_id
+              AND reports.user_id <> auth.uid()
+              AND reports.deleted_at IS NULL
+        )
+    );
@@ -0,0 +1,47 @@
+-- Private Reputation Factors
+-- The score and its report count stay on profiles, which are public: every
+-- client needs them to weight reports and show the trust badge. The inputs
+-- behind the score (disputes, contradicted reports, admin removals) move to
+-- their own table that only the contributor can read.
+
+CREATE TABLE IF NOT EXISTS reputation_factors (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    factors JSONB NOT NULL, -- {reports, confirms, disputes, agreements, disagreements, weatherChecked, weatherConsistent, removed}
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- RLS: written by update-reputation (service role) only
+ALTER TABLE reputation_factors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reputation factors"
+    ON reputation_factors FOR SELECT
+    USING (auth.uid() = user_id);
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS reputation_reports INTEGER NOT NULL DEFAULT 0;
+
+INSERT INTO reputation_factors (user_id, factors, updated_at)
+SELECT id, reputation_factors, COALESCE(reputation_updated_at, NOW())
+FROM profiles
+WHERE reputation_factors IS NOT NULL
+ON CONFLICT (user_id) DO NOTHING;
+
+UPDATE profiles
+SET reputation_reports = COALESCE((reputation_factors->>'reports')::INTEGER, 0)
+WHERE reputation_factors IS NOT NULL;
+
+-- The update policy refers to the old column, so it goes first
+DROP POLICY IF EXISTS "Users can update own profile except admin flag and reputation" ON profiles;
+
+ALTER TABLE profiles DROP COLUMN IF EXISTS reputation_factors;
+
+CREATE POLICY "Users can update own profile except admin flag and reputation"
+    ON profiles FOR UPDATE
+    USING (auth.uid() = id)
+    WITH CHECK (
+        auth.uid() = id
+        AND is_admin = (SELECT is_admin FROM profiles WHERE id = auth.uid())
+        AND reputation = (SELECT reputation FROM profiles WHERE id = auth.uid())
+        AND reputation_reports = (SELECT reputation_reports FROM profiles WHERE id = auth.uid())
+        AND reputation_updated_at IS NOT DISTINCT FROM (SELECT reputation_updated_at FROM profiles WHERE id = auth.uid())
+    );
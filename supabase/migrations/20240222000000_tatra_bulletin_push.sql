@@ -0,0 +1,41 @@
+-- Tatra Bulletin Push
+-- Only topr-archive writes avalanche_bulletins, so level-change pushes cover
+-- the Tatras (TOPR) alone. The region no longer depends on the provider:
+-- an SLP or HS row would otherwise compare against the wrong history or
+-- announce a Karkonosze change nobody archives.
+
+CREATE OR REPLACE FUNCTION public.queue_bulletin_push()
+RETURNS TRIGGER AS $$
+DECLARE
+    previous_level SMALLINT;
+BEGIN
+    -- Days backfilled from the bulletin page history are not new bulletins
+    IF NEW.provider <> 'topr' OR NEW.report_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        previous_level := OLD.level;
+    ELSE
+        SELECT level INTO previous_level
+        FROM avalanche_bulletins
+        WHERE provider = NEW.provider AND bulletin_date < NEW.bulletin_date
+        ORDER BY bulletin_date DESC
+        LIMIT 1;
+    END IF;
+
+    IF previous_level IS NULL OR previous_level = NEW.level THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO push_events (type, region, title, body)
+    VALUES (
+        'bulletin',
+        'Tatry',
+        format('Tatry: stopień zagrożenia %s', NEW.level),
+        format('Nowy komunikat lawinowy TOPR na %s - stopień %s (poprzednio %s)',
+            to_char(NEW.bulletin_date, 'DD.MM'), NEW.level, previous_level)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,33 @@
+-- Private Report Votes
+-- Who confirmed or disputed a report is not public: each user reads only
+-- their own votes. Clients get the tallies from report_vote_counts, which
+-- returns counts and the last confirmation per report without voter ids.
+
+DROP POLICY IF EXISTS "Anyone can view report votes" ON report_votes;
+
+CREATE POLICY "Users can view own votes"
+    ON report_votes FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+-- Runs as the owner to count past the policy above; deleted reports get no tally
+CREATE OR REPLACE FUNCTION public.report_vote_counts(p_report_ids UUID[])
+RETURNS TABLE (
+    report_id UUID,
+    confirms INTEGER,
+    disputes INTEGER,
+    last_confirmed_at TIMESTAMPTZ
+) AS $$
+    SELECT
+        v.report_id,
+        COUNT(*) FILTER (WHERE v.vote = 'confirm')::INTEGER,
+        COUNT(*) FILTER (WHERE v.vote = 'dispute')::INTEGER,
+        MAX(v.updated_at) FILTER (WHERE v.vote = 'confirm')
+    FROM report_votes v
+    JOIN reports r ON r.id = v.report_id
+    WHERE v.report_id = ANY(p_report_ids)
+      AND r.deleted_at IS NULL
+    GROUP BY v.report_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.report_vote_counts(UUID[]) TO anon, authenticated;
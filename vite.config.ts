@@ -49,6 +49,8 @@ export default defineConfig({
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+        // Push and notification click handlers
+        importScripts: ['push-sw.js'],
         runtimeCaching: [
           {
             // Cache Open-Meteo API responses